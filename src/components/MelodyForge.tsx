@@ -9,13 +9,15 @@ import { SettingsScreen } from '@/components/screens/SettingsScreen';
 import { AnalyticsScreen } from '@/components/screens/AnalyticsScreen';
 import { MediaPlayer } from '@/components/media/MediaPlayer';
 import { OfflineIndicator } from '@/components/offline/OfflineIndicator';
+import { FileAccessBanner } from '@/components/library/FileAccessBanner';
 import { InstallPrompt } from '@/components/pwa/InstallPrompt';
 import { GestureNavigation } from '@/components/enhanced/GestureNavigation';
 import { useMediaLibrary } from '@/hooks/useMediaLibrary';
+import { cn } from '@/lib/utils';
 
 export const MelodyForge: React.FC = () => {
   const [activeTab, setActiveTab] = useState('home');
-  const { currentTrack, playNext, playPrevious } = useMediaLibrary();
+  const { currentTrack, playbackContext, shuffleMode, setShuffleMode, playNext, playPrevious, peekNext } = useMediaLibrary();
 
   const handleSwipeLeft = () => {
     // Navigate to next tab
@@ -62,6 +64,9 @@ export const MelodyForge: React.FC = () => {
     >
       {/* Offline Indicator */}
       <OfflineIndicator />
+
+      {/* Stored files the browser needs permission for again */}
+      <FileAccessBanner />
       
       {/* PWA Install Prompt */}
       <InstallPrompt />
@@ -71,13 +76,17 @@ export const MelodyForge: React.FC = () => {
         {renderScreen()}
       </main>
 
-      {/* Mini Player */}
-      {currentTrack && activeTab !== 'player' && (
-        <div className="fixed bottom-16 left-0 right-0 z-40">
+      {/* Mini Player - stays mounted on the player tab so playback keeps being driven */}
+      {currentTrack && (
+        <div className={cn('fixed bottom-16 left-0 right-0 z-40', activeTab === 'player' && 'hidden')}>
           <MediaPlayer
             currentTrack={currentTrack}
-            onNext={() => playNext()}
-            onPrevious={() => playPrevious()}
+            playbackContext={playbackContext}
+            shuffleMode={shuffleMode}
+            onShuffleModeChange={setShuffleMode}
+            onNext={playNext}
+            onPrevious={playPrevious}
+            getUpcomingTrack={peekNext}
             className="mx-4 rounded-lg shadow-lg"
             onTrackEnd={() => playNext()}
           />
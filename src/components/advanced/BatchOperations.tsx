@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { CheckSquare, Trash2, Heart, FolderPlus, Download, Edit } from 'lucide-react';
+import { CheckSquare, Trash2, Heart, FolderPlus, Download, Edit, Tags } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { TagEditor } from '@/components/advanced/TagEditor';
 import { toast } from 'sonner';
 
 interface BatchOperationsProps {
@@ -21,6 +22,7 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
   const [selectedTracks, setSelectedTracks] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(false);
   const [selectAll, setSelectAll] = useState(false);
+  const [tagEditorIds, setTagEditorIds] = useState<string[]>([]);
 
   const handleSelectAll = () => {
     if (selectAll) {
@@ -51,7 +53,7 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
     setIsLoading(true);
     try {
       for (const trackId of selectedTracks) {
-        await musicDB.deleteSong(trackId);
+        await libraryRepository.deleteSong(trackId);
       }
       toast.success(`Deleted ${selectedTracks.size} tracks`);
       setSelectedTracks(new Set());
@@ -78,15 +80,11 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
         id: `batch_${Date.now()}`,
         name: playlistName,
         description: `Created from ${selectedTracks.size} selected tracks`,
-        songs: Array.from(selectedTracks),
         trackIds: Array.from(selectedTracks),
-        createdAt: new Date(),
-        dateCreated: new Date(),
-        lastModified: new Date(),
         color: '#8b5cf6'
       };
 
-      await musicDB.createPlaylist(playlist);
+      await libraryRepository.createPlaylist(playlist);
       toast.success(`Created playlist "${playlistName}" with ${selectedTracks.size} tracks`);
       setSelectedTracks(new Set());
       setSelectAll(false);
@@ -104,10 +102,10 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
     setIsLoading(true);
     try {
       for (const trackId of selectedTracks) {
-        const song = await musicDB.getSongById(trackId);
+        const song = await libraryRepository.getSongById(trackId);
         if (song) {
           song.playCount += 10; // Boost play count to mark as favorite
-          await musicDB.updateSong(song);
+          await libraryRepository.updateSong(song);
         }
       }
       toast.success(`Marked ${selectedTracks.size} tracks as favorites`);
@@ -225,6 +223,16 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
                 <Download size={16} />
                 Export Metadata
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setTagEditorIds(Array.from(selectedTracks))}
+                disabled={isLoading}
+                className="flex items-center gap-2"
+              >
+                <Tags size={16} />
+                Edit Tags
+              </Button>
               <Button
                 variant="destructive"
                 size="sm"
@@ -281,6 +289,7 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
                       variant="ghost"
                       size="icon"
                       className="w-8 h-8"
+                      onClick={() => setTagEditorIds([track.id])}
                     >
                       <Edit size={14} />
                     </Button>
@@ -314,6 +323,12 @@ export const BatchOperations: React.FC<BatchOperationsProps> = ({
           </div>
         )}
       </div>
+
+      <TagEditor
+        open={tagEditorIds.length > 0}
+        onOpenChange={(open) => !open && setTagEditorIds([])}
+        trackIds={tagEditorIds}
+      />
     </div>
   );
 };
\ No newline at end of file
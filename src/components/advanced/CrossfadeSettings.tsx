@@ -6,6 +6,7 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { CROSSFADE_SETTINGS_KEY, DEFAULT_CROSSFADE_SETTINGS } from '@/services/playback/playbackEngine';
 import { toast } from 'sonner';
 
 interface CrossfadeSettingsProps {
@@ -22,6 +23,9 @@ export interface CrossfadeSettings {
   fadeInDuration: number;
   fadeOutDuration: number;
   normalizeVolume: boolean;
+  normalizationMode: 'track' | 'album';
+  targetLoudness: number; // LUFS
+  preventClipping: boolean;
   skipSilence: boolean;
   preloadNext: boolean;
 }
@@ -31,17 +35,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
   onClose,
   onSettingsChange
 }) => {
-  const [settings, setSettings] = useState<CrossfadeSettings>({
-    enabled: true,
-    duration: 5,
-    curve: 'smooth',
-    gapless: false,
-    fadeInDuration: 2,
-    fadeOutDuration: 3,
-    normalizeVolume: true,
-    skipSilence: true,
-    preloadNext: true
-  });
+  const [settings, setSettings] = useState<CrossfadeSettings>(DEFAULT_CROSSFADE_SETTINGS);
 
   useEffect(() => {
     loadSettings();
@@ -49,9 +43,9 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
 
   const loadSettings = () => {
     try {
-      const saved = localStorage.getItem('crossfade_settings');
+      const saved = localStorage.getItem(CROSSFADE_SETTINGS_KEY);
       if (saved) {
-        const parsedSettings = JSON.parse(saved);
+        const parsedSettings = { ...DEFAULT_CROSSFADE_SETTINGS, ...JSON.parse(saved) };
         setSettings(parsedSettings);
         onSettingsChange(parsedSettings);
       }
@@ -62,7 +56,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
 
   const saveSettings = (newSettings: CrossfadeSettings) => {
     try {
-      localStorage.setItem('crossfade_settings', JSON.stringify(newSettings));
+      localStorage.setItem(CROSSFADE_SETTINGS_KEY, JSON.stringify(newSettings));
       setSettings(newSettings);
       onSettingsChange(newSettings);
       toast.success('Crossfade settings saved');
@@ -73,18 +67,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
   };
 
   const resetToDefaults = () => {
-    const defaultSettings: CrossfadeSettings = {
-      enabled: true,
-      duration: 5,
-      curve: 'smooth',
-      gapless: false,
-      fadeInDuration: 2,
-      fadeOutDuration: 3,
-      normalizeVolume: true,
-      skipSilence: true,
-      preloadNext: true
-    };
-    saveSettings(defaultSettings);
+    saveSettings(DEFAULT_CROSSFADE_SETTINGS);
     toast.success('Settings reset to defaults');
   };
 
@@ -249,17 +232,14 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                 <div>
                   <label className="font-medium">Enable Gapless</label>
                   <p className="text-sm text-muted-foreground">
-                    No silence between tracks (disables crossfade)
+                    No silence between tracks of an album (disables crossfade)
                   </p>
                 </div>
                 <Switch
                   checked={settings.gapless}
-                  onCheckedChange={(gapless) => {
-                    updateSetting('gapless', gapless);
-                    if (gapless) {
-                      updateSetting('enabled', false);
-                    }
-                  }}
+                  onCheckedChange={(gapless) => 
+                    saveSettings({ ...settings, gapless, enabled: gapless ? false : settings.enabled })
+                  }
                 />
               </div>
             </CardContent>
@@ -279,7 +259,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                 <div>
                   <label className="font-medium">Volume Normalization</label>
                   <p className="text-sm text-muted-foreground">
-                    Maintain consistent volume across tracks
+                    Apply ReplayGain tags or measured loudness
                   </p>
                 </div>
                 <Switch
@@ -290,6 +270,66 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                 />
               </div>
 
+              {settings.normalizeVolume && (
+                <>
+                  {/* Normalization Mode */}
+                  <div className="space-y-3">
+                    <label className="font-medium">Mode</label>
+                    <Select
+                      value={settings.normalizationMode}
+                      onValueChange={(normalizationMode: 'track' | 'album') =>
+                        updateSetting('normalizationMode', normalizationMode)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="album">Album (keeps dynamics within an album)</SelectItem>
+                        <SelectItem value="track">Track (every track equally loud)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Target Level */}
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label className="font-medium">Target Level</label>
+                      <span className="text-sm text-muted-foreground">
+                        {settings.targetLoudness} LUFS
+                      </span>
+                    </div>
+                    <Slider
+                      value={[settings.targetLoudness]}
+                      min={-23}
+                      max={-8}
+                      step={1}
+                      onValueChange={([targetLoudness]) => updateSetting('targetLoudness', targetLoudness)}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      -18 LUFS is the ReplayGain reference; louder targets may need clipping prevention
+                    </p>
+                  </div>
+
+                  {/* Clipping Prevention */}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="font-medium">Prevent Clipping</label>
+                      <p className="text-sm text-muted-foreground">
+                        Lower the gain when peaks would exceed full scale
+                      </p>
+                    </div>
+                    <Switch
+                      checked={settings.preventClipping}
+                      onCheckedChange={(preventClipping) =>
+                        updateSetting('preventClipping', preventClipping)
+                      }
+                    />
+                  </div>
+                </>
+              )}
+
               <Separator />
 
               {/* Skip Silence */}
@@ -349,7 +389,9 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                     ) : (
                       <div>• Standard playback - small gap between tracks</div>
                     )}
-                    {settings.normalizeVolume && <div>• Volume normalization enabled</div>}
+                    {settings.normalizeVolume && (
+                      <div>• {settings.normalizationMode === 'album' ? 'Album' : 'Track'} normalization to {settings.targetLoudness} LUFS</div>
+                    )}
                     {settings.skipSilence && <div>• Silence detection enabled</div>}
                     {settings.preloadNext && <div>• Next track preloading enabled</div>}
                   </div>
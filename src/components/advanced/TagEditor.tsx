@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ImagePlus, Trash2, Save } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { libraryRepository } from '@/services/libraryRepository';
+import { readTags } from '@/services/tags/tagReader';
+import { tagFileService, type TagWriteResult } from '@/services/tags/tagFileService';
+import type { CoverArt, TagUpdate } from '@/services/tags/tagWriter';
+import type { EnhancedSong } from '@/services/enhancedDatabase';
+import { toast } from 'sonner';
+
+interface TagEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackIds: string[];
+}
+
+type TextField = 'title' | 'artist' | 'album' | 'albumArtist' | 'genre' | 'comment' | 'lyrics';
+type NumberField = 'trackNumber' | 'trackTotal' | 'discNumber' | 'discTotal' | 'year';
+type Field = TextField | NumberField;
+type FieldValues = Record<Field, string>;
+
+const NUMBER_FIELDS: NumberField[] = ['trackNumber', 'trackTotal', 'discNumber', 'discTotal', 'year'];
+
+// Fields that make no sense to set on several tracks at once
+const SINGLE_TRACK_FIELDS: Field[] = ['title', 'trackNumber', 'trackTotal', 'lyrics'];
+
+const EMPTY_VALUES: FieldValues = {
+  title: '', artist: '', album: '', albumArtist: '', genre: '', comment: '', lyrics: '',
+  trackNumber: '', trackTotal: '', discNumber: '', discTotal: '', year: ''
+};
+
+/**
+ * Values shared by every song; fields that differ stay empty and are left alone unless edited
+ */
+function commonValues(songs: EnhancedSong[]): FieldValues {
+  const shared = (read: (song: EnhancedSong) => string | number | undefined) => {
+    const values = new Set(songs.map(song => String(read(song) ?? '')));
+    return values.size === 1 ? [...values][0] : '';
+  };
+  return {
+    ...EMPTY_VALUES,
+    artist: shared(song => song.artist),
+    album: shared(song => song.album),
+    genre: shared(song => song.genre),
+    year: shared(song => song.year)
+  };
+}
+
+/**
+ * Edit tags of one track, or the shared tags of several, and write them into the files
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({ open, onOpenChange, trackIds }) => {
+  const [songs, setSongs] = useState<EnhancedSong[]>([]);
+  const [initial, setInitial] = useState<FieldValues>(EMPTY_VALUES);
+  const [values, setValues] = useState<FieldValues>(EMPTY_VALUES);
+  // Undefined keeps the current cover, null removes it
+  const [cover, setCover] = useState<CoverArt | null | undefined>(undefined);
+  const [coverPreview, setCoverPreview] = useState<string>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<number>();
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const isBatch = trackIds.length > 1;
+
+  /**
+   * Current tags of a single song, read from its file; falls back to the library record
+   */
+  const readFileValues = useCallback(async (song: EnhancedSong): Promise<FieldValues> => {
+    const fallback = { ...commonValues([song]), title: song.title, lyrics: song.lyrics ?? '' };
+    try {
+      const tags = await readTags(await tagFileService.readSongFile(song));
+      if (!tags) return fallback;
+      if (tags.coverArt) {
+        setCoverPreview(URL.createObjectURL(new Blob([tags.coverArt.data], { type: tags.coverArt.mimeType })));
+      }
+      const text = (value?: string | number) => (value === undefined ? '' : String(value));
+      return {
+        title: text(tags.title),
+        artist: text(tags.artist),
+        album: text(tags.album),
+        albumArtist: text(tags.albumArtist),
+        genre: text(tags.genre),
+        comment: text(tags.comment),
+        lyrics: song.lyrics ?? '',
+        trackNumber: text(tags.trackNumber),
+        trackTotal: text(tags.trackTotal),
+        discNumber: text(tags.discNumber),
+        discTotal: text(tags.discTotal),
+        year: text(tags.year)
+      };
+    } catch (error) {
+      console.warn(`Could not read the file of ${song.title}:`, error);
+      return fallback;
+    }
+  }, []);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setCover(undefined);
+    setCoverPreview(undefined);
+    try {
+      const loaded = (await Promise.all(trackIds.map(id => libraryRepository.getSongById(id))))
+        .filter((song): song is EnhancedSong => !!song);
+      setSongs(loaded);
+
+      let fields = commonValues(loaded);
+      if (loaded.length === 1) {
+        fields = await readFileValues(loaded[0]);
+      }
+      setInitial(fields);
+      setValues(fields);
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+      toast.error('Failed to load tags');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackIds, readFileValues]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  useEffect(() => () => {
+    if (coverPreview?.startsWith('blob:')) URL.revokeObjectURL(coverPreview);
+  }, [coverPreview]);
+
+  const setValue = (field: Field, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleCoverFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.type !== 'image/jpeg' && file.type !== 'image/png') {
+      toast.error('Cover art has to be a JPEG or PNG image');
+      return;
+    }
+    setCover({ data: new Uint8Array(await file.arrayBuffer()), mimeType: file.type });
+    setCoverPreview(URL.createObjectURL(file));
+  };
+
+  const removeCover = () => {
+    setCover(null);
+    setCoverPreview(undefined);
+  };
+
+  /**
+   * Only edited fields are written; emptying a field removes the tag. A number or total
+   * edited on its own keeps the other half of the pair as each file has it.
+   */
+  const buildUpdate = (): TagUpdate => {
+    const update: Record<string, string | number | null | CoverArt> = {};
+    const changed = (Object.keys(values) as Field[])
+      .filter(field => values[field].trim() !== initial[field].trim())
+      .filter(field => !isBatch || !SINGLE_TRACK_FIELDS.includes(field));
+
+    changed.forEach(field => {
+      const value = values[field].trim();
+      if (NUMBER_FIELDS.includes(field as NumberField)) {
+        const parsed = parseInt(value, 10);
+        update[field] = isNaN(parsed) || parsed <= 0 ? null : parsed;
+      } else {
+        update[field] = value || null;
+      }
+    });
+
+    if (cover !== undefined) update.coverArt = cover;
+
+    return update as TagUpdate;
+  };
+
+  const handleSave = async () => {
+    const update = buildUpdate();
+    if (Object.keys(update).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    setProgress(0);
+    try {
+      let written: TagWriteResult[];
+      let failed = 0;
+      if (songs.length === 1) {
+        written = [await tagFileService.writeSongTags(songs[0], update)];
+      } else {
+        const result = await tagFileService.writeBatch(songs, update, (done, total) => setProgress((done / total) * 100));
+        written = result.written;
+        failed = result.failed.length;
+      }
+
+      const downloaded = written.filter(result => result.savedTo === 'download').length;
+      if (written.length > 0) {
+        toast.success(`Saved tags of ${written.length} ${written.length === 1 ? 'track' : 'tracks'}`);
+      }
+      if (downloaded > 0) {
+        toast.info(`${downloaded} ${downloaded === 1 ? 'file was' : 'files were'} imported without write access and downloaded instead`);
+      }
+      if (failed > 0) {
+        toast.error(`Failed to save tags of ${failed} ${failed === 1 ? 'track' : 'tracks'}`);
+      }
+      if (failed === 0) onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save tags:', error);
+      toast.error(`Failed to save tags: ${(error as Error).message}`);
+    } finally {
+      setProgress(undefined);
+    }
+  };
+
+  const renderInput = (field: Field, label: string, type: 'text' | 'number' = 'text') => (
+    <label className="block text-xs text-muted-foreground space-y-1">
+      {label}
+      <Input
+        type={type}
+        min={type === 'number' ? 1 : undefined}
+        value={values[field]}
+        placeholder={isBatch && !initial[field] ? 'Keep existing' : undefined}
+        onChange={(event) => setValue(field, event.target.value)}
+        className="h-8"
+      />
+    </label>
+  );
+
+  const isSaving = progress !== undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isBatch ? `Edit Tags of ${trackIds.length} Tracks` : 'Edit Tags'}</DialogTitle>
+          <DialogDescription>
+            {isBatch
+              ? 'Only the fields you change are written; empty fields keep each track\'s own value.'
+              : 'Changes are written into the audio file. Emptying a field removes the tag.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Reading tags...</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="w-20 h-20 rounded-lg bg-muted/30 overflow-hidden flex items-center justify-center shrink-0">
+                {coverPreview ? (
+                  <img src={coverPreview} alt="Cover art" className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-xs text-muted-foreground text-center px-1">
+                    {cover === null ? 'Removed' : isBatch ? 'Unchanged' : 'No cover'}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-col gap-2">
+                <Button variant="outline" size="sm" onClick={() => coverInputRef.current?.click()} className="flex items-center gap-2">
+                  <ImagePlus size={14} />
+                  Choose Cover
+                </Button>
+                <Button variant="ghost" size="sm" onClick={removeCover} disabled={cover === null} className="flex items-center gap-2">
+                  <Trash2 size={14} />
+                  Remove Cover
+                </Button>
+              </div>
+              <input ref={coverInputRef} type="file" accept="image/jpeg,image/png" className="hidden" onChange={handleCoverFile} />
+            </div>
+
+            {!isBatch && renderInput('title', 'Title')}
+            {renderInput('artist', 'Artist')}
+            <div className="grid grid-cols-2 gap-3">
+              {renderInput('album', 'Album')}
+              {renderInput('albumArtist', 'Album artist')}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {!isBatch && renderInput('trackNumber', 'Track', 'number')}
+              {!isBatch && renderInput('trackTotal', 'Track total', 'number')}
+              {renderInput('discNumber', 'Disc', 'number')}
+              {renderInput('discTotal', 'Disc total', 'number')}
+              {renderInput('year', 'Year', 'number')}
+              {renderInput('genre', 'Genre')}
+            </div>
+            {renderInput('comment', 'Comment')}
+            {!isBatch && (
+              <label className="block text-xs text-muted-foreground space-y-1">
+                Lyrics (plain text or LRC)
+                <Textarea
+                  value={values.lyrics}
+                  onChange={(event) => setValue('lyrics', event.target.value)}
+                  className="min-h-24 font-mono text-xs"
+                />
+              </label>
+            )}
+
+            {isSaving && <Progress value={progress} className="h-2" />}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || songs.length === 0} className="flex items-center gap-2">
+                <Save size={16} />
+                {isSaving ? 'Saving...' : 'Save Tags'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
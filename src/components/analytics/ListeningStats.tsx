@@ -6,8 +6,8 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
-import { musicDB } from '@/utils/musicDatabase';
-import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays, subWeeks, subMonths } from 'date-fns';
+import { libraryRepository } from '@/services/libraryRepository';
+import { listeningHistoryService, type ListeningBucket, type RankedEntry } from '@/services/listeningHistoryService';
 
 interface ListeningStatsProps {
   isOpen: boolean;
@@ -21,16 +21,16 @@ interface StatsData {
   topArtists: Array<{ name: string; playCount: number; percentage: number }>;
   topGenres: Array<{ name: string; playCount: number; percentage: number }>;
   topTracks: Array<{ track: Track; playCount: number }>;
-  dailyStats: Array<{ date: string; minutes: number; tracks: number }>;
-  weeklyStats: Array<{ week: string; minutes: number; tracks: number }>;
-  monthlyStats: Array<{ month: string; minutes: number; tracks: number }>;
+  dailyStats: ListeningBucket[];
+  weeklyStats: ListeningBucket[];
+  monthlyStats: ListeningBucket[];
 }
 
 export const ListeningStats: React.FC<ListeningStatsProps> = ({
   isOpen,
   onClose
 }) => {
-  const { audioFiles, getTopTracks } = useMediaLibrary();
+  const { audioFiles } = useMediaLibrary();
   const [stats, setStats] = useState<StatsData | null>(null);
   const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month' | 'year'>('month');
   const [isLoading, setIsLoading] = useState(true);
@@ -39,73 +39,44 @@ export const ListeningStats: React.FC<ListeningStatsProps> = ({
     if (isOpen) {
       loadStats();
     }
-  }, [isOpen, selectedPeriod]);
+  }, [isOpen]);
 
   const loadStats = async () => {
     setIsLoading(true);
     try {
-      const [topTracks, allSongs] = await Promise.all([
-        getTopTracks(),
-        musicDB.getAllSongs()
+      const [events, allSongs, credits] = await Promise.all([
+        libraryRepository.getPlayEvents(),
+        libraryRepository.getAllSongs(),
+        libraryRepository.getCreditLookup()
       ]);
 
-      // Calculate total listening time
-      const totalListeningTime = allSongs.reduce((sum, song) => 
-        sum + (song.playCount * song.duration), 0);
+      const summary = listeningHistoryService.summarize(events, allSongs, credits);
+      const withPercentage = (entries: RankedEntry[], limit: number) =>
+        entries
+          .filter(entry => entry.plays > 0)
+          .slice(0, limit)
+          .map(entry => ({
+            name: entry.name,
+            playCount: entry.plays,
+            percentage: (entry.plays / Math.max(1, summary.plays)) * 100
+          }));
 
-      // Calculate tracks played
-      const tracksPlayed = allSongs.reduce((sum, song) => sum + song.playCount, 0);
-
-      // Calculate top artists
-      const artistStats = new Map<string, number>();
-      allSongs.forEach(song => {
-        const artist = song.artist || 'Unknown Artist';
-        artistStats.set(artist, (artistStats.get(artist) || 0) + song.playCount);
-      });
-
-      const topArtists = Array.from(artistStats.entries())
-        .map(([name, playCount]) => ({
-          name,
-          playCount,
-          percentage: (playCount / tracksPlayed) * 100
-        }))
-        .sort((a, b) => b.playCount - a.playCount)
-        .slice(0, 10);
-
-      // Calculate top genres
-      const genreStats = new Map<string, number>();
-      allSongs.forEach(song => {
-        const genre = song.genre || 'Unknown';
-        genreStats.set(genre, (genreStats.get(genre) || 0) + song.playCount);
-      });
-
-      const topGenres = Array.from(genreStats.entries())
-        .map(([name, playCount]) => ({
-          name,
-          playCount,
-          percentage: (playCount / tracksPlayed) * 100
-        }))
-        .sort((a, b) => b.playCount - a.playCount)
-        .slice(0, 8);
-
-      // Generate daily stats (mock data for demo)
-      const dailyStats = generateDailyStats();
-      const weeklyStats = generateWeeklyStats();
-      const monthlyStats = generateMonthlyStats();
+      const tracksById = new Map(audioFiles.map(track => [track.id, track]));
+      const topTracks = summary.topTracks
+        .filter(entry => entry.plays > 0 && tracksById.has(entry.trackId))
+        .slice(0, 10)
+        .map(entry => ({ track: tracksById.get(entry.trackId)!, playCount: entry.plays }));
 
       setStats({
-        totalListeningTime,
-        tracksPlayed,
-        averageSessionLength: totalListeningTime / Math.max(1, tracksPlayed),
-        topArtists,
-        topGenres,
-        topTracks: topTracks.slice(0, 10).map(track => ({
-          track,
-          playCount: track.playCount
-        })),
-        dailyStats,
-        weeklyStats,
-        monthlyStats
+        totalListeningTime: summary.totalSeconds,
+        tracksPlayed: summary.plays,
+        averageSessionLength: summary.averageSessionSeconds,
+        topArtists: withPercentage(summary.topArtists, 10),
+        topGenres: withPercentage(summary.topGenres, 8),
+        topTracks,
+        dailyStats: listeningHistoryService.bucketEvents(events, 'day', 7),
+        weeklyStats: listeningHistoryService.bucketEvents(events, 'week', 5),
+        monthlyStats: listeningHistoryService.bucketEvents(events, 'month', 12)
       });
     } catch (error) {
       console.error('Failed to load stats:', error);
@@ -114,45 +85,6 @@ export const ListeningStats: React.FC<ListeningStatsProps> = ({
     }
   };
 
-  const generateDailyStats = () => {
-    const stats = [];
-    for (let i = 6; i >= 0; i--) {
-      const date = subDays(new Date(), i);
-      stats.push({
-        date: format(date, 'MMM dd'),
-        minutes: Math.floor(Math.random() * 120) + 30,
-        tracks: Math.floor(Math.random() * 50) + 10
-      });
-    }
-    return stats;
-  };
-
-  const generateWeeklyStats = () => {
-    const stats = [];
-    for (let i = 7; i >= 0; i--) {
-      const weekStart = startOfWeek(subWeeks(new Date(), i));
-      stats.push({
-        week: format(weekStart, 'MMM dd'),
-        minutes: Math.floor(Math.random() * 500) + 200,
-        tracks: Math.floor(Math.random() * 200) + 50
-      });
-    }
-    return stats;
-  };
-
-  const generateMonthlyStats = () => {
-    const stats = [];
-    for (let i = 5; i >= 0; i--) {
-      const monthStart = startOfMonth(subMonths(new Date(), i));
-      stats.push({
-        month: format(monthStart, 'MMM yyyy'),
-        minutes: Math.floor(Math.random() * 2000) + 800,
-        tracks: Math.floor(Math.random() * 800) + 200
-      });
-    }
-    return stats;
-  };
-
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -367,7 +299,7 @@ export const ListeningStats: React.FC<ListeningStatsProps> = ({
                   size="sm"
                   onClick={() => setSelectedPeriod('month')}
                 >
-                  30 Days
+                  5 Weeks
                 </Button>
                 <Button
                   variant={selectedPeriod === 'year' ? 'default' : 'outline'}
@@ -388,18 +320,16 @@ export const ListeningStats: React.FC<ListeningStatsProps> = ({
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {getCurrentPeriodStats().map((stat, index) => {
-                      const maxMinutes = Math.max(...getCurrentPeriodStats().map(s => s.minutes));
-                      const percentage = (stat.minutes / maxMinutes) * 100;
+                    {getCurrentPeriodStats().map((stat) => {
+                      const maxSeconds = Math.max(1, ...getCurrentPeriodStats().map(s => s.seconds));
+                      const percentage = (stat.seconds / maxSeconds) * 100;
                       
                       return (
-                        <div key={index} className="space-y-2">
+                        <div key={stat.start.getTime()} className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
-                          <span className="font-medium">
-                            {'date' in stat ? stat.date : 'week' in stat ? stat.week : 'month' in stat ? stat.month : ''}
-                          </span>
+                          <span className="font-medium">{stat.label}</span>
                           <span className="text-muted-foreground">
-                            {stat.minutes}m • {stat.tracks} tracks
+                            {Math.round(stat.seconds / 60)}m • {stat.plays} tracks
                           </span>
                         </div>
                           <Progress value={percentage} className="h-2" />
@@ -423,12 +353,9 @@ export const ListeningStats: React.FC<ListeningStatsProps> = ({
                         <div className="font-medium">Peak Listening Day</div>
                         <div className="text-muted-foreground">
                           You listened to the most music on{' '}
-                          {(() => {
-                            const peakStat = getCurrentPeriodStats().reduce((max, stat) => 
-                              stat.minutes > max.minutes ? stat : max
-                            );
-                            return 'date' in peakStat ? peakStat.date : 'week' in peakStat ? peakStat.week : 'month' in peakStat ? peakStat.month : '';
-                          })()}
+                          {getCurrentPeriodStats().reduce((max, stat) => 
+                            stat.seconds > max.seconds ? stat : max
+                          ).label}
                         </div>
                       </div>
                     </div>
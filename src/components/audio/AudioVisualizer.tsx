@@ -1,62 +1,39 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
+import { audioGraph } from '@/services/playback/audioGraph';
 
 interface AudioVisualizerProps {
-  audioRef: React.RefObject<HTMLAudioElement>;
   isPlaying: boolean;
   className?: string;
   style?: 'bars' | 'wave' | 'circle';
 }
 
 export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
-  audioRef,
   isPlaying,
   className = '',
   style = 'bars'
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
-  const audioContextRef = useRef<AudioContext>();
   const analyserRef = useRef<AnalyserNode>();
-  const sourceRef = useRef<MediaElementAudioSourceNode>();
   const [isInitialized, setIsInitialized] = useState(false);
 
+  // Listen on the shared audio graph instead of tapping the media element
   useEffect(() => {
-    const initializeAudioContext = () => {
-      if (!audioRef.current || isInitialized) return;
-
-      try {
-        // Create audio context
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-        
-        // Create analyser
-        analyserRef.current = audioContextRef.current.createAnalyser();
-        analyserRef.current.fftSize = 256;
-        
-        // Create source
-        sourceRef.current = audioContextRef.current.createMediaElementSource(audioRef.current);
-        
-        // Connect nodes
-        sourceRef.current.connect(analyserRef.current);
-        analyserRef.current.connect(audioContextRef.current.destination);
-        
-        setIsInitialized(true);
-      } catch (error) {
-        console.error('Failed to initialize audio context:', error);
-      }
-    };
-
-    if (audioRef.current && !isInitialized) {
-      // Wait for user interaction before initializing audio context
-      audioRef.current.addEventListener('play', initializeAudioContext, { once: true });
+    try {
+      analyserRef.current = audioGraph.createAnalyser(256);
+      setIsInitialized(true);
+    } catch (error) {
+      console.error('Failed to initialize audio analyser:', error);
     }
 
     return () => {
-      if (audioRef.current) {
-        audioRef.current.removeEventListener('play', initializeAudioContext);
+      if (analyserRef.current) {
+        audioGraph.releaseAnalyser(analyserRef.current);
+        analyserRef.current = undefined;
       }
     };
-  }, [audioRef, isInitialized]);
+  }, []);
 
   useEffect(() => {
     if (!isInitialized || !analyserRef.current || !canvasRef.current) return;
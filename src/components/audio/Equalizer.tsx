@@ -1,110 +1,147 @@
-import React, { useState, useEffect } from 'react';
-import { Sliders, RotateCcw, Save, Volume2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Sliders, RotateCcw, Save, Volume2, Trash2, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FrequencyResponseCurve } from '@/components/audio/FrequencyResponseCurve';
+import { ParametricEqualizer } from '@/components/audio/ParametricEqualizer';
+import { audioGraph, EQ_FREQUENCIES, type EqualizerState } from '@/services/playback/audioGraph';
+import { graphicEqFilters } from '@/services/playback/parametricEq';
+import {
+  audioProfiles,
+  getAudioProfileTarget,
+  AUDIO_PROFILE_SCOPES,
+  AUDIO_PROFILE_SCOPE_LABELS
+} from '@/services/playback/audioProfiles';
+import { libraryRepository, audioProfileId } from '@/services/libraryRepository';
+import type { AudioProfileScope, EqualizerPreset } from '@/services/enhancedDatabase';
+import type { Track } from '@/hooks/useMediaLibrary';
 import { toast } from 'sonner';
 
 interface EqualizerProps {
-  audioRef?: React.RefObject<HTMLAudioElement>;
   isOpen: boolean;
   onClose: () => void;
+  currentTrack?: Track;
 }
 
-const EQ_PRESETS = {
-  flat: { name: 'Flat', values: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
-  rock: { name: 'Rock', values: [5, 4, 3, 1, -1, -1, 0, 2, 4, 5] },
-  pop: { name: 'Pop', values: [-1, 2, 4, 4, 2, 0, -1, -1, 2, 3] },
-  jazz: { name: 'Jazz', values: [3, 2, 1, 2, -1, -1, 0, 2, 3, 4] },
-  classical: { name: 'Classical', values: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
-  electronic: { name: 'Electronic', values: [4, 3, 1, 0, -1, 2, 1, 1, 3, 4] },
-  hiphop: { name: 'Hip Hop', values: [5, 4, 1, 3, -1, -1, 1, 2, 3, 4] },
-  vocal: { name: 'Vocal', values: [-2, -1, -1, 1, 3, 3, 2, 1, 0, -1] },
-  bass: { name: 'Bass Boost', values: [6, 5, 3, 1, -1, -2, -1, 0, 1, 2] },
-  treble: { name: 'Treble Boost', values: [-2, -1, 0, 1, 2, 3, 4, 5, 6, 6] }
-};
-
 const FREQUENCY_BANDS = [
   '32Hz', '64Hz', '125Hz', '250Hz', '500Hz', '1kHz', '2kHz', '4kHz', '8kHz', '16kHz'
 ];
 
-export const Equalizer: React.FC<EqualizerProps> = ({ audioRef, isOpen, onClose }) => {
-  const [eqValues, setEqValues] = useState<number[]>(EQ_PRESETS.flat.values);
-  const [selectedPreset, setSelectedPreset] = useState('flat');
-  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-  const [filters, setFilters] = useState<BiquadFilterNode[]>([]);
+export const Equalizer: React.FC<EqualizerProps> = ({ isOpen, onClose, currentTrack }) => {
+  const [graphState, setGraphState] = useState(() => audioGraph.getState());
+  const [presets, setPresets] = useState<EqualizerPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [activeProfile, setActiveProfile] = useState(() => audioProfiles.getActiveProfile());
+  const [profileScope, setProfileScope] = useState<AudioProfileScope>('album');
+  const eqValues = graphState.equalizer.gains;
+  const activePreset = presets.find(preset => preset.id === graphState.equalizer.preset);
+  const selectedPreset = activePreset ? activePreset.id : 'custom';
+  const scopes = currentTrack ? AUDIO_PROFILE_SCOPES.filter(scope => getAudioProfileTarget(currentTrack, scope)) : [];
+  const [hasScopeProfile, setHasScopeProfile] = useState(false);
+  const responseEq = useMemo(() => (
+    graphState.equalizer.mode === 'parametric'
+      ? graphState.equalizer.parametric
+      : { preamp: 0, filters: graphicEqFilters(EQ_FREQUENCIES, graphState.equalizer.gains) }
+  ), [graphState.equalizer]);
 
-  useEffect(() => {
-    if (audioRef?.current && isOpen && !audioContext) {
-      try {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const source = context.createMediaElementSource(audioRef.current);
-        
-        // Create biquad filters for each frequency band
-        const filterNodes = FREQUENCY_BANDS.map((_, index) => {
-          const filter = context.createBiquadFilter();
-          filter.type = index === 0 ? 'lowshelf' : index === 9 ? 'highshelf' : 'peaking';
-          filter.frequency.value = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000][index];
-          filter.Q.value = 1;
-          filter.gain.value = 0;
-          return filter;
-        });
-
-        // Connect filters in series
-        let currentNode = source;
-        filterNodes.forEach(filter => {
-          currentNode.connect(filter);
-          currentNode = filter;
-        });
-        currentNode.connect(context.destination);
-
-        setAudioContext(context);
-        setFilters(filterNodes);
-      } catch (error) {
-        console.error('Failed to create audio context:', error);
-        toast.error('Equalizer not supported in this browser');
-      }
+  // The graph keeps the settings, so they are shared with the equalizer screen and survive closing
+  useEffect(() => audioGraph.onStateChange(setGraphState), []);
+  useEffect(() => audioProfiles.onProfileChange(setActiveProfile), []);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      setPresets(await libraryRepository.getEqualizerPresets());
+    } catch (error) {
+      console.error('Failed to load equalizer presets:', error);
     }
+  }, []);
 
-    return () => {
-      if (audioContext && audioContext.state !== 'closed') {
-        audioContext.close();
-      }
-    };
-  }, [audioRef, isOpen]);
-
-  const updateEqualizer = (values: number[]) => {
-    setEqValues(values);
-    filters.forEach((filter, index) => {
-      filter.gain.value = values[index];
-    });
-  };
+  useEffect(() => {
+    if (isOpen) loadPresets();
+  }, [isOpen, loadPresets]);
 
-  const handlePresetChange = (preset: string) => {
-    setSelectedPreset(preset);
-    const presetValues = EQ_PRESETS[preset as keyof typeof EQ_PRESETS].values;
-    updateEqualizer(presetValues);
-    toast.success(`Applied ${EQ_PRESETS[preset as keyof typeof EQ_PRESETS].name} preset`);
+  // Overridden profiles can still be removed, so look the selected scope up directly
+  useEffect(() => {
+    const target = currentTrack && getAudioProfileTarget(currentTrack, profileScope);
+    if (!isOpen || !target) {
+      setHasScopeProfile(false);
+      return;
+    }
+    libraryRepository.getAudioProfiles([audioProfileId(profileScope, target.key)])
+      .then(([assignment]) => setHasScopeProfile(!!assignment))
+      .catch(error => console.error('Failed to load profile:', error));
+  }, [isOpen, currentTrack, profileScope, activeProfile]);
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = presets.find(candidate => candidate.id === presetId);
+    if (!preset) return;
+    audioGraph.setEqualizer({ gains: [...preset.bands], preset: preset.id, mode: 'graphic', enabled: true });
+    toast.success(`Applied ${preset.name} preset`);
   };
 
   const handleBandChange = (bandIndex: number, value: number[]) => {
-    const newValues = [...eqValues];
-    newValues[bandIndex] = value[0];
-    updateEqualizer(newValues);
-    setSelectedPreset('custom');
+    audioGraph.setEqualizerBand(bandIndex, value[0]);
   };
 
   const resetEqualizer = () => {
-    updateEqualizer(EQ_PRESETS.flat.values);
-    setSelectedPreset('flat');
+    audioGraph.setEqualizer({ gains: eqValues.map(() => 0), preset: 'flat' });
     toast.success('Equalizer reset to flat');
   };
 
-  const saveCustomPreset = () => {
-    // In a real app, this would save to localStorage or database
-    localStorage.setItem('customEQPreset', JSON.stringify(eqValues));
-    toast.success('Custom preset saved');
+  const saveCustomPreset = async () => {
+    const name = presetName.trim() || 'Custom';
+    try {
+      const preset = await libraryRepository.saveEqualizerPreset(name, eqValues);
+      audioGraph.setEqualizer({ preset: preset.id });
+      audioGraph.saveState();
+      setPresetName('');
+      await loadPresets();
+      toast.success(`Saved preset "${name}"`);
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      toast.error('Could not save preset');
+    }
+  };
+
+  const deleteCustomPreset = async () => {
+    if (!activePreset?.isCustom) return;
+    try {
+      await libraryRepository.deleteEqualizerPreset(activePreset.id);
+      audioGraph.setEqualizer({ preset: 'custom' });
+      await loadPresets();
+      toast.success(`Deleted preset "${activePreset.name}"`);
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      toast.error('Could not delete preset');
+    }
+  };
+
+  const assignProfile = async () => {
+    if (!currentTrack) return;
+    try {
+      const assignment = await audioProfiles.assignCurrentSettings(currentTrack, profileScope, { equalizer: true, effects: true });
+      await loadPresets();
+      if (assignment) toast.success(`Saved profile for ${AUDIO_PROFILE_SCOPE_LABELS[profileScope].toLowerCase()} "${assignment.label}"`);
+    } catch (error) {
+      console.error('Failed to assign profile:', error);
+      toast.error('Could not save profile');
+    }
+  };
+
+  const removeProfile = async () => {
+    if (!currentTrack) return;
+    try {
+      await audioProfiles.removeProfile(currentTrack, profileScope);
+      setHasScopeProfile(false);
+      toast.success('Profile removed');
+    } catch (error) {
+      console.error('Failed to remove profile:', error);
+      toast.error('Could not remove profile');
+    }
   };
 
   if (!isOpen) return null;
@@ -128,67 +165,154 @@ export const Equalizer: React.FC<EqualizerProps> = ({ audioRef, isOpen, onClose
         </div>
 
         <div className="space-y-6">
-          {/* Preset Selection */}
-          <div>
-            <label className="text-sm font-medium mb-2 block">Presets</label>
-            <Select value={selectedPreset} onValueChange={handlePresetChange}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {Object.entries(EQ_PRESETS).map(([key, preset]) => (
-                  <SelectItem key={key} value={key}>
-                    {preset.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {/* Response of the filters that are actually running */}
+          <FrequencyResponseCurve eq={responseEq} sampleRate={audioGraph.getSampleRate()} />
+
+          <Tabs value={graphState.equalizer.mode} onValueChange={(mode) => audioGraph.setEqualizer({ mode: mode as EqualizerState['mode'] })}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="graphic">Graphic</TabsTrigger>
+              <TabsTrigger value="parametric">Parametric</TabsTrigger>
+            </TabsList>
 
-          {/* EQ Bands */}
-          <div>
-            <label className="text-sm font-medium mb-4 block">Frequency Bands</label>
-            <div className="grid grid-cols-5 gap-4">
-              {FREQUENCY_BANDS.map((freq, index) => (
-                <div key={freq} className="text-center">
-                  <div className="h-32 mb-2 flex items-end justify-center">
-                    <Slider
-                      orientation="vertical"
-                      value={[eqValues[index]]}
-                      min={-12}
-                      max={12}
-                      step={0.5}
-                      onValueChange={(value) => handleBandChange(index, value)}
-                      className="h-full"
-                    />
-                  </div>
-                  <div className="text-xs text-muted-foreground">{freq}</div>
-                  <div className="text-xs font-mono text-primary">
-                    {eqValues[index] > 0 ? '+' : ''}{eqValues[index].toFixed(1)}dB
-                  </div>
+            <TabsContent value="graphic" className="space-y-6 pt-4">
+              {/* Preset Selection */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Presets</label>
+                <Select value={selectedPreset} onValueChange={handlePresetChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}{preset.isCustom ? ' (custom)' : ''}
+                      </SelectItem>
+                    ))}
+                    {selectedPreset === 'custom' && (
+                      <SelectItem value="custom" disabled>
+                        Custom (unsaved)
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* EQ Bands */}
+              <div>
+                <label className="text-sm font-medium mb-4 block">Frequency Bands</label>
+                <div className="grid grid-cols-5 gap-4">
+                  {FREQUENCY_BANDS.map((freq, index) => (
+                    <div key={freq} className="text-center">
+                      <div className="h-32 mb-2 flex items-end justify-center">
+                        <Slider
+                          orientation="vertical"
+                          value={[eqValues[index]]}
+                          min={-12}
+                          max={12}
+                          step={0.5}
+                          onValueChange={(value) => handleBandChange(index, value)}
+                          className="h-full"
+                        />
+                      </div>
+                      <div className="text-xs text-muted-foreground">{freq}</div>
+                      <div className="text-xs font-mono text-primary">
+                        {eqValues[index] > 0 ? '+' : ''}{eqValues[index].toFixed(1)}dB
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </div>
+              </div>
 
-          {/* Controls */}
-          <div className="flex gap-3 pt-4 border-t border-border/50">
-            <Button
-              variant="outline"
-              onClick={resetEqualizer}
-              className="flex items-center gap-2"
-            >
-              <RotateCcw size={16} />
-              Reset
-            </Button>
-            <Button
-              onClick={saveCustomPreset}
-              className="flex items-center gap-2 proton-button"
-            >
-              <Save size={16} />
-              Save Custom
-            </Button>
-          </div>
+              {/* Controls */}
+              <div className="flex flex-wrap gap-3 pt-4 border-t border-border/50">
+                <Button
+                  variant="outline"
+                  onClick={resetEqualizer}
+                  className="flex items-center gap-2"
+                >
+                  <RotateCcw size={16} />
+                  Reset
+                </Button>
+                <Input
+                  value={presetName}
+                  onChange={(event) => setPresetName(event.target.value)}
+                  placeholder="Preset name"
+                  className="flex-1 min-w-32"
+                />
+                <Button
+                  onClick={saveCustomPreset}
+                  className="flex items-center gap-2 proton-button"
+                >
+                  <Save size={16} />
+                  Save Custom
+                </Button>
+                {activePreset?.isCustom && (
+                  <Button
+                    variant="outline"
+                    onClick={deleteCustomPreset}
+                    className="flex items-center gap-2"
+                  >
+                    <Trash2 size={16} />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="parametric" className="pt-4">
+              <ParametricEqualizer
+                eq={graphState.equalizer.parametric}
+                onChange={(parametric) => audioGraph.setEqualizer({ parametric, mode: 'parametric' })}
+              />
+            </TabsContent>
+          </Tabs>
+
+          {/* Profiles */}
+          {currentTrack && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Layers size={18} />
+                  Profile
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {activeProfile?.equalizer || activeProfile?.effects
+                    ? `Active: ${[activeProfile.equalizer?.assignment, activeProfile.effects?.assignment]
+                        .filter((assignment, index, all) => assignment && all.indexOf(assignment) === index)
+                        .map(assignment => `${AUDIO_PROFILE_SCOPE_LABELS[assignment!.scope]} "${assignment!.label}"`)
+                        .join(', ')}`
+                    : 'No profile applies to this track; your own settings are in use.'}
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  <Select value={profileScope} onValueChange={(value) => setProfileScope(value as AudioProfileScope)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scopes.map(scope => (
+                        <SelectItem key={scope} value={scope}>
+                          {AUDIO_PROFILE_SCOPE_LABELS[scope]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={assignProfile} disabled={!scopes.includes(profileScope)}>
+                    Use current settings
+                  </Button>
+                  {hasScopeProfile && (
+                    <Button variant="outline" onClick={removeProfile}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Track profiles override album, artist and genre profiles, in that order.
+                </p>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Audio Enhancement */}
           <Card>
@@ -202,20 +326,22 @@ export const Equalizer: React.FC<EqualizerProps> = ({ audioRef, isOpen, onClose
               <div>
                 <label className="text-sm font-medium mb-2 block">Bass Boost</label>
                 <Slider
-                  value={[0]}
+                  value={[graphState.bassBoost.enabled ? graphState.bassBoost.gain : 0]}
                   min={0}
-                  max={10}
+                  max={12}
                   step={1}
+                  onValueChange={([gain]) => audioGraph.setBassBoost({ gain, enabled: gain > 0 })}
                   className="w-full"
                 />
               </div>
               <div>
                 <label className="text-sm font-medium mb-2 block">Virtualizer</label>
                 <Slider
-                  value={[0]}
+                  value={[graphState.spatial.enabled ? Math.round((graphState.spatial.width - 1) * 10) : 0]}
                   min={0}
                   max={10}
                   step={1}
+                  onValueChange={([amount]) => audioGraph.setSpatial({ width: 1 + amount / 10, enabled: amount > 0 })}
                   className="w-full"
                 />
               </div>
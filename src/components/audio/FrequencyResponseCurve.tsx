@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { frequencyResponse, logFrequencies, type ParametricEqState } from '@/services/playback/parametricEq';
+import { cn } from '@/lib/utils';
+
+interface FrequencyResponseCurveProps {
+  eq: ParametricEqState;
+  sampleRate: number;
+  height?: number;
+  className?: string;
+}
+
+const WIDTH = 600;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const POINTS = 200;
+
+export const FrequencyResponseCurve: React.FC<FrequencyResponseCurveProps> = ({
+  eq,
+  sampleRate,
+  height = 160,
+  className = ''
+}) => {
+  const frequencies = useMemo(() => logFrequencies(POINTS, MIN_FREQUENCY, MAX_FREQUENCY), []);
+  const response = useMemo(() => frequencyResponse(eq, frequencies, sampleRate), [eq, frequencies, sampleRate]);
+
+  // Scale to the curve's extent, but never tighter than ±12 dB so small tweaks do not look dramatic
+  const range = Math.max(12, Math.ceil(Math.max(...response.map(Math.abs)) / 6) * 6);
+  const x = (frequency: number) => (Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * WIDTH;
+  const y = (db: number) => ((range - db) / (2 * range)) * height;
+
+  const path = response
+    .map((db, index) => `${index === 0 ? 'M' : 'L'}${x(frequencies[index]).toFixed(1)},${y(db).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      preserveAspectRatio="none"
+      className={cn('w-full rounded-lg bg-muted/30', className)}
+      style={{ height }}
+      role="img"
+      aria-label="Equalizer frequency response"
+    >
+      {GRID_FREQUENCIES.map(frequency => (
+        <line
+          key={frequency}
+          x1={x(frequency)}
+          x2={x(frequency)}
+          y1={0}
+          y2={height}
+          className="stroke-border"
+          strokeWidth={frequency === 100 || frequency === 1000 || frequency === 10000 ? 1 : 0.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} className="stroke-muted-foreground/50" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+      <path d={path} fill="none" className="stroke-primary" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      <text x={4} y={12} className="fill-muted-foreground text-[10px]">+{range} dB</text>
+      <text x={4} y={height - 4} className="fill-muted-foreground text-[10px]">-{range} dB</text>
+    </svg>
+  );
+};
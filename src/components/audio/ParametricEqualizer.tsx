@@ -0,0 +1,188 @@
+import React, { useRef } from 'react';
+import { Plus, Trash2, Upload, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  normalizeFilter,
+  parseParametricEq,
+  serializeParametricEq,
+  PARAMETRIC_FILTER_LIMITS,
+  type ParametricEqState,
+  type ParametricFilter,
+  type ParametricFilterType
+} from '@/services/playback/parametricEq';
+import { toast } from 'sonner';
+
+interface ParametricEqualizerProps {
+  eq: ParametricEqState;
+  onChange: (eq: ParametricEqState) => void;
+}
+
+const FILTER_TYPES: Array<{ value: ParametricFilterType; label: string }> = [
+  { value: 'peaking', label: 'Peaking' },
+  { value: 'lowshelf', label: 'Low shelf' },
+  { value: 'highshelf', label: 'High shelf' },
+  { value: 'lowpass', label: 'Low pass' },
+  { value: 'highpass', label: 'High pass' }
+];
+
+const NEW_FILTER: ParametricFilter = { enabled: true, type: 'peaking', frequency: 1000, gain: 0, q: 1 };
+
+export const ParametricEqualizer: React.FC<ParametricEqualizerProps> = ({ eq, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateFilter = (index: number, changes: Partial<ParametricFilter>) => {
+    const filters = eq.filters.map((filter, i) => (i === index ? normalizeFilter({ ...filter, ...changes }) : filter));
+    onChange({ ...eq, filters });
+  };
+
+  const removeFilter = (index: number) => {
+    onChange({ ...eq, filters: eq.filters.filter((_, i) => i !== index) });
+  };
+
+  const addFilter = () => {
+    onChange({ ...eq, filters: [...eq.filters, { ...NEW_FILTER }] });
+  };
+
+  // Numeric fields only commit parseable values, so clearing a field while typing does not reset it
+  const handleNumber = (index: number, field: 'frequency' | 'gain' | 'q', value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) updateFilter(index, { [field]: parsed });
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseParametricEq(await file.text());
+      if (imported.filters.length === 0) {
+        toast.error('No filters found. Expected an Equalizer APO or AutoEQ ParametricEQ.txt file');
+        return;
+      }
+      onChange(imported);
+      toast.success(`Imported ${imported.filters.length} filters from ${file.name}`);
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast.error('Failed to read EQ file');
+    }
+  };
+
+  const exportFile = () => {
+    const blob = new Blob([serializeParametricEq(eq)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ParametricEQ.txt';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium">Preamp</label>
+          <span className="text-xs font-mono text-primary">{eq.preamp > 0 ? '+' : ''}{eq.preamp.toFixed(1)}dB</span>
+        </div>
+        <Slider
+          value={[eq.preamp]}
+          min={PARAMETRIC_FILTER_LIMITS.preamp.min}
+          max={PARAMETRIC_FILTER_LIMITS.preamp.max}
+          step={0.1}
+          onValueChange={([preamp]) => onChange({ ...eq, preamp })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {eq.filters.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No filters yet. Add one or import a ParametricEQ.txt file.
+          </p>
+        )}
+        {eq.filters.map((filter, index) => {
+          const hasGain = filter.type !== 'lowpass' && filter.type !== 'highpass';
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-muted/30">
+              <Switch checked={filter.enabled} onCheckedChange={(enabled) => updateFilter(index, { enabled })} />
+              <Select value={filter.type} onValueChange={(type) => updateFilter(index, { type: type as ParametricFilterType })}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FILTER_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                Hz
+                <Input
+                  type="number"
+                  defaultValue={Math.round(filter.frequency)}
+                  key={`frequency-${filter.frequency}`}
+                  onBlur={(event) => handleNumber(index, 'frequency', event.target.value)}
+                  className="w-20 h-8"
+                />
+              </label>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                dB
+                <Input
+                  type="number"
+                  step={0.1}
+                  defaultValue={filter.gain}
+                  key={`gain-${filter.gain}`}
+                  disabled={!hasGain}
+                  onBlur={(event) => handleNumber(index, 'gain', event.target.value)}
+                  className="w-16 h-8"
+                />
+              </label>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                Q
+                <Input
+                  type="number"
+                  step={0.01}
+                  defaultValue={filter.q}
+                  key={`q-${filter.q}`}
+                  onBlur={(event) => handleNumber(index, 'q', event.target.value)}
+                  className="w-16 h-8"
+                />
+              </label>
+              <Button variant="ghost" size="icon" className="h-8 w-8 ml-auto" onClick={() => removeFilter(index)}>
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <Button variant="outline" onClick={addFilter} className="flex items-center gap-2">
+          <Plus size={16} />
+          Add Filter
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+          <Upload size={16} />
+          Import
+        </Button>
+        <Button variant="outline" onClick={exportFile} disabled={eq.filters.length === 0} className="flex items-center gap-2">
+          <Download size={16} />
+          Export
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,text/plain"
+          className="hidden"
+          onChange={importFile}
+        />
+      </div>
+    </div>
+  );
+};
@@ -2,8 +2,16 @@ import React, { useState, useRef } from 'react';
 import { Upload, FileAudio, Loader2, FolderOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { webAudioService } from '@/services/webAudioService';
-import { musicDB, Song } from '@/utils/musicDatabase';
+import { webAudioService, type DirectorySelection } from '@/services/webAudioService';
+import { libraryRepository } from '@/services/libraryRepository';
+import { enhancedDB, EnhancedSong } from '@/services/enhancedDatabase';
+import { MetadataService } from '@/services/metadataService';
+import { isLyricsSidecar, LYRICS_SIDECAR_EXTENSIONS, pairLyricsSidecars } from '@/services/lyrics/sidecarLyrics';
+import { isFolderArtwork, pairFolderArtwork } from '@/services/library/folderArtwork';
+import { artworkService } from '@/services/library/artworkService';
+import { musicScanner } from '@/utils/musicScanner';
+import { trackFileService } from '@/services/library/trackFileService';
+import { libraryStorageService } from '@/services/library/libraryStorageService';
 import { toast } from 'sonner';
 
 interface FileUploaderProps {
@@ -20,7 +28,11 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
   const [currentFile, setCurrentFile] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFiles = async (files: File[]) => {
+  const handleFiles = async (chosenFiles: File[]) => {
+    // Lyrics files chosen alongside are stored on the song of the same name, cover images on the songs of their folder
+    const pathOf = (file: File) => webAudioService.getRelativePath(file);
+    const { otherFiles, covers } = pairFolderArtwork(chosenFiles, pathOf);
+    const { audioFiles: files, sidecars } = pairLyricsSidecars(otherFiles, pathOf);
     if (files.length === 0) return;
 
     setIsUploading(true);
@@ -29,6 +41,8 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     let addedCount = 0;
     
     try {
+      const keepCopies = await libraryStorageService.isEnabled();
+
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         setCurrentFile(file.name);
@@ -37,27 +51,51 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
         try {
           // Extract metadata
           const metadata = await webAudioService.extractMetadata(file);
+          const { fields: tagFields, coverArt } = await MetadataService.readImportTags(file);
+          const customTags = await MetadataService.readCustomTags(file);
+          const { lyrics, lrcFile } = await MetadataService.readLyrics(file, sidecars.get(file));
+          const artworkHash = await artworkService.importArtwork(coverArt, covers.get(file));
           
           // Create object URL for playback
           const objectUrl = webAudioService.createObjectURL(file);
           
           // Create song entry
-          const song: Song = {
+          const song: EnhancedSong = {
             id: `song_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             title: metadata.title,
             artist: metadata.artist,
             album: metadata.album,
             duration: metadata.duration,
             filePath: objectUrl,
+            fileHandle: webAudioService.getFileHandle(file),
             size: file.size,
+            lastModified: file.lastModified,
             dateAdded: new Date(),
             playCount: 0,
             genre: metadata.genre,
-            year: metadata.year
+            year: metadata.year,
+            ...tagFields, // Tags win over the guesses from the file name
+            format: enhancedDB.detectAudioFormat(file.name, file.type),
+            fileHash: await enhancedDB.calculateFileHash(file),
+            bookmarks: [],
+            customTags,
+            loudness: MetadataService.parseReplayGain(customTags),
+            lyrics,
+            lrcFile,
+            artworkHash
           };
 
+          // Dropped files have no handle to reopen them by after a reload, so small libraries keep a copy anyway
+          song.opfsPath = keepCopies
+            ? await libraryStorageService.copyIntoLibrary(file, file.name, song).catch(error => {
+                console.warn(`Could not copy ${file.name} into app storage:`, error);
+                toast.warning(`${file.name} could not be kept in app storage`);
+                return trackFileService.storeFallbackCopy(song, file);
+              })
+            : await trackFileService.storeFallbackCopy(song, file);
+
           // Save to database
-          await musicDB.addSong(song);
+          await libraryRepository.addSong(song);
           addedCount++;
         } catch (error) {
           console.error(`Failed to process ${file.name}:`, error);
@@ -81,6 +119,35 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     }
   };
 
+  // Chosen folders are remembered, so rescans later only read the files that changed
+  const handleFolder = async (selection: DirectorySelection) => {
+    setIsUploading(true);
+    setProgress(0);
+
+    try {
+      const result = await musicScanner.importFolder(selection, (value, fileName) => {
+        setProgress(value);
+        setCurrentFile(fileName);
+      });
+
+      if (result.added.length > 0) {
+        toast.success(`Added ${result.added.length} songs to your library`);
+      } else {
+        toast.info('No new songs found in this folder');
+      }
+      if (result.added.length > 0 || result.moved > 0 || result.updated > 0) {
+        onFilesAdded(result.added.length);
+      }
+    } catch (error) {
+      console.error('Folder import error:', error);
+      toast.error('Failed to process files');
+    } finally {
+      setIsUploading(false);
+      setCurrentFile('');
+      setProgress(0);
+    }
+  };
+
   const handleFileSelect = async () => {
     try {
       const files = await webAudioService.requestFileAccess();
@@ -93,8 +160,8 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
 
   const handleDirectorySelect = async () => {
     try {
-      const files = await webAudioService.requestDirectoryAccess();
-      await handleFiles(files);
+      const selection = await webAudioService.requestDirectoryAccess();
+      if (selection) await handleFolder(selection);
     } catch (error) {
       console.error('Directory selection error:', error);
       toast.error('Directory access not supported. Please select individual files.');
@@ -112,10 +179,12 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
 
     const files = Array.from(e.dataTransfer.files).filter(file => 
       file.type.startsWith('audio/') || 
-      /\.(mp3|wav|m4a|flac|ogg|aac|wma)$/i.test(file.name)
+      /\.(mp3|wav|m4a|flac|ogg|aac|wma)$/i.test(file.name) ||
+      isLyricsSidecar(file.name) ||
+      isFolderArtwork(file.name)
     );
 
-    if (files.length === 0) {
+    if (files.every(file => isLyricsSidecar(file.name) || isFolderArtwork(file.name))) {
       toast.error('Please drop audio files only');
       return;
     }
@@ -130,7 +199,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
         ref={fileInputRef}
         type="file"
         multiple
-        accept="audio/*,.mp3,.wav,.m4a,.flac,.ogg,.aac,.wma"
+        accept={`audio/*,.mp3,.wav,.m4a,.flac,.ogg,.aac,.wma,${LYRICS_SIDECAR_EXTENSIONS.join(',')}`}
         onChange={(e) => {
           const files = Array.from(e.target.files || []);
           handleFiles(files);
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Sparkles, TrendingUp, Clock, Heart, Zap, Calendar } from 'lucide-react';
+import { Sparkles, TrendingUp, Clock, Heart, Zap, Calendar, ThumbsUp, SkipForward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { getSkipRatio, isOftenSkipped } from '@/services/listeningHistoryService';
 import { toast } from 'sonner';
 
 interface SmartPlaylist {
@@ -94,6 +95,32 @@ export const SmartPlaylists: React.FC<SmartPlaylistsProps> = ({
           return audioFiles.filter(track => track.playCount === 0).slice(0, 25);
         }
       },
+      {
+        id: 'never-skipped',
+        name: 'Never Skipped',
+        description: 'Songs you always hear out',
+        icon: ThumbsUp,
+        color: '#22c55e',
+        generator: async () => {
+          return audioFiles
+            .filter(track => track.playCount > 0 && !track.skipCount)
+            .sort((a, b) => b.playCount - a.playCount)
+            .slice(0, 25);
+        }
+      },
+      {
+        id: 'often-skipped',
+        name: 'Often Skipped',
+        description: 'Songs you tend to pass over',
+        icon: SkipForward,
+        color: '#64748b',
+        generator: async () => {
+          return audioFiles
+            .filter(isOftenSkipped)
+            .sort((a, b) => getSkipRatio(b) - getSkipRatio(a))
+            .slice(0, 25);
+        }
+      },
       {
         id: 'recent-listens',
         name: 'Recently Played',
@@ -154,15 +181,11 @@ export const SmartPlaylists: React.FC<SmartPlaylistsProps> = ({
         id: `smart_${Date.now()}`,
         name: smartPlaylist.name,
         description: smartPlaylist.description,
-        songs: tracks.map(t => t.id),
         trackIds: tracks.map(t => t.id),
-        createdAt: new Date(),
-        dateCreated: new Date(),
-        lastModified: new Date(),
         color: smartPlaylist.color
       };
 
-      await musicDB.createPlaylist(playlist);
+      await libraryRepository.createPlaylist(playlist);
       toast.success(`Created "${smartPlaylist.name}" playlist with ${tracks.length} songs`);
     } catch (error) {
       console.error('Failed to create playlist:', error);
@@ -3,112 +3,37 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { Volume2, Headphones, Radio } from 'lucide-react';
+import { Headphones, Radio } from 'lucide-react';
+import { audioGraph } from '@/services/playback/audioGraph';
 
-interface AudioEnhancerProps {
-  audioElement?: HTMLAudioElement | null;
-}
-
-export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({ audioElement }) => {
-  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-  const [equalizer, setEqualizer] = useState<BiquadFilterNode[]>([]);
-  const [compressor, setCompressor] = useState<DynamicsCompressorNode | null>(null);
-  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
-  const [bassBoost, setBassBoost] = useState(0);
-  const [trebleBoost, setTrebleBoost] = useState(0);
-  const [volume, setVolume] = useState(100);
-  const [spatialAudio, setSpatialAudio] = useState(false);
+export const AudioEnhancer: React.FC = () => {
+  const [graphState, setGraphState] = useState(() => audioGraph.getState());
   const [noiseReduction, setNoiseReduction] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
 
+  const bassBoost = graphState.bassBoost.enabled ? graphState.bassBoost.gain : 0;
+  const trebleBoost = graphState.equalizer.gains[graphState.equalizer.gains.length - 1] ?? 0;
+  const volume = Math.round(graphState.outputGain * 100);
+  const spatialAudio = graphState.spatial.enabled;
+
+  useEffect(() => audioGraph.onStateChange(setGraphState), []);
+
+  // Visualize the output of the shared graph
   useEffect(() => {
-    if (audioElement && !audioContext) {
-      initializeAudioProcessing();
-    }
+    const analyser = audioGraph.createAnalyser(256);
+    startVisualization(analyser);
 
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
+      audioGraph.releaseAnalyser(analyser);
     };
-  }, [audioElement]);
-
-  useEffect(() => {
-    // Listen for equalizer settings
-    const handleEqualizerUpdate = (event: CustomEvent) => {
-      const { enabled, gains } = event.detail;
-      if (enabled && equalizer.length > 0) {
-        gains.forEach((gain: number, index: number) => {
-          if (equalizer[index]) {
-            equalizer[index].gain.value = gain;
-          }
-        });
-      }
-    };
-
-    document.addEventListener('equalizer-changed', handleEqualizerUpdate as EventListener);
-    return () => {
-      document.removeEventListener('equalizer-changed', handleEqualizerUpdate as EventListener);
-    };
-  }, [equalizer]);
-
-  const initializeAudioProcessing = async () => {
-    if (!audioElement) return;
-
-    try {
-      const context = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const source = context.createMediaElementSource(audioElement);
-      
-      // Create equalizer bands
-      const frequencies = [60, 170, 350, 1000, 3500, 10000];
-      const filters = frequencies.map((frequency, index) => {
-        const filter = context.createBiquadFilter();
-        filter.type = index === 0 ? 'lowshelf' : index === frequencies.length - 1 ? 'highshelf' : 'peaking';
-        filter.frequency.value = frequency;
-        filter.Q.value = 1;
-        filter.gain.value = 0;
-        return filter;
-      });
-
-      // Create compressor
-      const comp = context.createDynamicsCompressor();
-      comp.threshold.value = -24;
-      comp.knee.value = 30;
-      comp.ratio.value = 12;
-      comp.attack.value = 0.003;
-      comp.release.value = 0.25;
-
-      // Create analyser
-      const anal = context.createAnalyser();
-      anal.fftSize = 256;
-      anal.smoothingTimeConstant = 0.8;
-
-      // Connect nodes
-      let currentNode = source;
-      filters.forEach(filter => {
-        currentNode.connect(filter);
-        currentNode = filter;
-      });
-      
-      currentNode.connect(comp);
-      comp.connect(anal);
-      anal.connect(context.destination);
-
-      setAudioContext(context);
-      setEqualizer(filters);
-      setCompressor(comp);
-      setAnalyser(anal);
-
-      // Start visualization
-      startVisualization();
-    } catch (error) {
-      console.error('Failed to initialize audio processing:', error);
-    }
-  };
+  }, []);
 
-  const startVisualization = () => {
-    if (!analyser || !canvasRef.current) return;
+  const startVisualization = (analyser: AnalyserNode) => {
+    if (!canvasRef.current) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
@@ -148,29 +73,19 @@ export const AudioEnhancer: React.FC<AudioEnhancerProps> = ({ audioElement }) =>
   };
 
   const updateBassBoost = (value: number) => {
-    setBassBoost(value);
-    if (equalizer[0]) {
-      equalizer[0].gain.value = value;
-    }
+    audioGraph.setBassBoost({ gain: value, enabled: value !== 0 });
   };
 
   const updateTrebleBoost = (value: number) => {
-    setTrebleBoost(value);
-    if (equalizer[equalizer.length - 1]) {
-      equalizer[equalizer.length - 1].gain.value = value;
-    }
+    audioGraph.setEqualizerBand(graphState.equalizer.gains.length - 1, value);
   };
 
   const updateVolume = (value: number) => {
-    setVolume(value);
-    if (audioElement) {
-      audioElement.volume = value / 100;
-    }
+    audioGraph.setOutputGain(value / 100);
   };
 
   const toggleSpatialAudio = (enabled: boolean) => {
-    setSpatialAudio(enabled);
-    // Implementation would depend on Web Audio API spatial audio features
+    audioGraph.setSpatial({ enabled });
   };
 
   const toggleNoiseReduction = (enabled: boolean) => {
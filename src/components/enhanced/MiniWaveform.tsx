@@ -1,59 +1,89 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
+import { audioGraph } from '@/services/playback/audioGraph';
 
 interface MiniWaveformProps {
-  audioRef?: React.RefObject<HTMLAudioElement>;
   isPlaying?: boolean;
   className?: string;
   bars?: number;
   height?: number;
+  peaks?: number[]; // Whole-track envelope; draws a static overview instead of the live spectrum
+  progress?: number; // Playhead position in the overview, 0-1
+  markers?: number[]; // Positions to flag in the overview, 0-1
+  activeMarker?: number;
+  onSeek?: (fraction: number) => void;
 }
 
 export const MiniWaveform: React.FC<MiniWaveformProps> = ({
-  audioRef,
   isPlaying = false,
   className = '',
   bars = 20,
-  height = 32
+  height = 32,
+  peaks,
+  progress = 0,
+  markers = [],
+  activeMarker = -1,
+  onSeek
 }) => {
+  const isOverview = !!peaks;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
-  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const [dataArray, setDataArray] = useState<Uint8Array | null>(null);
 
+  // Listen on the shared audio graph instead of tapping the media element
   useEffect(() => {
-    if (!audioRef?.current || !isPlaying) return;
-
-    const setupAudioContext = async () => {
-      try {
-        const context = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const analyserNode = context.createAnalyser();
-        const source = context.createMediaElementSource(audioRef.current!);
-        
-        source.connect(analyserNode);
-        analyserNode.connect(context.destination);
-        
-        analyserNode.fftSize = 256;
-        const bufferLength = analyserNode.frequencyBinCount;
-        const dataArray = new Uint8Array(bufferLength);
-        
-        setAudioContext(context);
-        setAnalyser(analyserNode);
-        setDataArray(dataArray);
-      } catch (error) {
-        console.error('Failed to setup audio context:', error);
-      }
-    };
-
-    setupAudioContext();
+    if (isOverview) return;
+
+    let analyserNode: AnalyserNode | null = null;
+    try {
+      analyserNode = audioGraph.createAnalyser(256);
+      setAnalyser(analyserNode);
+      setDataArray(new Uint8Array(analyserNode.frequencyBinCount));
+    } catch (error) {
+      console.error('Failed to setup audio analyser:', error);
+    }
 
     return () => {
-      if (audioContext) {
-        audioContext.close();
+      if (analyserNode) {
+        audioGraph.releaseAnalyser(analyserNode);
       }
+      setAnalyser(null);
     };
-  }, [audioRef, isPlaying]);
+  }, [isOverview]);
+
+  // Static overview: peaks as mirrored bars, then markers and the playhead on top
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!peaks || !canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const barWidth = canvas.width / Math.max(1, peaks.length);
+    const middle = canvas.height / 2;
+    const playedUntil = progress * canvas.width;
+
+    peaks.forEach((peak, i) => {
+      const x = i * barWidth;
+      const barHeight = Math.max(1, peak * canvas.height);
+      ctx.fillStyle = x < playedUntil ? 'hsl(264, 83%, 58%)' : 'hsla(264, 20%, 60%, 0.5)';
+      ctx.fillRect(x, middle - barHeight / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+
+    markers.forEach((marker, i) => {
+      ctx.fillStyle = i === activeMarker ? 'hsl(45, 95%, 55%)' : 'hsla(280, 83%, 75%, 0.8)';
+      ctx.fillRect(Math.round(marker * canvas.width), 0, i === activeMarker ? 2 : 1, canvas.height);
+    });
+
+    ctx.fillStyle = 'hsl(0, 0%, 100%)';
+    ctx.fillRect(Math.round(playedUntil), 0, 2, canvas.height);
+  }, [peaks, progress, markers, activeMarker]);
+
+  const handleOverviewClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)));
+  };
 
   const draw = () => {
     if (!canvasRef.current || !analyser || !dataArray) return;
@@ -123,7 +153,15 @@ export const MiniWaveform: React.FC<MiniWaveformProps> = ({
 
   return (
     <div className={cn("flex items-end justify-center gap-1", className)}>
-      {audioContext && analyser ? (
+      {isOverview ? (
+        <canvas
+          ref={canvasRef}
+          width={Math.max(peaks.length, 1) * 2}
+          height={height}
+          onClick={handleOverviewClick}
+          className={cn("w-full h-full", onSeek && "cursor-pointer")}
+        />
+      ) : analyser ? (
         <canvas
           ref={canvasRef}
           width={bars * 4}
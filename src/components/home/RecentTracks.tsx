@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
+import { AlbumArtwork } from '@/components/library/AlbumArtwork';
+import { QueueActionItems } from '@/components/queue/QueueActionsMenu';
 import { cn } from '@/lib/utils';
 
 interface RecentTracksProps {
@@ -131,17 +133,7 @@ export const RecentTracks: React.FC<RecentTracksProps> = ({
             >
               {/* Album Art / Icon */}
               <div className="relative">
-                {track.albumArt ? (
-                  <img
-                    src={track.albumArt}
-                    alt={`${track.album} cover`}
-                    className="w-12 h-12 rounded-lg object-cover"
-                  />
-                ) : (
-                  <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center">
-                    <Music className="w-6 h-6 text-primary" />
-                  </div>
-                )}
+                <AlbumArtwork track={track} className="w-12 h-12 rounded-lg" iconClassName="w-6 h-6" />
                 <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity">
                   <Play className="w-5 h-5 text-white" />
                 </div>
@@ -172,7 +164,7 @@ export const RecentTracks: React.FC<RecentTracksProps> = ({
               </div>
 
               {/* Actions */}
-              <div className="flex items-center gap-1">
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
                 {track.playCount > 5 && (
                   <Heart className="w-4 h-4 text-red-500 fill-current" />
                 )}
@@ -192,6 +184,7 @@ export const RecentTracks: React.FC<RecentTracksProps> = ({
                       <Play className="w-4 h-4 mr-2" />
                       Play
                     </DropdownMenuItem>
+                    <QueueActionItems tracks={[track]} />
                     <DropdownMenuItem>
                       <Heart className="w-4 h-4 mr-2" />
                       Add to Favorites
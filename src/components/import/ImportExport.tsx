@@ -6,7 +6,7 @@ import { Progress } from '@/components/ui/progress';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { useMediaLibrary } from '@/hooks/useMediaLibrary';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
 import { toast } from 'sonner';
 
 interface ImportExportProps {
@@ -70,11 +70,11 @@ export const ImportExport: React.FC<ImportExportProps> = ({
       // Export playlists
       if (exportOptions.includePlaylists) {
         setExportProgress(50);
-        const playlists = await musicDB.getAllPlaylists();
+        const playlists = await libraryRepository.getAllPlaylists();
         exportData.playlists = playlists.map(playlist => ({
           name: playlist.name,
           description: playlist.description,
-          songs: playlist.songs,
+          songs: playlist.trackIds,
           createdAt: playlist.createdAt,
           color: playlist.color
         }));
@@ -83,7 +83,7 @@ export const ImportExport: React.FC<ImportExportProps> = ({
       // Export stats
       if (exportOptions.includeStats) {
         setExportProgress(75);
-        const stats = await musicDB.getStats();
+        const stats = await libraryRepository.getStats();
         exportData.stats = stats;
       }
 
@@ -201,12 +201,12 @@ export const ImportExport: React.FC<ImportExportProps> = ({
         setImportProgress(50);
         for (const playlist of parsedData.playlists) {
           try {
-            await musicDB.createPlaylist({
-              ...playlist,
+            await libraryRepository.createPlaylist({
+              name: playlist.name,
+              description: playlist.description,
+              color: playlist.color,
               id: `imported_${Date.now()}_${Math.random()}`,
-              trackIds: playlist.songs,
-              dateCreated: new Date(),
-              lastModified: new Date()
+              trackIds: playlist.songs ?? playlist.trackIds ?? []
             });
           } catch (error) {
             console.warn('Failed to import playlist:', playlist.name);
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Music, type LucideIcon } from 'lucide-react';
+import { LazyImage } from '@/components/performance/LazyImage';
+import { useArtworkUrl } from '@/hooks/media/useArtworkUrl';
+import type { Track } from '@/hooks/useMediaLibrary';
+import type { ArtworkSize } from '@/services/library/artworkService';
+import { cn } from '@/lib/utils';
+
+interface AlbumArtworkProps {
+  track?: Pick<Track, 'artworkHash' | 'albumArt' | 'album'> | null;
+  size?: ArtworkSize;
+  className?: string; // Dimensions and rounding, shared by the image and the placeholder
+  icon?: LucideIcon;
+  iconClassName?: string;
+}
+
+/**
+ * A track's cover, loaded once scrolled into view, or an icon when it has none
+ */
+export const AlbumArtwork: React.FC<AlbumArtworkProps> = ({
+  track,
+  size = 'list',
+  className,
+  icon: Icon = Music,
+  iconClassName = 'w-1/2 h-1/2'
+}) => {
+  const url = useArtworkUrl(track, size);
+
+  if (!url) {
+    return (
+      <div className={cn('bg-primary/10 flex items-center justify-center shrink-0', className)}>
+        <Icon className={cn('text-primary', iconClassName)} />
+      </div>
+    );
+  }
+
+  return (
+    <LazyImage
+      key={url}
+      src={url}
+      alt={`${track?.album || 'Album'} cover`}
+      className={cn('object-cover shrink-0', className)}
+    />
+  );
+};
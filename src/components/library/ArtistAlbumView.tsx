@@ -1,23 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { User, Disc, Play, Shuffle, Heart } from 'lucide-react';
+import { User, Users, Disc, Play, Shuffle, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
+import { AlbumArtwork } from '@/components/library/AlbumArtwork';
 import { SwipeableCard } from '@/components/enhanced/SwipeableCard';
+import { QueueActionsMenu } from '@/components/queue/QueueActionsMenu';
+import { libraryRepository } from '@/services/libraryRepository';
+import { listeningHistoryService } from '@/services/listeningHistoryService';
+import { PlaybackSource } from '@/services/enhancedDatabase';
+import { normalizeCreditName } from '@/services/library/credits';
+import {
+  UNKNOWN_ALBUM,
+  UNKNOWN_ARTIST,
+  compareAlbumOrder,
+  compareSortNames,
+  getAlbumArtist,
+  getAlbumKey,
+  getSortName
+} from '@/services/library/albumGrouping';
 
 interface Artist {
+  id: string;
   name: string;
-  tracks: Track[];
-  albumCount: number;
+  sortName: string;
+  albums: Album[]; // Albums filed under the artist
+  appearances: Track[]; // Performances on other artists' albums
+  topTracks: Array<{ track: Track; plays: number }>;
+  tracks: Track[]; // Own albums first, then appearances
   totalDuration: number;
 }
 
 interface Album {
+  key: string;
   name: string;
-  artist: string;
+  sortName: string;
+  artist: string; // Album artist
   tracks: Track[];
   year?: number;
   totalDuration: number;
@@ -26,9 +47,11 @@ interface Album {
 interface ArtistAlbumViewProps {
   isOpen: boolean;
   onClose: () => void;
-  onPlayTrack: (track: Track, tracks: Track[]) => void;
+  onPlayTrack: (track: Track, tracks: Track[], source?: PlaybackSource, sourceId?: string) => void;
 }
 
+const TOP_TRACK_COUNT = 5;
+
 export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
   isOpen,
   onClose,
@@ -52,58 +75,95 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
     setIsLoading(true);
     
     try {
-      // Group by artists
-      const artistMap = new Map<string, Track[]>();
-      const albumMap = new Map<string, Track[]>();
-
+      // Albums are keyed by album artist, so compilations and featured credits stay together
+      const albumMap = new Map<string, Album>();
       audioFiles.forEach(track => {
-        const artistName = track.artist || 'Unknown Artist';
-        const albumKey = `${artistName} - ${track.album || 'Unknown Album'}`;
-
-        // Group by artist
-        if (!artistMap.has(artistName)) {
-          artistMap.set(artistName, []);
+        const key = getAlbumKey(track);
+        if (!albumMap.has(key)) {
+          const name = track.album || UNKNOWN_ALBUM;
+          albumMap.set(key, {
+            key,
+            name,
+            sortName: getSortName(name, track.sortAlbum),
+            artist: getAlbumArtist(track),
+            tracks: [],
+            totalDuration: 0
+          });
         }
-        artistMap.get(artistName)!.push(track);
-
-        // Group by album
-        if (!albumMap.has(albumKey)) {
-          albumMap.set(albumKey, []);
-        }
-        albumMap.get(albumKey)!.push(track);
+        albumMap.get(key)!.tracks.push(track);
       });
 
-      // Convert to arrays and calculate stats
-      const artistsArray: Artist[] = Array.from(artistMap.entries()).map(([name, tracks]) => {
-        const albums = new Set(tracks.map(t => t.album || 'Unknown Album'));
-        const totalDuration = tracks.reduce((sum, t) => sum + t.duration, 0);
-        
+      const albumsArray = Array.from(albumMap.values()).map(album => {
+        const years = album.tracks.map(t => t.year).filter((year): year is number => !!year);
         return {
-          name,
-          tracks,
-          albumCount: albums.size,
-          totalDuration
+          ...album,
+          tracks: [...album.tracks].sort(compareAlbumOrder),
+          year: years.length > 0 ? Math.min(...years) : undefined,
+          totalDuration: album.tracks.reduce((sum, t) => sum + t.duration, 0)
         };
       });
 
-      const albumsArray: Album[] = Array.from(albumMap.entries()).map(([key, tracks]) => {
-        const [artist, albumName] = key.split(' - ');
-        const totalDuration = tracks.reduce((sum, t) => sum + t.duration, 0);
-        const years = tracks.map(t => t.year).filter(Boolean);
-        const year = years.length > 0 ? Math.min(...years) : undefined;
-        
+      // Artists come from the split credits, so "A feat. B" and "A & B" reach both A's and B's pages
+      const [credits, events] = await Promise.all([
+        libraryRepository.getCreditLookup(),
+        libraryRepository.getPlayEvents()
+      ]);
+      const playsByTrack = new Map(
+        listeningHistoryService.summarize(events, []).topTracks.map(entry => [entry.trackId, entry.plays])
+      );
+      const albumByTrack = new Map(albumsArray.flatMap(album => album.tracks.map(t => [t.id, album] as const)));
+
+      const artistMap = new Map<string, { name: string; albums: Set<Album>; performances: Track[] }>();
+      const entryFor = (id: string, name: string) => {
+        if (!artistMap.has(id)) artistMap.set(id, { name, albums: new Set(), performances: [] });
+        return artistMap.get(id)!;
+      };
+      audioFiles.forEach(track => {
+        const albumArtists = credits.getSongArtists(track.id, ['albumArtist']);
+        const performers = credits.getSongArtists(track.id);
+        albumArtists.forEach(artist => entryFor(artist.id, artist.name).albums.add(albumByTrack.get(track.id)!));
+        performers.forEach(artist => entryFor(artist.id, artist.name).performances.push(track));
+        if (albumArtists.length === 0 && performers.length === 0) {
+          entryFor(normalizeCreditName(UNKNOWN_ARTIST), UNKNOWN_ARTIST).performances.push(track);
+        }
+      });
+
+      // Own albums play album by album, oldest first
+      const artistsArray: Artist[] = Array.from(artistMap.entries()).map(([id, { name, albums, performances }]) => {
+        const ordered = [...albums].sort((a, b) =>
+          (a.year ?? Infinity) - (b.year ?? Infinity) || compareSortNames(a.sortName, b.sortName)
+        );
+        const ownTracks = ordered.flatMap(album => album.tracks);
+        const ownIds = new Set(ownTracks.map(t => t.id));
+        const appearances = performances.filter(t => !ownIds.has(t.id));
+        const tracks = [...ownTracks, ...appearances];
+        const tagged = tracks.find(t =>
+          (t.sortAlbumArtist && normalizeCreditName(t.albumArtist ?? '') === id) ||
+          (t.sortArtist && normalizeCreditName(t.artist) === id)
+        );
+        const sortName = tagged && normalizeCreditName(tagged.albumArtist ?? '') === id
+          ? tagged.sortAlbumArtist
+          : tagged?.sortArtist;
+
         return {
-          name: albumName,
-          artist,
-          tracks: tracks.sort((a, b) => (a.year || 0) - (b.year || 0)),
-          year,
-          totalDuration
+          id,
+          name,
+          sortName: getSortName(name, sortName),
+          albums: ordered,
+          appearances,
+          topTracks: tracks
+            .map(track => ({ track, plays: playsByTrack.get(track.id) ?? 0 }))
+            .filter(entry => entry.plays > 0)
+            .sort((a, b) => b.plays - a.plays)
+            .slice(0, TOP_TRACK_COUNT),
+          tracks,
+          totalDuration: tracks.reduce((sum, t) => sum + t.duration, 0)
         };
       });
 
-      // Sort by track count (most popular first)
-      artistsArray.sort((a, b) => b.tracks.length - a.tracks.length);
-      albumsArray.sort((a, b) => b.tracks.length - a.tracks.length);
+      // Sort by track count (most popular first), then by name
+      artistsArray.sort((a, b) => b.tracks.length - a.tracks.length || compareSortNames(a.sortName, b.sortName));
+      albumsArray.sort((a, b) => b.tracks.length - a.tracks.length || compareSortNames(a.sortName, b.sortName));
 
       setArtists(artistsArray);
       setAlbums(albumsArray);
@@ -123,6 +183,9 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
     return `${minutes}m`;
   };
 
+  const isMultiDisc = (album: Album): boolean =>
+    new Set(album.tracks.map(t => t.discNumber ?? 1)).size > 1;
+
   const filteredArtists = artists.filter(artist =>
     artist.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -138,7 +201,7 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
       tracks = tracks.sort(() => Math.random() - 0.5);
     }
     if (tracks.length > 0) {
-      onPlayTrack(tracks[0], tracks);
+      onPlayTrack(tracks[0], tracks, PlaybackSource.ARTIST, artist.id);
     }
   };
 
@@ -148,10 +211,60 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
       tracks = tracks.sort(() => Math.random() - 0.5);
     }
     if (tracks.length > 0) {
-      onPlayTrack(tracks[0], tracks);
+      onPlayTrack(tracks[0], tracks, PlaybackSource.ALBUM, album.key);
     }
   };
 
+  const formatTrackDuration = (seconds: number): string =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+  // Albums show the art of their first track that has any
+  const albumCover = (album: Album): Track | undefined =>
+    album.tracks.find(track => track.artworkHash || track.albumArt);
+
+  const renderAlbumCard = (album: Album, showArtist: boolean) => (
+    <SwipeableCard
+      key={album.key}
+      onTap={() => setSelectedAlbum(album)}
+      className="proton-card p-4 cursor-pointer transition-all hover:scale-[1.02]"
+    >
+      <div className="flex items-center gap-4">
+        <AlbumArtwork track={albumCover(album)} className="w-12 h-12 rounded-lg" icon={Disc} />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold truncate">{album.name}</h3>
+          {showArtist && <p className="text-sm text-muted-foreground truncate">{album.artist}</p>}
+          <p className="text-xs text-muted-foreground">
+            {album.year && `${album.year} • `}
+            {album.tracks.length} songs • {formatDuration(album.totalDuration)}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              playAlbum(album);
+            }}
+          >
+            <Play size={16} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              playAlbum(album, true);
+            }}
+          >
+            <Shuffle size={16} />
+          </Button>
+          <QueueActionsMenu tracks={album.tracks} className="w-10 h-10" />
+        </div>
+      </div>
+    </SwipeableCard>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -183,32 +296,32 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
           />
         </div>
 
-        {selectedArtist ? (
-          /* Artist Detail View */
+        {selectedAlbum ? (
+          /* Album Detail View */
           <div className="flex-1 flex flex-col">
             <div className="p-6 border-b border-border/50">
               <Button 
                 variant="ghost" 
-                onClick={() => setSelectedArtist(null)}
+                onClick={() => setSelectedAlbum(null)}
                 className="mb-4"
               >
-                ← Back to Artists
+                ← Back to {selectedArtist ? selectedArtist.name : 'Albums'}
               </Button>
               <div className="flex items-center gap-4">
-                <div className="w-20 h-20 rounded-2xl bg-primary/10 flex items-center justify-center">
-                  <User className="w-10 h-10 text-primary" />
-                </div>
+                <AlbumArtwork track={albumCover(selectedAlbum)} size="grid" className="w-20 h-20 rounded-2xl" icon={Disc} />
                 <div>
-                  <h3 className="text-2xl font-bold">{selectedArtist.name}</h3>
-                  <p className="text-muted-foreground">
-                    {selectedArtist.tracks.length} songs • {selectedArtist.albumCount} albums • {formatDuration(selectedArtist.totalDuration)}
+                  <h3 className="text-2xl font-bold">{selectedAlbum.name}</h3>
+                  <p className="text-lg text-muted-foreground">{selectedAlbum.artist}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedAlbum.year && `${selectedAlbum.year} • `}
+                    {selectedAlbum.tracks.length} songs • {formatDuration(selectedAlbum.totalDuration)}
                   </p>
                   <div className="flex gap-2 mt-3">
-                    <Button onClick={() => playArtist(selectedArtist)} className="proton-button">
+                    <Button onClick={() => playAlbum(selectedAlbum)} className="proton-button">
                       <Play size={16} className="mr-2" />
-                      Play All
+                      Play Album
                     </Button>
-                    <Button variant="outline" onClick={() => playArtist(selectedArtist, true)}>
+                    <Button variant="outline" onClick={() => playAlbum(selectedAlbum, true)}>
                       <Shuffle size={16} className="mr-2" />
                       Shuffle
                     </Button>
@@ -218,57 +331,58 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
             </div>
             <ScrollArea className="flex-1">
               <div className="p-4 space-y-2">
-                {selectedArtist.tracks.map((track, index) => (
+                {selectedAlbum.tracks.map((track, index) => (
                   <SwipeableCard
                     key={track.id}
-                    onTap={() => onPlayTrack(track, selectedArtist.tracks)}
+                    onTap={() => onPlayTrack(track, selectedAlbum.tracks, PlaybackSource.ALBUM, selectedAlbum.key)}
                     className="p-3 rounded-lg hover:bg-accent/50 transition-all"
                   >
                     <div className="flex items-center gap-3">
-                      <div className="text-sm text-muted-foreground w-6">
-                        {index + 1}
+                      <div className="text-sm text-muted-foreground w-8">
+                        {isMultiDisc(selectedAlbum) && track.discNumber ? `${track.discNumber}-` : ''}
+                        {track.trackNumber ?? index + 1}
                       </div>
                       <div className="flex-1 min-w-0">
                         <h4 className="font-medium truncate">{track.title}</h4>
                         <p className="text-sm text-muted-foreground truncate">
-                          {track.album} • {Math.floor(track.duration / 60)}:{(track.duration % 60).toString().padStart(2, '0')}
+                          {track.artist !== selectedAlbum.artist && `${track.artist} • `}
+                          {formatTrackDuration(track.duration)}
                         </p>
                       </div>
                       <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
+                      <QueueActionsMenu tracks={[track]} />
                     </div>
                   </SwipeableCard>
                 ))}
               </div>
             </ScrollArea>
           </div>
-        ) : selectedAlbum ? (
-          /* Album Detail View */
+        ) : selectedArtist ? (
+          /* Artist Detail View */
           <div className="flex-1 flex flex-col">
             <div className="p-6 border-b border-border/50">
               <Button 
                 variant="ghost" 
-                onClick={() => setSelectedAlbum(null)}
+                onClick={() => setSelectedArtist(null)}
                 className="mb-4"
               >
-                ← Back to Albums
+                ← Back to Artists
               </Button>
               <div className="flex items-center gap-4">
                 <div className="w-20 h-20 rounded-2xl bg-primary/10 flex items-center justify-center">
-                  <Disc className="w-10 h-10 text-primary" />
+                  <User className="w-10 h-10 text-primary" />
                 </div>
                 <div>
-                  <h3 className="text-2xl font-bold">{selectedAlbum.name}</h3>
-                  <p className="text-lg text-muted-foreground">{selectedAlbum.artist}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {selectedAlbum.year && `${selectedAlbum.year} • `}
-                    {selectedAlbum.tracks.length} songs • {formatDuration(selectedAlbum.totalDuration)}
+                  <h3 className="text-2xl font-bold">{selectedArtist.name}</h3>
+                  <p className="text-muted-foreground">
+                    {selectedArtist.tracks.length} songs • {selectedArtist.albums.length} albums • {formatDuration(selectedArtist.totalDuration)}
                   </p>
                   <div className="flex gap-2 mt-3">
-                    <Button onClick={() => playAlbum(selectedAlbum)} className="proton-button">
+                    <Button onClick={() => playArtist(selectedArtist)} className="proton-button">
                       <Play size={16} className="mr-2" />
-                      Play Album
+                      Play All
                     </Button>
-                    <Button variant="outline" onClick={() => playAlbum(selectedAlbum, true)}>
+                    <Button variant="outline" onClick={() => playArtist(selectedArtist, true)}>
                       <Shuffle size={16} className="mr-2" />
                       Shuffle
                     </Button>
@@ -277,27 +391,73 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
               </div>
             </div>
             <ScrollArea className="flex-1">
-              <div className="p-4 space-y-2">
-                {selectedAlbum.tracks.map((track, index) => (
-                  <SwipeableCard
-                    key={track.id}
-                    onTap={() => onPlayTrack(track, selectedAlbum.tracks)}
-                    className="p-3 rounded-lg hover:bg-accent/50 transition-all"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="text-sm text-muted-foreground w-6">
-                        {index + 1}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <h4 className="font-medium truncate">{track.title}</h4>
-                        <p className="text-sm text-muted-foreground truncate">
-                          {Math.floor(track.duration / 60)}:{(track.duration % 60).toString().padStart(2, '0')}
-                        </p>
-                      </div>
-                      <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
-                    </div>
-                  </SwipeableCard>
-                ))}
+              <div className="p-4 space-y-6">
+                {selectedArtist.topTracks.length > 0 && (
+                  <section className="space-y-2">
+                    <h4 className="flex items-center gap-2 font-semibold">
+                      <TrendingUp className="w-4 h-4 text-primary" />
+                      Top Tracks
+                    </h4>
+                    {selectedArtist.topTracks.map(({ track, plays }, index) => (
+                      <SwipeableCard
+                        key={track.id}
+                        onTap={() => onPlayTrack(track, selectedArtist.topTracks.map(entry => entry.track), PlaybackSource.ARTIST, selectedArtist.id)}
+                        className="p-3 rounded-lg hover:bg-accent/50 transition-all"
+                      >
+                        <div className="flex items-center gap-3">
+                          <div className="text-sm text-muted-foreground w-6">
+                            {index + 1}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h4 className="font-medium truncate">{track.title}</h4>
+                            <p className="text-sm text-muted-foreground truncate">
+                              {track.album} • {plays} {plays === 1 ? 'play' : 'plays'}
+                            </p>
+                          </div>
+                          <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
+                          <QueueActionsMenu tracks={[track]} />
+                        </div>
+                      </SwipeableCard>
+                    ))}
+                  </section>
+                )}
+
+                {selectedArtist.albums.length > 0 && (
+                  <section className="space-y-3">
+                    <h4 className="flex items-center gap-2 font-semibold">
+                      <Disc className="w-4 h-4 text-primary" />
+                      Albums
+                    </h4>
+                    {selectedArtist.albums.map(album => renderAlbumCard(album, album.artist !== selectedArtist.name))}
+                  </section>
+                )}
+
+                {selectedArtist.appearances.length > 0 && (
+                  <section className="space-y-2">
+                    <h4 className="flex items-center gap-2 font-semibold">
+                      <Users className="w-4 h-4 text-primary" />
+                      Appears On
+                    </h4>
+                    {selectedArtist.appearances.map(track => (
+                      <SwipeableCard
+                        key={track.id}
+                        onTap={() => onPlayTrack(track, selectedArtist.appearances, PlaybackSource.ARTIST, selectedArtist.id)}
+                        className="p-3 rounded-lg hover:bg-accent/50 transition-all"
+                      >
+                        <div className="flex items-center gap-3">
+                          <div className="flex-1 min-w-0">
+                            <h4 className="font-medium truncate">{track.title}</h4>
+                            <p className="text-sm text-muted-foreground truncate">
+                              {track.artist} • {track.album || UNKNOWN_ALBUM} • {formatTrackDuration(track.duration)}
+                            </p>
+                          </div>
+                          <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
+                          <QueueActionsMenu tracks={[track]} />
+                        </div>
+                      </SwipeableCard>
+                    ))}
+                  </section>
+                )}
               </div>
             </ScrollArea>
           </div>
@@ -317,7 +477,7 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
                   ) : (
                     filteredArtists.map((artist) => (
                       <SwipeableCard
-                        key={artist.name}
+                        key={artist.id}
                         onTap={() => setSelectedArtist(artist)}
                         className="proton-card p-4 cursor-pointer transition-all hover:scale-[1.02]"
                       >
@@ -328,7 +488,8 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
                           <div className="flex-1 min-w-0">
                             <h3 className="font-semibold truncate">{artist.name}</h3>
                             <p className="text-sm text-muted-foreground">
-                              {artist.tracks.length} songs • {artist.albumCount} albums
+                              {artist.tracks.length} songs • {artist.albums.length} albums
+                              {artist.appearances.length > 0 && ` • ${artist.appearances.length} appearances`}
                             </p>
                             <p className="text-xs text-muted-foreground">
                               {formatDuration(artist.totalDuration)}
@@ -355,6 +516,7 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
                             >
                               <Shuffle size={16} />
                             </Button>
+                            <QueueActionsMenu tracks={artist.tracks} className="w-10 h-10" />
                           </div>
                         </div>
                       </SwipeableCard>
@@ -370,49 +532,7 @@ export const ArtistAlbumView: React.FC<ArtistAlbumViewProps> = ({
                   {isLoading ? (
                     <LoadingSkeleton variant="track" count={8} />
                   ) : (
-                    filteredAlbums.map((album) => (
-                      <SwipeableCard
-                        key={`${album.artist}-${album.name}`}
-                        onTap={() => setSelectedAlbum(album)}
-                        className="proton-card p-4 cursor-pointer transition-all hover:scale-[1.02]"
-                      >
-                        <div className="flex items-center gap-4">
-                          <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center">
-                            <Disc className="w-6 h-6 text-primary" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <h3 className="font-semibold truncate">{album.name}</h3>
-                            <p className="text-sm text-muted-foreground truncate">{album.artist}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {album.year && `${album.year} • `}
-                              {album.tracks.length} songs • {formatDuration(album.totalDuration)}
-                            </p>
-                          </div>
-                          <div className="flex gap-1">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                playAlbum(album);
-                              }}
-                            >
-                              <Play size={16} />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                playAlbum(album, true);
-                              }}
-                            >
-                              <Shuffle size={16} />
-                            </Button>
-                          </div>
-                        </div>
-                      </SwipeableCard>
-                    ))
+                    filteredAlbums.map(album => renderAlbumCard(album, true))
                   )}
                 </div>
               </ScrollArea>
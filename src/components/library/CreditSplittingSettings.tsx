@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { libraryRepository } from '@/services/libraryRepository';
+import { DEFAULT_CREDIT_SPLITTING } from '@/services/library/credits';
+import type { CreditSplittingSettings as Settings } from '@/services/enhancedDatabase';
+import { toast } from 'sonner';
+
+interface CreditSplittingSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Field = keyof Settings;
+
+const FIELDS: Array<{ field: Field; label: string; hint: string }> = [
+  { field: 'artistSeparators', label: 'Artist separators', hint: 'Spaces around a separator are part of it, so " / " splits "A / B" but not "AC/DC".' },
+  { field: 'featuringMarkers', label: 'Featuring markers', hint: 'Names after these count as featured artists.' },
+  { field: 'genreSeparators', label: 'Genre separators', hint: 'Splits tags such as "Rock/Indie".' },
+  { field: 'exceptions', label: 'Never split', hint: 'Artist and genre names that contain a separator, such as "AC/DC".' }
+];
+
+// One entry per line; separators keep their spaces, everything else is trimmed
+const toText = (values: string[]) => values.join('\n');
+const fromText = (field: Field, text: string) =>
+  text.split('\n').map(line => (field.endsWith('Separators') ? line : line.trim())).filter(line => line.trim());
+
+/**
+ * Choose how artist and genre tags holding several names are split into separate artists and genres
+ */
+export const CreditSplittingSettings: React.FC<CreditSplittingSettingsProps> = ({ open, onOpenChange }) => {
+  const [texts, setTexts] = useState<Record<Field, string> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const show = (settings: Settings) => setTexts({
+    artistSeparators: toText(settings.artistSeparators),
+    genreSeparators: toText(settings.genreSeparators),
+    featuringMarkers: toText(settings.featuringMarkers),
+    exceptions: toText(settings.exceptions)
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    libraryRepository.getCreditSplitting()
+      .then(show)
+      .catch(error => console.error('Failed to load splitting settings:', error));
+  }, [open]);
+
+  const save = async () => {
+    if (!texts) return;
+    setIsSaving(true);
+    try {
+      await libraryRepository.updateCreditSplitting({
+        artistSeparators: fromText('artistSeparators', texts.artistSeparators),
+        genreSeparators: fromText('genreSeparators', texts.genreSeparators),
+        featuringMarkers: fromText('featuringMarkers', texts.featuringMarkers),
+        exceptions: fromText('exceptions', texts.exceptions)
+      });
+      toast.success('Artists and genres updated');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save splitting settings:', error);
+      toast.error('Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Artists &amp; Genres</DialogTitle>
+          <DialogDescription>
+            Tags like "A feat. B" or "Rock/Indie" are split into separate artists and genres. One entry per line.
+          </DialogDescription>
+        </DialogHeader>
+
+        {texts && (
+          <div className="space-y-4">
+            {FIELDS.map(({ field, label, hint }) => (
+              <label key={field} className="block text-xs text-muted-foreground space-y-1">
+                {label}
+                <Textarea
+                  value={texts[field]}
+                  onChange={(event) => setTexts({ ...texts, [field]: event.target.value })}
+                  rows={4}
+                  className="font-mono text-sm"
+                />
+                <span className="block">{hint}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => show(DEFAULT_CREDIT_SPLITTING)} className="flex items-center gap-2">
+            <RotateCcw size={16} />
+            Defaults
+          </Button>
+          <Button onClick={save} disabled={!texts || isSaving} className="flex-1">
+            {isSaving ? 'Re-splitting library...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { FolderLock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useFileAccess } from '@/hooks/media/useFileAccess';
+
+/**
+ * Shown after a reload when the browser no longer lets the app read the music files it was given
+ */
+export const FileAccessBanner: React.FC = () => {
+  const { status, authorize } = useFileAccess();
+  const [isAuthorizing, setIsAuthorizing] = useState(false);
+
+  if (status !== 'needs-authorization') return null;
+
+  const handleAuthorize = async () => {
+    setIsAuthorizing(true);
+    try {
+      if ((await authorize()) === 'granted') {
+        toast.success('Music files are available again');
+      } else {
+        toast.error('Some music files still cannot be opened');
+      }
+    } catch (error) {
+      console.error('Failed to allow file access:', error);
+      toast.error('Could not ask for file access');
+    } finally {
+      setIsAuthorizing(false);
+    }
+  };
+
+  return (
+    <div className="fixed top-4 left-4 right-4 z-50 animate-slide-down">
+      <div className="flex items-center gap-3 rounded-lg border bg-card p-3 shadow-lg">
+        <FolderLock className="w-5 h-5 text-primary shrink-0" />
+        <p className="flex-1 text-sm">
+          Your music files need permission again before they can play.
+        </p>
+        <Button size="sm" onClick={handleAuthorize} disabled={isAuthorizing}>
+          Allow access
+        </Button>
+      </div>
+    </div>
+  );
+};
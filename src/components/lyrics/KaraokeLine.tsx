@@ -0,0 +1,38 @@
+import React from 'react';
+import { wordProgress, type LrcLine } from '@/services/lyrics/lrc';
+
+interface KaraokeLineProps {
+  line: LrcLine;
+  nextLineTime?: number;
+  currentTime: number;
+  active: boolean;
+}
+
+/**
+ * A lyrics line whose words fill in as they are sung; lines without word timings render as plain text
+ */
+export const KaraokeLine: React.FC<KaraokeLineProps> = ({ line, nextLineTime, currentTime, active }) => {
+  if (!active || !line.words?.length) {
+    return <>{line.text || ' '}</>;
+  }
+
+  const progress = wordProgress(line, nextLineTime, currentTime);
+  return (
+    <>
+      {line.words.map((word, index) => {
+        const filled = `${(progress[index] * 100).toFixed(1)}%`;
+        return (
+          <span
+            key={index}
+            className="bg-clip-text text-transparent whitespace-pre-wrap"
+            style={{
+              backgroundImage: `linear-gradient(90deg, hsl(var(--primary)) ${filled}, hsl(var(--muted-foreground)) ${filled})`
+            }}
+          >
+            {word.text}
+          </span>
+        );
+      })}
+    </>
+  );
+};
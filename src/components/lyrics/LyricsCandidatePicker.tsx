@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { lyricsService } from '@/services/lyricsService';
+import type { LyricsQuery } from '@/services/lyrics/providers';
+import type { LyricsCandidate } from '@/services/enhancedDatabase';
+import { parseLrc } from '@/services/lyrics/lrc';
+import { cn } from '@/lib/utils';
+
+interface LyricsCandidatePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  query: LyricsQuery;
+  onChoose: (lyrics: string, candidate: LyricsCandidate) => void;
+}
+
+const PREVIEW_LINES = 6;
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.round(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Lists what every lyrics source found for a track so the user can pick the right version
+ */
+export const LyricsCandidatePicker: React.FC<LyricsCandidatePickerProps> = ({
+  open,
+  onOpenChange,
+  query,
+  onChoose
+}) => {
+  const [candidates, setCandidates] = useState<LyricsCandidate[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const { title, artist, album, duration } = query;
+
+  const search = useCallback(async (refresh: boolean) => {
+    setIsSearching(true);
+    try {
+      setCandidates(await lyricsService.searchLyrics({ title, artist, album, duration }, { refresh }));
+      setSelected(0);
+    } catch (error) {
+      console.error('Lyrics search failed:', error);
+      setCandidates([]);
+    } finally {
+      setIsSearching(false);
+    }
+  }, [title, artist, album, duration]);
+
+  useEffect(() => {
+    if (open) search(false);
+  }, [open, search]);
+
+  const chosen = candidates[selected];
+  const preview = chosen
+    ? parseLrc(lyricsService.getCandidateText(chosen)).lines.filter(line => line.text).slice(0, PREVIEW_LINES)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Choose Lyrics</DialogTitle>
+          <DialogDescription>
+            {title} • {artist}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isSearching ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Searching lyrics sources...
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            No lyrics found. Check the lyrics sources in Settings.
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <ScrollArea className="h-72 pr-2">
+              <div className="space-y-1">
+                {candidates.map((candidate, index) => (
+                  <button
+                    key={`${candidate.providerId}-${candidate.externalId}`}
+                    type="button"
+                    onClick={() => setSelected(index)}
+                    className={cn(
+                      'w-full text-left p-2 rounded-lg transition-colors hover:bg-muted/50',
+                      index === selected && 'bg-primary/15 ring-1 ring-primary'
+                    )}
+                  >
+                    <p className="text-sm font-medium truncate">{candidate.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {candidate.artist}{candidate.album ? ` • ${candidate.album}` : ''}
+                    </p>
+                    <div className="flex items-center gap-1 mt-1">
+                      <Badge variant="secondary" className="text-[10px]">
+                        {lyricsService.getProviderName(candidate.providerId)}
+                      </Badge>
+                      <Badge variant={candidate.syncedLyrics ? 'default' : 'outline'} className="text-[10px]">
+                        {candidate.syncedLyrics ? 'Synced' : 'Plain'}
+                      </Badge>
+                      {candidate.duration !== undefined && (
+                        <span className="text-[10px] text-muted-foreground ml-auto">{formatDuration(candidate.duration)}</span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="rounded-lg bg-muted/30 p-3 text-sm space-y-1 h-72 overflow-hidden">
+              {preview.map((line, index) => (
+                <p key={index} className="truncate">{line.text}</p>
+              ))}
+              {preview.length > 0 && <p className="text-muted-foreground">…</p>}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-3">
+          <Button variant="outline" onClick={() => search(true)} disabled={isSearching} className="flex items-center gap-2">
+            <RefreshCw size={16} />
+            Search Again
+          </Button>
+          <Button
+            onClick={() => chosen && onChoose(lyricsService.getCandidateText(chosen), chosen)}
+            disabled={!chosen || isSearching}
+            className="proton-button"
+          >
+            Use These Lyrics
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
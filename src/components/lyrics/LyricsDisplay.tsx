@@ -1,58 +1,82 @@
-import React, { useState, useEffect } from 'react';
-import { Music, Download, Eye, EyeOff } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Music, Download, Eye, EyeOff, Edit } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Track } from '@/hooks/useMediaLibrary';
 import { cn } from '@/lib/utils';
+import { lyricsService } from '@/services/lyricsService';
+import { findActiveLine, serializeLrc, type LrcDocument } from '@/services/lyrics/lrc';
+import { KaraokeLine } from '@/components/lyrics/KaraokeLine';
 
 interface LyricsDisplayProps {
   currentTrack?: Track;
   currentTime?: number;
   className?: string;
+  onEdit?: () => void;
 }
 
-// Mock lyrics data - in a real app, this would come from an API
-const mockLyrics = {
-  "default": [
-    { time: 0, text: "Welcome to MelodyForge" },
-    { time: 5, text: "Your offline music companion" },
-    { time: 10, text: "Discover, play, and enjoy" },
-    { time: 15, text: "All your favorite songs" },
-    { time: 20, text: "In one beautiful place" },
-  ]
-};
-
 export const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
   currentTrack,
   currentTime = 0,
-  className
+  className,
+  onEdit
 }) => {
-  const [lyrics, setLyrics] = useState<Array<{ time: number; text: string }>>([]);
+  const [lrc, setLrc] = useState<LrcDocument | null>(null);
   const [isVisible, setIsVisible] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
+  const activeLineRef = useRef<HTMLDivElement>(null);
+  const trackId = currentTrack?.id;
+  const lyrics = lrc?.lines ?? [];
 
   useEffect(() => {
-    if (currentTrack) {
+    if (!trackId) return;
+
+    let cancelled = false;
+    const load = () => {
       setIsLoading(true);
-      // Simulate API call
-      setTimeout(() => {
-        setLyrics(mockLyrics.default);
-        setIsLoading(false);
-      }, 500);
-    }
-  }, [currentTrack]);
+      lyricsService.getTrackLyrics(trackId)
+        .then(loaded => { if (!cancelled) setLrc(loaded); })
+        .catch(error => console.error('Failed to load lyrics:', error))
+        .finally(() => { if (!cancelled) setIsLoading(false); });
+    };
 
-  const getCurrentLyricIndex = () => {
-    for (let i = lyrics.length - 1; i >= 0; i--) {
-      if (currentTime >= lyrics[i].time) {
-        return i;
-      }
-    }
-    return -1;
-  };
+    load();
+    const unsubscribe = lyricsService.onTrackLyricsChange(changedId => {
+      if (changedId === trackId) load();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [trackId]);
+
+  const currentLyricIndex = lrc?.synced ? findActiveLine(lyrics, currentTime) : -1;
 
-  const currentLyricIndex = getCurrentLyricIndex();
+  // Centre the active line inside the scroll area without scrolling the page around it
+  useEffect(() => {
+    const line = activeLineRef.current;
+    const viewport = line?.closest('[data-radix-scroll-area-viewport]');
+    if (!line || !viewport) return;
+
+    const lineRect = line.getBoundingClientRect();
+    const viewportRect = viewport.getBoundingClientRect();
+    viewport.scrollTo({
+      top: viewport.scrollTop + lineRect.top - viewportRect.top - (viewport.clientHeight - lineRect.height) / 2,
+      behavior: 'smooth'
+    });
+  }, [currentLyricIndex]);
+
+  const downloadLyrics = () => {
+    if (!lrc || !currentTrack) return;
+    const blob = new Blob([serializeLrc(lrc)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${currentTrack.artist} - ${currentTrack.title}.${lrc.synced ? 'lrc' : 'txt'}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
 
   if (!currentTrack) {
     return (
@@ -73,6 +97,16 @@ export const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">Lyrics</CardTitle>
           <div className="flex items-center gap-2">
+            {onEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onEdit}
+                className="w-8 h-8"
+              >
+                <Edit size={16} />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -85,7 +119,8 @@ export const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
               variant="ghost"
               size="icon"
               className="w-8 h-8"
-              onClick={() => console.log('Download lyrics')}
+              onClick={downloadLyrics}
+              disabled={!lrc}
             >
               <Download size={16} />
             </Button>
@@ -108,6 +143,7 @@ export const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
               {lyrics.map((lyric, index) => (
                 <div
                   key={index}
+                  ref={index === currentLyricIndex ? activeLineRef : undefined}
                   className={cn(
                     "transition-all duration-300 p-2 rounded-lg",
                     index === currentLyricIndex
@@ -115,7 +151,12 @@ export const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
                       : "text-muted-foreground"
                   )}
                 >
-                  {lyric.text}
+                  <KaraokeLine
+                    line={lyric}
+                    nextLineTime={lyrics[index + 1]?.time}
+                    currentTime={currentTime}
+                    active={index === currentLyricIndex}
+                  />
                 </div>
               ))}
               
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowUp, ArrowDown, RotateCcw, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { lyricsService, type ConfiguredLyricsProvider } from '@/services/lyricsService';
+import type { LyricsProviderSettings } from '@/services/enhancedDatabase';
+import { toast } from 'sonner';
+
+interface LyricsSourcesSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Order, enable and point the online lyrics sources at other servers
+ */
+export const LyricsSourcesSettings: React.FC<LyricsSourcesSettingsProps> = ({ open, onOpenChange }) => {
+  const [providers, setProviders] = useState<ConfiguredLyricsProvider[]>([]);
+
+  const loadProviders = async () => {
+    try {
+      setProviders(await lyricsService.getProviders());
+    } catch (error) {
+      console.error('Failed to load lyrics sources:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadProviders();
+  }, [open]);
+
+  const update = async (providerId: string, changes: Partial<LyricsProviderSettings>) => {
+    try {
+      await lyricsService.updateProviderSettings(providerId, changes);
+      await loadProviders();
+    } catch (error) {
+      console.error('Failed to save lyrics source:', error);
+      toast.error('Failed to save setting');
+    }
+  };
+
+  const move = async (index: number, direction: -1 | 1) => {
+    const ids = providers.map(({ provider }) => provider.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    await lyricsService.setProviderOrder(ids);
+    await loadProviders();
+  };
+
+  // Numeric fields only commit whole positive values, so clearing a field while typing does not reset it
+  const handleNumber = (providerId: string, field: 'timeoutMs' | 'minIntervalMs', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!isNaN(parsed) && parsed >= 0) update(providerId, { [field]: parsed });
+  };
+
+  const clearCache = async () => {
+    try {
+      await lyricsService.clearCache();
+      toast.success('Lyrics search cache cleared');
+    } catch (error) {
+      console.error('Failed to clear lyrics cache:', error);
+      toast.error('Failed to clear cache');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lyrics Sources</DialogTitle>
+          <DialogDescription>
+            Sources are tried from top to bottom when a track has no lyrics of its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {providers.map(({ provider, settings }, index) => (
+            <div key={provider.id} className="p-3 rounded-lg bg-muted/30 space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch checked={settings.enabled} onCheckedChange={(enabled) => update(provider.id, { enabled })} />
+                <p className="font-medium flex-1">{provider.name}</p>
+                <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp size={14} />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === providers.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown size={14} />
+                </Button>
+              </div>
+
+              <label className="block text-xs text-muted-foreground space-y-1">
+                Base URL
+                <div className="flex gap-2">
+                  <Input
+                    defaultValue={settings.baseUrl}
+                    key={`url-${settings.baseUrl}`}
+                    onBlur={(event) => {
+                      const baseUrl = event.target.value.trim();
+                      if (baseUrl && baseUrl !== settings.baseUrl) update(provider.id, { baseUrl });
+                    }}
+                    className="h-8"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    disabled={settings.baseUrl === provider.defaults.baseUrl}
+                    onClick={() => update(provider.id, { baseUrl: provider.defaults.baseUrl })}
+                  >
+                    <RotateCcw size={14} />
+                  </Button>
+                </div>
+              </label>
+
+              {provider.requiresApiKey && (
+                <label className="block text-xs text-muted-foreground space-y-1">
+                  API key
+                  <Input
+                    type="password"
+                    defaultValue={settings.apiKey ?? ''}
+                    key={`key-${settings.apiKey ?? ''}`}
+                    onBlur={(event) => update(provider.id, { apiKey: event.target.value.trim() || undefined })}
+                    className="h-8"
+                  />
+                </label>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-xs text-muted-foreground space-y-1">
+                  Timeout (ms)
+                  <Input
+                    type="number"
+                    defaultValue={settings.timeoutMs}
+                    key={`timeout-${settings.timeoutMs}`}
+                    onBlur={(event) => handleNumber(provider.id, 'timeoutMs', event.target.value)}
+                    className="h-8"
+                  />
+                </label>
+                <label className="block text-xs text-muted-foreground space-y-1">
+                  Min. gap between requests (ms)
+                  <Input
+                    type="number"
+                    defaultValue={settings.minIntervalMs}
+                    key={`interval-${settings.minIntervalMs}`}
+                    onBlur={(event) => handleNumber(provider.id, 'minIntervalMs', event.target.value)}
+                    className="h-8"
+                  />
+                </label>
+              </div>
+
+              {provider.requiresApiKey && !settings.apiKey && (
+                <p className="text-xs text-muted-foreground">Needs an API key before it is used.</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={clearCache} className="flex items-center gap-2">
+          <Trash2 size={16} />
+          Clear Lyrics Search Cache
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Play, Pause, Rewind, Timer, Undo2, Minus, Plus, X, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MiniWaveform } from '@/components/enhanced/MiniWaveform';
+import { Track } from '@/hooks/useMediaLibrary';
+import { playbackEngine } from '@/services/playback/playbackEngine';
+import { audioAnalysisService } from '@/services/analysis/audioAnalysisService';
+import { trackFileService } from '@/services/library/trackFileService';
+import { findActiveLine, formatLrcTimestamp, serializeLrc, type LrcLine } from '@/services/lyrics/lrc';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface LyricsSyncEditorProps {
+  currentTrack: Track;
+  lines: LrcLine[]; // Starting point; lines of unsynced lyrics carry no meaningful time
+  synced: boolean;
+  metadata: Record<string, string>; // Tags of the lyrics being synced, written back on save
+  currentTime: number;
+  isPlaying: boolean;
+  onSave: (lrc: string) => void;
+  onCancel: () => void;
+}
+
+interface SyncLine {
+  text: string;
+  time?: number;
+  // Enhanced word timings and the line end, relative to the line so they follow restamps and nudges
+  words?: Array<{ offset: number; text: string }>;
+  endOffset?: number;
+}
+
+const NUDGE_SECONDS = 0.1;
+const REWIND_SECONDS = 5;
+
+/**
+ * Tap-to-sync authoring: play the track and stamp each line as it starts
+ */
+export const LyricsSyncEditor: React.FC<LyricsSyncEditorProps> = ({
+  currentTrack,
+  lines: initialLines,
+  synced,
+  metadata,
+  currentTime,
+  isPlaying,
+  onSave,
+  onCancel
+}) => {
+  const [lines, setLines] = useState<SyncLine[]>(() =>
+    initialLines
+      .filter(line => synced || line.text.trim())
+      .map(line => synced
+        ? {
+          text: line.text,
+          time: line.time,
+          words: line.words?.map(word => ({ offset: word.time - line.time, text: word.text })),
+          endOffset: line.end !== undefined ? line.end - line.time : undefined
+        }
+        : { text: line.text })
+  );
+  const [cursor, setCursor] = useState(() => {
+    const firstUnstamped = lines.findIndex(line => line.time === undefined);
+    return firstUnstamped === -1 ? 0 : firstUnstamped;
+  });
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const isEngineTrack = playbackEngine.getCurrentTrack()?.id === currentTrack.id;
+  const duration = playbackEngine.getDuration() || currentTrack.duration || 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    trackFileService.getPlayableUrl(currentTrack)
+      .then(url => audioAnalysisService.getWaveform(url))
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(error => console.error('Failed to load waveform:', error));
+    return () => { cancelled = true; };
+  }, [currentTrack]);
+
+  // Preview: the stamped line being sung right now
+  const stamped = useMemo(
+    () => lines
+      .map((line, index) => ({ time: line.time, index }))
+      .filter((line): line is { time: number; index: number } => line.time !== undefined)
+      .sort((a, b) => a.time - b.time),
+    [lines]
+  );
+  const previewIndex = useMemo(() => {
+    const active = findActiveLine(stamped.map(line => ({ time: line.time, text: '' })), currentTime);
+    return active === -1 ? -1 : stamped[active].index;
+  }, [stamped, currentTime]);
+
+  // The engine's position only means something while it plays this song
+  const stamp = useCallback(() => {
+    if (!isEngineTrack || cursor >= lines.length) return;
+    const time = playbackEngine.getPosition();
+    setLines(current => current.map((line, index) => (index === cursor ? { ...line, time } : line)));
+    setCursor(cursor + 1);
+  }, [isEngineTrack, cursor, lines.length]);
+
+  // Undo the stamp on the line above the cursor, if it has one
+  const canUndo = cursor > 0 && lines[cursor - 1]?.time !== undefined;
+  const undoStamp = useCallback(() => {
+    if (!canUndo) return;
+    const previous = cursor - 1;
+    setLines(current => current.map((line, index) => (index === previous ? { ...line, time: undefined } : line)));
+    setCursor(previous);
+  }, [canUndo, cursor]);
+
+  const nudge = (index: number, delta: number) => {
+    setLines(current => current.map((line, i) =>
+      i === index && line.time !== undefined ? { ...line, time: Math.max(0, line.time + delta) } : line
+    ));
+  };
+
+  const togglePlayback = useCallback(() => {
+    if (playbackEngine.isPlaying()) {
+      playbackEngine.pause();
+    } else {
+      playbackEngine.play().catch(error => console.error('Failed to play:', error));
+    }
+  }, []);
+
+  // Space or Enter stamps, Backspace undoes, arrows move the cursor, P plays or pauses
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      switch (event.key) {
+        case ' ':
+        case 'Enter':
+          stamp();
+          break;
+        case 'Backspace':
+          undoStamp();
+          break;
+        case 'ArrowUp':
+          setCursor(current => Math.max(0, current - 1));
+          break;
+        case 'ArrowDown':
+          setCursor(current => Math.min(lines.length, current + 1));
+          break;
+        case 'p':
+        case 'P':
+          togglePlayback();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stamp, undoStamp, togglePlayback, lines.length]);
+
+  const save = () => {
+    const timed = lines.filter((line): line is SyncLine & { time: number } => line.time !== undefined);
+    if (timed.length === 0) {
+      toast.error('Stamp at least one line before saving');
+      return;
+    }
+    if (timed.length < lines.length) {
+      toast.warning(`${lines.length - timed.length} lines without a timestamp were left out`);
+    }
+
+    // Tags already in the lyrics win over the ones filled in from the track
+    const tags: Record<string, string> = {};
+    if (currentTrack.title) tags.ti = currentTrack.title;
+    if (currentTrack.artist) tags.ar = currentTrack.artist;
+    if (currentTrack.album) tags.al = currentTrack.album;
+
+    onSave(serializeLrc({
+      metadata: { ...tags, ...metadata },
+      lines: [...timed]
+        .sort((a, b) => a.time - b.time)
+        .map((line): LrcLine => ({
+          time: line.time,
+          text: line.text,
+          words: line.words?.map(word => ({ time: Math.max(0, line.time + word.offset), text: word.text })),
+          end: line.endOffset !== undefined ? line.time + line.endOffset : undefined
+        })),
+      synced: true
+    }));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Transport */}
+      <div className="p-4 border-b border-border/50 space-y-3">
+        {!isEngineTrack && (
+          <p className="text-sm text-destructive">Start playing this track to sync its lyrics.</p>
+        )}
+        <MiniWaveform
+          peaks={peaks ?? []}
+          progress={duration > 0 ? currentTime / duration : 0}
+          markers={duration > 0 ? stamped.map(line => line.time / duration) : []}
+          activeMarker={stamped.findIndex(line => line.index === previewIndex)}
+          onSeek={isEngineTrack ? fraction => playbackEngine.seek(fraction * duration) : undefined}
+          height={48}
+          className="h-12"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => playbackEngine.seek(Math.max(0, playbackEngine.getPosition() - REWIND_SECONDS))}
+            disabled={!isEngineTrack}
+          >
+            <Rewind size={16} />
+          </Button>
+          <Button variant="outline" size="icon" onClick={togglePlayback} disabled={!isEngineTrack}>
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </Button>
+          <span className="text-sm font-mono text-muted-foreground w-20">{formatLrcTimestamp(currentTime)}</span>
+          <Button onClick={stamp} disabled={!isEngineTrack || cursor >= lines.length} className="proton-button flex items-center gap-2">
+            <Timer size={16} />
+            Stamp line
+          </Button>
+          <Button variant="outline" onClick={undoStamp} disabled={!canUndo} className="flex items-center gap-2">
+            <Undo2 size={16} />
+            Undo
+          </Button>
+          <div className="flex-1" />
+          <Button variant="ghost" onClick={onCancel} className="flex items-center gap-2">
+            <X size={16} />
+            Cancel
+          </Button>
+          <Button onClick={save} className="flex items-center gap-2">
+            <Save size={16} />
+            Save LRC
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Space or Enter stamps the highlighted line, Backspace undoes, arrow keys move, P plays or pauses.
+        </p>
+      </div>
+
+      {/* Lines */}
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-1">
+          {lines.map((line, index) => (
+            <div
+              key={index}
+              onClick={() => setCursor(index)}
+              className={cn(
+                'flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors',
+                index === cursor && 'bg-primary/15 ring-1 ring-primary',
+                index === previewIndex && 'text-primary font-semibold'
+              )}
+            >
+              <button
+                type="button"
+                className="text-xs font-mono text-muted-foreground w-20 text-left hover:text-primary"
+                disabled={!isEngineTrack || line.time === undefined}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  if (isEngineTrack && line.time !== undefined) playbackEngine.seek(line.time);
+                }}
+              >
+                {line.time !== undefined ? formatLrcTimestamp(line.time) : '--:--.--'}
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={line.time === undefined}
+                onClick={(event) => { event.stopPropagation(); nudge(index, -NUDGE_SECONDS); }}
+              >
+                <Minus size={12} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={line.time === undefined}
+                onClick={(event) => { event.stopPropagation(); nudge(index, NUDGE_SECONDS); }}
+              >
+                <Plus size={12} />
+              </Button>
+              <span className="flex-1 truncate">{line.text || '♪'}</span>
+            </div>
+          ))}
+          {lines.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">
+              Add lyrics text in edit mode first, then sync it here.
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
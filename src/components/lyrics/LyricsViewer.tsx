@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Music2, Search, Download, Edit, X, Eye, EyeOff } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Music2, Search, Download, Edit, X, Eye, EyeOff, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -7,6 +7,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Track } from '@/hooks/useMediaLibrary';
 import { toast } from 'sonner';
+import { lyricsService } from '@/services/lyricsService';
+import { findActiveLine, parseLrc, serializeLrc } from '@/services/lyrics/lrc';
+import { KaraokeLine } from '@/components/lyrics/KaraokeLine';
+import { LyricsSyncEditor } from '@/components/lyrics/LyricsSyncEditor';
+import { LyricsCandidatePicker } from '@/components/lyrics/LyricsCandidatePicker';
 
 interface LyricsViewerProps {
   currentTrack?: Track;
@@ -16,11 +21,6 @@ interface LyricsViewerProps {
   onClose: () => void;
 }
 
-interface LyricLine {
-  time: number;
-  text: string;
-}
-
 export const LyricsViewer: React.FC<LyricsViewerProps> = ({
   currentTrack,
   currentTime,
@@ -28,13 +28,18 @@ export const LyricsViewer: React.FC<LyricsViewerProps> = ({
   isOpen,
   onClose
 }) => {
-  const [lyrics, setLyrics] = useState<LyricLine[]>([]);
-  const [plainLyrics, setPlainLyrics] = useState('');
+  // Raw LRC or plain text as edited; everything shown is parsed from it
+  const [rawLyrics, setRawLyrics] = useState('');
+  const lyricsDocument = useMemo(() => parseLrc(rawLyrics), [rawLyrics]);
+  const lyrics = lyricsDocument.synced ? lyricsDocument.lines : [];
+  const plainLyrics = lyricsDocument.synced ? '' : lyricsDocument.lines.map(line => line.text).join('\n');
   const [isEditing, setIsEditing] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [autoScroll, setAutoScroll] = useState(true);
   const [currentLineIndex, setCurrentLineIndex] = useState(-1);
   const [isLoading, setIsLoading] = useState(false);
+  const [showCandidates, setShowCandidates] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const activeLineRef = useRef<HTMLDivElement>(null);
 
@@ -64,18 +69,14 @@ export const LyricsViewer: React.FC<LyricsViewerProps> = ({
     
     setIsLoading(true);
     try {
-      // Try to load from localStorage first
-      const storedLyrics = localStorage.getItem(`lyrics_${currentTrack.id}`);
-      if (storedLyrics) {
-        const parsed = JSON.parse(storedLyrics);
-        if (parsed.synced) {
-          setLyrics(parsed.lines);
-        } else {
-          setPlainLyrics(parsed.text);
-        }
+      // Lyrics saved on the song come first
+      const stored = await lyricsService.getTrackLyrics(currentTrack.id);
+      if (stored) {
+        setRawLyrics(serializeLrc(stored));
       } else {
-        // Try to fetch from online sources (placeholder)
-        await searchLyricsOnline();
+        // Otherwise show the best online match; it is only stored once saved
+        const found = await lyricsService.fetchLyrics(lyricsQuery(currentTrack));
+        setRawLyrics(found ? serializeLrc({ metadata: {}, lines: found.lines, synced: found.synced }) : '');
       }
     } catch (error) {
       console.error('Failed to load lyrics:', error);
@@ -84,90 +85,38 @@ export const LyricsViewer: React.FC<LyricsViewerProps> = ({
     }
   };
 
-  const searchLyricsOnline = async () => {
-    if (!currentTrack) return;
-    
-    setIsLoading(true);
-    try {
-      // Placeholder for lyrics API integration
-      // In a real app, you'd integrate with Genius, Musixmatch, etc.
-      const searchTerm = `${currentTrack.artist} ${currentTrack.title} lyrics`;
-      
-      // Simulate API call
-      setTimeout(() => {
-        const sampleLyrics = generateSampleLyrics(currentTrack);
-        setPlainLyrics(sampleLyrics);
-        toast.info('Lyrics service not configured');
-        setIsLoading(false);
-      }, 1000);
-    } catch (error) {
-      console.error('Failed to search lyrics:', error);
-      toast.error('Failed to fetch lyrics');
-      setIsLoading(false);
-    }
-  };
-
-  const generateSampleLyrics = (track: Track): string => {
-    return `${track.title}
-by ${track.artist}
-
-Lyrics not available
-Connect to a lyrics service to display lyrics for this track.
-
-[Chorus]
-The actual lyrics would sync with the music
-Line by line highlighting
-Making it easy to sing along
-With your favorite songs
-
-[Verse 2]
-You can edit these lyrics manually
-Or fetch them from online sources
-The lyrics viewer supports both
-Synced and plain text formats
+  const lyricsQuery = (track: Track) => ({
+    title: track.title,
+    artist: track.artist,
+    album: track.album,
+    duration: track.duration || undefined
+  });
 
-[Bridge]
-Time-synced lyrics scroll automatically
-Following the beat of the music
-Creating an immersive experience
-For every listening session
+  const searchLyricsOnline = () => {
+    if (currentTrack) setShowCandidates(true);
+  };
 
-[Outro]
-This is just a sample
-Real integration coming soon
-Enjoy your music with lyrics
-In MelodyForge`;
+  const chooseCandidate = (lyrics: string) => {
+    setRawLyrics(lyrics);
+    setShowCandidates(false);
+    setIsEditing(true);
+    toast.info('Review the lyrics and save them to keep them');
   };
 
   const updateCurrentLine = () => {
     if (lyrics.length === 0) return;
     
-    let activeIndex = -1;
-    for (let i = 0; i < lyrics.length; i++) {
-      if (currentTime >= lyrics[i].time) {
-        activeIndex = i;
-      } else {
-        break;
-      }
-    }
-    
+    const activeIndex = findActiveLine(lyrics, currentTime);
     if (activeIndex !== currentLineIndex) {
       setCurrentLineIndex(activeIndex);
     }
   };
 
-  const saveLyrics = () => {
+  const saveLyrics = async () => {
     if (!currentTrack) return;
     
     try {
-      const lyricsData = {
-        synced: lyrics.length > 0,
-        lines: lyrics,
-        text: plainLyrics,
-        lastUpdated: new Date().toISOString()
-      };
-      
-      localStorage.setItem(`lyrics_${currentTrack.id}`, JSON.stringify(lyricsData));
+      await lyricsService.saveTrackLyrics(currentTrack.id, rawLyrics);
       toast.success('Lyrics saved successfully');
       setIsEditing(false);
     } catch (error) {
@@ -176,38 +125,17 @@ In MelodyForge`;
     }
   };
 
-  const parseLRCFormat = (lrcText: string): LyricLine[] => {
-    const lines: LyricLine[] = [];
-    const lrcRegex = /\[(\d{2}):(\d{2})\.(\d{2})\](.+)/g;
-    let match;
-    
-    while ((match = lrcRegex.exec(lrcText)) !== null) {
-      const minutes = parseInt(match[1]);
-      const seconds = parseInt(match[2]);
-      const centiseconds = parseInt(match[3]);
-      const time = minutes * 60 + seconds + centiseconds / 100;
-      const text = match[4].trim();
-      
-      lines.push({ time, text });
-    }
-    
-    return lines.sort((a, b) => a.time - b.time);
-  };
+  const saveSyncedLyrics = async (lrc: string) => {
+    if (!currentTrack) return;
 
-  const handleLRCImport = (text: string) => {
     try {
-      const parsed = parseLRCFormat(text);
-      if (parsed.length > 0) {
-        setLyrics(parsed);
-        setPlainLyrics('');
-        toast.success(`Imported ${parsed.length} synced lyrics lines`);
-      } else {
-        setPlainLyrics(text);
-        toast.info('Imported as plain text lyrics');
-      }
+      await lyricsService.saveTrackLyrics(currentTrack.id, lrc);
+      setRawLyrics(lrc);
+      setIsSyncing(false);
+      toast.success('Synced lyrics saved');
     } catch (error) {
-      console.error('Failed to parse LRC:', error);
-      toast.error('Failed to parse LRC format');
+      console.error('Failed to save lyrics:', error);
+      toast.error('Failed to save lyrics');
     }
   };
 
@@ -235,7 +163,19 @@ In MelodyForge`;
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setIsEditing(!isEditing)}
+              onClick={() => setIsSyncing(!isSyncing)}
+              disabled={!currentTrack || (!isSyncing && lyricsDocument.lines.length === 0)}
+            >
+              <Timer size={16} className="mr-2" />
+              {isSyncing ? 'Stop Sync' : 'Sync'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setIsSyncing(false);
+                setIsEditing(!isEditing);
+              }}
             >
               <Edit size={16} className="mr-2" />
               {isEditing ? 'View' : 'Edit'}
@@ -246,7 +186,19 @@ In MelodyForge`;
           </div>
         </div>
 
-        {isEditing ? (
+        {isSyncing && currentTrack ? (
+          /* Sync Mode */
+          <LyricsSyncEditor
+            currentTrack={currentTrack}
+            lines={lyricsDocument.lines}
+            synced={lyricsDocument.synced}
+            metadata={lyricsDocument.metadata}
+            currentTime={currentTime}
+            isPlaying={isPlaying}
+            onSave={saveSyncedLyrics}
+            onCancel={() => setIsSyncing(false)}
+          />
+        ) : isEditing ? (
           /* Edit Mode */
           <div className="flex-1 p-6 space-y-4">
             <div className="flex items-center gap-4">
@@ -257,7 +209,7 @@ In MelodyForge`;
                 className="flex items-center gap-2"
               >
                 <Search size={16} />
-                {isLoading ? 'Searching...' : 'Search Online'}
+                Search Online
               </Button>
               <Button
                 onClick={saveLyrics}
@@ -273,22 +225,14 @@ In MelodyForge`;
                 Lyrics (supports LRC format for syncing)
               </label>
               <Textarea
-                value={plainLyrics}
-                onChange={(e) => {
-                  setPlainLyrics(e.target.value);
-                  // Try to parse as LRC on change
-                  if (e.target.value.includes('[') && e.target.value.includes(']')) {
-                    const parsed = parseLRCFormat(e.target.value);
-                    if (parsed.length > 0) {
-                      setLyrics(parsed);
-                    }
-                  }
-                }}
+                value={rawLyrics}
+                onChange={(e) => setRawLyrics(e.target.value)}
                 placeholder="Paste lyrics here... 
                 
 LRC format example:
 [00:12.34]This is a synced lyric line
-[00:15.67]This line shows at 15.67 seconds
+[00:15.67][01:20.500]This line shows twice
+[00:20.00]<00:20.00>Word <00:20.40>by <00:20.80>word
 
 Or just paste plain text lyrics"
                 className="min-h-96 font-mono text-sm"
@@ -353,7 +297,12 @@ Or just paste plain text lyrics"
                           : 'text-muted-foreground'
                       }`}
                     >
-                      {line.text}
+                      <KaraokeLine
+                        line={line}
+                        nextLineTime={lyrics[index + 1]?.time}
+                        currentTime={currentTime}
+                        active={index === currentLineIndex}
+                      />
                     </div>
                   ))}
                 </div>
@@ -413,6 +362,15 @@ Or just paste plain text lyrics"
           </div>
         )}
       </div>
+
+      {currentTrack && (
+        <LyricsCandidatePicker
+          open={showCandidates}
+          onOpenChange={setShowCandidates}
+          query={lyricsQuery(currentTrack)}
+          onChoose={chooseCandidate}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
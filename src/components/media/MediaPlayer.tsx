@@ -3,7 +3,13 @@ import { Play, Pause, SkipBack, SkipForward, Volume2, Heart, Shuffle, Repeat, Ti
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Track } from '@/hooks/useMediaLibrary';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { listeningHistoryService, type PlaybackContext } from '@/services/listeningHistoryService';
+import { playbackEngine } from '@/services/playback/playbackEngine';
+import { playbackSession } from '@/services/playback/playbackSession';
+import { SHUFFLE_MODE_LABELS, SHUFFLE_MODES, type ShuffleMode } from '@/services/playback/shuffle';
+import type { RepeatMode } from '@/hooks/media/usePlaybackQueue';
+import { audioProfiles } from '@/services/playback/audioProfiles';
 import { AudioVisualizer } from '@/components/audio/AudioVisualizer';
 import { useBackgroundPlayback } from '@/hooks/useBackgroundPlayback';
 import { MiniWaveform } from '@/components/enhanced/MiniWaveform';
@@ -15,44 +21,53 @@ import { cn } from '@/lib/utils';
 
 interface MediaPlayerProps {
   currentTrack?: Track;
-  queue?: Track[];
-  queueIndex?: number;
+  playbackContext?: PlaybackContext;
+  shuffleMode?: ShuffleMode;
   onTrackEnd?: () => void;
-  onNext?: () => void;
+  onNext?: (repeatMode?: RepeatMode) => void;
   onPrevious?: () => void;
-  onReorderQueue?: (newQueue: Track[]) => void;
-  onClearQueue?: () => void;
-  onShuffleQueue?: () => void;
+  onShuffleModeChange?: (mode: ShuffleMode) => void;
+  getUpcomingTrack?: (repeatMode?: RepeatMode) => Track | null;
   className?: string;
 }
 
 export const MediaPlayer: React.FC<MediaPlayerProps> = ({
   currentTrack,
-  queue = [],
-  queueIndex = 0,
+  playbackContext,
+  shuffleMode = 'off',
   onTrackEnd,
   onNext,
   onPrevious,
-  onReorderQueue,
-  onClearQueue,
-  onShuffleQueue,
+  onShuffleModeChange,
+  getUpcomingTrack,
   className = ''
 }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const skipRequestedRef = useRef(false);
+  const playbackContextRef = useRef(playbackContext);
+  playbackContextRef.current = playbackContext;
+  const getUpcomingTrackRef = useRef(getUpcomingTrack);
+  getUpcomingTrackRef.current = getUpcomingTrack;
+  const currentTrackRef = useRef(currentTrack);
+  currentTrackRef.current = currentTrack;
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [volume, setVolume] = useState(1);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isShuffling, setIsShuffling] = useState(false);
-  const [repeatMode, setRepeatMode] = useState<'none' | 'one' | 'all'>('none');
+  // Player settings start from the saved session
+  const [volume, setVolume] = useState(() => playbackSession.getState().volume);
+  const [isMuted, setIsMuted] = useState(() => playbackSession.getState().isMuted);
+  const [repeatMode, setRepeatMode] = useState(() => playbackSession.getState().repeatMode);
+  const repeatModeRef = useRef(repeatMode);
+  repeatModeRef.current = repeatMode;
   const [isFavorite, setIsFavorite] = useState(false);
   const [showVisualizer, setShowVisualizer] = useState(false);
-  const [crossfadeDuration, setCrossfadeDuration] = useState(3);
   const [showMiniWaveform, setShowMiniWaveform] = useState(true);
   const [showEqualizer, setShowEqualizer] = useState(false);
   const [showQueueManager, setShowQueueManager] = useState(false);
 
+  useEffect(() => {
+    playbackSession.update({ volume, isMuted, repeatMode });
+  }, [volume, isMuted, repeatMode]);
+
   // Update favorite status when track changes
   useEffect(() => {
     if (currentTrack) {
@@ -61,135 +76,156 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
     }
   }, [currentTrack]);
 
-  // Audio event handlers
+  // One listening session per loaded track; leaving early via next is logged as a skip
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    if (!currentTrack) return;
 
-    const handleTimeUpdate = () => {
-      setCurrentTime(audio.currentTime);
+    skipRequestedRef.current = false;
+    listeningHistoryService.startSession(currentTrack, playbackContextRef.current);
+
+    return () => {
+      void listeningHistoryService.endSession(skipRequestedRef.current ? 'skipped' : 'stopped');
     };
+  }, [currentTrack]);
 
-    const handleDurationChange = () => {
-      setDuration(audio.duration || 0);
+  // Flush the open session when the page goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      void listeningHistoryService.endSession('stopped');
     };
 
-    const handleEnded = async () => {
-      if (currentTrack) {
-        // Update play count and stats
-        try {
-          const song = await musicDB.getSongById(currentTrack.id);
-          if (song) {
-            song.playCount += 1;
-            song.lastPlayed = new Date();
-            await musicDB.updateSong(song);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  // Follow the engine: it owns the audio elements and reports progress, track ends and automatic advances
+  useEffect(() => {
+    const unsubscribers = [
+      playbackEngine.onPlayStateChange(setIsPlaying),
+      playbackEngine.onTimeUpdate((position, trackDuration) => {
+        setCurrentTime(position);
+        setDuration(trackDuration || 0);
+        listeningHistoryService.updatePosition(position, trackDuration);
+      }),
+      playbackEngine.onTrackEnd(async () => {
+        await listeningHistoryService.endSession('completed');
+
+        if (repeatMode === 'one') {
+          if (currentTrack) {
+            listeningHistoryService.startSession(currentTrack, playbackContextRef.current);
           }
-        } catch (error) {
-          console.error('Failed to update song stats:', error);
+          await playbackEngine.restart();
+        } else if (repeatMode === 'all') {
+          // Played to the end, so this is no skip
+          onNext?.(repeatMode);
+        } else {
+          onTrackEnd?.();
         }
-      }
-      
-      if (repeatMode === 'one') {
-        audio.currentTime = 0;
-        audio.play();
-      } else if (repeatMode === 'all') {
-        handleNext();
-      } else {
-        setIsPlaying(false);
-        onTrackEnd?.();
-      }
-    };
+      }),
+      playbackEngine.onTrackAdvance(async () => {
+        // The engine already moved on through a crossfade or gapless transition
+        await listeningHistoryService.endSession('completed');
+        onNext?.(repeatMode);
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [currentTrack, repeatMode, onTrackEnd, onNext]);
+
+  // Load the selected track unless the engine got there on its own; the effect below keeps the upcoming track current
+  useEffect(() => {
+    if (!currentTrack) return;
 
-    const handleLoadedMetadata = () => {
-      setDuration(audio.duration || 0);
-    };
+    if (playbackEngine.getCurrentTrack()?.id !== currentTrack.id) {
+      const mode = repeatModeRef.current;
+      const upcoming = mode === 'one' ? null : getUpcomingTrackRef.current?.(mode) ?? null;
+      playbackEngine
+        .load(currentTrack, {
+          autoplay: playbackEngine.isPlaying(),
+          upcoming,
+          startAt: playbackSession.takeResumePosition(currentTrack.id)
+        })
+        .catch(error => console.error('Failed to load track:', error));
+    }
+    setCurrentTime(playbackEngine.getPosition());
+    setDuration(playbackEngine.getDuration() || currentTrack.duration || 0);
+  }, [currentTrack]);
 
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('durationchange', handleDurationChange);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+  // Switch to the EQ/effects profile the track inherits; refreshed copies of the same track keep any live tweaks
+  const currentTrackId = currentTrack?.id;
+  useEffect(() => {
+    void audioProfiles.applyForTrack(currentTrackRef.current);
+  }, [currentTrackId]);
 
-    return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('durationchange', handleDurationChange);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-    };
-  }, [currentTrack, repeatMode, onTrackEnd]);
+  // Keep the engine's next track in sync so it can prepare transitions
+  useEffect(() => {
+    if (!currentTrack) return;
+    playbackEngine.setUpcoming(repeatMode === 'one' ? null : getUpcomingTrack?.(repeatMode) ?? null);
+  }, [currentTrack, repeatMode, getUpcomingTrack]);
 
   // Handle play/pause
   const togglePlayPause = async () => {
-    const audio = audioRef.current;
-    if (!audio || !currentTrack) return;
+    if (!currentTrack) return;
 
     try {
       if (isPlaying) {
-        audio.pause();
+        playbackEngine.pause();
       } else {
-        await audio.play();
+        await playbackEngine.play();
       }
-      setIsPlaying(!isPlaying);
     } catch (error) {
       console.error('Error playing audio:', error);
     }
   };
 
-  // Handle next track with shuffle support
+  // Handle next track; the queue decides which one under shuffle
   const handleNext = () => {
-    if (onNext) {
-      // Pass shuffle and repeat state to the handler
-      (onNext as any)(repeatMode, isShuffling);
-    }
+    skipRequestedRef.current = true;
+    onNext?.(repeatMode);
   };
 
   // Handle previous track
   const handlePrevious = () => {
-    if (onPrevious) {
-      // Pass shuffle state to the handler
-      (onPrevious as any)(isShuffling);
-    }
+    onPrevious?.();
+  };
+
+  // Step through the shuffle modes; the current track keeps playing
+  const cycleShuffleMode = () => {
+    const next = SHUFFLE_MODES[(SHUFFLE_MODES.indexOf(shuffleMode) + 1) % SHUFFLE_MODES.length];
+    onShuffleModeChange?.(next);
   };
 
   // Background playback support
   useBackgroundPlayback({
     currentTrack,
     isPlaying,
-    onNext,
-    onPrevious,
+    onNext: handleNext,
+    onPrevious: handlePrevious,
     onPlay: togglePlayPause,
     onPause: togglePlayPause
   });
 
   // Handle seek
   const handleSeek = (values: number[]) => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
-    audio.currentTime = values[0];
+    playbackEngine.seek(values[0]);
     setCurrentTime(values[0]);
   };
 
   // Handle volume change
   const handleVolumeChange = (values: number[]) => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
     const newVolume = values[0];
-    audio.volume = newVolume;
+    playbackEngine.setVolume(newVolume);
     setVolume(newVolume);
     setIsMuted(newVolume === 0);
   };
 
   // Toggle mute
   const toggleMute = () => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
     if (isMuted) {
-      audio.volume = volume;
+      playbackEngine.setVolume(volume);
       setIsMuted(false);
     } else {
-      audio.volume = 0;
+      playbackEngine.setVolume(0);
       setIsMuted(true);
     }
   };
@@ -199,11 +235,11 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
     if (!currentTrack) return;
     
     try {
-      const song = await musicDB.getSongById(currentTrack.id);
+      const song = await libraryRepository.getSongById(currentTrack.id);
       if (song) {
         // For now, we'll use playCount as a proxy for favorite status
         song.playCount = isFavorite ? Math.max(0, song.playCount - 5) : song.playCount + 5;
-        await musicDB.updateSong(song);
+        await libraryRepository.updateSong(song);
         setIsFavorite(!isFavorite);
       }
     } catch (error) {
@@ -219,25 +255,6 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Load new track
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !currentTrack) return;
-
-    // For demo purposes, we'll use the file path directly
-    // In a real implementation, this would need proper file handling
-    try {
-      audio.src = currentTrack.filePath || '';
-      audio.load();
-      
-      if (isPlaying) {
-        audio.play().catch(console.error);
-      }
-    } catch (error) {
-      console.error('Failed to load track:', error);
-    }
-  }, [currentTrack]);
-
   if (!currentTrack) {
     return (
       <div className={`p-6 glass-card border-0 border-t border-border/50 ${className}`}>
@@ -252,11 +269,7 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
   }
 
   const handleSleepTimerEnd = () => {
-    const audio = audioRef.current;
-    if (audio) {
-      audio.pause();
-      setIsPlaying(false);
-    }
+    playbackEngine.pause();
   };
 
   return (
@@ -266,14 +279,12 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
       onDoubleTap={togglePlayPause}
       className={`glass-card border-0 border-t border-border/50 ${className}`}
     >
-      <audio ref={audioRef} preload="metadata" />
       
       {/* Enhanced Visualizers */}
       <div className="px-6 pt-4">
         {showVisualizer && isPlaying && (
           <div className="h-16 mb-4">
             <AudioVisualizer
-              audioRef={audioRef}
               isPlaying={isPlaying}
               style="bars"
               className="rounded-lg bg-gradient-to-r from-primary/10 to-primary/5"
@@ -284,7 +295,6 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
         {showMiniWaveform && !showVisualizer && (
           <div className="h-8 mb-4 flex items-center justify-center">
             <MiniWaveform
-              audioRef={audioRef}
               isPlaying={isPlaying}
               className="w-full max-w-xs"
               bars={30}
@@ -377,18 +387,24 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => setIsShuffling(!isShuffling)}
+            onClick={cycleShuffleMode}
+            title={SHUFFLE_MODE_LABELS[shuffleMode]}
             className={cn(
               "w-8 h-8 relative transition-all",
-              isShuffling 
+              shuffleMode !== 'off' 
                 ? 'text-primary bg-primary/10 shadow-sm border border-primary/20' 
                 : 'text-muted-foreground hover:text-primary hover:bg-accent/50'
             )}
           >
             <Shuffle size={16} />
-            {isShuffling && (
+            {shuffleMode === 'tracks' && (
               <div className="absolute -top-1 -right-1 w-2 h-2 bg-primary rounded-full" />
             )}
+            {(shuffleMode === 'albums' || shuffleMode === 'weighted') && (
+              <span className="absolute -top-1 -right-1 w-3 h-3 bg-primary rounded-full text-[8px] flex items-center justify-center text-primary-foreground font-medium">
+                {shuffleMode === 'albums' ? 'A' : 'W'}
+              </span>
+            )}
           </Button>
 
           <Button
@@ -435,22 +451,14 @@ export const MediaPlayer: React.FC<MediaPlayerProps> = ({
       
       {/* Advanced Components */}
       <Equalizer
-        audioRef={audioRef}
         isOpen={showEqualizer}
         onClose={() => setShowEqualizer(false)}
+        currentTrack={currentTrack}
       />
       
       <QueueManager
-        queue={queue}
-        currentIndex={queueIndex}
         isOpen={showQueueManager}
         onClose={() => setShowQueueManager(false)}
-        onPlayTrack={(track, index) => {
-          // Implementation would depend on parent component
-        }}
-        onReorderQueue={onReorderQueue || (() => {})}
-        onClearQueue={onClearQueue || (() => {})}
-        onShuffleQueue={onShuffleQueue || (() => {})}
       />
     </GestureControls>
   );
@@ -4,14 +4,33 @@ import { NeonButton } from '@/components/ui/neon-button';
 import { NeonCard } from '@/components/ui/neon-card';
 import { WaveformVisualizer } from '@/components/ui/waveform-visualizer';
 import { useMediaLibrary } from '@/hooks/useMediaLibrary';
+import { useArtworkUrl } from '@/hooks/media/useArtworkUrl';
 import { cn } from '@/lib/utils';
+import { playbackEngine } from '@/services/playback/playbackEngine';
 import melodyForgeLogo from '@/assets/melodyforge-logo.png';
 
 export const HeroPlayer: React.FC = () => {
   const { currentTrack, playNext, playPrevious, getRecentTracks } = useMediaLibrary();
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(playbackEngine.isPlaying());
   const [isLiked, setIsLiked] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
+  const [currentTime, setCurrentTime] = useState(playbackEngine.getPosition());
+
+  // Mirror the shared playback engine
+  useEffect(() => {
+    const unsubscribers = [
+      playbackEngine.onPlayStateChange(setIsPlaying),
+      playbackEngine.onTimeUpdate(position => setCurrentTime(position))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const togglePlayPause = () => {
+    if (isPlaying) {
+      playbackEngine.pause();
+    } else {
+      playbackEngine.play().catch(error => console.error('Error playing audio:', error));
+    }
+  };
 
   // If no current track, try to load the last played song
   useEffect(() => {
@@ -30,12 +49,13 @@ export const HeroPlayer: React.FC = () => {
 
   // Use current track or show empty state
   const displayTrack = currentTrack;
+  const artworkUrl = useArtworkUrl(displayTrack);
 
   const progressPercentage = displayTrack?.duration && displayTrack.duration > 0 ? (currentTime / displayTrack.duration) * 100 : 0;
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const secs = Math.floor(seconds % 60);
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -63,14 +83,8 @@ export const HeroPlayer: React.FC = () => {
 
   return (
     <div className="relative overflow-hidden">
-      {/* Background with hero image */}
-      <div 
-        className="absolute inset-0 bg-cover bg-center opacity-20"
-        style={{
-          backgroundImage: `url('/src/assets/hero-background.jpg')`
-        }}
-      />
-      <div className="absolute inset-0 bg-gradient-to-br from-background/90 via-background/70 to-background/90" />
+      {/* Background in the album's colors */}
+      <div className="absolute inset-0 album-backdrop" />
       
       <NeonCard variant="hero" className="relative mx-4 mt-6 mb-4">
         <div className="p-6">
@@ -79,7 +93,7 @@ export const HeroPlayer: React.FC = () => {
             <div className="relative mb-4">
               <div className="w-48 h-48 rounded-2xl overflow-hidden shadow-2xl shadow-primary/30 animate-float">
                 <img
-                  src={melodyForgeLogo}
+                  src={artworkUrl ?? melodyForgeLogo}
                   alt="Album Art"
                   className="w-full h-full object-cover"
                 />
@@ -115,7 +129,7 @@ export const HeroPlayer: React.FC = () => {
               <div className="relative">
                 <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
                   <div 
-                    className="h-full bg-gradient-to-r from-primary to-accent transition-all duration-300 shadow-lg shadow-primary/50"
+                    className="h-full album-progress transition-all duration-300"
                     style={{ width: `${progressPercentage}%` }}
                   />
                 </div>
@@ -146,7 +160,7 @@ export const HeroPlayer: React.FC = () => {
                 variant="hero" 
                 size="xl"
                 className="rounded-full w-16 h-16 hover-lift ripple-effect relative overflow-hidden"
-                onClick={() => setIsPlaying(!isPlaying)}
+                onClick={togglePlayPause}
                 disabled={!currentTrack}
               >
                 <div className="relative z-10">
@@ -7,7 +7,8 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { musicDB, Playlist } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { EnhancedPlaylist } from '@/services/enhancedDatabase';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
@@ -15,8 +16,8 @@ import { toast } from 'sonner';
 interface PlaylistCreatorWithSongsProps {
   isOpen: boolean;
   onClose: () => void;
-  onPlaylistCreated: (playlist: Playlist) => void;
-  existingPlaylist?: Playlist | null;
+  onPlaylistCreated: (playlist: EnhancedPlaylist) => void;
+  existingPlaylist?: EnhancedPlaylist | null;
 }
 
 export const PlaylistCreatorWithSongs: React.FC<PlaylistCreatorWithSongsProps> = ({
@@ -48,7 +49,7 @@ export const PlaylistCreatorWithSongs: React.FC<PlaylistCreatorWithSongsProps> =
         setName(existingPlaylist.name);
         setDescription(existingPlaylist.description || '');
         setSelectedColor(existingPlaylist.color);
-        setSelectedTracks(new Set(existingPlaylist.songs));
+        setSelectedTracks(new Set(existingPlaylist.trackIds));
       }
     }
   }, [isOpen, existingPlaylist]);
@@ -98,27 +99,20 @@ export const PlaylistCreatorWithSongs: React.FC<PlaylistCreatorWithSongsProps> =
     setIsCreating(true);
     
     try {
-      const playlist: Playlist = existingPlaylist ? {
-        ...existingPlaylist,
+      const details = {
         name: name.trim(),
         description: description.trim() || undefined,
         color: selectedColor,
-        songs: Array.from(selectedTracks),
-        trackIds: Array.from(selectedTracks),
-        lastModified: new Date()
-      } : {
-        id: `playlist_${Date.now()}_${Math.random()}`,
-        name: name.trim(),
-        description: description.trim() || undefined,
-        color: selectedColor,
-        songs: Array.from(selectedTracks),
-        trackIds: Array.from(selectedTracks),
-        createdAt: new Date(),
-        dateCreated: new Date(),
-        lastModified: new Date()
+        trackIds: Array.from(selectedTracks)
       };
 
-      await musicDB.createPlaylist(playlist);
+      let playlist: EnhancedPlaylist;
+      if (existingPlaylist) {
+        playlist = { ...existingPlaylist, ...details, lastModified: new Date() };
+        await libraryRepository.updatePlaylist(playlist);
+      } else {
+        playlist = await libraryRepository.createPlaylist(details);
+      }
       
       toast.success(`Playlist "${name}" ${existingPlaylist ? 'updated' : 'created'} successfully!`);
       onPlaylistCreated(playlist);
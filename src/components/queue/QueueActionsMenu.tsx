@@ -0,0 +1,71 @@
+import React from 'react';
+import { ListPlus, ListStart, MoreVertical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface QueueActionItemsProps {
+  tracks: Track[];
+}
+
+/**
+ * Play Next and Add to Queue items, for menus that have other items too
+ */
+export const QueueActionItems: React.FC<QueueActionItemsProps> = ({ tracks }) => {
+  const { queueTracks } = useMediaLibrary();
+
+  const describe = () => tracks.length === 1 ? tracks[0].title : `${tracks.length} songs`;
+
+  const handleQueue = (position: 'next' | 'last') => {
+    queueTracks(tracks, position);
+    toast.success(position === 'next' ? `${describe()} will play next` : `Added ${describe()} to the queue`);
+  };
+
+  return (
+    <>
+      <DropdownMenuItem onClick={() => handleQueue('next')} disabled={tracks.length === 0}>
+        <ListStart className="w-4 h-4 mr-2" />
+        Play Next
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => handleQueue('last')} disabled={tracks.length === 0}>
+        <ListPlus className="w-4 h-4 mr-2" />
+        Add to Queue
+      </DropdownMenuItem>
+    </>
+  );
+};
+
+interface QueueActionsMenuProps {
+  tracks: Track[];
+  className?: string;
+}
+
+/**
+ * A menu button with the queue actions; clicks stay out of the card it sits on
+ */
+export const QueueActionsMenu: React.FC<QueueActionsMenuProps> = ({ tracks, className }) => (
+  // Swipeable cards tap on mouse up and touch end, so presses are kept from them as well as clicks
+  <div
+    onClick={(e) => e.stopPropagation()}
+    onMouseDown={(e) => e.stopPropagation()}
+    onTouchStart={(e) => e.stopPropagation()}
+  >
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('w-8 h-8', className)}
+          aria-label="Queue actions"
+        >
+          <MoreVertical className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <QueueActionItems tracks={tracks} />
+      </DropdownMenuContent>
+    </DropdownMenu>
+  </div>
+);
@@ -1,16 +1,48 @@
 import React from 'react';
-import { Music, Play, SkipForward, List } from 'lucide-react';
+import { Play, SkipForward, List, X, Radio } from 'lucide-react';
 import { NeonCard } from '@/components/ui/neon-card';
 import { NeonButton } from '@/components/ui/neon-button';
 import { CardContent } from '@/components/ui/card';
-import { useMediaLibrary } from '@/hooks/useMediaLibrary';
+import { useMediaLibrary, type Track } from '@/hooks/useMediaLibrary';
+import { AlbumArtwork } from '@/components/library/AlbumArtwork';
 import { cn } from '@/lib/utils';
 
 export const QueueDisplay: React.FC = () => {
-  const { queue, queueIndex, currentTrack, playTrack, getQueuePosition } = useMediaLibrary();
-  
-  const queuePosition = getQueuePosition();
-  const upcomingTracks = queue.slice(queueIndex + 1);
+  const {
+    currentTrack,
+    queuedTracks,
+    upcomingTracks: contextTracks,
+    autoQueuedTracks,
+    isAutoTrack,
+    playQueued,
+    playInContext,
+    playAutoQueued,
+    removeQueued,
+    removeUpcoming,
+    removeAutoQueued
+  } = useMediaLibrary();
+
+  // Queued tracks play first, then the rest of the context in play order, then what autoplay added
+  const upcomingTracks: Array<{ track: Track; origin: 'queued' | 'context' | 'autoplay'; play: () => void; remove: () => void }> = [
+    ...queuedTracks.map((track, position) => ({
+      track,
+      origin: 'queued' as const,
+      play: () => playQueued(position),
+      remove: () => removeQueued(position)
+    })),
+    ...contextTracks.map(({ track, index }) => ({
+      track,
+      origin: 'context' as const,
+      play: () => playInContext(index),
+      remove: () => removeUpcoming(index)
+    })),
+    ...autoQueuedTracks.map((track, position) => ({
+      track,
+      origin: 'autoplay' as const,
+      play: () => playAutoQueued(position),
+      remove: () => removeAutoQueued(position)
+    }))
+  ];
   
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -18,7 +50,7 @@ export const QueueDisplay: React.FC = () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  if (!currentTrack || queue.length === 0) {
+  if (!currentTrack) {
     return (
       <NeonCard variant="floating" className="animate-slide-up">
         <CardContent className="p-4">
@@ -37,7 +69,7 @@ export const QueueDisplay: React.FC = () => {
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold gradient-text">Queue</h3>
         <div className="text-sm text-muted-foreground">
-          {queuePosition.current} of {queuePosition.total}
+          {upcomingTracks.length} up next
         </div>
       </div>
 
@@ -45,13 +77,11 @@ export const QueueDisplay: React.FC = () => {
       <NeonCard variant="glow" className="animate-slide-up">
         <CardContent className="p-4">
           <div className="flex items-center gap-3">
-            <div className="w-12 h-12 rounded-lg bg-primary/20 flex items-center justify-center">
-              <Music className="w-6 h-6 text-primary" />
-            </div>
+            <AlbumArtwork track={currentTrack} className="w-12 h-12 rounded-lg" iconClassName="w-6 h-6" />
             <div className="flex-1 min-w-0">
               <h4 className="font-medium truncate text-sm">{currentTrack.title}</h4>
               <p className="text-xs text-muted-foreground truncate">{currentTrack.artist}</p>
-              <p className="text-xs text-muted-foreground">Now Playing</p>
+              <p className="text-xs text-muted-foreground">{isAutoTrack ? 'Now Playing • Autoplay' : 'Now Playing'}</p>
             </div>
             <div className="text-xs text-muted-foreground">
               {formatTime(currentTrack.duration)}
@@ -65,27 +95,45 @@ export const QueueDisplay: React.FC = () => {
         <div className="space-y-3">
           <h4 className="text-sm font-medium text-muted-foreground">Up Next ({upcomingTracks.length})</h4>
           <div className="space-y-2 max-h-64 overflow-y-auto">
-            {upcomingTracks.slice(0, 10).map((track, index) => (
+            {upcomingTracks.slice(0, 10).map(({ track, origin, play, remove }, index) => (
               <div
-                key={`${track.id}-${index}`}
+                key={`${origin}-${track.id}-${index}`}
                 className="flex items-center gap-3 p-3 rounded-lg hover:bg-accent/50 transition-all cursor-pointer group"
-                onClick={() => playTrack(track, queue)}
+                onClick={play}
               >
-                <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center text-xs text-muted-foreground">
-                  {queueIndex + index + 2}
-                </div>
-                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
-                  <Music className="w-4 h-4 text-primary" />
+                <div
+                  className={cn(
+                    'w-8 h-8 rounded-lg flex items-center justify-center text-xs',
+                    origin === 'context' ? 'bg-primary/10 text-muted-foreground' : 'bg-primary/20 text-primary'
+                  )}
+                  title={origin === 'queued' ? 'Queued by you' : origin === 'autoplay' ? 'Added by autoplay' : undefined}
+                >
+                  {origin === 'autoplay' ? <Radio className="w-4 h-4" /> : index + 1}
                 </div>
+                <AlbumArtwork track={track} className="w-10 h-10 rounded-lg" iconClassName="w-4 h-4" />
                 <div className="flex-1 min-w-0">
                   <h4 className="font-medium truncate text-sm">{track.title}</h4>
-                  <p className="text-xs text-muted-foreground truncate">{track.artist}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {track.artist}
+                    {origin === 'autoplay' && ' • Autoplay'}
+                  </p>
                 </div>
                 <div className="flex items-center gap-2">
                   <span className="text-xs text-muted-foreground">
                     {formatTime(track.duration)}
                   </span>
                   <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      remove();
+                    }}
+                    aria-label={`Remove ${track.title} from queue`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             ))}
@@ -1,62 +1,186 @@
 import React, { useState } from 'react';
-import { List, Shuffle, RotateCcw, Trash2, Music, GripVertical } from 'lucide-react';
+import { List, Shuffle, Trash2, Music, GripVertical, X, Radio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Track } from '@/hooks/useMediaLibrary';
+import { Track, useMediaLibrary } from '@/hooks/useMediaLibrary';
 import { SwipeableCard } from '@/components/enhanced/SwipeableCard';
 import { toast } from 'sonner';
 
 interface QueueManagerProps {
-  queue: Track[];
-  currentIndex: number;
   isOpen: boolean;
   onClose: () => void;
-  onPlayTrack: (track: Track, index: number) => void;
-  onReorderQueue: (newQueue: Track[]) => void;
-  onClearQueue: () => void;
-  onShuffleQueue: () => void;
 }
 
+type QueueSection = 'queued' | 'upcoming';
+
+interface QueueRowProps {
+  track: Track;
+  isCurrent?: boolean;
+  onTap: () => void;
+  onRemove?: () => void;
+  onDragStart?: () => void;
+  onDragOver?: (e: React.DragEvent) => void;
+  onDragEnd?: () => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const QueueRow: React.FC<QueueRowProps> = ({ track, isCurrent, onTap, onRemove, onDragStart, onDragOver, onDragEnd }) => (
+  <SwipeableCard
+    onTap={onTap}
+    onSwipeLeft={onRemove}
+    className={`p-3 rounded-lg transition-all ${
+      isCurrent
+        ? 'bg-primary/10 border border-primary/20'
+        : 'hover:bg-accent/50'
+    }`}
+  >
+    <div
+      draggable={!!onDragStart}
+      onDragStart={onDragStart}
+      onDragOver={onDragOver}
+      onDragEnd={onDragEnd}
+      className={`flex items-center gap-3 ${onDragStart ? 'cursor-move' : ''}`}
+    >
+      <div className="flex items-center gap-3 flex-1 min-w-0">
+        {onDragStart && <GripVertical size={16} className="text-muted-foreground" />}
+
+        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+          <Music className="w-4 h-4 text-primary" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <h3 className={`font-medium truncate ${isCurrent ? 'text-primary' : ''}`}>
+            {track.title}
+          </h3>
+          <p className="text-sm text-muted-foreground truncate">
+            {track.artist} • {track.album}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className="text-xs text-muted-foreground">
+            {formatDuration(track.duration)}
+          </span>
+          {isCurrent && (
+            <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
+          )}
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="w-7 h-7 text-muted-foreground hover:text-destructive"
+              // Kept from the card, which would take the press as a tap
+              onMouseDown={(e) => e.stopPropagation()}
+              onTouchStart={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove();
+              }}
+              aria-label={`Remove ${track.title} from queue`}
+            >
+              <X size={14} />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  </SwipeableCard>
+);
+
 export const QueueManager: React.FC<QueueManagerProps> = ({
-  queue,
-  currentIndex,
   isOpen,
-  onClose,
-  onPlayTrack,
-  onReorderQueue,
-  onClearQueue,
-  onShuffleQueue
+  onClose
 }) => {
-  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const {
+    currentTrack,
+    queuedTracks,
+    upcomingTracks,
+    autoQueuedTracks,
+    autoplayEnabled,
+    setAutoplayEnabled,
+    shuffleMode,
+    setShuffleMode,
+    playQueued,
+    playInContext,
+    playAutoQueued,
+    removeQueued,
+    removeAutoQueued,
+    moveQueued,
+    removeUpcoming,
+    moveUpcoming,
+    clearQueue,
+    undoClearQueue
+  } = useMediaLibrary();
+  // Rows only move within their own section
+  const [dragged, setDragged] = useState<{ section: QueueSection; position: number } | null>(null);
+
+  const handleDragOver = (e: React.DragEvent, section: QueueSection, position: number) => {
+    e.preventDefault();
+    if (!dragged || dragged.section !== section || dragged.position === position) return;
 
-  const handleDragStart = (index: number) => {
-    setDraggedIndex(index);
+    if (section === 'queued') {
+      moveQueued(dragged.position, position);
+    } else {
+      moveUpcoming(dragged.position, position);
+    }
+    setDragged({ section, position });
   };
 
-  const handleDragOver = (e: React.DragEvent, index: number) => {
-    e.preventDefault();
-    if (draggedIndex === null) return;
-
-    const newQueue = [...queue];
-    const draggedItem = newQueue[draggedIndex];
-    newQueue.splice(draggedIndex, 1);
-    newQueue.splice(index, 0, draggedItem);
-    
-    onReorderQueue(newQueue);
-    setDraggedIndex(index);
+  const handleRemove = (section: QueueSection | 'autoplay', position: number) => {
+    if (section === 'queued') {
+      removeQueued(position);
+    } else if (section === 'upcoming') {
+      removeUpcoming(upcomingTracks[position].index);
+    } else {
+      removeAutoQueued(position);
+    }
+    toast.success('Track removed from queue');
   };
 
-  const handleDragEnd = () => {
-    setDraggedIndex(null);
+  const handleAutoplay = async () => {
+    try {
+      await setAutoplayEnabled(!autoplayEnabled);
+      toast.success(autoplayEnabled ? 'Autoplay off' : 'Autoplay on: similar songs will follow the queue');
+    } catch (error) {
+      console.error('Failed to save autoplay setting:', error);
+      toast.error('Failed to save setting');
+    }
   };
 
-  const formatDuration = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const handleShuffle = () => {
+    // Turns shuffle on, or deals a fresh order when it already is
+    setShuffleMode(shuffleMode === 'off' ? 'tracks' : shuffleMode);
+    toast.success('Queue shuffled');
   };
 
-  const totalDuration = queue.reduce((total, track) => total + track.duration, 0);
+  const handleClear = () => {
+    clearQueue();
+    toast.success('Queue cleared', {
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          if (!undoClearQueue()) {
+            toast.error('The queue changed since it was cleared');
+          }
+        }
+      }
+    });
+  };
+
+  const dragHandlers = (section: QueueSection, position: number) => ({
+    onDragStart: () => setDragged({ section, position }),
+    onDragOver: (e: React.DragEvent) => handleDragOver(e, section, position),
+    onDragEnd: () => setDragged(null)
+  });
+
+  const upcomingCount = queuedTracks.length + upcomingTracks.length + autoQueuedTracks.length;
+  const totalDuration = [...queuedTracks, ...upcomingTracks.map(({ track }) => track), ...autoQueuedTracks]
+    .reduce((total, track) => total + track.duration, 0);
 
   if (!isOpen) return null;
 
@@ -72,7 +196,7 @@ export const QueueManager: React.FC<QueueManagerProps> = ({
             <div>
               <h2 className="text-xl font-bold">Play Queue</h2>
               <p className="text-sm text-muted-foreground">
-                {queue.length} songs • {Math.floor(totalDuration / 60)} minutes
+                {upcomingCount} songs up next • {Math.floor(totalDuration / 60)} minutes
               </p>
             </div>
           </div>
@@ -86,7 +210,7 @@ export const QueueManager: React.FC<QueueManagerProps> = ({
           <Button
             variant="outline"
             size="sm"
-            onClick={onShuffleQueue}
+            onClick={handleShuffle}
             className="flex items-center gap-2"
           >
             <Shuffle size={16} />
@@ -95,18 +219,29 @@ export const QueueManager: React.FC<QueueManagerProps> = ({
           <Button
             variant="outline"
             size="sm"
-            onClick={onClearQueue}
+            onClick={handleClear}
+            disabled={upcomingCount === 0}
             className="flex items-center gap-2 text-destructive hover:text-destructive"
           >
             <Trash2 size={16} />
             Clear All
           </Button>
+          <Button
+            variant={autoplayEnabled ? 'default' : 'outline'}
+            size="sm"
+            onClick={handleAutoplay}
+            className="flex items-center gap-2 ml-auto"
+            aria-pressed={autoplayEnabled}
+          >
+            <Radio size={16} />
+            Autoplay
+          </Button>
         </div>
 
         {/* Queue List */}
         <ScrollArea className="flex-1">
           <div className="p-4 space-y-2">
-            {queue.length === 0 ? (
+            {!currentTrack && upcomingCount === 0 ? (
               <div className="text-center py-16">
                 <div className="w-20 h-20 mx-auto mb-6 bg-primary/10 rounded-2xl flex items-center justify-center">
                   <Music className="text-primary" size={32} />
@@ -115,82 +250,65 @@ export const QueueManager: React.FC<QueueManagerProps> = ({
                 <p className="text-muted-foreground">Add some tracks to start listening</p>
               </div>
             ) : (
-              queue.map((track, index) => (
-                <SwipeableCard
-                  key={`${track.id}-${index}`}
-                  onTap={() => onPlayTrack(track, index)}
-                  onSwipeLeft={() => {
-                    const newQueue = queue.filter((_, i) => i !== index);
-                    onReorderQueue(newQueue);
-                    toast.success('Track removed from queue');
-                  }}
-                  className={`p-3 rounded-lg transition-all ${
-                    index === currentIndex
-                      ? 'bg-primary/10 border border-primary/20'
-                      : 'hover:bg-accent/50'
-                  }`}
-                >
-                  <div
-                    draggable
-                    onDragStart={() => handleDragStart(index)}
-                    onDragOver={(e) => handleDragOver(e, index)}
-                    onDragEnd={handleDragEnd}
-                    className="flex items-center gap-3 cursor-move"
-                  >
-                    <div className="flex items-center gap-3 flex-1 min-w-0">
-                      <GripVertical size={16} className="text-muted-foreground" />
-                      
-                      <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
-                        <Music className="w-4 h-4 text-primary" />
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <h3 className={`font-medium truncate ${
-                          index === currentIndex ? 'text-primary' : ''
-                        }`}>
-                          {track.title}
-                        </h3>
-                        <p className="text-sm text-muted-foreground truncate">
-                          {track.artist} • {track.album}
-                        </p>
-                      </div>
-                      
-                      <div className="flex items-center gap-2 flex-shrink-0">
-                        <span className="text-xs text-muted-foreground">
-                          {formatDuration(track.duration)}
-                        </span>
-                        {index === currentIndex && (
-                          <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </SwipeableCard>
-              ))
+              <>
+                {currentTrack && (
+                  <>
+                    <h4 className="font-medium text-sm text-muted-foreground">Now Playing</h4>
+                    <QueueRow track={currentTrack} isCurrent onTap={() => {}} />
+                  </>
+                )}
+
+                {queuedTracks.length > 0 && (
+                  <>
+                    <h4 className="font-medium text-sm text-muted-foreground pt-4">Queued by you</h4>
+                    {queuedTracks.map((track, position) => (
+                      <QueueRow
+                        key={`queued-${track.id}-${position}`}
+                        track={track}
+                        onTap={() => playQueued(position)}
+                        onRemove={() => handleRemove('queued', position)}
+                        {...dragHandlers('queued', position)}
+                      />
+                    ))}
+                  </>
+                )}
+
+                {upcomingTracks.length > 0 && (
+                  <>
+                    <h4 className="font-medium text-sm text-muted-foreground pt-4">Up next</h4>
+                    {upcomingTracks.map(({ track, index }, position) => (
+                      <QueueRow
+                        key={`upcoming-${track.id}-${index}`}
+                        track={track}
+                        onTap={() => playInContext(index)}
+                        onRemove={() => handleRemove('upcoming', position)}
+                        {...dragHandlers('upcoming', position)}
+                      />
+                    ))}
+                  </>
+                )}
+
+                {autoQueuedTracks.length > 0 && (
+                  <>
+                    <h4 className="flex items-center gap-2 font-medium text-sm text-muted-foreground pt-4">
+                      <Radio size={14} />
+                      Added by autoplay
+                    </h4>
+                    {autoQueuedTracks.map((track, position) => (
+                      <QueueRow
+                        key={`autoplay-${track.id}-${position}`}
+                        track={track}
+                        onTap={() => playAutoQueued(position)}
+                        onRemove={() => handleRemove('autoplay', position)}
+                      />
+                    ))}
+                  </>
+                )}
+              </>
             )}
           </div>
         </ScrollArea>
-
-        {/* Up Next Section */}
-        {queue.length > currentIndex + 1 && (
-          <div className="p-4 border-t border-border/50">
-            <h4 className="font-medium mb-2 text-sm text-muted-foreground">Up Next</h4>
-            <div className="flex items-center gap-3 p-2 rounded-lg bg-accent/30">
-              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
-                <Music className="w-3 h-3 text-primary" />
-              </div>
-              <div className="flex-1 min-w-0">
-                <h5 className="font-medium text-sm truncate">
-                  {queue[currentIndex + 1]?.title}
-                </h5>
-                <p className="text-xs text-muted-foreground truncate">
-                  {queue[currentIndex + 1]?.artist}
-                </p>
-              </div>
-            </div>
-          </div>
-        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
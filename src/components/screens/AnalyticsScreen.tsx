@@ -5,7 +5,8 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { listeningHistoryService, type ListeningBucket } from '@/services/listeningHistoryService';
 
 export const AnalyticsScreen: React.FC = () => {
   const { audioFiles, getTopTracks, getRecentTracks } = useMediaLibrary();
@@ -16,8 +17,10 @@ export const AnalyticsScreen: React.FC = () => {
     averageSessionTime: 0,
     mostPlayedGenre: 'Unknown',
     topArtist: 'Unknown',
-    streakDays: 0
+    streakDays: 0,
+    weekPlayTime: 0
   });
+  const [dailyActivity, setDailyActivity] = useState<ListeningBucket[]>([]);
   const [topTracks, setTopTracks] = useState<Track[]>([]);
   const [recentActivity, setRecentActivity] = useState<Track[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -29,37 +32,30 @@ export const AnalyticsScreen: React.FC = () => {
   const loadAnalytics = async () => {
     setIsLoading(true);
     try {
-      // Get basic stats
-      const stats = await musicDB.getStats();
-      const allPlaylists = await musicDB.getAllPlaylists();
-      const topTracksData = await getTopTracks();
-      const recentTracksData = await getRecentTracks();
+      const [events, allSongs, credits, allPlaylists, topTracksData, recentTracksData] = await Promise.all([
+        libraryRepository.getPlayEvents(),
+        libraryRepository.getAllSongs(),
+        libraryRepository.getCreditLookup(),
+        libraryRepository.getAllPlaylists(),
+        getTopTracks(),
+        getRecentTracks()
+      ]);
 
-      // Calculate advanced analytics
-      const genres = audioFiles.reduce((acc, track) => {
-        const genre = track.genre || 'Unknown';
-        acc[genre] = (acc[genre] || 0) + track.playCount;
-        return acc;
-      }, {} as Record<string, number>);
-
-      const artists = audioFiles.reduce((acc, track) => {
-        acc[track.artist] = (acc[track.artist] || 0) + track.playCount;
-        return acc;
-      }, {} as Record<string, number>);
-
-      const mostPlayedGenre = Object.entries(genres).sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
-      const topArtist = Object.entries(artists).sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
+      const summary = listeningHistoryService.summarize(events, allSongs, credits);
+      const lastWeek = listeningHistoryService.bucketEvents(events, 'day', 7);
 
       setAnalytics({
-        totalPlayTime: stats.totalPlayTime,
+        totalPlayTime: summary.totalSeconds,
         totalTracks: audioFiles.length,
         totalPlaylists: allPlaylists.length,
-        averageSessionTime: stats.totalPlayTime / Math.max(audioFiles.reduce((acc, track) => acc + track.playCount, 0), 1),
-        mostPlayedGenre,
-        topArtist,
-        streakDays: calculateStreakDays()
+        averageSessionTime: summary.averageSessionSeconds,
+        mostPlayedGenre: summary.topGenres[0]?.name || 'Unknown',
+        topArtist: summary.topArtists[0]?.name || 'Unknown',
+        streakDays: listeningHistoryService.calculateStreak(events),
+        weekPlayTime: lastWeek.reduce((sum, day) => sum + day.seconds, 0)
       });
 
+      setDailyActivity(lastWeek);
       setTopTracks(topTracksData);
       setRecentActivity(recentTracksData);
     } catch (error) {
@@ -69,19 +65,6 @@ export const AnalyticsScreen: React.FC = () => {
     }
   };
 
-  const calculateStreakDays = () => {
-    // Simple streak calculation based on recent tracks
-    // In a real app, this would be more sophisticated
-    const recentDays = new Set();
-    audioFiles.forEach(track => {
-      if (track.lastPlayed) {
-        const day = track.lastPlayed.toDateString();
-        recentDays.add(day);
-      }
-    });
-    return recentDays.size;
-  };
-
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -153,7 +136,7 @@ export const AnalyticsScreen: React.FC = () => {
             <CardContent className="p-4 text-center">
               <Calendar className="w-8 h-8 mx-auto mb-2 text-purple-500" />
               <div className="text-2xl font-bold">{analytics.streakDays}</div>
-              <div className="text-xs text-muted-foreground">Active Days</div>
+              <div className="text-xs text-muted-foreground">Day Streak</div>
             </CardContent>
           </Card>
         </div>
@@ -188,6 +171,35 @@ export const AnalyticsScreen: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Daily Activity */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-primary" />
+              Last 7 Days
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-2 h-32">
+              {dailyActivity.map((day) => {
+                const maxSeconds = Math.max(1, ...dailyActivity.map(d => d.seconds));
+                return (
+                  <div key={day.start.getTime()} className="flex-1 flex flex-col items-center gap-1 h-full">
+                    <div className="flex-1 w-full flex items-end">
+                      <div
+                        className="w-full rounded-t bg-primary/70"
+                        style={{ height: `${(day.seconds / maxSeconds) * 100}%` }}
+                        title={`${formatTime(day.seconds)} • ${day.plays} plays`}
+                      />
+                    </div>
+                    <span className="text-[10px] text-muted-foreground">{day.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Top Tracks */}
         <Card>
           <CardHeader>
@@ -278,11 +290,11 @@ export const AnalyticsScreen: React.FC = () => {
               <div className="flex justify-between items-center mb-2">
                 <span className="text-sm font-medium">Weekly Listening Goal</span>
                 <span className="text-sm text-muted-foreground">
-                  {formatTime(analytics.totalPlayTime % (7 * 24 * 3600))} / 2h
+                  {formatTime(analytics.weekPlayTime)} / 2h
                 </span>
               </div>
               <Progress 
-                value={Math.min((analytics.totalPlayTime % (7 * 24 * 3600)) / (2 * 3600) * 100, 100)} 
+                value={Math.min(analytics.weekPlayTime / (2 * 3600) * 100, 100)} 
                 className="h-2"
               />
             </div>
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { audioGraph } from '@/services/playback/audioGraph';
 import { toast } from 'sonner';
 
 const FREQUENCY_BANDS = [
@@ -32,78 +33,35 @@ const PRESETS = {
 };
 
 export const EqualizerScreen: React.FC = () => {
-  const [isEnabled, setIsEnabled] = useState(true);
-  const [gains, setGains] = useState<number[]>(PRESETS.flat.gains);
-  const [activePreset, setActivePreset] = useState<string>('flat');
-  const [customPresetName, setCustomPresetName] = useState('');
-  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [equalizer, setEqualizer] = useState(() => audioGraph.getState().equalizer);
+  const { enabled: isEnabled, gains, preset: activePreset } = equalizer;
 
-  useEffect(() => {
-    loadEqualizerSettings();
-  }, []);
+  // Settings live in the shared audio graph, so they persist across screen changes
+  useEffect(() => audioGraph.onStateChange(state => setEqualizer(state.equalizer)), []);
 
-  useEffect(() => {
-    if (isEnabled) {
-      applyEqualizerSettings();
-    }
-  }, [gains, isEnabled]);
-
-  const loadEqualizerSettings = () => {
-    const saved = localStorage.getItem('melodyforge-equalizer');
-    if (saved) {
-      try {
-        const settings = JSON.parse(saved);
-        setIsEnabled(settings.enabled);
-        setGains(settings.gains || PRESETS.flat.gains);
-        setActivePreset(settings.preset || 'flat');
-      } catch (error) {
-        console.error('Failed to load equalizer settings:', error);
-      }
-    }
+  const setIsEnabled = (enabled: boolean) => {
+    audioGraph.setEqualizer({ enabled });
   };
 
   const saveEqualizerSettings = () => {
-    const settings = {
-      enabled: isEnabled,
-      gains: gains,
-      preset: activePreset
-    };
-    localStorage.setItem('melodyforge-equalizer', JSON.stringify(settings));
-    
-    // Dispatch event for audio components to pick up
-    document.dispatchEvent(new CustomEvent('equalizer-updated', { 
-      detail: settings 
-    }));
-    
+    audioGraph.saveState();
     toast.success('Equalizer settings saved');
   };
 
-  const applyEqualizerSettings = () => {
-    // Dispatch event for real-time updates
-    document.dispatchEvent(new CustomEvent('equalizer-changed', { 
-      detail: { enabled: isEnabled, gains } 
-    }));
-  };
-
   const handleGainChange = (index: number, value: number[]) => {
-    const newGains = [...gains];
-    newGains[index] = value[0];
-    setGains(newGains);
-    setActivePreset('custom');
+    audioGraph.setEqualizerBand(index, value[0]);
   };
 
   const applyPreset = (presetKey: string) => {
     const preset = PRESETS[presetKey as keyof typeof PRESETS];
     if (preset) {
-      setGains([...preset.gains]);
-      setActivePreset(presetKey);
+      audioGraph.setEqualizer({ gains: [...preset.gains], preset: presetKey, mode: 'graphic' });
       toast.success(`Applied ${preset.name} preset`);
     }
   };
 
   const resetEqualizer = () => {
-    setGains([...PRESETS.flat.gains]);
-    setActivePreset('flat');
+    audioGraph.setEqualizer({ gains: [...PRESETS.flat.gains], preset: 'flat', mode: 'graphic' });
     toast.success('Equalizer reset to flat');
   };
 
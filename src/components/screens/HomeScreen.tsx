@@ -14,7 +14,8 @@ import { RecentTracks } from '@/components/home/RecentTracks';
 import { NotificationSystem } from '@/components/common/NotificationSystem';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
 import { SwipeableCard } from '@/components/enhanced/SwipeableCard';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { PlaybackSource } from '@/services/enhancedDatabase';
 
 export const HomeScreen: React.FC = () => {
   const { 
@@ -49,8 +50,8 @@ export const HomeScreen: React.FC = () => {
       setRecentTracks(recent);
 
       // Load stats
-      const userStats = await musicDB.getStats();
-      const allPlaylists = await musicDB.getAllPlaylists();
+      const userStats = await libraryRepository.getStats();
+      const allPlaylists = await libraryRepository.getAllPlaylists();
       
       setStats({
         totalTracks: audioFiles.length,
@@ -321,7 +322,7 @@ export const HomeScreen: React.FC = () => {
         onMixCreated={(tracks) => {
           loadData(); // Refresh data
           if (tracks.length > 0) {
-            playTrack(tracks[0], tracks);
+            playTrack(tracks[0], tracks, PlaybackSource.SMART_MIX);
           }
         }}
       />
@@ -1,29 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Filter, Grid, List, Plus, Play, Heart, Music, Library as LibraryIcon } from 'lucide-react';
+import { Search, Filter, Grid, List, Plus, Play, Heart, Music, CheckSquare, Users, RefreshCw, Library as LibraryIcon } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PlaylistCreatorWithSongs } from '@/components/playlist/PlaylistCreatorWithSongs';
 import { FileUploader } from '@/components/common/FileUploader';
+import { BatchOperations } from '@/components/advanced/BatchOperations';
+import { ArtistAlbumView } from '@/components/library/ArtistAlbumView';
+import { AlbumArtwork } from '@/components/library/AlbumArtwork';
+import { QueueActionsMenu } from '@/components/queue/QueueActionsMenu';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
+import { songToTrack } from '@/hooks/media/useMediaScanner';
 import { VirtualizedList } from '@/components/performance/VirtualizedList';
 import { LoadingSkeleton } from '@/components/ui/loading-skeleton';
 import { SwipeableCard } from '@/components/enhanced/SwipeableCard';
-import { musicDB, Playlist } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { EnhancedPlaylist, PlaybackSource } from '@/services/enhancedDatabase';
 import { cn } from '@/lib/utils';
 
 export const LibraryScreen: React.FC = () => {
   const { 
     audioFiles, 
-    playTrack
+    playTrack,
+    isScanning,
+    refreshScan
   } = useMediaLibrary();
 
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [searchQuery, setSearchQuery] = useState('');
   const [activeFilter, setActiveFilter] = useState<'all' | 'playlists' | 'artists' | 'albums'>('all');
   const [showPlaylistCreator, setShowPlaylistCreator] = useState(false);
-  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [showBatchOperations, setShowBatchOperations] = useState(false);
+  const [showArtistAlbumView, setShowArtistAlbumView] = useState(false);
+  const [playlists, setPlaylists] = useState<EnhancedPlaylist[]>([]);
   const [favoriteItems, setFavoriteItems] = useState<Track[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -42,7 +52,7 @@ export const LibraryScreen: React.FC = () => {
 
   const loadPlaylists = async () => {
     try {
-      const allPlaylists = await musicDB.getAllPlaylists();
+      const allPlaylists = await libraryRepository.getAllPlaylists();
       setPlaylists(allPlaylists);
     } catch (error) {
       console.error('Failed to load playlists:', error);
@@ -52,21 +62,8 @@ export const LibraryScreen: React.FC = () => {
   const loadFavorites = async () => {
     // For now, we'll use recent tracks as favorites since we don't have a favorites system yet
     try {
-      const recentSongs = await musicDB.getRecentSongs(10);
-      setFavoriteItems(recentSongs.map(song => ({
-        id: song.id,
-        title: song.title,
-        artist: song.artist,
-        album: song.album,
-        duration: song.duration,
-        filePath: song.filePath,
-        albumArt: song.albumArt,
-        playCount: song.playCount,
-        lastPlayed: song.lastPlayed,
-        size: song.size,
-        dateAdded: song.dateAdded,
-        genre: song.genre
-      })));
+      const recentSongs = await libraryRepository.getRecentSongs(10);
+      setFavoriteItems(recentSongs.map(songToTrack));
     } catch (error) {
       console.error('Failed to load favorites:', error);
     }
@@ -93,25 +90,12 @@ export const LibraryScreen: React.FC = () => {
     return `${mb.toFixed(1)} MB`;
   };
 
-  const getPlaylistTracks = async (playlist: Playlist): Promise<Track[]> => {
+  const getPlaylistTracks = async (playlist: EnhancedPlaylist): Promise<Track[]> => {
     const tracks: Track[] = [];
-    for (const songId of playlist.songs) {
-      const song = await musicDB.getSongById(songId);
+    for (const songId of playlist.trackIds) {
+      const song = await libraryRepository.getSongById(songId);
       if (song) {
-        tracks.push({
-          id: song.id,
-          title: song.title,
-          artist: song.artist,
-          album: song.album,
-          duration: song.duration,
-          filePath: song.filePath,
-          albumArt: song.albumArt,
-          playCount: song.playCount,
-          lastPlayed: song.lastPlayed,
-          size: song.size,
-          dateAdded: song.dateAdded,
-          genre: song.genre
-        });
+        tracks.push(songToTrack(song));
       }
     }
     return tracks;
@@ -122,39 +106,39 @@ export const LibraryScreen: React.FC = () => {
       key={track.id}
       onTap={() => playTrack(track, filteredItems)}
       onSwipeRight={() => playTrack(track, filteredItems)}
-      className="proton-card p-4 cursor-pointer transition-all hover:scale-[1.02] group"
+      className={cn('proton-card p-4 cursor-pointer transition-all hover:scale-[1.02] group', track.missing && 'opacity-50')}
     >
       {viewMode === 'grid' ? (
         <div className="text-center">
-          <div className="w-16 h-16 mx-auto mb-3 rounded-xl overflow-hidden bg-primary/10 flex items-center justify-center">
-            <Music className="text-primary" size={24} />
-          </div>
+          <AlbumArtwork track={track} size="grid" className="w-16 h-16 mx-auto mb-3 rounded-xl" />
           <h3 className="font-medium text-sm mb-1 truncate">{track.title}</h3>
           <p className="text-xs text-muted-foreground mb-1 truncate">{track.artist}</p>
           <p className="text-xs text-muted-foreground">
             {formatDuration(track.duration)}
           </p>
-          <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity mx-auto mt-2" />
+          <div className="flex items-center justify-center gap-1 mt-2">
+            <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
+            <QueueActionsMenu tracks={[track]} className="w-6 h-6 opacity-0 group-hover:opacity-100 transition-opacity" />
+          </div>
         </div>
       ) : (
         <div className="flex items-center gap-3">
-          <div className="w-12 h-12 rounded-lg overflow-hidden bg-primary/10 flex items-center justify-center">
-            <Music className="text-primary" size={18} />
-          </div>
+          <AlbumArtwork track={track} className="w-12 h-12 rounded-lg" />
           <div className="flex-1 min-w-0">
             <h3 className="font-medium text-sm truncate">{track.title}</h3>
             <p className="text-xs text-muted-foreground truncate">{track.artist}</p>
             <p className="text-xs text-muted-foreground">
-              {formatDuration(track.duration)} • {track.genre || 'Unknown'}
+              {formatDuration(track.duration)} • {track.missing ? 'File missing' : track.genre || 'Unknown'}
             </p>
           </div>
           <Play className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity" />
+          <QueueActionsMenu tracks={[track]} className="opacity-0 group-hover:opacity-100 transition-opacity" />
         </div>
       )}
     </SwipeableCard>
   );
 
-  const renderPlaylistCard = (playlist: Playlist) => {
+  const renderPlaylistCard = (playlist: EnhancedPlaylist) => {
     return (
       <div
         key={playlist.id}
@@ -162,7 +146,7 @@ export const LibraryScreen: React.FC = () => {
         onClick={async () => {
           const tracks = await getPlaylistTracks(playlist);
           if (tracks.length > 0) {
-            playTrack(tracks[0], tracks);
+            playTrack(tracks[0], tracks, PlaybackSource.PLAYLIST, playlist.id);
           }
         }}
       >
@@ -176,7 +160,7 @@ export const LibraryScreen: React.FC = () => {
             </div>
             <h3 className="font-medium text-sm mb-1 truncate">{playlist.name}</h3>
             <p className="text-xs text-muted-foreground">
-              {playlist.songs.length} songs
+              {playlist.trackIds.length} songs
             </p>
           </div>
         ) : (
@@ -193,7 +177,7 @@ export const LibraryScreen: React.FC = () => {
                 {playlist.description || 'No description'}
               </p>
               <p className="text-xs text-muted-foreground">
-                {playlist.songs.length} songs
+                {playlist.trackIds.length} songs
               </p>
             </div>
           </div>
@@ -217,6 +201,32 @@ export const LibraryScreen: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={refreshScan}
+              disabled={isScanning}
+              title="Rescan music folders"
+              className="w-9 h-9"
+            >
+              <RefreshCw size={16} className={cn(isScanning && 'animate-spin')} />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowArtistAlbumView(true)}
+              className="w-9 h-9"
+            >
+              <Users size={16} />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowBatchOperations(true)}
+              className="w-9 h-9"
+            >
+              <CheckSquare size={16} />
+            </Button>
             <Button
               variant={viewMode === 'grid' ? 'default' : 'outline'}
               size="icon"
@@ -354,6 +364,20 @@ export const LibraryScreen: React.FC = () => {
         onClose={() => setShowPlaylistCreator(false)}
         onPlaylistCreated={handleCreatePlaylist}
       />
+
+      <BatchOperations
+        isOpen={showBatchOperations}
+        onClose={() => setShowBatchOperations(false)}
+      />
+
+      <ArtistAlbumView
+        isOpen={showArtistAlbumView}
+        onClose={() => setShowArtistAlbumView(false)}
+        onPlayTrack={(track, tracks, source, sourceId) => {
+          playTrack(track, tracks, source, sourceId);
+          setShowArtistAlbumView(false);
+        }}
+      />
     </div>
   );
 };
\ No newline at end of file
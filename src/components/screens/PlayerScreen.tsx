@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Heart, Share, Settings, Volume2, Headphones, Zap, MoreHorizontal, Music, Type, AudioLines } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,19 +8,42 @@ import { NeonButton } from '@/components/ui/neon-button';
 import { NeonCard } from '@/components/ui/neon-card';
 import { HeroPlayer } from '@/components/player/HeroPlayer';
 import { LyricsDisplay } from '@/components/lyrics/LyricsDisplay';
+import { LyricsViewer } from '@/components/lyrics/LyricsViewer';
 import { useMediaLibrary } from '@/hooks/useMediaLibrary';
+import { useAlbumPalette } from '@/hooks/media/useAlbumPalette';
+import { paletteCssVariables } from '@/services/library/palette';
 import { MediaPlayer } from '@/components/media/MediaPlayer';
 import { WaveformVisualizer } from '@/components/ui/waveform-visualizer';
 import { QueueDisplay } from '@/components/queue/QueueDisplay';
-import { LocalStorage } from '@/utils/localStorage';
+import { Badge } from '@/components/ui/badge';
+import { audioProfiles, AUDIO_PROFILE_SCOPE_LABELS } from '@/services/playback/audioProfiles';
+import { playbackEngine } from '@/services/playback/playbackEngine';
 
 export const PlayerScreen: React.FC = () => {
   const { currentTrack } = useMediaLibrary();
-  const [currentTime, setCurrentTime] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(() => playbackEngine.getPosition());
+  const [isPlaying, setIsPlaying] = useState(() => playbackEngine.isPlaying());
+  const [showLyricsEditor, setShowLyricsEditor] = useState(false);
+  const [activeProfile, setActiveProfile] = useState(() => audioProfiles.getActiveProfile());
+  const palette = useAlbumPalette(currentTrack);
 
+  useEffect(() => audioProfiles.onProfileChange(setActiveProfile), []);
+
+  // Lyrics and the visualizer follow the engine's clock
+  useEffect(() => {
+    const unsubscribers = [
+      playbackEngine.onTimeUpdate(position => setCurrentTime(position)),
+      playbackEngine.onPlayStateChange(setIsPlaying)
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  // The album's colors reach the hero background, progress bar and visualizers through CSS variables
   return (
-    <div className="pb-20 min-h-screen">
+    <div
+      className="pb-20 min-h-screen"
+      style={palette ? paletteCssVariables(palette) as React.CSSProperties : undefined}
+    >
       {/* Hero Player */}
       <HeroPlayer />
       
@@ -52,6 +75,7 @@ export const PlayerScreen: React.FC = () => {
               currentTrack={currentTrack}
               currentTime={currentTime}
               className="h-full"
+              onEdit={() => setShowLyricsEditor(true)}
             />
             </NeonCard>
           </TabsContent>
@@ -64,7 +88,7 @@ export const PlayerScreen: React.FC = () => {
                     isPlaying={isPlaying}
                     bars={60}
                     height={200}
-                    className="mb-4 animate-glow-rotate"
+                    className="mb-4"
                   />
                   <div className="text-center">
                     <p className="text-sm text-muted-foreground">Audio Visualizer</p>
@@ -119,6 +143,24 @@ export const PlayerScreen: React.FC = () => {
                 <p className="text-xs text-muted-foreground">Enhanced 3D sound experience</p>
               </div>
             </div>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              {activeProfile?.equalizer || activeProfile?.effects ? (
+                <>
+                  {activeProfile.equalizer && (
+                    <Badge variant="secondary" className="text-xs">
+                      EQ: {activeProfile.equalizer.preset.name} · {AUDIO_PROFILE_SCOPE_LABELS[activeProfile.equalizer.assignment.scope]} "{activeProfile.equalizer.assignment.label}"
+                    </Badge>
+                  )}
+                  {activeProfile.effects && (
+                    <Badge variant="secondary" className="text-xs">
+                      Effects · {AUDIO_PROFILE_SCOPE_LABELS[activeProfile.effects.assignment.scope]} "{activeProfile.effects.assignment.label}"
+                    </Badge>
+                  )}
+                </>
+              ) : (
+                <Badge variant="outline" className="text-xs">Default profile</Badge>
+              )}
+            </div>
             <div className="grid grid-cols-3 gap-2">
               <NeonButton variant="floating" size="sm" className="text-xs hover-lift ripple-effect">
                 Bass Boost
@@ -133,6 +175,14 @@ export const PlayerScreen: React.FC = () => {
           </CardContent>
         </NeonCard>
       </div>
+
+      <LyricsViewer
+        currentTrack={currentTrack}
+        currentTime={currentTime}
+        isPlaying={isPlaying}
+        isOpen={showLyricsEditor}
+        onClose={() => setShowLyricsEditor(false)}
+      />
     </div>
   );
 };
\ No newline at end of file
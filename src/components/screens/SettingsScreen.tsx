@@ -4,11 +4,19 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
 import { PerformanceMonitor } from '@/components/performance/PerformanceMonitor';
 import { usePerformanceOptimization } from '@/hooks/performance/usePerformanceOptimization';
-import { musicDB } from '@/utils/musicDatabase';
+import { useMediaLibrary } from '@/hooks/useMediaLibrary';
+import { libraryRepository, DEFAULT_SKIP_THRESHOLD } from '@/services/libraryRepository';
 import { backgroundAudioService } from '@/services/backgroundAudioService';
+import { audioAnalysisService, AudioAnalysisProgress } from '@/services/analysis/audioAnalysisService';
+import { playbackEngine } from '@/services/playback/playbackEngine';
+import { CrossfadeSettings } from '@/components/advanced/CrossfadeSettings';
+import { LyricsSourcesSettings } from '@/components/lyrics/LyricsSourcesSettings';
+import { CreditSplittingSettings } from '@/components/library/CreditSplittingSettings';
+import { libraryStorageService, type StorageSummary } from '@/services/library/libraryStorageService';
 import { toast } from 'sonner';
 
 export const SettingsScreen: React.FC = () => {
@@ -18,8 +26,6 @@ export const SettingsScreen: React.FC = () => {
     autoPlay: true,
     showLyrics: true,
     defaultVolume: 80,
-    crossfade: false,
-    gaplessPlayback: true,
     backgroundAudio: true,
     hapticFeedback: true,
     batteryOptimization: true,
@@ -27,10 +33,18 @@ export const SettingsScreen: React.FC = () => {
   });
   const [stats, setStats] = useState({
     totalSongs: 0,
-    totalSize: 0,
-    dbSize: 0
+    totalSize: 0
   });
+  const [storage, setStorage] = useState<StorageSummary | null>(null);
+  const [keepLibraryCopies, setKeepLibraryCopies] = useState(false);
   const [showPerformanceMonitor, setShowPerformanceMonitor] = useState(false);
+  const [showCrossfadeSettings, setShowCrossfadeSettings] = useState(false);
+  const [showLyricsSources, setShowLyricsSources] = useState(false);
+  const [showCreditSplitting, setShowCreditSplitting] = useState(false);
+  const [crossfadeSettings, setCrossfadeSettings] = useState(playbackEngine.getSettings());
+  const [analysisProgress, setAnalysisProgress] = useState<AudioAnalysisProgress>(audioAnalysisService.getProgress());
+  const [skipThreshold, setSkipThreshold] = useState(DEFAULT_SKIP_THRESHOLD);
+  const { autoplayEnabled, setAutoplayEnabled } = useMediaLibrary();
   
   const { 
     getDeviceInfo, 
@@ -46,6 +60,10 @@ export const SettingsScreen: React.FC = () => {
     initializeServices();
   }, []);
 
+  useEffect(() => {
+    return audioAnalysisService.onProgressChange(setAnalysisProgress);
+  }, []);
+
   const initializeServices = async () => {
     try {
       await backgroundAudioService.initialize();
@@ -56,24 +74,82 @@ export const SettingsScreen: React.FC = () => {
 
   const loadStats = async () => {
     try {
-      const allSongs = await musicDB.getAllSongs();
+      const allSongs = await libraryRepository.getAllSongs();
       const totalSize = allSongs.reduce((acc, song) => acc + (song.size || 0), 0);
       
       setStats({
         totalSongs: allSongs.length,
-        totalSize,
-        dbSize: totalSize // Approximate
+        totalSize
       });
+
+      if (libraryStorageService.isAvailable()) {
+        setStorage(await libraryStorageService.getSummary());
+      }
     } catch (error) {
       console.error('Failed to load stats:', error);
     }
   };
 
-  const loadSettings = () => {
+  const loadSettings = async () => {
     const saved = localStorage.getItem('melodyforge-settings');
     if (saved) {
       setSettings({ ...settings, ...JSON.parse(saved) });
     }
+
+    try {
+      const preferences = await libraryRepository.getPreferences();
+      setSkipThreshold(preferences.skipThreshold);
+      setKeepLibraryCopies(!!preferences.keepLibraryCopies);
+    } catch (error) {
+      console.error('Failed to load preferences:', error);
+    }
+  };
+
+  const saveSkipThreshold = async (value: number) => {
+    try {
+      await libraryRepository.updatePreferences({ skipThreshold: value });
+      toast.success('Setting updated');
+    } catch (error) {
+      console.error('Failed to save skip threshold:', error);
+      toast.error('Failed to save setting');
+    }
+  };
+
+  const toggleAutoplay = async (enabled: boolean) => {
+    try {
+      await setAutoplayEnabled(enabled);
+      toast.success('Setting updated');
+    } catch (error) {
+      console.error('Failed to save autoplay setting:', error);
+      toast.error('Failed to save setting');
+    }
+  };
+
+  const toggleLibraryCopies = async (enabled: boolean) => {
+    setKeepLibraryCopies(enabled);
+    try {
+      await libraryStorageService.setEnabled(enabled);
+      toast.success('Setting updated');
+      loadStats();
+    } catch (error) {
+      console.error('Failed to save storage setting:', error);
+      setKeepLibraryCopies(!enabled);
+      toast.error('Failed to save setting');
+    }
+  };
+
+  const requestPersistentStorage = async () => {
+    try {
+      if (await libraryStorageService.requestPersistence()) {
+        toast.success('Your music will be kept when space runs low');
+      } else {
+        toast.info('The browser did not grant persistent storage');
+      }
+      loadStats();
+    } catch (error) {
+      console.error('Failed to request persistent storage:', error);
+      toast.error('Failed to request persistent storage');
+    }
   };
 
   const updateSetting = async (key: string, value: any) => {
@@ -116,10 +192,28 @@ export const SettingsScreen: React.FC = () => {
     }
   };
 
+  const toggleAudioAnalysis = async () => {
+    if (analysisProgress.isRunning) {
+      audioAnalysisService.stop();
+      toast.info('Analysis will pause after the current track');
+      return;
+    }
+
+    try {
+      await audioAnalysisService.analyzeLibrary();
+      if (!audioAnalysisService.getProgress().isRunning) {
+        toast.success('All tracks are already analyzed');
+      }
+    } catch (error) {
+      console.error('Failed to start audio analysis:', error);
+      toast.error('Failed to start audio analysis');
+    }
+  };
+
   const resetDatabase = async () => {
     if (confirm('Are you sure? This will remove all your music data and cannot be undone.')) {
       try {
-        await musicDB.clearAll();
+        await libraryRepository.clearAll();
         toast.success('Database reset successfully');
         loadStats();
       } catch (error) {
@@ -173,6 +267,24 @@ export const SettingsScreen: React.FC = () => {
                 onCheckedChange={(checked) => updateSetting('showLyrics', checked)}
               />
             </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">Lyrics Sources</p>
+                <p className="text-sm text-muted-foreground">Online services searched for missing lyrics</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowLyricsSources(true)}>
+                Configure
+              </Button>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">Artists &amp; Genres</p>
+                <p className="text-sm text-muted-foreground">How tags naming several artists or genres are split</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowCreditSplitting(true)}>
+                Configure
+              </Button>
+            </div>
           </CardContent>
         </Card>
 
@@ -209,27 +321,74 @@ export const SettingsScreen: React.FC = () => {
               />
             </div>
 
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">Skip Threshold</p>
+                  <p className="text-sm text-muted-foreground">Skipping before this point counts against a track</p>
+                </div>
+                <span className="text-sm text-muted-foreground">{Math.round(skipThreshold * 100)}%</span>
+              </div>
+              <Slider
+                value={[skipThreshold * 100]}
+                onValueChange={(value) => setSkipThreshold(value[0] / 100)}
+                onValueCommit={(value) => saveSkipThreshold(value[0] / 100)}
+                min={5}
+                max={95}
+                step={5}
+                className="w-full"
+              />
+            </div>
+
             <div className="flex items-center justify-between">
               <div>
-                <p className="font-medium">Crossfade</p>
-                <p className="text-sm text-muted-foreground">Smooth transitions between tracks</p>
+                <p className="font-medium">Autoplay</p>
+                <p className="text-sm text-muted-foreground">Keep playing similar songs when the queue ends</p>
               </div>
-              <Switch 
-                checked={settings.crossfade}
-                onCheckedChange={(checked) => updateSetting('crossfade', checked)}
+              <Switch
+                checked={autoplayEnabled}
+                onCheckedChange={toggleAutoplay}
               />
             </div>
 
             <div className="flex items-center justify-between">
               <div>
-                <p className="font-medium">Gapless Playback</p>
-                <p className="text-sm text-muted-foreground">No silence between tracks</p>
+                <p className="font-medium">Crossfade & Gapless</p>
+                <p className="text-sm text-muted-foreground">
+                  {crossfadeSettings.gapless
+                    ? 'Gapless album playback'
+                    : crossfadeSettings.enabled
+                      ? `${crossfadeSettings.duration}s crossfade between tracks`
+                      : 'Tracks play back to back'}
+                </p>
               </div>
-              <Switch 
-                checked={settings.gaplessPlayback}
-                onCheckedChange={(checked) => updateSetting('gaplessPlayback', checked)}
-              />
+              <Button variant="outline" size="sm" onClick={() => setShowCrossfadeSettings(true)}>
+                Configure
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">Audio Analysis</p>
+                  <p className="text-sm text-muted-foreground">
+                    {analysisProgress.isRunning
+                      ? `Analyzing ${analysisProgress.completed + analysisProgress.failed} of ${analysisProgress.total} tracks`
+                      : 'Measure tempo and energy for Smart Mix'}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={toggleAudioAnalysis}>
+                  {analysisProgress.isRunning ? 'Pause' : 'Analyze'}
+                </Button>
+              </div>
+              {analysisProgress.isRunning && analysisProgress.total > 0 && (
+                <Progress
+                  value={((analysisProgress.completed + analysisProgress.failed) / analysisProgress.total) * 100}
+                  className="w-full"
+                />
+              )}
             </div>
+
           </CardContent>
         </Card>
 
@@ -337,10 +496,59 @@ export const SettingsScreen: React.FC = () => {
                 <div className="text-xs text-muted-foreground">Total Size</div>
               </div>
               <div>
-                <div className="text-2xl font-bold text-primary">{formatSize(stats.dbSize)}</div>
-                <div className="text-xs text-muted-foreground">Database</div>
+                <div className="text-2xl font-bold text-primary">{formatSize(storage?.usage ?? 0)}</div>
+                <div className="text-xs text-muted-foreground">App Storage</div>
               </div>
             </div>
+
+            {storage && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Storage Used</span>
+                  <span className="text-muted-foreground">
+                    {formatSize(storage.usage)} of {formatSize(storage.quota)}
+                  </span>
+                </div>
+                <Progress value={storage.quota > 0 ? (storage.usage / storage.quota) * 100 : 0} className="w-full" />
+                {storage.entries.map(entry => (
+                  <div key={entry.label} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{entry.label}</span>
+                    <span>{formatSize(entry.bytes)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {libraryStorageService.isAvailable() && (
+              <>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">Keep Music in App Storage</p>
+                    <p className="text-sm text-muted-foreground">Copy added files and downloads, filed by artist and album</p>
+                  </div>
+                  <Switch
+                    checked={keepLibraryCopies}
+                    onCheckedChange={toggleLibraryCopies}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">Persistent Storage</p>
+                    <p className="text-sm text-muted-foreground">
+                      {storage?.persisted
+                        ? 'Your music is kept when space runs low'
+                        : 'The browser may clear app storage when space runs low'}
+                    </p>
+                  </div>
+                  {!storage?.persisted && (
+                    <Button variant="outline" size="sm" onClick={requestPersistentStorage}>
+                      Request
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
             
             <div className="flex gap-2 pt-4">
               <Button
@@ -388,6 +596,18 @@ export const SettingsScreen: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      <CrossfadeSettings
+        isOpen={showCrossfadeSettings}
+        onClose={() => setShowCrossfadeSettings(false)}
+        onSettingsChange={(newSettings) => {
+          playbackEngine.updateSettings(newSettings);
+          setCrossfadeSettings(newSettings);
+        }}
+      />
+
+      <LyricsSourcesSettings open={showLyricsSources} onOpenChange={setShowLyricsSources} />
+      <CreditSplittingSettings open={showCreditSplitting} onOpenChange={setShowCreditSplitting} />
     </div>
   );
-};
\ No newline at end of file
+};
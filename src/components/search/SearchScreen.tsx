@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
+import { QueueActionsMenu } from '@/components/queue/QueueActionsMenu';
+import { PlaybackSource } from '@/services/enhancedDatabase';
 import { cn } from '@/lib/utils';
 
 interface SearchScreenProps {
@@ -116,7 +118,7 @@ export const SearchScreen: React.FC<SearchScreenProps> = ({ onClose }) => {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => playTrack(filteredTracks[0], filteredTracks)}
+              onClick={() => playTrack(filteredTracks[0], filteredTracks, PlaybackSource.SEARCH)}
               className="text-primary hover:text-primary"
             >
               Play All
@@ -131,7 +133,7 @@ export const SearchScreen: React.FC<SearchScreenProps> = ({ onClose }) => {
               <Card
                 key={track.id}
                 className="proton-card hover:border-primary/30 transition-all cursor-pointer group"
-                onClick={() => playTrack(track, filteredTracks)}
+                onClick={() => playTrack(track, filteredTracks, PlaybackSource.SEARCH)}
               >
                 <CardContent className="p-4">
                   <div className="flex items-center gap-4">
@@ -162,6 +164,7 @@ export const SearchScreen: React.FC<SearchScreenProps> = ({ onClose }) => {
                           {track.playCount} plays
                         </Badge>
                       )}
+                      <QueueActionsMenu tracks={[track]} />
                     </div>
                   </div>
                 </CardContent>
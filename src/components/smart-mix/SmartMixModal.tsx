@@ -6,7 +6,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
 import { useMediaLibrary, Track } from '@/hooks/useMediaLibrary';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { PlaybackSource } from '@/services/enhancedDatabase';
 import { toast } from 'sonner';
 
 interface SmartMixModalProps {
@@ -126,11 +127,7 @@ export const SmartMixModal: React.FC<SmartMixModalProps> = ({
       const playlist = {
         id: `smart_mix_${Date.now()}`,
         name: playlistName,
-        songs: mixTracks.map(t => t.id),
         trackIds: mixTracks.map(t => t.id),
-        createdAt: new Date(),
-        dateCreated: new Date(),
-        lastModified: new Date(),
         color: '#8B5CF6', // Purple color
         description: `Auto-generated ${selectedOption.name.toLowerCase()} with ${mixTracks.length} songs`,
         isSmartPlaylist: true,
@@ -141,7 +138,7 @@ export const SmartMixModal: React.FC<SmartMixModalProps> = ({
         }
       };
       
-      await musicDB.createPlaylist(playlist);
+      await libraryRepository.createPlaylist(playlist);
       toast.success(`Created smart mix: ${playlistName}`);
       
       onMixCreated?.(mixTracks);
@@ -155,7 +152,7 @@ export const SmartMixModal: React.FC<SmartMixModalProps> = ({
 
   const playMix = () => {
     if (generatedMix.length > 0) {
-      playTrack(generatedMix[0], generatedMix);
+      playTrack(generatedMix[0], generatedMix, PlaybackSource.SMART_MIX);
       onClose();
     }
   };
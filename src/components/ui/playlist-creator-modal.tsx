@@ -4,13 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { musicDB, Playlist } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { EnhancedPlaylist } from '@/services/enhancedDatabase';
 import { toast } from 'sonner';
 
 interface PlaylistCreatorModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onPlaylistCreated?: (playlist: Playlist) => void;
+  onPlaylistCreated?: (playlist: EnhancedPlaylist) => void;
 }
 
 const colorOptions = [
@@ -43,19 +44,12 @@ export const PlaylistCreatorModal: React.FC<PlaylistCreatorModalProps> = ({
     setCreating(true);
     
     try {
-      const playlist: Playlist = {
-        id: `playlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const playlist = await libraryRepository.createPlaylist({
         name: name.trim(),
         description: description.trim() || undefined,
         color: selectedColor.value,
-        songs: [],
-        trackIds: [], // Alias for songs for compatibility
-        createdAt: new Date(),
-        dateCreated: new Date(), // Alias for createdAt
-        lastModified: new Date()
-      };
-
-      await musicDB.createPlaylist(playlist);
+        trackIds: []
+      });
       toast.success(`Playlist "${name}" created successfully!`);
       
       onPlaylistCreated?.(playlist);
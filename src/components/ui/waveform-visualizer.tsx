@@ -62,7 +62,7 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({
       {waveData.map((amplitude, index) => (
         <div
           key={index}
-          className="bg-gradient-to-t from-primary via-secondary to-accent rounded-full transition-all duration-100 ease-out animate-wave"
+          className="album-visualizer-bar rounded-full transition-all duration-100 ease-out animate-wave"
           style={{
             height: `${amplitude * height}px`,
             width: `${Math.max(2, Math.floor(120 / bars))}px`,
@@ -0,0 +1,12 @@
+import React from 'react';
+import { MediaLibraryContext, useMediaLibraryState } from './useMediaLibrary';
+
+export const MediaLibraryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const library = useMediaLibraryState();
+
+  return (
+    <MediaLibraryContext.Provider value={library}>
+      {children}
+    </MediaLibraryContext.Provider>
+  );
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { AlbumPalette } from '@/services/enhancedDatabase';
+import { paletteService } from '@/services/library/paletteService';
+import type { Track } from './useMediaScanner';
+
+type PaletteFields = Pick<Track, 'artist' | 'album' | 'albumArtist' | 'compilation' | 'artworkHash'>;
+
+/**
+ * Colors of a track's album: its fallback colors at first, then those of its cover once taken
+ */
+export const useAlbumPalette = (track: PaletteFields | null | undefined): AlbumPalette | undefined => {
+  const [loaded, setLoaded] = useState<AlbumPalette>();
+  const hasTrack = !!track;
+  const artist = track?.artist ?? '';
+  const album = track?.album ?? '';
+  const albumArtist = track?.albumArtist;
+  const compilation = track?.compilation;
+  const artworkHash = track?.artworkHash;
+
+  const fallback = useMemo(
+    () => hasTrack ? paletteService.getFallbackPalette({ artist, album, albumArtist, compilation, artworkHash }) : undefined,
+    [hasTrack, artist, album, albumArtist, compilation, artworkHash]
+  );
+
+  useEffect(() => {
+    if (!hasTrack) return;
+
+    let cancelled = false;
+    paletteService.getPalette({ artist, album, albumArtist, compilation, artworkHash }).then(palette => {
+      if (!cancelled) setLoaded(palette);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasTrack, artist, album, albumArtist, compilation, artworkHash]);
+
+  // A palette loaded for the previous album is not shown for this one
+  return loaded && fallback && loaded.albumKey === fallback.albumKey ? loaded : fallback;
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { artworkService, type ArtworkSize } from '@/services/library/artworkService';
+import type { Track } from './useMediaScanner';
+
+type ArtworkFields = Pick<Track, 'artworkHash' | 'albumArt'>;
+
+/**
+ * URL of a track's cover at a size: its stored artwork, else its albumArt URL, else undefined
+ */
+export const useArtworkUrl = (track: ArtworkFields | null | undefined, size: ArtworkSize = 'full'): string | undefined => {
+  const artworkHash = track?.artworkHash;
+  const albumArt = track?.albumArt;
+  const [url, setUrl] = useState<string | undefined>(artworkHash ? undefined : albumArt);
+
+  useEffect(() => {
+    if (!artworkHash) {
+      setUrl(albumArt);
+      return;
+    }
+
+    let cancelled = false;
+    artworkService.getArtworkUrl(artworkHash, size)
+      .then(stored => {
+        if (!cancelled) setUrl(stored ?? albumArt);
+      })
+      .catch(error => {
+        console.warn('Could not load cover art:', error);
+        if (!cancelled) setUrl(albumArt);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artworkHash, albumArt, size]);
+
+  return url;
+};
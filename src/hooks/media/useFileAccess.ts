@@ -0,0 +1,20 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trackFileService, type FileAccessStatus } from '@/services/library/trackFileService';
+
+/**
+ * Whether the library's stored files can be opened, checked once on mount, and a way to allow access again
+ */
+export const useFileAccess = () => {
+  const [status, setStatus] = useState<FileAccessStatus>(trackFileService.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = trackFileService.onStatusChange(setStatus);
+    trackFileService.checkAccess().catch(error => console.warn('Could not check file access:', error));
+    return unsubscribe;
+  }, []);
+
+  // Browsers only show the permission prompt in response to a click or key press
+  const authorize = useCallback(() => trackFileService.authorize(), []);
+
+  return { status, authorize };
+};
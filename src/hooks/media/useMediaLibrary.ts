@@ -1,24 +1,52 @@
-import { useState, useCallback } from 'react';
-import { useMediaScanner } from './useMediaScanner';
-import { usePlaybackQueue } from './usePlaybackQueue';
+import { useState, useCallback, useEffect, useMemo, useRef, createContext, useContext } from 'react';
+import { useMediaScanner, songToTrack } from './useMediaScanner';
+import { usePlaybackQueue, type RepeatMode } from './usePlaybackQueue';
 import { useTrackDatabase } from './useTrackDatabase';
+import { PlaybackSource } from '@/services/enhancedDatabase';
+import type { PlaybackContext } from '@/services/listeningHistoryService';
+import { playbackSession } from '@/services/playback/playbackSession';
+import { getUpcomingIndices } from '@/services/playback/playQueue';
+import { autoplay } from '@/services/playback/autoplay';
 import type { Track } from './useMediaScanner';
 
-export const useMediaLibrary = () => {
+/**
+ * Library and playback state; owned by MediaLibraryProvider so every screen shares it
+ */
+export const useMediaLibraryState = () => {
   const [currentTrack, setCurrentTrack] = useState<Track | null>(null);
+  const [playbackContext, setPlaybackContext] = useState<PlaybackContext>({ source: PlaybackSource.UNKNOWN });
+  const [autoplayEnabled, setAutoplayEnabledState] = useState(false);
   
   const {
     isScanning,
     scanProgress,
-    scanForMedia
+    scanForMedia,
+    rescanFolders
   } = useMediaScanner();
 
   const {
     queue,
     queueIndex,
+    queueState,
+    shuffleMode,
     setPlaybackQueue,
+    restoreQueue,
+    setShuffleMode,
     playNext: queuePlayNext,
     playPrevious: queuePlayPrevious,
+    playQueued: queuePlayQueued,
+    playInContext: queuePlayInContext,
+    playAutoQueued: queuePlayAutoQueued,
+    queueTracks: addToQueue,
+    removeQueued,
+    addAutoQueued,
+    removeAutoQueued,
+    moveQueued,
+    removeUpcoming,
+    moveUpcoming,
+    clearQueue,
+    undoClearQueue,
+    peekNext,
     getCurrentTrack,
     getQueuePosition
   } = usePlaybackQueue();
@@ -28,24 +56,70 @@ export const useMediaLibrary = () => {
     isLoading,
     getRecentTracks,
     getTopTracks,
-    updateTrackStats,
     searchTracks,
     refreshLibrary,
     loadInitialData
   } = useTrackDatabase();
 
+  // Pick up the queue the last visit left off with
+  useEffect(() => {
+    let cancelled = false;
+    playbackSession.restore().then(session => {
+      if (cancelled || !session) return;
+      const tracks = session.songs.map(songToTrack);
+      const queuedTrack = session.queuedSong && songToTrack(session.queuedSong);
+      restoreQueue({
+        tracks,
+        index: session.queueIndex,
+        queued: session.queued.map(songToTrack),
+        queuedTrack,
+        autoQueued: session.autoQueued.map(songToTrack),
+        autoTrack: session.autoTrack,
+        shuffleMode: session.shuffleMode,
+        shuffleSeed: session.shuffleSeed,
+        shuffleOrder: session.shuffleOrder,
+        history: session.history.map(({ song, index }) => ({ track: songToTrack(song), index }))
+      });
+      setCurrentTrack(queuedTrack ?? tracks[session.queueIndex]);
+      setPlaybackContext({ source: session.source, sourceId: session.sourceId });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreQueue]);
+
+  useEffect(() => {
+    playbackSession.update({
+      trackIds: queueState.tracks.map(track => track.id),
+      queueIndex: queueState.index,
+      queuedIds: queueState.queued.map(track => track.id),
+      queuedTrackId: queueState.queuedTrack?.id,
+      autoQueuedIds: queueState.autoQueued.map(track => track.id),
+      autoTrack: queueState.autoTrack,
+      shuffleMode: queueState.shuffleMode,
+      shuffleSeed: queueState.shuffleSeed,
+      shuffleOrder: queueState.shuffleOrder,
+      history: queueState.history.map(entry => ({ trackId: entry.track.id, index: entry.index })),
+      source: playbackContext.source,
+      sourceId: playbackContext.sourceId
+    });
+  }, [queueState, playbackContext]);
+
   // Enhanced scan that updates the database
   const scanForMediaEnhanced = useCallback(async () => {
-    const tracks = await scanForMedia();
-    await refreshLibrary(tracks);
+    await scanForMedia();
+    await refreshLibrary();
   }, [scanForMedia, refreshLibrary]);
 
-  // Play track with queue management
-  const playTrack = useCallback(async (track: Track, trackList?: Track[]) => {
+  // Play track with queue management; the source is recorded with the listening history
+  const playTrack = useCallback(async (
+    track: Track,
+    trackList?: Track[],
+    source: PlaybackSource = PlaybackSource.LIBRARY,
+    sourceId?: string
+  ) => {
     setCurrentTrack(track);
-    
-    // Update play count and last played
-    await updateTrackStats(track.id);
+    setPlaybackContext({ source, sourceId });
     
     if (trackList) {
       const trackIndex = trackList.findIndex(t => t.id === track.id);
@@ -53,34 +127,147 @@ export const useMediaLibrary = () => {
     } else {
       setPlaybackQueue([track], 0);
     }
-  }, [updateTrackStats, setPlaybackQueue]);
+  }, [setPlaybackQueue]);
+
+  // The rest of the context in play order, with each track's place in it
+  const upcomingTracks = useMemo(
+    () => getUpcomingIndices(queueState).map(index => ({ track: queueState.tracks[index], index })),
+    [queueState]
+  );
 
-  const playNext = useCallback((repeatMode?: 'none' | 'one' | 'all', isShuffling?: boolean) => {
-    const nextTrack = queuePlayNext(repeatMode, isShuffling);
+  const autoplayRef = useRef<Promise<boolean> | null>(null);
+  // The track autoplay last topped up the queue for, so it does so once per track
+  const autoplayTrackIdRef = useRef<string>();
+
+  /**
+   * Add similar tracks to play once everything else has, when autoplay is on; resolves to whether any were added
+   */
+  const extendWithAutoplay = useCallback((): Promise<boolean> => {
+    if (!autoplayEnabled) return Promise.resolve(false);
+    if (!autoplayRef.current) {
+      const current = queueState.queuedTrack ?? queueState.tracks[queueState.index];
+      const played = [...queueState.history.map(entry => entry.track), ...(current ? [current] : [])];
+      const avoid = [
+        ...(current ? [current] : []),
+        ...queueState.queued,
+        ...upcomingTracks.map(({ track }) => track),
+        ...queueState.autoQueued
+      ];
+
+      autoplayRef.current = autoplay.getNextTracks(played, avoid)
+        .then(tracks => {
+          if (tracks.length > 0) addAutoQueued(tracks);
+          return tracks.length > 0;
+        })
+        .catch(error => {
+          console.warn('Autoplay could not pick tracks:', error);
+          return false;
+        })
+        .finally(() => {
+          autoplayRef.current = null;
+        });
+    }
+    return autoplayRef.current;
+  }, [autoplayEnabled, queueState, upcomingTracks, addAutoQueued]);
+
+  useEffect(() => {
+    autoplay.isEnabled()
+      .then(setAutoplayEnabledState)
+      .catch(error => console.warn('Could not read the autoplay setting:', error));
+  }, []);
+
+  const setAutoplayEnabled = useCallback(async (enabled: boolean) => {
+    await autoplay.setEnabled(enabled);
+    setAutoplayEnabledState(enabled);
+  }, []);
+
+  // Top up while the last track plays, so the next one is ready to follow it seamlessly
+  useEffect(() => {
+    if (!autoplayEnabled || !currentTrack || autoplayTrackIdRef.current === currentTrack.id) return;
+    if (peekNext(playbackSession.getState().repeatMode)) return;
+    autoplayTrackIdRef.current = currentTrack.id;
+    void extendWithAutoplay();
+  }, [autoplayEnabled, currentTrack, peekNext, extendWithAutoplay]);
+
+  const playNext = useCallback((repeatMode?: RepeatMode) => {
+    const nextTrack = queuePlayNext(repeatMode);
     if (nextTrack) {
       setCurrentTrack(nextTrack);
-      updateTrackStats(nextTrack.id);
+      return;
     }
-  }, [queuePlayNext, updateTrackStats]);
 
-  const playPrevious = useCallback((isShuffling?: boolean) => {
-    const prevTrack = queuePlayPrevious(isShuffling);
+    // Out of tracks; autoplay may still find some
+    void extendWithAutoplay().then(added => {
+      const track = added ? queuePlayNext(repeatMode) : null;
+      if (track) {
+        setCurrentTrack(track);
+      }
+    });
+  }, [queuePlayNext, extendWithAutoplay]);
+
+  const playPrevious = useCallback(() => {
+    const prevTrack = queuePlayPrevious();
     if (prevTrack) {
       setCurrentTrack(prevTrack);
-      updateTrackStats(prevTrack.id);
     }
-  }, [queuePlayPrevious, updateTrackStats]);
+  }, [queuePlayPrevious]);
 
+  // Queued tracks play before the rest of the context; with nothing playing, they start playback
+  const queueTracks = useCallback((tracks: Track[], position: 'next' | 'last') => {
+    if (tracks.length === 0) return;
+    if (!currentTrack) {
+      void playTrack(tracks[0], tracks, PlaybackSource.QUEUE);
+      return;
+    }
+    addToQueue(tracks, position);
+  }, [currentTrack, playTrack, addToQueue]);
+
+  const playQueued = useCallback((position: number) => {
+    const track = queuePlayQueued(position);
+    if (track) {
+      setCurrentTrack(track);
+    }
+  }, [queuePlayQueued]);
+
+  const playInContext = useCallback((index: number) => {
+    const track = queuePlayInContext(index);
+    if (track) {
+      setCurrentTrack(track);
+    }
+  }, [queuePlayInContext]);
+
+  const playAutoQueued = useCallback((position: number) => {
+    const track = queuePlayAutoQueued(position);
+    if (track) {
+      setCurrentTrack(track);
+    }
+  }, [queuePlayAutoQueued]);
+
+  // Queued tracks count as played from the queue in the listening history, autoplay's as a smart mix
+  const activeContext = useMemo<PlaybackContext>(() => {
+    if (!queueState.queuedTrack) return playbackContext;
+    return { source: queueState.autoTrack ? PlaybackSource.SMART_MIX : PlaybackSource.QUEUE };
+  }, [queueState.queuedTrack, queueState.autoTrack, playbackContext]);
+
+  // Rescans only read files that changed, then pick up the stored result
   const refreshScan = useCallback(async () => {
-    await scanForMediaEnhanced();
-  }, [scanForMediaEnhanced]);
+    await rescanFolders();
+    await refreshLibrary();
+  }, [rescanFolders, refreshLibrary]);
 
   return {
     // Data
     audioFiles,
     currentTrack,
+    playbackContext: activeContext,
     queue,
     queueIndex,
+    queuedTracks: queueState.queued,
+    upcomingTracks,
+    autoQueuedTracks: queueState.autoQueued,
+    isAutoTrack: !!queueState.autoTrack,
+    autoplayEnabled,
+    shuffleMode,
     isLoading,
     
     // Scanning
@@ -98,10 +285,36 @@ export const useMediaLibrary = () => {
     playTrack,
     playNext,
     playPrevious,
+    peekNext,
+    setShuffleMode,
+    queueTracks,
+    playQueued,
+    playInContext,
+    playAutoQueued,
+    removeQueued,
+    removeAutoQueued,
+    moveQueued,
+    removeUpcoming,
+    moveUpcoming,
+    clearQueue,
+    undoClearQueue,
+    setAutoplayEnabled,
     getCurrentTrack,
     getQueuePosition
   };
 };
 
+export type MediaLibrary = ReturnType<typeof useMediaLibraryState>;
+
+export const MediaLibraryContext = createContext<MediaLibrary | null>(null);
+
+export const useMediaLibrary = (): MediaLibrary => {
+  const library = useContext(MediaLibraryContext);
+  if (!library) {
+    throw new Error('useMediaLibrary must be used within a MediaLibraryProvider');
+  }
+  return library;
+};
+
 // Re-export Track type for convenience
 export type { Track };
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { musicScanner } from '@/utils/musicScanner';
-import { musicDB, Song } from '@/utils/musicDatabase';
+import type { AudioBookmark, AudioFormat, EnhancedSong, TrackLoudness } from '@/services/enhancedDatabase';
 import { toast } from 'sonner';
 
 export interface Track {
@@ -11,15 +11,32 @@ export interface Track {
   duration: number;
   filePath: string;
   albumArt?: string;
+  artworkHash?: string;
+  missing?: boolean; // The file was not found by the last rescan
   playCount: number;
+  skipCount?: number;
   lastPlayed?: Date;
   size: number;
   dateAdded: Date;
   genre?: string;
   year?: number;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  composer?: string;
+  compilation?: boolean;
+  sortTitle?: string;
+  sortArtist?: string;
+  sortAlbum?: string;
+  sortAlbumArtist?: string;
+  format?: AudioFormat;
+  fileHash?: string;
+  bookmarks?: AudioBookmark[];
+  customTags?: Record<string, string>;
+  loudness?: TrackLoudness;
 }
 
-const songToTrack = (song: Song): Track => ({
+export const songToTrack = (song: EnhancedSong): Track => ({
   id: song.id,
   title: song.title,
   artist: song.artist,
@@ -27,12 +44,29 @@ const songToTrack = (song: Song): Track => ({
   duration: song.duration,
   filePath: song.filePath,
   albumArt: song.albumArt,
+  artworkHash: song.artworkHash,
   playCount: song.playCount,
+  skipCount: song.skipCount,
   lastPlayed: song.lastPlayed,
   size: song.size,
   dateAdded: song.dateAdded,
   genre: song.genre,
-  year: song.year
+  year: song.year,
+  albumArtist: song.albumArtist,
+  trackNumber: song.trackNumber,
+  discNumber: song.discNumber,
+  composer: song.composer,
+  compilation: song.compilation,
+  sortTitle: song.sortTitle,
+  sortArtist: song.sortArtist,
+  sortAlbum: song.sortAlbum,
+  sortAlbumArtist: song.sortAlbumArtist,
+  format: song.format,
+  fileHash: song.fileHash,
+  missing: song.missing,
+  bookmarks: song.bookmarks,
+  customTags: song.customTags,
+  loudness: song.loudness
 });
 
 export const useMediaScanner = () => {
@@ -65,9 +99,35 @@ export const useMediaScanner = () => {
     }
   }, []);
 
+  // Rescan the remembered folders, reading only files that are new or changed
+  const rescanFolders = useCallback(async (): Promise<void> => {
+    setIsScanning(true);
+    setScanProgress(0);
+
+    try {
+      const result = await musicScanner.rescanLibrary(progress => setScanProgress(progress));
+      if (!result) return;
+      setScanProgress(100);
+
+      const changes = [
+        result.added.length > 0 && `${result.added.length} new`,
+        result.updated > 0 && `${result.updated} changed`,
+        result.moved > 0 && `${result.moved} moved`,
+        result.missing > 0 && `${result.missing} missing`
+      ].filter(Boolean);
+      toast.success(changes.length > 0 ? `Library rescanned: ${changes.join(', ')}` : 'Library is up to date');
+    } catch (error) {
+      console.error('Error rescanning library:', error);
+      toast.error('Failed to rescan music folders');
+    } finally {
+      setIsScanning(false);
+    }
+  }, []);
+
   return {
     isScanning,
     scanProgress,
-    scanForMedia
+    scanForMedia,
+    rescanFolders
   };
 };
\ No newline at end of file
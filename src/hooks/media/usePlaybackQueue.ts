@@ -1,84 +1,155 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import type { Track } from './useMediaScanner';
+import { createShuffleOrder, type ShuffleMode } from '@/services/playback/shuffle';
+import * as playQueue from '@/services/playback/playQueue';
+import type { PlaybackQueueState, RepeatMode } from '@/services/playback/playQueue';
+
+export type { PlaybackQueueState, RepeatMode };
 
 export const usePlaybackQueue = () => {
-  const [queue, setQueue] = useState<Track[]>([]);
-  const [queueIndex, setQueueIndex] = useState(0);
+  const [state, setState] = useState<PlaybackQueueState>(playQueue.EMPTY_QUEUE);
+  // Moves return the track they land on, so they read and write the latest state synchronously
+  const stateRef = useRef(state);
+  // What the last clear removed, until the next clear or undo
+  const clearedRef = useRef<PlaybackQueueState | null>(null);
 
-  const setPlaybackQueue = useCallback((trackList: Track[], startIndex: number = 0) => {
-    setQueue(trackList);
-    setQueueIndex(startIndex);
+  const commit = useCallback((next: PlaybackQueueState) => {
+    stateRef.current = next;
+    setState(next);
   }, []);
 
-  const playNext = useCallback((repeatMode?: 'none' | 'one' | 'all', isShuffling?: boolean) => {
-    if (queue.length === 0) return null;
-
-    if (isShuffling && queue.length > 1) {
-      // Shuffle to random track (not current)
-      let randomIndex;
-      do {
-        randomIndex = Math.floor(Math.random() * queue.length);
-      } while (randomIndex === queueIndex && queue.length > 1);
-      
-      const randomTrack = queue[randomIndex];
-      setQueueIndex(randomIndex);
-      return randomTrack;
-    } else if (queueIndex < queue.length - 1) {
-      const nextTrack = queue[queueIndex + 1];
-      setQueueIndex(queueIndex + 1);
-      return nextTrack;
-    } else if (queue.length > 0 && repeatMode === 'all') {
-      // Loop back to first track
-      const firstTrack = queue[0];
-      setQueueIndex(0);
-      return firstTrack;
+  // Apply a move and return the track it lands on, or null when there is nowhere to go
+  const moveTo = useCallback((next: PlaybackQueueState | null) => {
+    if (!next) return null;
+    commit(next);
+    return playQueue.getCurrentTrack(next);
+  }, [commit]);
+
+  const setPlaybackQueue = useCallback((trackList: Track[], startIndex: number = 0) => {
+    commit(playQueue.startContext(stateRef.current, trackList, startIndex));
+  }, [commit]);
+
+  /**
+   * Put back a saved queue; a shuffled order that no longer fits the context is generated again from its seed
+   */
+  const restoreQueue = useCallback((saved: PlaybackQueueState) => {
+    if (saved.shuffleMode !== 'off' && saved.shuffleOrder.length !== saved.tracks.length) {
+      commit({ ...saved, shuffleOrder: createShuffleOrder(saved.tracks, saved.shuffleMode, saved.shuffleSeed, saved.index) });
+    } else {
+      commit(saved);
     }
-    
-    return null;
-  }, [queue, queueIndex]);
-
-  const playPrevious = useCallback((isShuffling?: boolean) => {
-    if (queue.length === 0) return null;
-
-    if (isShuffling && queue.length > 1) {
-      // Shuffle to random track (not current)
-      let randomIndex;
-      do {
-        randomIndex = Math.floor(Math.random() * queue.length);
-      } while (randomIndex === queueIndex && queue.length > 1);
-      
-      const randomTrack = queue[randomIndex];
-      setQueueIndex(randomIndex);
-      return randomTrack;
-    } else if (queueIndex > 0) {
-      const prevTrack = queue[queueIndex - 1];
-      setQueueIndex(queueIndex - 1);
-      return prevTrack;
-    } else if (queue.length > 0) {
-      // Loop to last track
-      const lastTrack = queue[queue.length - 1];
-      setQueueIndex(queue.length - 1);
-      return lastTrack;
+  }, [commit]);
+
+  // Switching shuffle keeps the current track and plays on from it
+  const setShuffleMode = useCallback((shuffleMode: ShuffleMode) => {
+    commit(playQueue.reshuffle({ ...stateRef.current, shuffleMode }));
+  }, [commit]);
+
+  const playNext = useCallback((repeatMode?: RepeatMode) => {
+    return moveTo(playQueue.advance(stateRef.current, repeatMode));
+  }, [moveTo]);
+
+  const playPrevious = useCallback(() => {
+    return moveTo(playQueue.goBack(stateRef.current));
+  }, [moveTo]);
+
+  const playQueued = useCallback((position: number) => {
+    return moveTo(playQueue.playQueued(stateRef.current, position));
+  }, [moveTo]);
+
+  const playInContext = useCallback((index: number) => {
+    return moveTo(playQueue.playInContext(stateRef.current, index));
+  }, [moveTo]);
+
+  const playAutoQueued = useCallback((position: number) => {
+    return moveTo(playQueue.playAutoQueued(stateRef.current, position));
+  }, [moveTo]);
+
+  const queueTracks = useCallback((tracks: Track[], position: 'next' | 'last') => {
+    commit(playQueue.queueTracks(stateRef.current, tracks, position));
+  }, [commit]);
+
+  const removeQueued = useCallback((position: number) => {
+    commit(playQueue.removeQueued(stateRef.current, position));
+  }, [commit]);
+
+  const addAutoQueued = useCallback((tracks: Track[]) => {
+    commit(playQueue.addAutoQueued(stateRef.current, tracks));
+  }, [commit]);
+
+  const removeAutoQueued = useCallback((position: number) => {
+    commit(playQueue.removeAutoQueued(stateRef.current, position));
+  }, [commit]);
+
+  const moveQueued = useCallback((from: number, to: number) => {
+    commit(playQueue.moveQueued(stateRef.current, from, to));
+  }, [commit]);
+
+  const removeUpcoming = useCallback((index: number) => {
+    commit(playQueue.removeUpcoming(stateRef.current, index));
+  }, [commit]);
+
+  const moveUpcoming = useCallback((from: number, to: number) => {
+    commit(playQueue.moveUpcoming(stateRef.current, from, to));
+  }, [commit]);
+
+  const clearQueue = useCallback(() => {
+    clearedRef.current = stateRef.current;
+    commit(playQueue.clearUpcoming(stateRef.current));
+  }, [commit]);
+
+  /**
+   * Bring back what the last clear removed; returns false once playback has moved to another track
+   */
+  const undoClearQueue = useCallback(() => {
+    const cleared = clearedRef.current;
+    clearedRef.current = null;
+    if (!cleared || playQueue.getCurrentTrack(cleared)?.id !== playQueue.getCurrentTrack(stateRef.current)?.id) {
+      return false;
     }
-    
-    return null;
-  }, [queue, queueIndex]);
+    commit(cleared);
+    return true;
+  }, [commit]);
+
+  // The track playNext would move to, when that is predictable; used to preload the next deck
+  const peekNext = useCallback((repeatMode?: RepeatMode): Track | null => {
+    return playQueue.peekNext(state, repeatMode);
+  }, [state]);
 
   const getCurrentTrack = useCallback(() => {
-    return queue[queueIndex] || null;
-  }, [queue, queueIndex]);
+    return playQueue.getCurrentTrack(state);
+  }, [state]);
 
   const getQueuePosition = useCallback(() => {
-    return { current: queueIndex + 1, total: queue.length };
-  }, [queueIndex, queue.length]);
+    return { current: state.index + 1, total: state.tracks.length };
+  }, [state.index, state.tracks.length]);
 
   return {
-    queue,
-    queueIndex,
+    queue: state.tracks,
+    queueIndex: state.index,
+    queuedTracks: state.queued,
+    autoQueuedTracks: state.autoQueued,
+    queueState: state,
+    shuffleMode: state.shuffleMode,
     setPlaybackQueue,
+    restoreQueue,
+    setShuffleMode,
     playNext,
     playPrevious,
+    playQueued,
+    playInContext,
+    playAutoQueued,
+    queueTracks,
+    removeQueued,
+    addAutoQueued,
+    removeAutoQueued,
+    moveQueued,
+    removeUpcoming,
+    moveUpcoming,
+    clearQueue,
+    undoClearQueue,
+    peekNext,
     getCurrentTrack,
     getQueuePosition
   };
-};
\ No newline at end of file
+};
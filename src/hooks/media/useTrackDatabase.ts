@@ -1,23 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { musicDB, Song } from '@/utils/musicDatabase';
+import { libraryRepository } from '@/services/libraryRepository';
+import { listeningHistoryService } from '@/services/listeningHistoryService';
+import { tagFileService } from '@/services/tags/tagFileService';
 import { toast } from 'sonner';
-import type { Track } from './useMediaScanner';
-
-const songToTrack = (song: Song): Track => ({
-  id: song.id,
-  title: song.title,
-  artist: song.artist,
-  album: song.album,
-  duration: song.duration,
-  filePath: song.filePath,
-  albumArt: song.albumArt,
-  playCount: song.playCount,
-  lastPlayed: song.lastPlayed,
-  size: song.size,
-  dateAdded: song.dateAdded,
-  genre: song.genre,
-  year: song.year
-});
+import { songToTrack, type Track } from './useMediaScanner';
 
 export const useTrackDatabase = () => {
   const [audioFiles, setAudioFiles] = useState<Track[]>([]);
@@ -28,11 +14,32 @@ export const useTrackDatabase = () => {
     loadInitialData();
   }, []);
 
+  // Keep play and skip counts in sync with the listening history
+  useEffect(() => {
+    return listeningHistoryService.onPlayLogged((_event, song) => {
+      if (!song) return;
+      setAudioFiles(prev =>
+        prev.map(track =>
+          track.id === song.id
+            ? { ...track, playCount: song.playCount, skipCount: song.skipCount, lastPlayed: song.lastPlayed }
+            : track
+        )
+      );
+    });
+  }, []);
+
+  // Pick up tag edits written into the files
+  useEffect(() => {
+    return tagFileService.onTagsWritten(song => {
+      setAudioFiles(prev => prev.map(track => (track.id === song.id ? { ...track, ...songToTrack(song) } : track)));
+    });
+  }, []);
+
   const loadInitialData = async () => {
     setIsLoading(true);
     try {
-      await musicDB.init();
-      const songs = await musicDB.getAllSongs();
+      await libraryRepository.init();
+      const songs = await libraryRepository.getAllSongs();
       const tracks = songs.map(songToTrack);
       setAudioFiles(tracks);
       
@@ -50,7 +57,7 @@ export const useTrackDatabase = () => {
   // Get recent tracks
   const getRecentTracks = useCallback(async (): Promise<Track[]> => {
     try {
-      const recentSongs = await musicDB.getRecentSongs(10);
+      const recentSongs = await libraryRepository.getRecentSongs(10);
       return recentSongs.map(songToTrack);
     } catch (error) {
       console.error('Failed to get recent tracks:', error);
@@ -61,7 +68,7 @@ export const useTrackDatabase = () => {
   // Get top tracks
   const getTopTracks = useCallback(async (): Promise<Track[]> => {
     try {
-      const topSongs = await musicDB.getTopSongs(10);
+      const topSongs = await libraryRepository.getTopSongs(10);
       return topSongs.map(songToTrack);
     } catch (error) {
       console.error('Failed to get top tracks:', error);
@@ -69,29 +76,6 @@ export const useTrackDatabase = () => {
     }
   }, []);
 
-  // Update track stats
-  const updateTrackStats = useCallback(async (trackId: string) => {
-    try {
-      const song = await musicDB.getSongById(trackId);
-      if (song) {
-        song.playCount += 1;
-        song.lastPlayed = new Date();
-        await musicDB.updateSong(song);
-        
-        // Update local state
-        setAudioFiles(prev => 
-          prev.map(track => 
-            track.id === trackId 
-              ? { ...track, playCount: song.playCount, lastPlayed: song.lastPlayed }
-              : track
-          )
-        );
-      }
-    } catch (error) {
-      console.error('Failed to update song stats:', error);
-    }
-  }, []);
-
   // Search functionality
   const searchTracks = useCallback((query: string): Track[] => {
     if (!query.trim()) return audioFiles;
@@ -105,8 +89,14 @@ export const useTrackDatabase = () => {
     );
   }, [audioFiles]);
 
-  const refreshLibrary = useCallback(async (newTracks: Track[]) => {
-    setAudioFiles(newTracks);
+  // Reload the tracks after imports and rescans, without the loading state of the first load
+  const refreshLibrary = useCallback(async () => {
+    try {
+      const songs = await libraryRepository.getAllSongs();
+      setAudioFiles(songs.map(songToTrack));
+    } catch (error) {
+      console.error('Failed to refresh library:', error);
+    }
   }, []);
 
   return {
@@ -114,7 +104,6 @@ export const useTrackDatabase = () => {
     isLoading,
     getRecentTracks,
     getTopTracks,
-    updateTrackStats,
     searchTracks,
     refreshLibrary,
     loadInitialData
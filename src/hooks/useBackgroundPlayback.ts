@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { Track } from '@/hooks/useMediaLibrary';
+import { useArtworkUrl } from '@/hooks/media/useArtworkUrl';
 
 interface UseBackgroundPlaybackProps {
   currentTrack?: Track;
@@ -19,6 +20,7 @@ export const useBackgroundPlayback = ({
   onPause
 }: UseBackgroundPlaybackProps) => {
   const mediaSessionRef = useRef<MediaSession | null>(null);
+  const artworkUrl = useArtworkUrl(currentTrack);
 
   useEffect(() => {
     // Check if MediaSession API is supported
@@ -36,19 +38,12 @@ export const useBackgroundPlayback = ({
         title: currentTrack.title,
         artist: currentTrack.artist,
         album: currentTrack.album,
-        artwork: currentTrack.albumArt ? [
-          { src: currentTrack.albumArt, sizes: '96x96', type: 'image/png' },
-          { src: currentTrack.albumArt, sizes: '128x128', type: 'image/png' },
-          { src: currentTrack.albumArt, sizes: '192x192', type: 'image/png' },
-          { src: currentTrack.albumArt, sizes: '256x256', type: 'image/png' },
-          { src: currentTrack.albumArt, sizes: '384x384', type: 'image/png' },
-          { src: currentTrack.albumArt, sizes: '512x512', type: 'image/png' }
-        ] : undefined
+        artwork: artworkUrl ? [{ src: artworkUrl }] : undefined
       });
     } catch (error) {
       console.error('Failed to set media session metadata:', error);
     }
-  }, [currentTrack]);
+  }, [currentTrack, artworkUrl]);
 
   // Set up media session action handlers
   useEffect(() => {
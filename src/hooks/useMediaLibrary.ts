@@ -1,3 +1,4 @@
 // Re-export everything from the modular media library hook
 export { useMediaLibrary } from './media/useMediaLibrary';
-export type { Track } from './media/useMediaLibrary';
\ No newline at end of file
+export { MediaLibraryProvider } from './media/MediaLibraryProvider';
+export type { Track, MediaLibrary } from './media/useMediaLibrary';
@@ -1,10 +1,13 @@
 import { MelodyForge } from "@/components/MelodyForge";
+import { MediaLibraryProvider } from "@/hooks/useMediaLibrary";
 import { ErrorBoundary } from "@/utils/errorBoundary";
 
 const Index = () => {
   return (
     <ErrorBoundary>
-      <MelodyForge />
+      <MediaLibraryProvider>
+        <MelodyForge />
+      </MediaLibraryProvider>
     </ErrorBoundary>
   );
 };
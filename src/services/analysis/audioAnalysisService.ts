@@ -0,0 +1,310 @@
+import { libraryRepository } from '../libraryRepository';
+import type { TrackAudioAnalysis } from '../enhancedDatabase';
+import { trackFileService } from '../library/trackFileService';
+import type { AudioAnalysisRequest, AudioAnalysisResponse } from '@/workers/audioAnalysis.worker';
+import type { ExtractedAudioFeatures } from './featureExtraction';
+import type { LoudnessMeasurement } from './loudness';
+import { computePeaks } from './waveform';
+
+export interface AudioAnalysisProgress {
+  isRunning: boolean;
+  total: number;
+  completed: number;
+  failed: number;
+  currentTrackId?: string;
+}
+
+/**
+ * Bump when the extraction algorithm changes so stored results are recomputed
+ */
+export const ANALYZER_VERSION = 2;
+
+const ANALYSIS_SAMPLE_RATE = 22050;
+const MAX_ANALYSIS_SECONDS = 120;
+
+/**
+ * BS.1770 is specified at 48 kHz; long tracks are measured at the analysis rate, as the whole
+ * decode is held while it streams to the worker (ten stereo minutes at 48 kHz are about 230 MB)
+ */
+const LOUDNESS_SAMPLE_RATE = 48000;
+const MAX_FULL_RATE_LOUDNESS_SECONDS = 10 * 60;
+const LOUDNESS_CHUNK_SECONDS = 10;
+
+/**
+ * Waveform displays only need the envelope, so tracks are decoded at a low rate
+ */
+const WAVEFORM_SAMPLE_RATE = 8000;
+const MAX_CACHED_WAVEFORMS = 8;
+
+type WorkerResult = Exclude<AudioAnalysisResponse, { error: string }>;
+type WorkerRequestBody =
+  | { kind: 'features'; samples: Float32Array; sampleRate: number }
+  | { kind: 'loudness'; meter: number; channels: Float32Array[]; sampleRate: number; final: boolean };
+
+/**
+ * Background queue that decodes tracks and measures their audio features and
+ * loudness. Tracks with ReplayGain tags keep their tagged gains. Pending work is derived from the database, so an interrupted run resumes
+ * with whatever tracks still lack a current analysis.
+ */
+class AudioAnalysisService {
+  private queue: string[] = [];
+  private attempted = new Set<string>();
+  private worker?: Worker;
+  private nextRequestId = 0;
+  private nextMeterId = 0;
+  private pendingRequests = new Map<number, {
+    resolve: (result: WorkerResult) => void;
+    reject: (error: Error) => void;
+  }>();
+  private progress: AudioAnalysisProgress = { isRunning: false, total: 0, completed: 0, failed: 0 };
+  private callbacks = new Set<(progress: AudioAnalysisProgress) => void>();
+  private stopRequested = false;
+  private waveforms = new Map<string, Promise<number[]>>();
+
+  /**
+   * Queue every track without an up-to-date analysis and start processing
+   */
+  async analyzeLibrary(): Promise<void> {
+    const [songs, analyses] = await Promise.all([
+      libraryRepository.getAllSongs(),
+      libraryRepository.getAllAudioAnalyses()
+    ]);
+    const current = new Set(
+      analyses.filter(analysis => analysis.analyzerVersion === ANALYZER_VERSION).map(analysis => analysis.trackId)
+    );
+
+    this.enqueue(songs.filter(song => !current.has(song.id)).map(song => song.id));
+  }
+
+  /**
+   * Add tracks to the queue; tracks already queued or attempted this session are skipped
+   */
+  enqueue(trackIds: string[]): void {
+    const fresh = trackIds.filter(id => !this.queue.includes(id) && !this.attempted.has(id));
+    if (fresh.length === 0) return;
+
+    this.queue.push(...fresh);
+    this.updateProgress({ total: this.progress.total + fresh.length });
+
+    if (!this.progress.isRunning) {
+      void this.processQueue();
+    }
+  }
+
+  /**
+   * Stop after the current track; remaining tracks are picked up by the next analyzeLibrary call
+   */
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  getProgress(): AudioAnalysisProgress {
+    return { ...this.progress };
+  }
+
+  onProgressChange(callback: (progress: AudioAnalysisProgress) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  /**
+   * Peak envelope of a whole track for waveform displays; recent results are cached per file
+   */
+  getWaveform(filePath: string, buckets: number = 400): Promise<number[]> {
+    const key = `${buckets}:${filePath}`;
+    const cached = this.waveforms.get(key);
+    if (cached) return cached;
+
+    const waveform = (async () => {
+      const data = await this.fetchAudio(filePath);
+      const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+      const buffer = await context.decodeAudioData(data);
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+      return computePeaks(channels, buckets);
+    })();
+
+    waveform.catch(() => this.waveforms.delete(key));
+    this.waveforms.set(key, waveform);
+    if (this.waveforms.size > MAX_CACHED_WAVEFORMS) {
+      this.waveforms.delete(this.waveforms.keys().next().value!);
+    }
+    return waveform;
+  }
+
+  private async processQueue(): Promise<void> {
+    this.stopRequested = false;
+    this.updateProgress({ isRunning: true });
+
+    while (this.queue.length > 0 && !this.stopRequested) {
+      const trackId = this.queue.shift()!;
+      this.attempted.add(trackId);
+      this.updateProgress({ currentTrackId: trackId });
+
+      try {
+        await this.analyzeTrack(trackId);
+        this.updateProgress({ completed: this.progress.completed + 1 });
+      } catch (error) {
+        console.warn(`Audio analysis failed for ${trackId}:`, error);
+        this.updateProgress({ failed: this.progress.failed + 1 });
+      }
+
+      // Give the UI a chance to breathe between decodes
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    if (this.stopRequested) {
+      // Dropped tracks may be retried later
+      this.queue.forEach(id => this.attempted.delete(id));
+      this.queue = [];
+    }
+
+    this.progress = { isRunning: false, total: 0, completed: 0, failed: 0 };
+    this.notifyCallbacks();
+  }
+
+  private async analyzeTrack(trackId: string): Promise<void> {
+    const song = await libraryRepository.getSongById(trackId);
+    if (!song?.filePath) {
+      throw new Error('Track has no playable source');
+    }
+
+    const data = await this.fetchAudio(await trackFileService.getPlayableUrl(song));
+    // decodeAudioData detaches its input, so each decode gets its own copy
+    const samples = await this.decodeMono(data.slice(0));
+    const features = await this.extractFeatures(samples, ANALYSIS_SAMPLE_RATE);
+
+    const analysis: TrackAudioAnalysis = {
+      trackId,
+      ...features,
+      analyzerVersion: ANALYZER_VERSION,
+      analyzedAt: new Date()
+    };
+    await libraryRepository.saveAudioAnalysis(analysis);
+
+    if (song.loudness?.source !== 'tags') {
+      const sampleRate = song.duration > MAX_FULL_RATE_LOUDNESS_SECONDS ? ANALYSIS_SAMPLE_RATE : LOUDNESS_SAMPLE_RATE;
+      const buffer = await this.decodeChannels(data, sampleRate);
+      const loudness = await this.measureLoudness(buffer);
+      await libraryRepository.saveMeasuredLoudness(trackId, loudness);
+    }
+  }
+
+  private async fetchAudio(url: string): Promise<ArrayBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load audio (${response.status})`);
+    }
+    return response.arrayBuffer();
+  }
+
+  /**
+   * Decode at the analysis rate and mix down the central window of the track
+   */
+  private async decodeMono(data: ArrayBuffer): Promise<Float32Array> {
+    // decodeAudioData resamples to the context rate, keeping the worker input small
+    const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data);
+
+    const maxLength = MAX_ANALYSIS_SECONDS * ANALYSIS_SAMPLE_RATE;
+    const length = Math.min(buffer.length, maxLength);
+    const start = Math.floor((buffer.length - length) / 2);
+    const mono = new Float32Array(length);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        mono[i] += channelData[start + i] / buffer.numberOfChannels;
+      }
+    }
+
+    return mono;
+  }
+
+  /**
+   * Decode the whole track with its original channel layout for loudness measurement
+   */
+  private async decodeChannels(data: ArrayBuffer, sampleRate: number): Promise<AudioBuffer> {
+    const context = new OfflineAudioContext(2, 1, sampleRate);
+    return context.decodeAudioData(data);
+  }
+
+  private async extractFeatures(samples: Float32Array, sampleRate: number): Promise<ExtractedAudioFeatures> {
+    const result = await this.runInWorker({ kind: 'features', samples, sampleRate }, [samples.buffer]);
+    if (!('features' in result)) throw new Error('Unexpected analysis result');
+    return result.features;
+  }
+
+  /**
+   * Feed the decoded track to the worker a chunk at a time; only the chunk in flight is copied
+   */
+  private async measureLoudness(buffer: AudioBuffer): Promise<LoudnessMeasurement> {
+    const meter = this.nextMeterId++;
+    const chunkLength = LOUDNESS_CHUNK_SECONDS * buffer.sampleRate;
+
+    for (let start = 0; ; start += chunkLength) {
+      const end = Math.min(buffer.length, start + chunkLength);
+      const final = end >= buffer.length;
+      // Copies, so the chunks can be transferred to the worker
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice(start, end));
+      const result = await this.runInWorker(
+        { kind: 'loudness', meter, channels, sampleRate: buffer.sampleRate, final },
+        channels.map(channel => channel.buffer)
+      );
+      if (!final) continue;
+      if (!('loudness' in result)) throw new Error('Unexpected analysis result');
+      return result.loudness;
+    }
+  }
+
+  private runInWorker(body: WorkerRequestBody, transfer: Transferable[]): Promise<WorkerResult> {
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      const request: AudioAnalysisRequest = { id, ...body };
+      worker.postMessage(request, transfer);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../../workers/audioAnalysis.worker.ts', import.meta.url), { type: 'module' });
+
+      this.worker.onmessage = (event: MessageEvent<AudioAnalysisResponse>) => {
+        const response = event.data;
+        const pending = this.pendingRequests.get(response.id);
+        if (!pending) return;
+
+        this.pendingRequests.delete(response.id);
+        if ('error' in response) {
+          pending.reject(new Error(response.error));
+        } else {
+          pending.resolve(response);
+        }
+      };
+
+      this.worker.onerror = (event) => {
+        const error = new Error(event.message || 'Audio analysis worker crashed');
+        this.pendingRequests.forEach(pending => pending.reject(error));
+        this.pendingRequests.clear();
+        this.worker?.terminate();
+        this.worker = undefined;
+      };
+    }
+
+    return this.worker;
+  }
+
+  private updateProgress(changes: Partial<AudioAnalysisProgress>): void {
+    this.progress = { ...this.progress, ...changes };
+    this.notifyCallbacks();
+  }
+
+  private notifyCallbacks(): void {
+    const progress = this.getProgress();
+    this.callbacks.forEach(callback => callback(progress));
+  }
+}
+
+export const audioAnalysisService = new AudioAnalysisService();
@@ -0,0 +1,203 @@
+/**
+ * Pure DSP routines for audio feature extraction.
+ * Kept free of DOM APIs so they can run inside the analysis worker.
+ */
+
+export interface ExtractedAudioFeatures {
+  bpm: number;
+  rmsEnergy: number;
+  spectralCentroid: number;
+  onsetDensity: number;
+  analyzedSeconds: number;
+}
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+/**
+ * Compute tempo, loudness, brightness and onset density from mono PCM
+ */
+export function extractAudioFeatures(samples: Float32Array, sampleRate: number): ExtractedAudioFeatures {
+  const analyzedSeconds = samples.length / sampleRate;
+  if (samples.length < FRAME_SIZE) {
+    return { bpm: 0, rmsEnergy: calculateRms(samples), spectralCentroid: 0, onsetDensity: 0, analyzedSeconds };
+  }
+
+  const window = hannWindow(FRAME_SIZE);
+  const frameCount = Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  const bins = FRAME_SIZE / 2;
+  let previousMagnitudes = new Float32Array(bins);
+  let magnitudes = new Float32Array(bins);
+
+  const flux = new Float32Array(frameCount);
+  let centroidSum = 0;
+  let centroidFrames = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let weighted = 0;
+    let total = 0;
+    let frameFlux = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]);
+      magnitudes[bin] = magnitude;
+      weighted += magnitude * (bin * sampleRate / FRAME_SIZE);
+      total += magnitude;
+
+      // Half-wave rectified spectral flux only counts energy increases
+      const rise = magnitude - previousMagnitudes[bin];
+      if (rise > 0) frameFlux += rise;
+    }
+
+    flux[frame] = frameFlux;
+    if (total > 1e-6) {
+      centroidSum += weighted / total;
+      centroidFrames++;
+    }
+
+    [previousMagnitudes, magnitudes] = [magnitudes, previousMagnitudes];
+  }
+
+  const framesPerSecond = sampleRate / HOP_SIZE;
+  const onsets = pickOnsets(flux);
+
+  return {
+    bpm: estimateTempo(flux, framesPerSecond),
+    rmsEnergy: calculateRms(samples),
+    spectralCentroid: centroidFrames > 0 ? centroidSum / centroidFrames : 0,
+    onsetDensity: onsets / analyzedSeconds,
+    analyzedSeconds
+  };
+}
+
+function calculateRms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT; length must be a power of two
+ */
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const tReal = wReal * real[odd] - wImag * imag[odd];
+        const tImag = wReal * imag[odd] + wImag * real[odd];
+        real[odd] = real[even] - tReal;
+        imag[odd] = imag[even] - tImag;
+        real[even] += tReal;
+        imag[even] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Count local flux peaks that rise above an adaptive mean + deviation threshold
+ */
+function pickOnsets(flux: Float32Array): number {
+  const radius = 8;
+  let count = 0;
+  let lastOnset = -radius;
+
+  for (let i = 1; i < flux.length - 1; i++) {
+    if (flux[i] <= flux[i - 1] || flux[i] < flux[i + 1]) continue;
+
+    const start = Math.max(0, i - radius);
+    const end = Math.min(flux.length, i + radius + 1);
+    let mean = 0;
+    for (let j = start; j < end; j++) mean += flux[j];
+    mean /= end - start;
+    let variance = 0;
+    for (let j = start; j < end; j++) variance += (flux[j] - mean) ** 2;
+    const threshold = mean + Math.sqrt(variance / (end - start));
+
+    // Require a few frames between onsets so one transient is not counted twice
+    if (flux[i] > threshold && i - lastOnset >= 3) {
+      count++;
+      lastOnset = i;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Autocorrelate the onset envelope and pick the strongest beat period
+ */
+function estimateTempo(flux: Float32Array, framesPerSecond: number): number {
+  const minLag = Math.max(1, Math.floor((60 / MAX_BPM) * framesPerSecond));
+  const maxLag = Math.min(flux.length - 1, Math.ceil((60 / MIN_BPM) * framesPerSecond));
+  if (maxLag <= minLag) return 0;
+
+  let mean = 0;
+  for (let i = 0; i < flux.length; i++) mean += flux[i];
+  mean /= flux.length;
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let score = 0;
+    for (let i = lag; i < flux.length; i++) {
+      score += (flux[i] - mean) * (flux[i - lag] - mean);
+    }
+    score /= flux.length - lag;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag === 0) return 0;
+
+  // Fold octave errors into the range most music is notated in
+  let bpm = (60 * framesPerSecond) / bestLag;
+  while (bpm < 70) bpm *= 2;
+  while (bpm > 180) bpm /= 2;
+  return Math.round(bpm * 10) / 10;
+}
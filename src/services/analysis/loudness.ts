@@ -0,0 +1,275 @@
+/**
+ * ITU-R BS.1770 / EBU R128 loudness measurement and ReplayGain helpers.
+ * Kept free of DOM APIs so the measurement can run inside the analysis worker.
+ */
+
+export interface LoudnessMeasurement {
+  integratedLoudness: number; // LUFS; -Infinity when every block is gated out
+  truePeak: number; // Linear, from 4x oversampled audio
+  gatedBlocks: number; // 400 ms blocks that passed both gates
+}
+
+export interface NormalizationOptions {
+  mode: 'track' | 'album';
+  targetLoudness: number; // LUFS
+  preventClipping: boolean;
+}
+
+/**
+ * ReplayGain 2.0 gains are relative to this level
+ */
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const SURROUND_WEIGHT = 1.41;
+// True peak is found on the signal upsampled 4x with a windowed-sinc interpolator, catching inter-sample overs
+const OVERSAMPLING_FACTOR = 4;
+const OVERSAMPLING_TAPS_PER_PHASE = 12;
+
+interface BiquadCoefficients {
+  b: number[];
+  a: number[];
+}
+
+interface ChannelState {
+  weight: number;
+  shelf: Float64Array; // x1, x2, y1, y2 of each K-weighting stage
+  highPass: Float64Array;
+  history: Float32Array; // The last taps' worth of samples, stored twice so any window is contiguous
+  peak: number;
+}
+
+/**
+ * Integrated loudness, true peak and gated block count of one track
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  const meter = new LoudnessMeter(channels.length, sampleRate);
+  meter.push(channels);
+  return meter.finish();
+}
+
+/**
+ * Measures a track fed in consecutive chunks of any length, keeping only filter state and
+ * 100 ms step powers between them, so no filtered copy of the whole track is ever held
+ */
+export class LoudnessMeter {
+  private readonly filters: { shelf: BiquadCoefficients; highPass: BiquadCoefficients };
+  private readonly phases = buildInterpolationPhases(OVERSAMPLING_FACTOR);
+  private readonly channels: ChannelState[];
+  private readonly stepSize: number;
+  private steps: number[] = []; // Weighted mean square per 100 ms step, summed over channels
+  private stepSum = 0;
+  private stepFill = 0;
+  private length = 0;
+
+  constructor(channelCount: number, sampleRate: number) {
+    this.filters = kWeightingFilters(sampleRate);
+    this.stepSize = Math.max(1, Math.round(STEP_SECONDS * sampleRate));
+    this.channels = Array.from({ length: channelCount }, (_, channel) => ({
+      weight: channelWeight(channel, channelCount),
+      shelf: new Float64Array(4),
+      highPass: new Float64Array(4),
+      history: new Float32Array(2 * OVERSAMPLING_TAPS_PER_PHASE),
+      peak: 0
+    }));
+  }
+
+  /**
+   * Add the next samples, one array per channel, all of the same length
+   */
+  push(channels: Float32Array[]): void {
+    const length = channels[0]?.length ?? 0;
+    for (let i = 0; i < length; i++) {
+      let power = 0;
+      for (let channel = 0; channel < this.channels.length; channel++) {
+        const state = this.channels[channel];
+        const x = channels[channel][i];
+        this.addPeakSample(state, x, this.length + i);
+        if (state.weight === 0) continue;
+        const y = biquad(this.filters.highPass, state.highPass, biquad(this.filters.shelf, state.shelf, x));
+        power += state.weight * y * y;
+      }
+
+      this.stepSum += power;
+      if (++this.stepFill === this.stepSize) this.closeStep();
+    }
+    this.length += length;
+  }
+
+  finish(): LoudnessMeasurement {
+    if (this.stepFill > 0) this.closeStep();
+
+    // The last samples' interpolation windows reach past the end, where the signal counts as zero
+    const half = OVERSAMPLING_TAPS_PER_PHASE / 2;
+    this.channels.forEach(state => {
+      for (let n = this.length; n < this.length + half; n++) this.addPeakSample(state, 0, n);
+    });
+
+    // Overlapping 400 ms blocks; short tracks are measured as one block
+    const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+    const blocks: number[] = [];
+    if (this.steps.length < stepsPerBlock) {
+      if (this.steps.length > 0) blocks.push(mean(this.steps));
+    } else {
+      for (let start = 0; start + stepsPerBlock <= this.steps.length; start++) {
+        let sum = 0;
+        for (let i = start; i < start + stepsPerBlock; i++) sum += this.steps[i];
+        blocks.push(sum / stepsPerBlock);
+      }
+    }
+
+    const absoluteGated = blocks.filter(power => powerToLufs(power) > ABSOLUTE_GATE_LUFS);
+    const relativeGate = powerToLufs(mean(absoluteGated)) + RELATIVE_GATE_LU;
+    const gated = absoluteGated.filter(power => powerToLufs(power) > relativeGate);
+
+    return {
+      integratedLoudness: gated.length > 0 ? powerToLufs(mean(gated)) : -Infinity,
+      truePeak: Math.max(0, ...this.channels.map(state => state.peak)),
+      gatedBlocks: gated.length
+    };
+  }
+
+  private closeStep(): void {
+    // A final partial step is still divided by the full step size
+    this.steps.push(this.stepSum / this.stepSize);
+    this.stepSum = 0;
+    this.stepFill = 0;
+  }
+
+  /**
+   * Record sample n and check the peak around the sample half a window back, whose
+   * interpolation window it completes
+   */
+  private addPeakSample(state: ChannelState, x: number, n: number): void {
+    const taps = OVERSAMPLING_TAPS_PER_PHASE;
+    const slot = n % taps;
+    state.history[slot] = x;
+    state.history[slot + taps] = x;
+
+    if (n < taps / 2) return;
+    // Window of samples n - taps + 1 to n; the checked sample sits just left of its middle
+    const start = (n + 1) % taps;
+    let peak = Math.max(state.peak, Math.abs(state.history[start + taps / 2 - 1]));
+    for (let phase = 1; phase < OVERSAMPLING_FACTOR; phase++) {
+      const coefficients = this.phases[phase];
+      let sum = 0;
+      for (let t = 0; t < taps; t++) sum += state.history[start + t] * coefficients[t];
+      peak = Math.max(peak, Math.abs(sum));
+    }
+    state.peak = peak;
+  }
+}
+
+/**
+ * Album loudness from per-track results, weighting each track's gated power by its block count
+ */
+export function combineAlbumLoudness(tracks: Array<Pick<LoudnessMeasurement, 'integratedLoudness' | 'truePeak' | 'gatedBlocks'>>): LoudnessMeasurement {
+  let power = 0;
+  let blocks = 0;
+  tracks.forEach(track => {
+    if (!isFinite(track.integratedLoudness) || track.gatedBlocks <= 0) return;
+    power += lufsToPower(track.integratedLoudness) * track.gatedBlocks;
+    blocks += track.gatedBlocks;
+  });
+
+  return {
+    integratedLoudness: blocks > 0 ? powerToLufs(power / blocks) : -Infinity,
+    truePeak: Math.max(0, ...tracks.map(track => track.truePeak)),
+    gatedBlocks: blocks
+  };
+}
+
+/**
+ * ReplayGain 2.0 gain in dB for a measured loudness
+ */
+export const loudnessToGain = (lufs: number): number | undefined =>
+  isFinite(lufs) ? REPLAYGAIN_REFERENCE_LUFS - lufs : undefined;
+
+/**
+ * Linear playback gain for a track's ReplayGain values, shifted to the target level and
+ * optionally capped so the peak stays at or below full scale
+ */
+export function computePlaybackGain(
+  gains: { trackGain?: number; trackPeak?: number; albumGain?: number; albumPeak?: number } | undefined,
+  options: NormalizationOptions
+): number {
+  if (!gains) return 1;
+
+  const gain = options.mode === 'album' ? gains.albumGain ?? gains.trackGain : gains.trackGain ?? gains.albumGain;
+  const peak = options.mode === 'album' ? gains.albumPeak ?? gains.trackPeak : gains.trackPeak ?? gains.albumPeak;
+  if (gain === undefined) return 1;
+
+  let gainDb = gain + (options.targetLoudness - REPLAYGAIN_REFERENCE_LUFS);
+  if (options.preventClipping && peak && peak > 0) {
+    gainDb = Math.min(gainDb, -20 * Math.log10(peak));
+  }
+  return Math.pow(10, gainDb / 20);
+}
+
+const powerToLufs = (power: number): number => -0.691 + 10 * Math.log10(power);
+const lufsToPower = (lufs: number): number => Math.pow(10, (lufs + 0.691) / 10);
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * BS.1770 channel weights: LFE is ignored and surround channels of 5.1 count 1.41x
+ */
+function channelWeight(channel: number, channelCount: number): number {
+  if (channelCount < 6) return 1;
+  if (channel === 3) return 0;
+  return channel >= 4 ? SURROUND_WEIGHT : 1;
+}
+
+/**
+ * K-weighting pre-filter (high shelf plus high pass), with coefficients derived for any sample rate
+ */
+function kWeightingFilters(sampleRate: number): { shelf: BiquadCoefficients; highPass: BiquadCoefficients } {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+  };
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass = {
+    b: [1, -2, 1],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+  };
+
+  return { shelf, highPass };
+}
+
+/**
+ * One sample through a biquad whose previous inputs and outputs are kept in state
+ */
+function biquad({ b, a }: BiquadCoefficients, state: Float64Array, x: number): number {
+  const y = b[0] * x + b[1] * state[0] + b[2] * state[1] - a[0] * state[2] - a[1] * state[3];
+  state[1] = state[0];
+  state[0] = x;
+  state[3] = state[2];
+  state[2] = y;
+  return y;
+}
+
+function buildInterpolationPhases(factor: number): Float32Array[] {
+  const half = OVERSAMPLING_TAPS_PER_PHASE / 2;
+  return Array.from({ length: factor }, (_, phase) => {
+    const taps = new Float32Array(OVERSAMPLING_TAPS_PER_PHASE);
+    for (let t = 0; t < OVERSAMPLING_TAPS_PER_PHASE; t++) {
+      // Distance in input samples between the interpolated point and tap t
+      const x = t - half + 1 - phase / factor;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / (half + 1));
+      taps[t] = sinc * window;
+    }
+    return taps;
+  });
+}
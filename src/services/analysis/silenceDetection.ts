@@ -0,0 +1,52 @@
+/**
+ * Leading and trailing silence detection on decoded PCM.
+ */
+
+export interface SilenceBounds {
+  start: number; // seconds of audible content start
+  end: number; // seconds of audible content end
+}
+
+interface PcmSource {
+  numberOfChannels: number;
+  sampleRate: number;
+  length: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+const DEFAULT_THRESHOLD_DB = -50;
+const WINDOW_SECONDS = 0.01;
+
+/**
+ * Find where audible content starts and ends, using short RMS windows across all channels
+ */
+export function detectSilenceBounds(source: PcmSource, thresholdDb: number = DEFAULT_THRESHOLD_DB): SilenceBounds {
+  const duration = source.length / source.sampleRate;
+  const windowSize = Math.max(1, Math.round(WINDOW_SECONDS * source.sampleRate));
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const channels = Array.from({ length: source.numberOfChannels }, (_, i) => source.getChannelData(i));
+
+  const isAudible = (start: number) => {
+    const end = Math.min(source.length, start + windowSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+    }
+    return Math.sqrt(sum / ((end - start) * channels.length)) > threshold;
+  };
+
+  let first = 0;
+  while (first < source.length && !isAudible(first)) first += windowSize;
+  if (first >= source.length) {
+    // Entirely silent; keep the track untouched rather than trimming it away
+    return { start: 0, end: duration };
+  }
+
+  let last = Math.floor((source.length - 1) / windowSize) * windowSize;
+  while (last > first && !isAudible(last)) last -= windowSize;
+
+  return {
+    start: first / source.sampleRate,
+    end: Math.min(duration, (last + windowSize) / source.sampleRate)
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Peak envelopes of decoded audio for waveform displays.
+ */
+
+/**
+ * Largest absolute sample across channels in each of `buckets` equal slices, scaled so the loudest slice is 1
+ */
+export function computePeaks(channels: Float32Array[], buckets: number): number[] {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0 || buckets <= 0) return [];
+
+  const peaks = new Array<number>(buckets).fill(0);
+  const bucketSize = length / buckets;
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor(bucket * bucketSize);
+    const end = Math.min(length, Math.floor((bucket + 1) * bucketSize));
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks[bucket] = peak;
+  }
+
+  const max = Math.max(...peaks);
+  return max > 0 ? peaks.map(peak => peak / max) : peaks;
+}
@@ -1,17 +1,14 @@
 import { AudioFormat, EqualizerPreset, AudioEffectSettings } from './enhancedDatabase';
+import { audioGraph, EQ_FREQUENCIES } from './playback/audioGraph';
 
 /**
- * Advanced Web Audio API processor for high-quality audio playback
+ * Decodes and plays whole audio buffers through the shared audio graph.
+ * Equalizer and effects are the graph's; this class only adds its own source and volume.
  */
 export class AudioProcessor {
-  private audioContext: AudioContext | null = null;
   private sourceNode: AudioBufferSourceNode | null = null;
   private gainNode: GainNode | null = null;
   private analyserNode: AnalyserNode | null = null;
-  private equalizerNodes: BiquadFilterNode[] = [];
-  private compressorNode: DynamicsCompressorNode | null = null;
-  private convolverNode: ConvolverNode | null = null;
-  private pannerNode: PannerNode | null = null;
   private playbackRateNode: AudioBufferSourceNode | null = null;
   
   // Pitch shifting variables
@@ -23,114 +20,19 @@ export class AudioProcessor {
   private frequencyData: Uint8Array = new Uint8Array();
   private timeData: Uint8Array = new Uint8Array();
 
-  constructor() {
-    this.initializeAudioContext();
+  private get audioContext(): AudioContext {
+    return audioGraph.getContext();
   }
 
   /**
-   * Initialize Web Audio API context with fallbacks
+   * Volume node feeding the shared graph, created on first playback
    */
-  private async initializeAudioContext(): Promise<void> {
-    try {
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      this.audioContext = new AudioContextClass();
-      
-      // Resume context if suspended (Chrome policy)
-      if (this.audioContext.state === 'suspended') {
-        await this.audioContext.resume();
-      }
-
-      this.setupAudioGraph();
-      console.log('Audio context initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize audio context:', error);
-      throw new Error('Web Audio API not supported');
+  private ensureOutput(): GainNode {
+    if (!this.gainNode) {
+      this.gainNode = this.audioContext.createGain();
+      this.gainNode.connect(audioGraph.getInput());
     }
-  }
-
-  /**
-   * Setup complete audio processing graph
-   */
-  private setupAudioGraph(): void {
-    if (!this.audioContext) return;
-
-    // Create main nodes
-    this.gainNode = this.audioContext.createGain();
-    this.analyserNode = this.audioContext.createAnalyser();
-    this.compressorNode = this.audioContext.createDynamicsCompressor();
-    this.convolverNode = this.audioContext.createConvolver();
-    this.pannerNode = this.audioContext.createPanner();
-
-    // Setup analyser
-    this.analyserNode.fftSize = 2048;
-    this.analyserNode.smoothingTimeConstant = 0.8;
-    this.frequencyData = new Uint8Array(this.analyserNode.frequencyBinCount);
-    this.timeData = new Uint8Array(this.analyserNode.frequencyBinCount);
-
-    // Setup 10-band equalizer
-    this.setupEqualizer();
-
-    // Setup compressor defaults
-    this.compressorNode.threshold.setValueAtTime(-24, this.audioContext.currentTime);
-    this.compressorNode.knee.setValueAtTime(30, this.audioContext.currentTime);
-    this.compressorNode.ratio.setValueAtTime(12, this.audioContext.currentTime);
-    this.compressorNode.attack.setValueAtTime(0.003, this.audioContext.currentTime);
-    this.compressorNode.release.setValueAtTime(0.25, this.audioContext.currentTime);
-
-    // Setup panner for spatial audio
-    this.pannerNode.panningModel = 'HRTF';
-    this.pannerNode.distanceModel = 'inverse';
-    this.pannerNode.refDistance = 1;
-    this.pannerNode.maxDistance = 10000;
-    this.pannerNode.rolloffFactor = 1;
-    this.pannerNode.coneInnerAngle = 360;
-    this.pannerNode.coneOuterAngle = 0;
-    this.pannerNode.coneOuterGain = 0;
-  }
-
-  /**
-   * Setup 10-band equalizer with standard frequencies
-   */
-  private setupEqualizer(): void {
-    if (!this.audioContext) return;
-
-    const frequencies = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
-    this.equalizerNodes = [];
-
-    frequencies.forEach((freq, index) => {
-      const filter = this.audioContext!.createBiquadFilter();
-      filter.type = index === 0 ? 'lowshelf' : 
-                    index === frequencies.length - 1 ? 'highshelf' : 'peaking';
-      filter.frequency.setValueAtTime(freq, this.audioContext!.currentTime);
-      filter.Q.setValueAtTime(1, this.audioContext!.currentTime);
-      filter.gain.setValueAtTime(0, this.audioContext!.currentTime);
-      
-      this.equalizerNodes.push(filter);
-    });
-  }
-
-  /**
-   * Connect audio processing chain
-   */
-  private connectAudioGraph(sourceNode: AudioBufferSourceNode): void {
-    if (!this.audioContext || !this.gainNode || !this.analyserNode) return;
-
-    // Connect in order: source -> EQ -> compressor -> convolver -> panner -> gain -> analyser -> destination
-    let currentNode: AudioNode = sourceNode;
-
-    // EQ chain
-    this.equalizerNodes.forEach(filter => {
-      currentNode.connect(filter);
-      currentNode = filter;
-    });
-
-    // Effects chain
-    currentNode.connect(this.compressorNode!);
-    this.compressorNode!.connect(this.convolverNode!);
-    this.convolverNode!.connect(this.pannerNode!);
-    this.pannerNode!.connect(this.gainNode);
-    this.gainNode.connect(this.analyserNode);
-    this.analyserNode.connect(this.audioContext.destination);
+    return this.gainNode;
   }
 
   /**
@@ -141,10 +43,6 @@ export class AudioProcessor {
     format: AudioFormat;
     metadata: AudioMetadata;
   }> {
-    if (!this.audioContext) {
-      throw new Error('Audio context not initialized');
-    }
-
     const arrayBuffer = await file.arrayBuffer();
     const format = this.detectAudioFormat(file.name, file.type);
     
@@ -208,7 +106,8 @@ export class AudioProcessor {
    * Play audio buffer with advanced controls
    */
   async playBuffer(buffer: AudioBuffer, startTime: number = 0): Promise<void> {
-    if (!this.audioContext || !this.gainNode) return;
+    const output = this.ensureOutput();
+    await audioGraph.resume();
 
     // Stop current playback
     this.stop();
@@ -227,8 +126,8 @@ export class AudioProcessor {
       this.sourceNode.playbackRate.value = pitchRatio;
     }
 
-    // Connect audio graph
-    this.connectAudioGraph(this.sourceNode);
+    // Effects are applied by the shared graph behind the output node
+    this.sourceNode.connect(output);
 
     // Start playback
     this.sourceNode.start(0, startTime);
@@ -264,7 +163,7 @@ export class AudioProcessor {
     if (this.sourceNode) {
       const finalRate = this.pitchLocked ? 
         this.playbackSpeed : this.playbackSpeed * this.semitoneToRatio(this.pitchShift);
-      this.sourceNode.playbackRate.setValueAtTime(finalRate, this.audioContext!.currentTime);
+      this.sourceNode.playbackRate.setValueAtTime(finalRate, this.audioContext.currentTime);
     }
   }
 
@@ -277,7 +176,7 @@ export class AudioProcessor {
       const pitchRatio = this.semitoneToRatio(this.pitchShift);
       this.sourceNode.playbackRate.setValueAtTime(
         this.playbackSpeed * pitchRatio, 
-        this.audioContext!.currentTime
+        this.audioContext.currentTime
       );
     }
   }
@@ -290,7 +189,7 @@ export class AudioProcessor {
     if (this.sourceNode) {
       const finalRate = locked ? this.playbackSpeed : 
         this.playbackSpeed * this.semitoneToRatio(this.pitchShift);
-      this.sourceNode.playbackRate.setValueAtTime(finalRate, this.audioContext!.currentTime);
+      this.sourceNode.playbackRate.setValueAtTime(finalRate, this.audioContext.currentTime);
     }
   }
 
@@ -298,60 +197,37 @@ export class AudioProcessor {
    * Apply equalizer preset
    */
   applyEqualizerPreset(preset: EqualizerPreset): void {
-    if (!this.audioContext || this.equalizerNodes.length !== preset.bands.length) return;
-
-    preset.bands.forEach((gain, index) => {
-      const filter = this.equalizerNodes[index];
-      filter.gain.setValueAtTime(gain, this.audioContext!.currentTime);
-    });
+    if (preset.bands.length !== EQ_FREQUENCIES.length) return;
+    audioGraph.setEqualizer({ gains: [...preset.bands], preset: preset.id, mode: 'graphic' });
   }
 
   /**
    * Set individual EQ band gain
    */
   setEqualizerBand(bandIndex: number, gain: number): void {
-    if (!this.audioContext || bandIndex >= this.equalizerNodes.length) return;
-    
-    const clampedGain = Math.max(-12, Math.min(12, gain));
-    this.equalizerNodes[bandIndex].gain.setValueAtTime(
-      clampedGain, 
-      this.audioContext.currentTime
-    );
+    if (bandIndex >= EQ_FREQUENCIES.length) return;
+    audioGraph.setEqualizerBand(bandIndex, gain);
   }
 
   /**
    * Apply audio effects
    */
   applyEffects(effects: AudioEffectSettings): void {
-    if (!this.audioContext || !this.compressorNode || !this.pannerNode) return;
-
-    // Apply compressor settings
-    if (effects.compressor.enabled) {
-      this.compressorNode.threshold.setValueAtTime(
-        effects.compressor.threshold, this.audioContext.currentTime
-      );
-      this.compressorNode.knee.setValueAtTime(
-        effects.compressor.knee, this.audioContext.currentTime
-      );
-      this.compressorNode.ratio.setValueAtTime(
-        effects.compressor.ratio, this.audioContext.currentTime
-      );
-    }
-
-    // Apply spatial audio settings
-    if (effects.spatialAudio.enabled) {
-      this.pannerNode.rolloffFactor = effects.spatialAudio.rolloffFactor;
-    }
+    const { enabled, threshold, knee, ratio, attack, release } = effects.compressor;
+    audioGraph.setCompressor({ enabled, threshold, knee, ratio, attack, release });
+    audioGraph.setBassBoost({ ...effects.bassBoost });
+    const { enabled: spatialEnabled, width } = effects.spatialAudio;
+    audioGraph.setSpatial(width !== undefined ? { enabled: spatialEnabled, width } : { enabled: spatialEnabled });
   }
 
   /**
    * Set master volume with smooth transition
    */
   setVolume(volume: number, fadeTime: number = 0.1): void {
-    if (!this.audioContext || !this.gainNode) return;
+    const gainNode = this.ensureOutput();
     
     const clampedVolume = Math.max(0, Math.min(1, volume));
-    this.gainNode.gain.setTargetAtTime(
+    gainNode.gain.setTargetAtTime(
       clampedVolume, 
       this.audioContext.currentTime, 
       fadeTime
@@ -362,9 +238,9 @@ export class AudioProcessor {
    * Fade volume for sleep timer
    */
   fadeVolume(targetVolume: number, duration: number): void {
-    if (!this.audioContext || !this.gainNode) return;
+    const gainNode = this.ensureOutput();
     
-    this.gainNode.gain.exponentialRampToValueAtTime(
+    gainNode.gain.exponentialRampToValueAtTime(
       Math.max(0.001, targetVolume), // Avoid zero for exponential ramp
       this.audioContext.currentTime + duration
     );
@@ -375,7 +251,9 @@ export class AudioProcessor {
    */
   getAnalysisData(): AudioAnalysisData {
     if (!this.analyserNode) {
-      return { frequencyData: new Uint8Array(), timeData: new Uint8Array() };
+      this.analyserNode = audioGraph.createAnalyser(2048);
+      this.frequencyData = new Uint8Array(this.analyserNode.frequencyBinCount);
+      this.timeData = new Uint8Array(this.analyserNode.frequencyBinCount);
     }
 
     this.analyserNode.getByteFrequencyData(this.frequencyData);
@@ -391,7 +269,7 @@ export class AudioProcessor {
    * Check browser audio capabilities
    */
   static checkAudioCapabilities(): AudioCapabilities {
-    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const context = audioGraph.getContext();
     
     return {
       webAudioAPI: !!window.AudioContext || !!(window as any).webkitAudioContext,
@@ -412,13 +290,14 @@ export class AudioProcessor {
    */
   dispose(): void {
     this.stop();
-    
-    if (this.audioContext && this.audioContext.state !== 'closed') {
-      this.audioContext.close();
+
+    // The context belongs to the shared graph; only detach our own nodes
+    if (this.analyserNode) {
+      audioGraph.releaseAnalyser(this.analyserNode);
+      this.analyserNode = null;
     }
-    
-    this.audioContext = null;
-    this.equalizerNodes = [];
+    this.gainNode?.disconnect();
+    this.gainNode = null;
   }
 }
 
@@ -1,6 +1,8 @@
 import { Filesystem, Directory } from '@capacitor/filesystem';
 import { Capacitor } from '@capacitor/core';
-import { musicDB } from '@/utils/musicDatabase';
+import { libraryRepository, type NewSong } from './libraryRepository';
+import { webAudioService } from './webAudioService';
+import { libraryStorageService } from './library/libraryStorageService';
 import { toast } from 'sonner';
 
 export interface DownloadProgress {
@@ -129,6 +131,10 @@ export class DownloadService {
     };
   }
 
+  /**
+   * Write a download to the device's Music folder, or into app storage when copies are kept there,
+   * and add it to the library. Returns where the file was written.
+   */
   private async saveToMusicLibrary(
     file: { data: Uint8Array; format: string; filename: string },
     info: { title: string; thumbnail?: string; duration?: number }
@@ -137,37 +143,42 @@ export class DownloadService {
     const musicDir = 'Music/Downloads';
     
     try {
-      // Ensure directory exists
-      await Filesystem.mkdir({
-        path: musicDir,
-        directory: Directory.ExternalStorage,
-        recursive: true
-      });
-
-      // Write file
-      const filePath = `${musicDir}/${filename}`;
-      await Filesystem.writeFile({
-        path: filePath,
-        data: new Blob([file.data]).toString(),
-        directory: Directory.ExternalStorage
-      });
-
-      // Add to music database
-      const song = {
+      const song: NewSong = {
         id: `song_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         title: info.title,
         artist: 'Downloaded',
         album: 'Downloads',
         duration: info.duration || 180,
-        filePath,
+        filePath: `${musicDir}/${filename}`,
         size: file.data.length,
         dateAdded: new Date(),
         playCount: 0,
         genre: 'Downloaded'
       };
 
-      await musicDB.addSong(song);
-      return filePath;
+      if (await libraryStorageService.isEnabled()) {
+        const copy = new File([file.data], filename, { type: `audio/${file.format}` });
+        song.opfsPath = await libraryStorageService.copyIntoLibrary(copy, filename, song);
+        song.filePath = webAudioService.createObjectURL(copy);
+      } else {
+        // Ensure directory exists
+        await Filesystem.mkdir({
+          path: musicDir,
+          directory: Directory.ExternalStorage,
+          recursive: true
+        });
+
+        // Write file
+        await Filesystem.writeFile({
+          path: song.filePath,
+          data: new Blob([file.data]).toString(),
+          directory: Directory.ExternalStorage
+        });
+      }
+
+      // Add to music database
+      await libraryRepository.addSong(song);
+      return song.opfsPath ?? song.filePath;
     } catch (error) {
       console.error('Failed to save to music library:', error);
       throw error;
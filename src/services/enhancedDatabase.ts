@@ -1,5 +1,6 @@
 import Dexie, { Table } from 'dexie';
 import CryptoJS from 'crypto-js';
+import { normalizeCreditName } from './library/credits';
 
 /**
  * Enhanced song interface with advanced audio format support
@@ -11,13 +12,33 @@ export interface EnhancedSong {
   album: string;
   duration: number;
   filePath: string;
+  fileHandle?: FileSystemFileHandle; // Set for files picked through the File System Access API
+  folderId?: string; // Library folder the file was found in, for songs imported from one
+  relativePath?: string; // Path of the file within that folder
+  lastModified?: number; // The file's lastModified when its tags were last read
+  missing?: boolean; // Not found by the last rescan of its folder
+  opfsPath?: string; // Copy in the origin private file system, for files that cannot be reopened from a handle
   size: number;
   dateAdded: Date;
   playCount: number;
+  skipCount?: number;
   lastPlayed?: Date;
-  albumArt?: string;
+  albumArt?: string; // Image URL for songs without stored artwork
+  artworkHash?: string; // Key of the cover in the artwork table
   genre?: string;
   year?: number;
+  albumArtist?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  composer?: string;
+  compilation?: boolean; // Part of a various-artists compilation
+  // Names to sort by, e.g. "Beatles, The"
+  sortTitle?: string;
+  sortArtist?: string;
+  sortAlbum?: string;
+  sortAlbumArtist?: string;
   // Enhanced metadata fields
   format: AudioFormat;
   bitRate?: number;
@@ -28,11 +49,26 @@ export interface EnhancedSong {
   fileHash: string;
   lyrics?: string;
   lrcFile?: string;
+  lyricsEdited?: boolean; // Saved in the app, so rescans keep them over what the file has
   bookmarks: AudioBookmark[];
   customTags: Record<string, string>;
+  loudness?: TrackLoudness;
   lastPosition?: number; // For auto-resume
 }
 
+/**
+ * ReplayGain values of a song, read from its tags or measured per EBU R128
+ */
+export interface TrackLoudness {
+  source: 'tags' | 'analysis';
+  trackGain?: number; // dB relative to the ReplayGain 2.0 reference of -18 LUFS
+  trackPeak?: number; // Linear; true peak when measured
+  albumGain?: number;
+  albumPeak?: number;
+  integratedLoudness?: number; // LUFS, measured tracks only
+  gatedBlocks?: number; // Weight of the track in its album loudness
+}
+
 /**
  * Advanced playlist interface with smart playlist support
  */
@@ -50,6 +86,7 @@ export interface EnhancedPlaylist {
   sortOrder: PlaylistSortOrder;
   totalDuration?: number;
   playCount: number;
+  smartMixOptions?: Record<string, unknown>;
 }
 
 /**
@@ -145,9 +182,28 @@ export interface AudioEffectSettings {
     enabled: boolean;
     roomSize: number;
     rolloffFactor: number;
+    width?: number; // Stereo width used by the audio graph's widener
   };
 }
 
+/**
+ * What an audio profile is attached to, from most to least specific
+ */
+export type AudioProfileScope = 'track' | 'album' | 'artist' | 'genre';
+
+/**
+ * EQ preset and effect settings assigned to a track, album, artist or genre
+ */
+export interface AudioProfileAssignment {
+  id: string; // `${scope}:${key}`
+  scope: AudioProfileScope;
+  key: string; // Track id, or normalized album, artist or genre name
+  label: string; // Human readable name of what the profile is attached to
+  equalizerPresetId?: string;
+  effectsId?: string;
+  updatedAt: Date;
+}
+
 /**
  * User preferences for audio processing
  */
@@ -158,6 +214,7 @@ export interface UserPreferences {
   defaultEffects?: string;
   autoResume: boolean;
   crossfadeDuration: number;
+  skipThreshold?: number; // fraction of a track after which "next" no longer counts as a skip
   replayGain: boolean;
   volumeNormalization: boolean;
   sleepTimerDefault: number;
@@ -165,6 +222,223 @@ export interface UserPreferences {
   playbackSpeed: number;
   pitchShift: number;
   pitchLocked: boolean;
+  lyricsProviders?: Record<string, LyricsProviderSettings>; // Keyed by provider id
+  lyricsProviderOrder?: string[]; // Provider ids, tried first to last
+  creditSplitting?: CreditSplittingSettings;
+  keepLibraryCopies?: boolean; // Copy added files and downloads into the origin private file system
+  autoplay?: boolean; // Keep playing similar tracks once the queue runs out
+}
+
+/**
+ * Connection settings of an online lyrics source
+ */
+export interface LyricsProviderSettings {
+  enabled: boolean;
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number; // Per request
+  minIntervalMs: number; // Minimum gap between requests
+}
+
+/**
+ * How artist and genre tags holding several names are broken up
+ */
+export interface CreditSplittingSettings {
+  artistSeparators: string[];
+  genreSeparators: string[];
+  featuringMarkers: string[]; // e.g. "feat." in "A feat. B"; matched as whole words
+  exceptions: string[]; // Names kept whole even though they contain a separator, e.g. "AC/DC"
+}
+
+/**
+ * An artist or genre as a library entity, shared by every song credited with it
+ */
+export interface CreditEntity {
+  id: string; // Normalized name
+  name: string; // Spelling first seen in the tags
+}
+
+export type ArtistRole = 'main' | 'featured' | 'albumArtist';
+
+/**
+ * Links a song to one of its artists
+ */
+export interface ArtistCredit {
+  songId: string;
+  artistId: string;
+  role: ArtistRole;
+  position: number; // Order within the tag, so "A; B" lists A first
+}
+
+export interface GenreCredit {
+  songId: string;
+  genreId: string;
+  position: number;
+}
+
+/**
+ * A cover image, stored once however many songs share it
+ */
+export interface ArtworkRecord {
+  hash: string; // SHA-256 of the image bytes
+  blob: Blob;
+  width?: number;
+  height?: number;
+  addedAt: Date;
+}
+
+export type ArtworkThumbnailSize = 'list' | 'grid';
+
+/**
+ * A downscaled copy of a cover for views that show many at once
+ */
+export interface ArtworkThumbnail {
+  hash: string;
+  size: ArtworkThumbnailSize;
+  blob: Blob;
+}
+
+/**
+ * A color as CSS HSL components: hue in degrees, saturation and lightness in percent
+ */
+export interface PaletteColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+/**
+ * Colors taken from an album's cover, or derived from its key when it has none
+ */
+export interface AlbumPalette {
+  albumKey: string;
+  artworkHash?: string; // The cover the colors were taken from
+  dominant: PaletteColor;
+  vibrant: PaletteColor;
+  muted: PaletteColor;
+}
+
+/**
+ * A folder the library was imported from, kept so it can be rescanned without being picked again
+ */
+export interface LibraryFolder {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  addedAt: Date;
+  lastScannedAt?: Date;
+}
+
+/**
+ * Aggregate library statistics
+ */
+export interface LibraryStats {
+  id: string;
+  totalPlayTime: number;
+  totalSongs: number;
+  totalPlaylists: number;
+  favoriteGenre?: string;
+  topArtist?: string;
+  lastUpdated: Date;
+}
+
+/**
+ * Audio features measured from the decoded track
+ */
+export interface TrackAudioAnalysis {
+  trackId: string;
+  bpm: number;
+  rmsEnergy: number; // Linear RMS of the analysed window, 0-1
+  spectralCentroid: number; // Mean centroid in Hz
+  onsetDensity: number; // Detected onsets per second
+  analyzedSeconds: number;
+  analyzerVersion: number;
+  analyzedAt: Date;
+}
+
+/**
+ * What was playing when the app was last open, restored on the next start
+ */
+export interface PlaybackSession {
+  id: string;
+  trackIds: string[]; // The context playback was started from
+  queueIndex: number;
+  queuedIds: string[]; // Queued by the listener, played before the context carries on
+  queuedTrackId?: string; // The queued track playing now
+  autoQueuedIds?: string[]; // Added by autoplay, played once the queue and the context run out
+  autoTrack?: boolean; // Whether the queued track playing now was added by autoplay
+  position: number; // Seconds into the current track
+  shuffleMode: 'off' | 'tracks' | 'albums' | 'weighted';
+  shuffleSeed: number;
+  shuffleOrder: number[]; // Context indices in play order
+  history: Array<{ trackId: string; index?: number }>; // Played before the current track, most recent last
+  repeatMode: 'none' | 'one' | 'all';
+  volume: number;
+  isMuted: boolean;
+  source: PlaybackSource;
+  sourceId?: string;
+  savedAt: Date;
+}
+
+/**
+ * Where playback of a track was started from
+ */
+export enum PlaybackSource {
+  LIBRARY = 'library',
+  ALBUM = 'album',
+  ARTIST = 'artist',
+  PLAYLIST = 'playlist',
+  SMART_MIX = 'smartMix',
+  SEARCH = 'search',
+  QUEUE = 'queue',
+  UNKNOWN = 'unknown'
+}
+
+/**
+ * One listening session of a track; play counts and charts are derived from these
+ */
+export interface PlayEvent {
+  id?: number;
+  trackId: string;
+  startedAt: Date;
+  endedAt: Date;
+  positionListened: number; // Seconds actually heard, seeks excluded
+  trackDuration: number;
+  completed: boolean;
+  skipped: boolean;
+  source: PlaybackSource;
+  sourceId?: string; // Album, playlist or query the source refers to
+}
+
+/**
+ * Lyrics offered by an online source for a search
+ */
+export interface LyricsCandidate {
+  providerId: string;
+  externalId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  duration?: number; // Seconds
+  syncedLyrics?: string; // LRC
+  plainLyrics?: string;
+}
+
+/**
+ * One provider's answer to a search, kept so repeated lookups stay offline
+ */
+export interface LyricsCacheEntry {
+  key: string; // Provider id and normalized artist and title
+  candidates: LyricsCandidate[];
+  fetchedAt: Date;
+}
+
+/**
+ * Key/value bookkeeping such as completed migrations
+ */
+export interface DatabaseMeta {
+  key: string;
+  value: unknown;
 }
 
 /**
@@ -176,6 +450,21 @@ class EnhancedMelodyForgeDB extends Dexie {
   equalizerPresets!: Table<EqualizerPreset>;
   audioEffects!: Table<AudioEffectSettings>;
   preferences!: Table<UserPreferences>;
+  stats!: Table<LibraryStats>;
+  meta!: Table<DatabaseMeta>;
+  audioAnalysis!: Table<TrackAudioAnalysis>;
+  playEvents!: Table<PlayEvent, number>;
+  audioProfiles!: Table<AudioProfileAssignment>;
+  lyricsCache!: Table<LyricsCacheEntry>;
+  artists!: Table<CreditEntity>;
+  genres!: Table<CreditEntity>;
+  artistCredits!: Table<ArtistCredit>;
+  genreCredits!: Table<GenreCredit>;
+  artwork!: Table<ArtworkRecord>;
+  artworkThumbnails!: Table<ArtworkThumbnail>;
+  albumPalettes!: Table<AlbumPalette>;
+  libraryFolders!: Table<LibraryFolder>;
+  playbackSession!: Table<PlaybackSession>;
 
   constructor() {
     super('EnhancedMelodyForgeDB');
@@ -188,18 +477,75 @@ class EnhancedMelodyForgeDB extends Dexie {
       preferences: '++id'
     });
 
-    // Add hooks for computed fields
+    // v2 absorbs the legacy MelodyForgeDB stores (see libraryRepository)
+    this.version(2).stores({
+      stats: 'id',
+      meta: 'key'
+    });
+
+    this.version(3).stores({
+      audioAnalysis: 'trackId, analyzerVersion, analyzedAt'
+    });
+
+    this.version(4).stores({
+      playEvents: '++id, trackId, startedAt, source, [trackId+startedAt]'
+    });
+
+    // Built-in presets used to be seeded with generated numeric ids; they are re-seeded with stable ones
+    this.version(5).stores({
+      audioProfiles: 'id, scope, key'
+    }).upgrade(tx => tx.table('equalizerPresets').filter(preset => !preset.isCustom).delete());
+
+    this.version(6).stores({
+      lyricsCache: 'key, fetchedAt'
+    });
+
+    // Album artist and composer come from the fuller tag model; songs imported before stay unset until rescanned
+    this.version(7).stores({
+      songs: '++id, title, artist, album, genre, format, dateAdded, playCount, lastPlayed, fileHash, albumArtist, composer, [albumArtist+album]'
+    });
+
+    // Credits are filled by libraryRepository, which re-splits the library whenever the splitting settings change
+    this.version(8).stores({
+      artists: 'id, name',
+      genres: 'id, name',
+      artistCredits: '[songId+artistId+role], songId, artistId',
+      genreCredits: '[songId+genreId], songId, genreId'
+    });
+
+    this.version(9).stores({
+      songs: '++id, title, artist, album, genre, format, dateAdded, playCount, lastPlayed, fileHash, albumArtist, composer, [albumArtist+album], artworkHash',
+      artwork: 'hash',
+      artworkThumbnails: '[hash+size], hash'
+    });
+
+    // Only palettes taken from covers are stored; the fallbacks are cheap to recompute
+    this.version(10).stores({
+      albumPalettes: 'albumKey'
+    });
+
+    this.version(11).stores({
+      songs: '++id, title, artist, album, genre, format, dateAdded, playCount, lastPlayed, fileHash, albumArtist, composer, [albumArtist+album], artworkHash, folderId',
+      libraryFolders: 'id'
+    });
+
+    this.version(12).stores({
+      playbackSession: 'id'
+    });
+
+    // Fill computed fields without clobbering values carried over by imports and migrations
     this.songs.hook('creating', (primKey, obj, trans) => {
-      obj.dateAdded = new Date();
-      obj.playCount = 0;
-      obj.bookmarks = [];
-      obj.customTags = {};
+      obj.dateAdded = obj.dateAdded ?? new Date();
+      obj.playCount = obj.playCount ?? 0;
+      obj.skipCount = obj.skipCount ?? 0;
+      obj.bookmarks = obj.bookmarks ?? [];
+      obj.customTags = obj.customTags ?? {};
     });
 
     this.playlists.hook('creating', (primKey, obj, trans) => {
-      obj.createdAt = new Date();
-      obj.lastModified = new Date();
-      obj.playCount = 0;
+      obj.createdAt = obj.createdAt ?? new Date();
+      obj.lastModified = obj.lastModified ?? new Date();
+      obj.playCount = obj.playCount ?? 0;
     });
 
     this.playlists.hook('updating', (modifications: Partial<EnhancedPlaylist>, primKey, obj, trans) => {
@@ -355,7 +701,10 @@ class EnhancedMelodyForgeDB extends Dexie {
         collection = collection.filter(song => song.format === filters.format);
       }
       if (filters.genre) {
-        collection = collection.filter(song => song.genre === filters.genre);
+        // Matches songs with several genres too, through their genre credits
+        const credits = await this.genreCredits.where('genreId').equals(normalizeCreditName(filters.genre)).toArray();
+        const songIds = new Set(credits.map(credit => credit.songId));
+        collection = collection.filter(song => songIds.has(song.id));
       }
       if (filters.year) {
         collection = collection.filter(song => song.year === filters.year);
@@ -379,6 +728,8 @@ class EnhancedMelodyForgeDB extends Dexie {
     const hashGroups = new Map<string, EnhancedSong[]>();
     
     songs.forEach(song => {
+      // Migrated rows have no hash until the file is re-imported
+      if (!song.fileHash) return;
       if (!hashGroups.has(song.fileHash)) {
         hashGroups.set(song.fileHash, []);
       }
@@ -392,43 +743,24 @@ class EnhancedMelodyForgeDB extends Dexie {
    * Initialize default data
    */
   async initializeDefaults(): Promise<void> {
-    // Default equalizer presets
-    const defaultPresets: Omit<EqualizerPreset, 'id'>[] = [
-      {
-        name: 'Flat',
-        bands: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-        isCustom: false,
-        createdAt: new Date()
-      },
-      {
-        name: 'Rock',
-        bands: [3, 2, -1, -2, 1, 2, 3, 4, 4, 3],
-        isCustom: false,
-        createdAt: new Date()
-      },
-      {
-        name: 'Classical',
-        bands: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4],
-        isCustom: false,
-        createdAt: new Date()
-      },
-      {
-        name: 'Bass Boost',
-        bands: [6, 4, 2, 0, 0, 0, 0, 0, 0, 0],
-        isCustom: false,
-        createdAt: new Date()
-      },
-      {
-        name: 'Vocal Enhance',
-        bands: [-2, -1, 0, 1, 3, 4, 3, 1, 0, -1],
-        isCustom: false,
-        createdAt: new Date()
-      }
+    // Built-in equalizer presets, keyed by stable ids so profiles can reference them
+    const builtInPresets: Array<Pick<EqualizerPreset, 'id' | 'name' | 'bands'>> = [
+      { id: 'flat', name: 'Flat', bands: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+      { id: 'rock', name: 'Rock', bands: [5, 4, 3, 1, -1, -1, 0, 2, 4, 5] },
+      { id: 'pop', name: 'Pop', bands: [-1, 2, 4, 4, 2, 0, -1, -1, 2, 3] },
+      { id: 'jazz', name: 'Jazz', bands: [3, 2, 1, 2, -1, -1, 0, 2, 3, 4] },
+      { id: 'classical', name: 'Classical', bands: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+      { id: 'electronic', name: 'Electronic', bands: [4, 3, 1, 0, -1, 2, 1, 1, 3, 4] },
+      { id: 'hiphop', name: 'Hip Hop', bands: [5, 4, 1, 3, -1, -1, 1, 2, 3, 4] },
+      { id: 'vocal', name: 'Vocal', bands: [-2, -1, -1, 1, 3, 3, 2, 1, 0, -1] },
+      { id: 'bass', name: 'Bass Boost', bands: [6, 5, 3, 1, -1, -2, -1, 0, 1, 2] },
+      { id: 'treble', name: 'Treble Boost', bands: [-2, -1, 0, 1, 2, 3, 4, 5, 6, 6] }
     ];
 
-    const existingPresets = await this.equalizerPresets.count();
-    if (existingPresets === 0) {
-      await this.equalizerPresets.bulkPut(defaultPresets as EqualizerPreset[]);
+    const existingPresets = await this.equalizerPresets.bulkGet(builtInPresets.map(preset => preset.id));
+    const missingPresets = builtInPresets.filter((_, index) => !existingPresets[index]);
+    if (missingPresets.length > 0) {
+      await this.equalizerPresets.bulkPut(missingPresets.map(preset => ({ ...preset, isCustom: false, createdAt: new Date() })));
     }
 
     // Default preferences
@@ -439,6 +771,7 @@ class EnhancedMelodyForgeDB extends Dexie {
         highResAudio: false,
         autoResume: true,
         crossfadeDuration: 3,
+        skipThreshold: 0.5,
         replayGain: false,
         volumeNormalization: false,
         sleepTimerDefault: 30,
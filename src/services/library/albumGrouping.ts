@@ -0,0 +1,37 @@
+import type { EnhancedSong } from '../enhancedDatabase';
+
+export const VARIOUS_ARTISTS = 'Various Artists';
+export const UNKNOWN_ARTIST = 'Unknown Artist';
+export const UNKNOWN_ALBUM = 'Unknown Album';
+
+type AlbumFields = Pick<EnhancedSong, 'artist' | 'album' | 'albumArtist' | 'compilation'>;
+type OrderFields = Pick<EnhancedSong, 'title' | 'discNumber' | 'trackNumber'>;
+
+/**
+ * The artist an album is filed under: its album artist, "Various Artists" for compilations
+ * without one, otherwise the track artist
+ */
+export const getAlbumArtist = (song: AlbumFields): string =>
+  song.albumArtist?.trim() || (song.compilation ? VARIOUS_ARTISTS : song.artist?.trim() || UNKNOWN_ARTIST);
+
+/**
+ * Songs with the same key belong to the same album, whatever their track artists
+ */
+export const getAlbumKey = (song: AlbumFields): string =>
+  `${getAlbumArtist(song).toLowerCase()}\u0000${(song.album?.trim() || UNKNOWN_ALBUM).toLowerCase()}`;
+
+/**
+ * The name to sort by, e.g. "Beatles, The" for "The Beatles" when the tags say so
+ */
+export const getSortName = (name: string, sortName?: string): string => sortName?.trim() || name;
+
+export const compareSortNames = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Album playback order: by disc, then track number; untagged tracks go last, by title
+ */
+export const compareAlbumOrder = (a: OrderFields, b: OrderFields): number =>
+  (a.discNumber ?? 1) - (b.discNumber ?? 1) ||
+  (a.trackNumber ?? Infinity) - (b.trackNumber ?? Infinity) ||
+  compareSortNames(a.title, b.title);
@@ -0,0 +1,157 @@
+import { libraryRepository } from '../libraryRepository';
+import type { ArtworkThumbnailSize } from '../enhancedDatabase';
+import type { CoverArt } from '../tags/tagTypes';
+import type { ArtworkThumbnailRequest, ArtworkThumbnailResponse } from '../../workers/artworkThumbnail.worker';
+
+export type ArtworkSize = ArtworkThumbnailSize | 'full';
+
+/**
+ * Longest edge of each thumbnail, twice the size the views show them at for high-density screens
+ */
+export const THUMBNAIL_SIZES: Record<ArtworkThumbnailSize, number> = {
+  list: 128,
+  grid: 384
+};
+
+const THUMBNAIL_KINDS = Object.keys(THUMBNAIL_SIZES) as ArtworkThumbnailSize[];
+
+interface PendingRequest {
+  resolve: (response: Extract<ArtworkThumbnailResponse, { width: number }>) => void;
+  reject: (error: Error) => void;
+}
+
+async function hashImage(image: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await image.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stores cover images once per distinct image and serves them, downscaled for lists and
+ * grids. Thumbnails are made in a worker; until they exist the full image is served.
+ */
+class ArtworkService {
+  private urls = new Map<string, Promise<string | undefined>>();
+  private thumbnailAttempts = new Set<string>();
+  private worker?: Worker;
+  private nextRequestId = 0;
+  private pendingRequests = new Map<number, PendingRequest>();
+
+  /**
+   * Store an image, returning the hash songs refer to it by
+   */
+  async saveArtwork(image: Blob): Promise<string> {
+    const hash = await hashImage(image);
+    if (await libraryRepository.saveArtwork({ hash, blob: image, addedAt: new Date() })) {
+      this.generateThumbnails(hash, image);
+    }
+    return hash;
+  }
+
+  /**
+   * The cover of a song being imported: its embedded picture, else its folder's cover image
+   */
+  async importArtwork(embedded?: CoverArt, folderImage?: File): Promise<string | undefined> {
+    try {
+      if (embedded) return await this.saveArtwork(new Blob([embedded.data], { type: embedded.mimeType }));
+      if (folderImage) return await this.saveArtwork(folderImage);
+    } catch (error) {
+      console.warn('Could not store cover art:', error);
+    }
+    return undefined;
+  }
+
+  /**
+   * Object URL of a stored cover at the given size; undefined when it is not stored
+   */
+  getArtworkUrl(hash: string, size: ArtworkSize = 'full'): Promise<string | undefined> {
+    const key = `${hash}:${size}`;
+    let url = this.urls.get(key);
+    if (!url) {
+      url = this.loadArtworkUrl(hash, size);
+      this.urls.set(key, url);
+      url.then(value => {
+        if (!value) this.urls.delete(key);
+      }, () => this.urls.delete(key));
+    }
+    return url;
+  }
+
+  private async loadArtworkUrl(hash: string, size: ArtworkSize): Promise<string | undefined> {
+    if (size === 'full') {
+      const artwork = await libraryRepository.getArtwork(hash);
+      return artwork && URL.createObjectURL(artwork.blob);
+    }
+
+    const thumbnail = await libraryRepository.getArtworkThumbnail(hash, size);
+    if (thumbnail) return URL.createObjectURL(thumbnail.blob);
+
+    const artwork = await libraryRepository.getArtwork(hash);
+    if (!artwork) return undefined;
+    // Unmeasured images may be missing thumbnails they should have, e.g. after the worker failed
+    if (artwork.width === undefined) this.generateThumbnails(hash, artwork.blob);
+    return this.getArtworkUrl(hash, 'full');
+  }
+
+  /**
+   * Make and store the thumbnails of an image in the background, once per session
+   */
+  private generateThumbnails(hash: string, image: Blob): void {
+    if (this.thumbnailAttempts.has(hash)) return;
+    this.thumbnailAttempts.add(hash);
+    // Without OffscreenCanvas the worker cannot draw, so the full image stays in use
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return;
+
+    this.runInWorker(image, THUMBNAIL_KINDS.map(kind => THUMBNAIL_SIZES[kind]))
+      .then(async ({ width, height, thumbnails }) => {
+        const stored = THUMBNAIL_KINDS
+          .map((size, index) => ({ hash, size, blob: thumbnails[index] }))
+          .filter((thumbnail): thumbnail is { hash: string; size: ArtworkThumbnailSize; blob: Blob } => !!thumbnail.blob);
+        await libraryRepository.saveArtworkThumbnails(hash, stored, width, height);
+        // Views that fell back to the full image pick up the thumbnails next time
+        stored.forEach(({ size }) => this.urls.delete(`${hash}:${size}`));
+      })
+      .catch(error => console.warn('Could not make cover thumbnails:', error));
+  }
+
+  private runInWorker(image: Blob, sizes: number[]): Promise<Extract<ArtworkThumbnailResponse, { width: number }>> {
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      const request: ArtworkThumbnailRequest = { id, image, sizes };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../../workers/artworkThumbnail.worker.ts', import.meta.url), { type: 'module' });
+
+      this.worker.onmessage = (event: MessageEvent<ArtworkThumbnailResponse>) => {
+        const response = event.data;
+        const pending = this.pendingRequests.get(response.id);
+        if (!pending) return;
+
+        this.pendingRequests.delete(response.id);
+        if ('error' in response) {
+          pending.reject(new Error(response.error));
+        } else {
+          pending.resolve(response);
+        }
+      };
+
+      this.worker.onerror = (event) => {
+        const error = new Error(event.message || 'Artwork worker crashed');
+        this.pendingRequests.forEach(pending => pending.reject(error));
+        this.pendingRequests.clear();
+        this.worker?.terminate();
+        this.worker = undefined;
+      };
+    }
+
+    return this.worker;
+  }
+}
+
+export const artworkService = new ArtworkService();
@@ -0,0 +1,194 @@
+import type {
+  ArtistCredit,
+  ArtistRole,
+  CreditEntity,
+  CreditSplittingSettings,
+  EnhancedSong,
+  GenreCredit
+} from '../enhancedDatabase';
+
+export const DEFAULT_CREDIT_SPLITTING: CreditSplittingSettings = {
+  artistSeparators: [';', ' / ', ' & ', ', '],
+  genreSeparators: [';', '/', ',', '|'],
+  featuringMarkers: ['featuring', 'feat.', 'feat', 'ft.', 'ft'],
+  exceptions: [
+    'AC/DC',
+    'Earth, Wind & Fire',
+    'Simon & Garfunkel',
+    'Hall & Oates',
+    'Crosby, Stills, Nash & Young',
+    'Tyler, The Creator',
+    'Drum & Bass',
+    'Rock & Roll'
+  ]
+};
+
+export interface ArtistName {
+  name: string;
+  role: ArtistRole;
+}
+
+export interface SongCredits {
+  artists: ArtistName[];
+  genres: string[];
+}
+
+type CreditFields = Pick<EnhancedSong, 'title' | 'artist' | 'albumArtist' | 'compilation' | 'genre'>;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const cleanName = (name: string) => name.replace(/\s+/g, ' ').trim();
+
+/**
+ * The key two spellings of the same artist or genre share, e.g. "Daft Punk" and "daft  punk"
+ */
+export const normalizeCreditName = (name: string): string => cleanName(name).normalize('NFKC').toLowerCase();
+
+/**
+ * Break a tag value at the separators, leaving the exceptions whole
+ */
+export function splitNames(value: string | undefined, separators: string[], exceptions: string[] = []): string[] {
+  if (!value) return [];
+
+  // Exceptions are swapped for placeholders the separators cannot match
+  const kept: string[] = [];
+  let text = value;
+  exceptions.filter(Boolean).forEach(exception => {
+    text = text.replace(new RegExp(escapeRegExp(exception), 'gi'), match => `\uE000${kept.push(match) - 1}\uE001`);
+  });
+
+  const pattern = separators.filter(Boolean).map(escapeRegExp).join('|');
+  const parts = pattern ? text.split(new RegExp(pattern, 'i')) : [text];
+  return parts
+    .map(part => cleanName(part.replace(/\uE000(\d+)\uE001/g, (_, index) => kept[Number(index)])))
+    .filter(Boolean);
+}
+
+const featuringPattern = (markers: string[]) => {
+  const alternatives = [...markers]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(marker => escapeRegExp(marker.trim()))
+    .join('|');
+  return alternatives ? new RegExp(`(?:^|\\s|[([])(?:${alternatives})\\s+`, 'i') : undefined;
+};
+
+/**
+ * Main and featured artists of an artist tag such as "A & B feat. C"
+ */
+export function splitArtists(value: string | undefined, settings: CreditSplittingSettings): ArtistName[] {
+  if (!value) return [];
+
+  const split = (text: string, role: ArtistRole) =>
+    splitNames(text, settings.artistSeparators, settings.exceptions).map(name => ({ name, role }));
+
+  const match = featuringPattern(settings.featuringMarkers)?.exec(value);
+  if (!match) return split(value, 'main');
+
+  const featured = value.slice(match.index + match[0].length).replace(/[)\]]\s*$/, '');
+  return [...split(value.slice(0, match.index), 'main'), ...split(featured, 'featured')];
+}
+
+/**
+ * Artists credited in brackets in a title, as in "Song (feat. B)"
+ */
+export function featuredInTitle(title: string | undefined, settings: CreditSplittingSettings): ArtistName[] {
+  const marker = featuringPattern(settings.featuringMarkers);
+  if (!title || !marker) return [];
+
+  return Array.from(title.matchAll(/[([]([^)\]]+)[)\]]/g)).flatMap(([, inner]) => {
+    const match = marker.exec(inner);
+    if (!match || match.index > 0) return [];
+    return splitNames(inner.slice(match[0].length), settings.artistSeparators, settings.exceptions)
+      .map(name => ({ name, role: 'featured' as const }));
+  });
+}
+
+export const splitGenres = (value: string | undefined, settings: CreditSplittingSettings): string[] =>
+  splitNames(value, settings.genreSeparators, settings.exceptions);
+
+/**
+ * Every artist and genre a song is credited with, without duplicates. Songs without an album
+ * artist count their main artists as album artists, except compilations.
+ */
+export function getSongCredits(song: CreditFields, settings: CreditSplittingSettings): SongCredits {
+  const performers = [...splitArtists(song.artist, settings), ...featuredInTitle(song.title, settings)];
+  const albumArtists = song.albumArtist?.trim()
+    ? splitArtists(song.albumArtist, settings).map(({ name }) => ({ name, role: 'albumArtist' as const }))
+    : song.compilation
+      ? []
+      : performers.filter(({ role }) => role === 'main').map(({ name }) => ({ name, role: 'albumArtist' as const }));
+
+  const artists = new Map<string, ArtistName>();
+  [...performers, ...albumArtists].forEach(credit => {
+    const key = `${normalizeCreditName(credit.name)}\u0000${credit.role}`;
+    // Someone already credited as a main artist is not featured on the same song as well
+    if (credit.role === 'featured' && artists.has(`${normalizeCreditName(credit.name)}\u0000main`)) return;
+    if (!artists.has(key)) artists.set(key, credit);
+  });
+
+  const genres = new Map<string, string>();
+  splitGenres(song.genre, settings).forEach(name => {
+    const key = normalizeCreditName(name);
+    if (!genres.has(key)) genres.set(key, name);
+  });
+
+  return { artists: Array.from(artists.values()), genres: Array.from(genres.values()) };
+}
+
+/**
+ * The stored artist and genre tables, as returned by libraryRepository.getCreditLookup
+ */
+export interface CreditData {
+  artists: CreditEntity[];
+  genres: CreditEntity[];
+  artistCredits: ArtistCredit[];
+  genreCredits: GenreCredit[];
+}
+
+const PERFORMER_ROLES: ArtistRole[] = ['main', 'featured'];
+
+/**
+ * In-memory index over the stored credits, for resolving many songs at once
+ */
+export class CreditLookup {
+  private artists: Map<string, CreditEntity>;
+  private genres: Map<string, CreditEntity>;
+  private artistsBySong = new Map<string, ArtistCredit[]>();
+  private genresBySong = new Map<string, GenreCredit[]>();
+
+  constructor(data: CreditData) {
+    this.artists = new Map(data.artists.map(artist => [artist.id, artist]));
+    this.genres = new Map(data.genres.map(genre => [genre.id, genre]));
+
+    const append = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+      const list = map.get(key);
+      if (list) list.push(value);
+      else map.set(key, [value]);
+    };
+    [...data.artistCredits].sort((a, b) => a.position - b.position).forEach(credit => {
+      append(this.artistsBySong, credit.songId, credit);
+    });
+    [...data.genreCredits].sort((a, b) => a.position - b.position).forEach(credit => {
+      append(this.genresBySong, credit.songId, credit);
+    });
+  }
+
+  /**
+   * A song's artists in tag order; performers only unless other roles are asked for
+   */
+  getSongArtists(songId: string, roles: ArtistRole[] = PERFORMER_ROLES): CreditEntity[] {
+    const ids = new Set(
+      (this.artistsBySong.get(songId) ?? []).filter(credit => roles.includes(credit.role)).map(credit => credit.artistId)
+    );
+    return Array.from(ids)
+      .map(id => this.artists.get(id))
+      .filter((artist): artist is CreditEntity => !!artist);
+  }
+
+  getSongGenres(songId: string): CreditEntity[] {
+    return (this.genresBySong.get(songId) ?? [])
+      .map(credit => this.genres.get(credit.genreId))
+      .filter((genre): genre is CreditEntity => !!genre);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Cover images kept beside audio files, such as "cover.jpg" or "folder.jpg", standing in
+ * for the songs in that folder that have no embedded picture.
+ */
+
+// Earlier names win when a folder has several
+const FOLDER_ARTWORK_STEMS = ['cover', 'folder', 'front', 'album', 'albumart'];
+const FOLDER_ARTWORK_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+function artworkRank(fileName: string): number {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0 || !FOLDER_ARTWORK_EXTENSIONS.includes(fileName.slice(dot).toLowerCase())) return -1;
+  return FOLDER_ARTWORK_STEMS.indexOf(fileName.slice(0, dot).toLowerCase());
+}
+
+const folderOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1).toLowerCase();
+
+export function isFolderArtwork(fileName: string): boolean {
+  return artworkRank(fileName) >= 0;
+}
+
+/**
+ * Separate folder images from the other files and pair each other file with the best image
+ * in its folder. Paths come from pathOf, which falls back to the file name when folders are unknown.
+ */
+export function pairFolderArtwork(
+  files: File[],
+  pathOf: (file: File) => string = file => file.webkitRelativePath || file.name
+): { otherFiles: File[]; covers: Map<File, File> } {
+  const otherFiles: File[] = [];
+  const imageByFolder = new Map<string, File>();
+
+  files.forEach(file => {
+    const rank = artworkRank(file.name);
+    if (rank < 0) {
+      otherFiles.push(file);
+      return;
+    }
+    const folder = folderOf(pathOf(file));
+    const existing = imageByFolder.get(folder);
+    if (!existing || rank < artworkRank(existing.name)) imageByFolder.set(folder, file);
+  });
+
+  const covers = new Map<File, File>();
+  otherFiles.forEach(file => {
+    const image = imageByFolder.get(folderOf(pathOf(file)));
+    if (image) covers.set(file, image);
+  });
+
+  return { otherFiles, covers };
+}
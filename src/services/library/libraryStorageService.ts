@@ -0,0 +1,92 @@
+import { libraryRepository } from '../libraryRepository';
+import type { EnhancedSong } from '../enhancedDatabase';
+import { getAlbumArtist } from './albumGrouping';
+import { isOpfsAvailable, writeLibraryCopy } from './opfsStorage';
+
+// Chromium also reports usage per kind of storage; other browsers leave it out
+type DetailedEstimate = StorageEstimate & { usageDetails?: Record<string, number> };
+
+export interface StorageBreakdownEntry {
+  label: string;
+  bytes: number;
+}
+
+export interface StorageSummary {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+  entries: StorageBreakdownEntry[];
+}
+
+// Copies stop while this share of the quota is still free, leaving room for the database and caches
+const QUOTA_RESERVE = 0.1;
+
+/**
+ * The app's own copies of music files, kept in the origin private file system so they stay
+ * playable however the originals were added, and the browser storage they take up
+ */
+class LibraryStorageService {
+  isAvailable(): boolean {
+    return isOpfsAvailable();
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return isOpfsAvailable() && !!(await libraryRepository.getPreferences()).keepLibraryCopies;
+  }
+
+  /**
+   * Turn copying on or off; turning it on also asks the browser not to evict the copies
+   */
+  async setEnabled(enabled: boolean): Promise<void> {
+    await libraryRepository.updatePreferences({ keepLibraryCopies: enabled });
+    if (enabled) await this.requestPersistence();
+  }
+
+  /**
+   * Ask the browser to keep the app's storage under pressure; returns whether it will
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    if (await navigator.storage.persisted()) return true;
+    return navigator.storage.persist();
+  }
+
+  /**
+   * Copy a song's file into the library, filed under its album artist and album.
+   * Returns the copy's path, to store as the song's opfsPath.
+   */
+  async copyIntoLibrary(
+    file: Blob,
+    fileName: string,
+    song: Pick<EnhancedSong, 'artist' | 'album' | 'albumArtist' | 'compilation'>
+  ): Promise<string> {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (usage + file.size > quota * (1 - QUOTA_RESERVE)) {
+      throw new Error(`Not enough storage left to keep a copy of ${fileName}`);
+    }
+    return writeLibraryCopy(file, fileName, getAlbumArtist(song), song.album);
+  }
+
+  async getSummary(): Promise<StorageSummary> {
+    const { usage = 0, quota = 0, usageDetails } = (await navigator.storage.estimate()) as DetailedEstimate;
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+
+    const songs = await libraryRepository.getAllSongs();
+    const entries: StorageBreakdownEntry[] = [{
+      label: 'Music files',
+      bytes: songs.reduce((total, song) => total + (song.opfsPath ? song.size : 0), 0)
+    }];
+    if (usageDetails) {
+      entries.push(
+        { label: 'Library database', bytes: usageDetails.indexedDB ?? 0 },
+        { label: 'Offline cache', bytes: (usageDetails.caches ?? 0) + (usageDetails.serviceWorkerRegistrations ?? 0) }
+      );
+    }
+    const counted = entries.reduce((total, entry) => total + entry.bytes, 0);
+    entries.push({ label: usageDetails ? 'Other' : 'Library data and cache', bytes: Math.max(0, usage - counted) });
+
+    return { usage, quota, persisted, entries };
+  }
+}
+
+export const libraryStorageService = new LibraryStorageService();
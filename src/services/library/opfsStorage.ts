@@ -0,0 +1,111 @@
+/**
+ * Copies of song files kept in the origin private file system (OPFS), filed as
+ * "library/Album Artist/Album/file name", for songs whose originals cannot be reopened
+ */
+
+const ROOT_DIRECTORY = 'library';
+const MAX_SEGMENT_LENGTH = 100;
+const RESERVED_CHARACTERS = '/\\:*?"<>|';
+
+export const isOpfsAvailable = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+
+/**
+ * A name safe to use as one path segment on any filesystem
+ */
+function toSegment(name: string, fallback: string): string {
+  const cleaned = Array.from(name, char => (char < ' ' || RESERVED_CHARACTERS.includes(char) ? '_' : char))
+    .join('')
+    .replace(/^[\s.]+|[\s.]+$/g, '');
+  return cleaned.slice(0, MAX_SEGMENT_LENGTH) || fallback;
+}
+
+async function getDirectory(segments: string[], create: boolean): Promise<FileSystemDirectoryHandle> {
+  let directory = await navigator.storage.getDirectory();
+  for (const segment of [ROOT_DIRECTORY, ...segments]) {
+    directory = await directory.getDirectoryHandle(segment, { create });
+  }
+  return directory;
+}
+
+async function exists(directory: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await directory.getFileHandle(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write a file's whole contents; a failed write is aborted, so the old contents stay
+ */
+async function writeContents(handle: FileSystemFileHandle, file: Blob): Promise<void> {
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(file);
+  } catch (error) {
+    await writable.abort().catch(() => undefined);
+    throw error;
+  }
+  await writable.close();
+}
+
+/**
+ * Store a copy of a file under its album, returning the path to read it back by.
+ * Names already taken in the album's folder get a number, as "Song (2).mp3".
+ */
+export async function writeLibraryCopy(file: Blob, fileName: string, albumArtist: string, album: string): Promise<string> {
+  const folders = [toSegment(albumArtist, 'Unknown Artist'), toSegment(album, 'Unknown Album')];
+  const directory = await getDirectory(folders, true);
+
+  const safeName = toSegment(fileName, 'track');
+  const dot = safeName.lastIndexOf('.');
+  const [stem, extension] = dot > 0 ? [safeName.slice(0, dot), safeName.slice(dot)] : [safeName, ''];
+  let name = safeName;
+  for (let copy = 2; await exists(directory, name); copy++) {
+    name = `${stem} (${copy})${extension}`;
+  }
+
+  const handle = await directory.getFileHandle(name, { create: true });
+  try {
+    await writeContents(handle, file);
+  } catch (error) {
+    // Leave no empty or partial copy behind
+    await directory.removeEntry(name).catch(() => undefined);
+    throw error;
+  }
+  return [...folders, name].join('/');
+}
+
+/**
+ * Replace the contents of a stored copy, e.g. after its tags were edited
+ */
+export async function overwriteLibraryCopy(path: string, file: Blob): Promise<void> {
+  const segments = path.split('/');
+  const directory = await getDirectory(segments.slice(0, -1), false);
+  const handle = await directory.getFileHandle(segments[segments.length - 1]);
+  await writeContents(handle, file);
+}
+
+export async function readLibraryCopy(path: string): Promise<File> {
+  const segments = path.split('/');
+  const directory = await getDirectory(segments.slice(0, -1), false);
+  const handle = await directory.getFileHandle(segments[segments.length - 1]);
+  return handle.getFile();
+}
+
+export async function removeLibraryCopy(path: string): Promise<void> {
+  const segments = path.split('/');
+  const directory = await getDirectory(segments.slice(0, -1), false);
+  await directory.removeEntry(segments[segments.length - 1]);
+}
+
+export async function removeAllLibraryCopies(): Promise<void> {
+  const root = await navigator.storage.getDirectory();
+  try {
+    await root.removeEntry(ROOT_DIRECTORY, { recursive: true });
+  } catch (error) {
+    if ((error as DOMException).name !== 'NotFoundError') throw error;
+  }
+}
@@ -0,0 +1,135 @@
+import type { AlbumPalette, PaletteColor } from '../enhancedDatabase';
+
+export type PaletteColors = Pick<AlbumPalette, 'dominant' | 'vibrant' | 'muted'>;
+
+// Channels are bucketed to 4 bits, so near-identical shades count as one color
+const CHANNEL_SHIFT = 4;
+const MIN_ALPHA = 128;
+const VIBRANT_MIN_SATURATION = 35;
+const VIBRANT_LIGHTNESS = [30, 75];
+const MUTED_MAX_SATURATION = 35;
+const MUTED_LIGHTNESS = [20, 70];
+
+// Lightness the player keeps colors within, so text and controls stay readable over them
+const DISPLAY_LIGHTNESS = [25, 70];
+
+interface ColorBucket {
+  count: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+export function rgbToHsl(r: number, g: number, b: number): PaletteColor {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) return { h: 0, s: 0, l: Math.round(l * 100) };
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === red) h = ((green - blue) / delta) % 6;
+  else if (max === green) h = (blue - red) / delta + 2;
+  else h = (red - green) / delta + 4;
+
+  return {
+    h: Math.round((h * 60 + 360) % 360),
+    s: Math.round(Math.min(1, s) * 100),
+    l: Math.round(l * 100)
+  };
+}
+
+export function hslToHex({ h, s, l }: PaletteColor): string {
+  const saturation = s / 100;
+  const lightness = l / 100;
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = lightness - saturation * Math.min(lightness, 1 - lightness) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+const within = (value: number, [min, max]: number[]) => value >= min && value <= max;
+
+/**
+ * The dominant, vibrant and muted colors of RGBA pixel data; undefined when every pixel is transparent.
+ * Images without vibrant or muted shades get ones derived from the dominant color.
+ */
+export function extractPalette(pixels: Uint8ClampedArray): PaletteColors | undefined {
+  const buckets = new Map<number, ColorBucket>();
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue;
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    const key = ((r >> CHANNEL_SHIFT) << 8) | ((g >> CHANNEL_SHIFT) << 4) | (b >> CHANNEL_SHIFT);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.count++;
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+    } else {
+      buckets.set(key, { count: 1, r, g, b });
+    }
+  }
+
+  if (buckets.size === 0) return undefined;
+
+  const colors = Array.from(buckets.values(), bucket => ({
+    count: bucket.count,
+    color: rgbToHsl(bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count)
+  }));
+
+  const best = (score: (entry: typeof colors[number]) => number) =>
+    colors.reduce<typeof colors[number] | undefined>((top, entry) => {
+      const value = score(entry);
+      return value > 0 && (!top || value > score(top)) ? entry : top;
+    }, undefined)?.color;
+
+  const dominant = best(entry => entry.count)!;
+  const vibrant = best(({ count, color }) =>
+    color.s >= VIBRANT_MIN_SATURATION && within(color.l, VIBRANT_LIGHTNESS) ? Math.sqrt(count) * color.s : 0
+  ) ?? { h: dominant.h, s: Math.max(dominant.s, 60), l: 55 };
+  const muted = best(({ count, color }) =>
+    color.s <= MUTED_MAX_SATURATION && within(color.l, MUTED_LIGHTNESS) ? Math.sqrt(count) * (100 - color.s) : 0
+  ) ?? { h: dominant.h, s: Math.min(dominant.s, 25), l: 40 };
+
+  return { dominant, vibrant, muted };
+}
+
+/**
+ * Colors for an album without a cover, the same every time for the same album
+ */
+export function fallbackPalette(albumKey: string): PaletteColors {
+  // FNV-1a, spread over the color wheel
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < albumKey.length; i++) {
+    hash ^= albumKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const h = (hash >>> 0) % 360;
+
+  return {
+    dominant: { h, s: 55, l: 45 },
+    vibrant: { h: (h + 20) % 360, s: 80, l: 58 },
+    muted: { h, s: 25, l: 35 }
+  };
+}
+
+const toCssValue = ({ h, s, l }: PaletteColor) =>
+  `${h} ${s}% ${Math.min(DISPLAY_LIGHTNESS[1], Math.max(DISPLAY_LIGHTNESS[0], l))}%`;
+
+/**
+ * The CSS variables player surfaces read the album's colors from, as HSL components like the theme's
+ */
+export function paletteCssVariables(palette: PaletteColors): Record<string, string> {
+  return {
+    '--album-dominant': toCssValue(palette.dominant),
+    '--album-vibrant': toCssValue(palette.vibrant),
+    '--album-muted': toCssValue(palette.muted)
+  };
+}
@@ -0,0 +1,76 @@
+import { libraryRepository } from '../libraryRepository';
+import type { AlbumPalette, EnhancedSong } from '../enhancedDatabase';
+import { artworkService } from './artworkService';
+import { getAlbumKey } from './albumGrouping';
+import { extractPalette, fallbackPalette } from './palette';
+
+type PaletteFields = Pick<EnhancedSong, 'artist' | 'album' | 'albumArtist' | 'compilation' | 'artworkHash'>;
+
+// Covers are sampled at this size; more pixels barely move the result
+const SAMPLE_SIZE = 64;
+
+async function samplePixels(image: Blob): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(image, { resizeWidth: SAMPLE_SIZE, resizeHeight: SAMPLE_SIZE });
+  try {
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(SAMPLE_SIZE, SAMPLE_SIZE)
+      : Object.assign(document.createElement('canvas'), { width: SAMPLE_SIZE, height: SAMPLE_SIZE });
+    const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!context) throw new Error('2D canvas is not available');
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Album colors for theming the player, taken from covers once per album and stored, or
+ * derived from the album's key when it has no cover
+ */
+class PaletteService {
+  private palettes = new Map<string, Promise<AlbumPalette>>();
+
+  getPalette(song: PaletteFields): Promise<AlbumPalette> {
+    const albumKey = getAlbumKey(song);
+    const key = `${albumKey}\n${song.artworkHash ?? ''}`;
+    let palette = this.palettes.get(key);
+    if (!palette) {
+      palette = this.loadPalette(albumKey, song.artworkHash);
+      this.palettes.set(key, palette);
+    }
+    return palette;
+  }
+
+  /**
+   * The colors shown for an album until its cover's palette is ready
+   */
+  getFallbackPalette(song: PaletteFields): AlbumPalette {
+    const albumKey = getAlbumKey(song);
+    return { albumKey, ...fallbackPalette(albumKey) };
+  }
+
+  private async loadPalette(albumKey: string, artworkHash?: string): Promise<AlbumPalette> {
+    const fallback: AlbumPalette = { albumKey, ...fallbackPalette(albumKey) };
+    if (!artworkHash) return fallback;
+
+    try {
+      const stored = await libraryRepository.getAlbumPalette(albumKey);
+      if (stored?.artworkHash === artworkHash) return stored;
+
+      const url = await artworkService.getArtworkUrl(artworkHash, 'list');
+      if (!url) return fallback;
+      const colors = extractPalette(await samplePixels(await (await fetch(url)).blob()));
+      if (!colors) return fallback;
+
+      const palette: AlbumPalette = { albumKey, artworkHash, ...colors };
+      await libraryRepository.saveAlbumPalette(palette);
+      return palette;
+    } catch (error) {
+      console.warn('Could not take colors from cover art:', error);
+      return fallback;
+    }
+  }
+}
+
+export const paletteService = new PaletteService();
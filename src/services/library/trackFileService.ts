@@ -0,0 +1,159 @@
+import { libraryRepository } from '../libraryRepository';
+import { webAudioService } from '../webAudioService';
+import type { EnhancedSong } from '../enhancedDatabase';
+import { getAlbumArtist } from './albumGrouping';
+import { isOpfsAvailable, readLibraryCopy, writeLibraryCopy } from './opfsStorage';
+
+/**
+ * Whether every stored file and folder handle may be read, or some need the user to allow access again
+ */
+export type FileAccessStatus = 'granted' | 'needs-authorization';
+
+// Permission methods of the File System Access API that TypeScript's DOM types leave out
+type PermissionedHandle = FileSystemHandle & {
+  queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+};
+
+// Files without handles are copied while the app's stored data stays under this size
+const SMALL_LIBRARY_BYTES = 1024 ** 3;
+// ...and this share of the quota the browser grants
+const MAX_QUOTA_SHARE = 0.5;
+
+const queryPermission = async (handle: PermissionedHandle): Promise<PermissionState> =>
+  handle.queryPermission ? handle.queryPermission({ mode: 'read' }) : 'granted';
+
+/**
+ * Turns stored songs into playable URLs. Object URLs only live for a session, so songs are
+ * reopened on first play from their file handle, their folder's handle or their OPFS copy.
+ */
+class TrackFileService {
+  private urls = new Map<string, Promise<string>>();
+  private status: FileAccessStatus = 'granted';
+  private callbacks = new Set<(status: FileAccessStatus) => void>();
+
+  getStatus(): FileAccessStatus {
+    return this.status;
+  }
+
+  onStatusChange(callback: (status: FileAccessStatus) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  /**
+   * A URL to load a track from, opening its stored file on first use. Lapsed permissions are not
+   * asked for here, as that needs a user gesture; the status changes instead (see authorize).
+   */
+  getPlayableUrl(track: Pick<EnhancedSong, 'id' | 'filePath'>): Promise<string> {
+    if (track.filePath && webAudioService.isUsableUrl(track.filePath)) {
+      return Promise.resolve(track.filePath);
+    }
+
+    let url = this.urls.get(track.id);
+    if (!url) {
+      url = this.openFile(track.id).then(file => webAudioService.createObjectURL(file));
+      this.urls.set(track.id, url);
+      url.catch(() => this.urls.delete(track.id));
+    }
+    return url;
+  }
+
+  /**
+   * Check the stored handles without prompting, as on startup
+   */
+  async checkAccess(): Promise<FileAccessStatus> {
+    const states = await Promise.all((await this.storedHandles()).map(queryPermission));
+    this.setStatus(states.every(state => state === 'granted') ? 'granted' : 'needs-authorization');
+    return this.status;
+  }
+
+  /**
+   * Ask the user to allow access to the stored handles again; call from a click or key press
+   */
+  async authorize(): Promise<FileAccessStatus> {
+    let granted = true;
+    for (const handle of await this.storedHandles()) {
+      if ((await queryPermission(handle)) === 'granted') continue;
+      const state = await handle.requestPermission?.({ mode: 'read' });
+      granted = granted && state === 'granted';
+    }
+    this.setStatus(granted ? 'granted' : 'needs-authorization');
+    return this.status;
+  }
+
+  /**
+   * Copy an imported file that has no handle into the origin private file system while the
+   * library is small, so it still plays after a reload. Returns the copy's path, if one was made.
+   */
+  async storeFallbackCopy(song: EnhancedSong, file: File): Promise<string | undefined> {
+    if (song.fileHandle || !isOpfsAvailable()) return undefined;
+
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      if (usage + file.size > Math.min(SMALL_LIBRARY_BYTES, quota * MAX_QUOTA_SHARE)) return undefined;
+      return await writeLibraryCopy(file, file.name, getAlbumArtist(song), song.album);
+    } catch (error) {
+      console.warn(`Could not keep a copy of ${file.name}:`, error);
+      return undefined;
+    }
+  }
+
+  private async openFile(id: string): Promise<File> {
+    const song = await libraryRepository.getSongById(id);
+    if (!song) throw new Error('Track is no longer in the library');
+
+    if (song.opfsPath) return readLibraryCopy(song.opfsPath);
+
+    if (song.fileHandle) {
+      await this.ensureReadable(song.fileHandle);
+      return song.fileHandle.getFile();
+    }
+
+    if (song.folderId && song.relativePath) {
+      const folder = (await libraryRepository.getLibraryFolders()).find(({ id }) => id === song.folderId);
+      if (folder) {
+        await this.ensureReadable(folder.handle);
+        return this.fileInFolder(folder.handle, song.relativePath);
+      }
+    }
+
+    throw new Error(`${song.title} was added without a lasting file reference; add it again to play it`);
+  }
+
+  private async ensureReadable(handle: PermissionedHandle): Promise<void> {
+    if ((await queryPermission(handle)) === 'granted') return;
+    this.setStatus('needs-authorization');
+    throw new Error(`Access to ${handle.name} needs to be allowed again`);
+  }
+
+  private async fileInFolder(folder: FileSystemDirectoryHandle, relativePath: string): Promise<File> {
+    const segments = relativePath.split('/');
+    let directory = folder;
+    for (const segment of segments.slice(0, -1)) {
+      directory = await directory.getDirectoryHandle(segment);
+    }
+    const handle = await directory.getFileHandle(segments[segments.length - 1]);
+    return handle.getFile();
+  }
+
+  /**
+   * Folder handles, plus the handles of files picked on their own; files found in a folder share its permission
+   */
+  private async storedHandles(): Promise<PermissionedHandle[]> {
+    const folders = await libraryRepository.getLibraryFolders();
+    const songs = await libraryRepository.getAllSongs();
+    const files = songs
+      .filter(song => song.fileHandle && !song.folderId && !song.opfsPath)
+      .map(song => song.fileHandle!);
+    return [...folders.map(folder => folder.handle), ...files];
+  }
+
+  private setStatus(status: FileAccessStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.callbacks.forEach(callback => callback(status));
+  }
+}
+
+export const trackFileService = new TrackFileService();
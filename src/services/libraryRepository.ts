@@ -0,0 +1,933 @@
+import {
+  enhancedDB,
+  EnhancedSong,
+  EnhancedPlaylist,
+  LibraryStats,
+  PlaylistSortOrder,
+  TrackAudioAnalysis,
+  PlayEvent,
+  PlaybackSource,
+  UserPreferences,
+  EqualizerPreset,
+  AudioEffectSettings,
+  AudioProfileAssignment,
+  AudioProfileScope,
+  LyricsCacheEntry,
+  LyricsCandidate,
+  CreditSplittingSettings,
+  CreditEntity,
+  ArtistCredit,
+  GenreCredit,
+  ArtworkRecord,
+  ArtworkThumbnail,
+  ArtworkThumbnailSize,
+  AlbumPalette,
+  LibraryFolder,
+  PlaybackSession
+} from './enhancedDatabase';
+import { CreditLookup, DEFAULT_CREDIT_SPLITTING, getSongCredits, normalizeCreditName } from './library/credits';
+import { combineAlbumLoudness, loudnessToGain, type LoudnessMeasurement } from './analysis/loudness';
+import { serializeLrc } from './lyrics/lrc';
+import { getAlbumKey } from './library/albumGrouping';
+import { isOpfsAvailable, removeAllLibraryCopies, removeLibraryCopy } from './library/opfsStorage';
+
+/**
+ * Song as supplied by importers; enhanced fields are filled in when missing
+ */
+export type NewSong = Omit<EnhancedSong, 'format' | 'fileHash' | 'bookmarks' | 'customTags'> &
+  Partial<Pick<EnhancedSong, 'format' | 'fileHash' | 'bookmarks' | 'customTags'>>;
+
+/**
+ * Playlist as supplied by creators; bookkeeping fields are filled in when missing
+ */
+export type NewPlaylist = Pick<EnhancedPlaylist, 'name' | 'trackIds' | 'color'> &
+  Partial<Omit<EnhancedPlaylist, 'name' | 'trackIds' | 'color'>>;
+
+/**
+ * Where a song's file is and what it looked like when last read
+ */
+export type SongLocation = Partial<Pick<EnhancedSong, 'filePath' | 'fileHandle' | 'folderId' | 'relativePath' | 'size' | 'lastModified' | 'missing' | 'opfsPath'>>;
+
+const LEGACY_DB_NAME = 'MelodyForgeDB';
+const LEGACY_MIGRATION_KEY = 'legacyMelodyForgeDBMigrated';
+const STATS_ID = 'user_stats';
+const PREFERENCES_ID = 'user-prefs';
+const PLAYBACK_SESSION_ID = 'current';
+const LEGACY_HISTORY_KEY = 'melodyforge_history';
+const LEGACY_HISTORY_MIGRATION_KEY = 'legacyHistoryMigrated';
+const LEGACY_LYRICS_PREFIX = 'lyrics_';
+const LEGACY_LYRICS_MIGRATION_KEY = 'legacyLyricsMigrated';
+const CREDIT_SPLITTING_KEY = 'creditsSplitWith';
+
+/**
+ * A session counts as a play once it completes or this much has been heard
+ */
+const MIN_COUNTED_LISTEN_SECONDS = 30;
+
+/**
+ * Share of a track that must have played before "next" stops counting as a skip
+ */
+export const DEFAULT_SKIP_THRESHOLD = 0.5;
+
+export const audioProfileId = (scope: AudioProfileScope, key: string): string => `${scope}:${key}`;
+
+export const isCountedPlay = (event: Pick<PlayEvent, 'completed' | 'skipped' | 'positionListened' | 'trackDuration'>): boolean =>
+  event.completed ||
+  (!event.skipped && event.positionListened >= Math.min(MIN_COUNTED_LISTEN_SECONDS, (event.trackDuration || Infinity) / 2));
+
+/**
+ * Single entry point for library persistence, backed by the Dexie store
+ */
+class LibraryRepository {
+  private ready?: Promise<void>;
+
+  /**
+   * Open the store, migrate the legacy database once and seed defaults
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await enhancedDB.open();
+        await this.migrateLegacyDatabase();
+        await this.migrateLegacyHistory();
+        await this.migrateLegacyLyrics();
+        await this.indexCreditsIfStale();
+        await enhancedDB.initializeDefaults();
+      })().catch(error => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  // Songs
+
+  async addSong(song: NewSong): Promise<void> {
+    await this.init();
+    const normalized = this.normalizeSong(song);
+    const splitting = await this.readCreditSplitting();
+    await enhancedDB.transaction('rw', [enhancedDB.songs, ...this.creditTables()], async () => {
+      await enhancedDB.songs.add(normalized);
+      await this.indexCredits([normalized], splitting);
+    });
+  }
+
+  async getAllSongs(): Promise<EnhancedSong[]> {
+    await this.init();
+    return enhancedDB.songs.toArray();
+  }
+
+  async getSongById(id: string): Promise<EnhancedSong | undefined> {
+    await this.init();
+    return enhancedDB.songs.get(id);
+  }
+
+  /**
+   * Songs in the order of the given ids, leaving out those no longer in the library
+   */
+  async getSongsByIds(ids: string[]): Promise<EnhancedSong[]> {
+    await this.init();
+    return (await enhancedDB.songs.bulkGet(ids)).filter((song): song is EnhancedSong => !!song);
+  }
+
+  async updateSong(song: NewSong): Promise<void> {
+    await this.init();
+    const normalized = this.normalizeSong(song);
+    const splitting = await this.readCreditSplitting();
+    await enhancedDB.transaction('rw', [enhancedDB.songs, ...this.creditTables(), ...this.artworkTables()], async () => {
+      const previous = await enhancedDB.songs.get(normalized.id);
+      await enhancedDB.songs.put(normalized);
+      await this.indexCredits([normalized], splitting);
+      if (previous?.artworkHash && previous.artworkHash !== normalized.artworkHash) {
+        await this.pruneArtwork(previous.artworkHash);
+      }
+    });
+  }
+
+  async deleteSong(id: string): Promise<void> {
+    await this.init();
+    const profileId = audioProfileId('track', id);
+    const song = await enhancedDB.transaction('rw', [enhancedDB.songs, enhancedDB.audioAnalysis, enhancedDB.playEvents, enhancedDB.audioProfiles, enhancedDB.audioEffects, ...this.creditTables(), ...this.artworkTables()], async () => {
+      const song = await enhancedDB.songs.get(id);
+      await enhancedDB.songs.delete(id);
+      await this.indexCredits([{ id }]);
+      if (song?.artworkHash) await this.pruneArtwork(song.artworkHash);
+      await enhancedDB.audioAnalysis.delete(id);
+      await enhancedDB.playEvents.where('trackId').equals(id).delete();
+      await enhancedDB.audioProfiles.delete(profileId);
+      await enhancedDB.audioEffects.delete(profileId);
+      return song;
+    });
+
+    if (song?.opfsPath) {
+      await removeLibraryCopy(song.opfsPath).catch(error => console.warn('Could not remove stored copy:', error));
+    }
+  }
+
+  /**
+   * Store LRC or plain text lyrics on the song; undefined removes them
+   */
+  async saveLyrics(trackId: string, lyrics: string | undefined): Promise<void> {
+    await this.init();
+    await enhancedDB.songs.update(trackId, { lyrics, lyricsEdited: true });
+  }
+
+  async getRecentSongs(limit: number = 10): Promise<EnhancedSong[]> {
+    await this.init();
+    return enhancedDB.getRecentSongs(limit);
+  }
+
+  async getTopSongs(limit: number = 10): Promise<EnhancedSong[]> {
+    await this.init();
+    return enhancedDB.getTopSongs(limit);
+  }
+
+  // Playlists
+
+  async createPlaylist(playlist: NewPlaylist): Promise<EnhancedPlaylist> {
+    await this.init();
+    const record = this.normalizePlaylist(playlist);
+    await enhancedDB.playlists.add(record);
+    return record;
+  }
+
+  async getAllPlaylists(): Promise<EnhancedPlaylist[]> {
+    await this.init();
+    return enhancedDB.playlists.toArray();
+  }
+
+  async getPlaylistById(id: string): Promise<EnhancedPlaylist | undefined> {
+    await this.init();
+    return enhancedDB.playlists.get(id);
+  }
+
+  async updatePlaylist(playlist: NewPlaylist): Promise<void> {
+    await this.init();
+    await enhancedDB.playlists.put({ ...this.normalizePlaylist(playlist), lastModified: new Date() });
+  }
+
+  async deletePlaylist(id: string): Promise<void> {
+    await this.init();
+    await enhancedDB.playlists.delete(id);
+  }
+
+  // Audio analysis
+
+  async getAudioAnalysis(trackId: string): Promise<TrackAudioAnalysis | undefined> {
+    await this.init();
+    return enhancedDB.audioAnalysis.get(trackId);
+  }
+
+  async getAllAudioAnalyses(): Promise<TrackAudioAnalysis[]> {
+    await this.init();
+    return enhancedDB.audioAnalysis.toArray();
+  }
+
+  async saveAudioAnalysis(analysis: TrackAudioAnalysis): Promise<void> {
+    await this.init();
+    await enhancedDB.audioAnalysis.put(analysis);
+  }
+
+  /**
+   * Store a track's measured loudness and refresh the album gain of every measured track on its album
+   */
+  async saveMeasuredLoudness(trackId: string, measurement: LoudnessMeasurement): Promise<void> {
+    await this.init();
+    await enhancedDB.transaction('rw', enhancedDB.songs, async () => {
+      const song = await enhancedDB.songs.get(trackId);
+      if (!song) return;
+
+      song.loudness = {
+        source: 'analysis',
+        trackGain: loudnessToGain(measurement.integratedLoudness),
+        trackPeak: measurement.truePeak,
+        integratedLoudness: measurement.integratedLoudness,
+        gatedBlocks: measurement.gatedBlocks
+      };
+      await enhancedDB.songs.put(song);
+
+      const albumTracks = (await enhancedDB.songs.where('album').equals(song.album).toArray())
+        .filter(track => getAlbumKey(track) === getAlbumKey(song) && track.loudness?.source === 'analysis');
+      const album = combineAlbumLoudness(albumTracks.map(track => ({
+        integratedLoudness: track.loudness!.integratedLoudness ?? -Infinity,
+        truePeak: track.loudness!.trackPeak ?? 0,
+        gatedBlocks: track.loudness!.gatedBlocks ?? 0
+      })));
+
+      await Promise.all(albumTracks.map(track => enhancedDB.songs.update(track.id, {
+        loudness: { ...track.loudness!, albumGain: loudnessToGain(album.integratedLoudness), albumPeak: album.truePeak }
+      })));
+    });
+  }
+
+  // Listening history
+
+  /**
+   * Append a play event; counted plays and skips also refresh the counters cached on the song
+   */
+  async logPlayEvent(event: PlayEvent): Promise<EnhancedSong | undefined> {
+    await this.init();
+    return enhancedDB.transaction('rw', enhancedDB.playEvents, enhancedDB.songs, async () => {
+      await enhancedDB.playEvents.add(event);
+      const counted = isCountedPlay(event);
+      if (!counted && !event.skipped) return undefined;
+
+      const song = await enhancedDB.songs.get(event.trackId);
+      if (!song) return undefined;
+
+      if (counted) {
+        song.playCount += 1;
+        song.lastPlayed = event.startedAt;
+      } else {
+        song.skipCount = (song.skipCount ?? 0) + 1;
+      }
+      await enhancedDB.songs.put(song);
+      return song;
+    });
+  }
+
+  /**
+   * Play events in chronological order, optionally limited to a time range
+   */
+  async getPlayEvents(since?: Date, until?: Date): Promise<PlayEvent[]> {
+    await this.init();
+    const lower = since ?? new Date(0);
+    const upper = until ?? new Date(8640000000000000);
+    return enhancedDB.playEvents.where('startedAt').between(lower, upper, true, true).toArray();
+  }
+
+  async getPlayEventsForTrack(trackId: string): Promise<PlayEvent[]> {
+    await this.init();
+    return enhancedDB.playEvents
+      .where('[trackId+startedAt]')
+      .between([trackId, new Date(0)], [trackId, new Date(8640000000000000)])
+      .toArray();
+  }
+
+  // Equalizer presets and audio profiles
+
+  /**
+   * Built-in presets followed by custom ones, each group by name
+   */
+  async getEqualizerPresets(): Promise<EqualizerPreset[]> {
+    await this.init();
+    const presets = await enhancedDB.equalizerPresets.toArray();
+    return presets.sort((a, b) => Number(a.isCustom) - Number(b.isCustom) || a.name.localeCompare(b.name));
+  }
+
+  async getEqualizerPreset(id: string): Promise<EqualizerPreset | undefined> {
+    await this.init();
+    return enhancedDB.equalizerPresets.get(id);
+  }
+
+  /**
+   * Save a custom preset; saving under an existing custom name overwrites it
+   */
+  async saveEqualizerPreset(name: string, bands: number[]): Promise<EqualizerPreset> {
+    await this.init();
+    return enhancedDB.transaction('rw', enhancedDB.equalizerPresets, async () => {
+      const existing = await enhancedDB.equalizerPresets
+        .where('name').equals(name)
+        .filter(preset => preset.isCustom)
+        .first();
+      const preset: EqualizerPreset = {
+        id: existing?.id ?? `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        bands: [...bands],
+        isCustom: true,
+        createdAt: existing?.createdAt ?? new Date()
+      };
+      await enhancedDB.equalizerPresets.put(preset);
+      return preset;
+    });
+  }
+
+  /**
+   * Delete a custom preset; profiles that used it fall back to inherited EQ settings
+   */
+  async deleteEqualizerPreset(id: string): Promise<void> {
+    await this.init();
+    await enhancedDB.transaction('rw', enhancedDB.equalizerPresets, enhancedDB.audioProfiles, async () => {
+      const preset = await enhancedDB.equalizerPresets.get(id);
+      if (!preset?.isCustom) return;
+
+      await enhancedDB.equalizerPresets.delete(id);
+      await enhancedDB.audioProfiles
+        .filter(profile => profile.equalizerPresetId === id)
+        .modify(profile => { delete profile.equalizerPresetId; });
+    });
+  }
+
+  async getAudioEffects(id: string): Promise<AudioEffectSettings | undefined> {
+    await this.init();
+    return enhancedDB.audioEffects.get(id);
+  }
+
+  async getAllAudioProfiles(): Promise<AudioProfileAssignment[]> {
+    await this.init();
+    return enhancedDB.audioProfiles.toArray();
+  }
+
+  /**
+   * Assignments for the given profile ids, in the same order, undefined where none exists
+   */
+  async getAudioProfiles(ids: string[]): Promise<Array<AudioProfileAssignment | undefined>> {
+    await this.init();
+    return enhancedDB.audioProfiles.bulkGet(ids);
+  }
+
+  /**
+   * Attach an EQ preset and/or effect settings to a scope; the effects are stored under the profile's id
+   */
+  async assignAudioProfile(
+    scope: AudioProfileScope,
+    key: string,
+    label: string,
+    settings: { equalizerPresetId?: string; effects?: Omit<AudioEffectSettings, 'id' | 'name'> }
+  ): Promise<AudioProfileAssignment> {
+    await this.init();
+    const id = audioProfileId(scope, key);
+    const assignment: AudioProfileAssignment = {
+      id,
+      scope,
+      key,
+      label,
+      equalizerPresetId: settings.equalizerPresetId,
+      effectsId: settings.effects ? id : undefined,
+      updatedAt: new Date()
+    };
+
+    await enhancedDB.transaction('rw', enhancedDB.audioProfiles, enhancedDB.audioEffects, async () => {
+      await enhancedDB.audioProfiles.put(assignment);
+      if (settings.effects) {
+        await enhancedDB.audioEffects.put({ ...settings.effects, id, name: label });
+      } else {
+        await enhancedDB.audioEffects.delete(id);
+      }
+    });
+    return assignment;
+  }
+
+  async removeAudioProfile(id: string): Promise<void> {
+    await this.init();
+    await enhancedDB.transaction('rw', enhancedDB.audioProfiles, enhancedDB.audioEffects, async () => {
+      await enhancedDB.audioProfiles.delete(id);
+      await enhancedDB.audioEffects.delete(id);
+    });
+  }
+
+  // Lyrics cache
+
+  async getCachedLyrics(key: string): Promise<LyricsCacheEntry | undefined> {
+    await this.init();
+    return enhancedDB.lyricsCache.get(key);
+  }
+
+  async cacheLyrics(key: string, candidates: LyricsCandidate[]): Promise<void> {
+    await this.init();
+    await enhancedDB.lyricsCache.put({ key, candidates, fetchedAt: new Date() });
+  }
+
+  async clearLyricsCache(): Promise<void> {
+    await this.init();
+    await enhancedDB.lyricsCache.clear();
+  }
+
+  // Artist and genre credits
+
+  /**
+   * Every artist and genre with the songs credited to them, for resolving credits in memory
+   */
+  async getCreditLookup(): Promise<CreditLookup> {
+    await this.init();
+    const [artists, genres, artistCredits, genreCredits] = await Promise.all([
+      enhancedDB.artists.toArray(),
+      enhancedDB.genres.toArray(),
+      enhancedDB.artistCredits.toArray(),
+      enhancedDB.genreCredits.toArray()
+    ]);
+    return new CreditLookup({ artists, genres, artistCredits, genreCredits });
+  }
+
+  async getCreditSplitting(): Promise<CreditSplittingSettings> {
+    await this.init();
+    return this.readCreditSplitting();
+  }
+
+  /**
+   * Store new splitting settings and split the whole library again with them
+   */
+  async updateCreditSplitting(settings: CreditSplittingSettings): Promise<void> {
+    await this.updatePreferences({ creditSplitting: settings });
+    await this.indexCreditsIfStale();
+  }
+
+  // Artwork
+
+  async getArtwork(hash: string): Promise<ArtworkRecord | undefined> {
+    await this.init();
+    return enhancedDB.artwork.get(hash);
+  }
+
+  /**
+   * Store a cover unless the same image is already stored; true when it was new
+   */
+  async saveArtwork(artwork: ArtworkRecord): Promise<boolean> {
+    await this.init();
+    return enhancedDB.transaction('rw', enhancedDB.artwork, async () => {
+      if (await enhancedDB.artwork.get(artwork.hash)) return false;
+      await enhancedDB.artwork.add(artwork);
+      return true;
+    });
+  }
+
+  async getArtworkThumbnail(hash: string, size: ArtworkThumbnailSize): Promise<ArtworkThumbnail | undefined> {
+    await this.init();
+    return enhancedDB.artworkThumbnails.get([hash, size]);
+  }
+
+  /**
+   * Store the thumbnails of a cover along with its measured dimensions
+   */
+  async saveArtworkThumbnails(hash: string, thumbnails: ArtworkThumbnail[], width: number, height: number): Promise<void> {
+    await this.init();
+    await enhancedDB.transaction('rw', enhancedDB.artwork, enhancedDB.artworkThumbnails, async () => {
+      // The cover may have been removed while its thumbnails were being made
+      if (!(await enhancedDB.artwork.get(hash))) return;
+      await enhancedDB.artwork.update(hash, { width, height });
+      await enhancedDB.artworkThumbnails.bulkPut(thumbnails);
+    });
+  }
+
+  async getAlbumPalette(albumKey: string): Promise<AlbumPalette | undefined> {
+    await this.init();
+    return enhancedDB.albumPalettes.get(albumKey);
+  }
+
+  async saveAlbumPalette(palette: AlbumPalette): Promise<void> {
+    await this.init();
+    await enhancedDB.albumPalettes.put(palette);
+  }
+
+  // Library folders
+
+  async getLibraryFolders(): Promise<LibraryFolder[]> {
+    await this.init();
+    return enhancedDB.libraryFolders.toArray();
+  }
+
+  /**
+   * Remember a chosen folder; choosing a folder already remembered returns the stored one
+   */
+  async saveLibraryFolder(handle: FileSystemDirectoryHandle): Promise<LibraryFolder> {
+    await this.init();
+    for (const folder of await enhancedDB.libraryFolders.toArray()) {
+      if (await folder.handle.isSameEntry(handle)) return folder;
+    }
+    const folder: LibraryFolder = {
+      id: `folder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: handle.name,
+      handle,
+      addedAt: new Date()
+    };
+    await enhancedDB.libraryFolders.add(folder);
+    return folder;
+  }
+
+  async updateLibraryFolder(id: string, changes: Partial<Omit<LibraryFolder, 'id'>>): Promise<void> {
+    await this.init();
+    await enhancedDB.libraryFolders.update(id, changes);
+  }
+
+  async getSongsInFolder(folderId: string): Promise<EnhancedSong[]> {
+    await this.init();
+    return enhancedDB.songs.where('folderId').equals(folderId).toArray();
+  }
+
+  async getSongsByFileHash(fileHash: string): Promise<EnhancedSong[]> {
+    await this.init();
+    return enhancedDB.songs.where('fileHash').equals(fileHash).toArray();
+  }
+
+  /**
+   * Point songs at where their files are now, or mark them missing, leaving their tags as they are
+   */
+  async updateSongLocations(locations: Array<Pick<EnhancedSong, 'id'> & SongLocation>): Promise<void> {
+    await this.init();
+    await enhancedDB.transaction('rw', enhancedDB.songs, async () => {
+      for (const { id, ...changes } of locations) {
+        await enhancedDB.songs.update(id, changes);
+      }
+    });
+  }
+
+  // Preferences
+
+  async getPreferences(): Promise<UserPreferences> {
+    await this.init();
+    const preferences = await enhancedDB.preferences.get(PREFERENCES_ID);
+    return { ...preferences, skipThreshold: preferences?.skipThreshold ?? DEFAULT_SKIP_THRESHOLD };
+  }
+
+  async updatePreferences(changes: Partial<UserPreferences>): Promise<void> {
+    await this.init();
+    const preferences = await this.getPreferences();
+    await enhancedDB.preferences.put({ ...preferences, ...changes, id: PREFERENCES_ID });
+  }
+
+  // Playback session
+
+  async getPlaybackSession(): Promise<PlaybackSession | undefined> {
+    await this.init();
+    return enhancedDB.playbackSession.get(PLAYBACK_SESSION_ID);
+  }
+
+  /**
+   * Save the session along with how far into its current track playback got, for auto-resume
+   */
+  async savePlaybackSession(session: Omit<PlaybackSession, 'id'>): Promise<void> {
+    await this.init();
+    const currentId = session.queuedTrackId ?? session.trackIds[session.queueIndex];
+    await enhancedDB.transaction('rw', [enhancedDB.playbackSession, enhancedDB.songs], async () => {
+      await enhancedDB.playbackSession.put({ ...session, id: PLAYBACK_SESSION_ID });
+      if (currentId) {
+        await enhancedDB.songs.update(currentId, { lastPosition: session.position });
+      }
+    });
+  }
+
+  // Stats
+
+  async getStats(): Promise<LibraryStats> {
+    await this.init();
+    const stats = await enhancedDB.stats.get(STATS_ID);
+    return stats ?? {
+      id: STATS_ID,
+      totalPlayTime: 0,
+      totalSongs: 0,
+      totalPlaylists: 0,
+      lastUpdated: new Date()
+    };
+  }
+
+  async updateStats(stats: Omit<LibraryStats, 'id'>): Promise<void> {
+    await this.init();
+    await enhancedDB.stats.put({ ...stats, id: STATS_ID });
+  }
+
+  /**
+   * Remove songs and their stored copies, playlists, stats, analyses, history and the playback session; presets, profiles and preferences are kept
+   */
+  async clearAll(): Promise<void> {
+    await this.init();
+    await enhancedDB.transaction('rw', [enhancedDB.songs, enhancedDB.playlists, enhancedDB.stats, enhancedDB.audioAnalysis, enhancedDB.playEvents, enhancedDB.playbackSession, ...this.creditTables(), ...this.artworkTables()], async () => {
+      await Promise.all([
+        ...this.creditTables().map(table => table.clear()),
+        ...this.artworkTables().map(table => table.clear()),
+        enhancedDB.songs.clear(),
+        enhancedDB.playlists.clear(),
+        enhancedDB.stats.clear(),
+        enhancedDB.audioAnalysis.clear(),
+        enhancedDB.playEvents.clear(),
+        enhancedDB.playbackSession.clear()
+      ]);
+    });
+
+    if (isOpfsAvailable()) {
+      await removeAllLibraryCopies().catch(error => console.warn('Could not remove stored copies:', error));
+    }
+  }
+
+  private creditTables() {
+    return [enhancedDB.artists, enhancedDB.genres, enhancedDB.artistCredits, enhancedDB.genreCredits];
+  }
+
+  private artworkTables() {
+    return [enhancedDB.artwork, enhancedDB.artworkThumbnails, enhancedDB.albumPalettes];
+  }
+
+  /**
+   * Remove a cover and its thumbnails once no song shows it. Runs inside the caller's transaction.
+   */
+  private async pruneArtwork(hash: string): Promise<void> {
+    if ((await enhancedDB.songs.where('artworkHash').equals(hash).count()) > 0) return;
+    await enhancedDB.artwork.delete(hash);
+    await enhancedDB.artworkThumbnails.where('hash').equals(hash).delete();
+  }
+
+  /**
+   * Read directly, as this also runs while the repository is still initializing
+   */
+  private async readCreditSplitting(): Promise<CreditSplittingSettings> {
+    const preferences = await enhancedDB.preferences.get(PREFERENCES_ID);
+    return preferences?.creditSplitting ?? DEFAULT_CREDIT_SPLITTING;
+  }
+
+  /**
+   * Replace the credits of the given songs, then drop artists and genres no song is credited with
+   * any more. Songs passed as bare ids lose all their credits. Runs inside the caller's transaction.
+   */
+  private async indexCredits(songs: Array<EnhancedSong | { id: string }>, splitting = DEFAULT_CREDIT_SPLITTING): Promise<void> {
+    const songIds = songs.map(song => song.id);
+    const previousArtists = await enhancedDB.artistCredits.where('songId').anyOf(songIds).toArray();
+    const previousGenres = await enhancedDB.genreCredits.where('songId').anyOf(songIds).toArray();
+    await enhancedDB.artistCredits.where('songId').anyOf(songIds).delete();
+    await enhancedDB.genreCredits.where('songId').anyOf(songIds).delete();
+
+    const artists = new Map<string, CreditEntity>();
+    const genres = new Map<string, CreditEntity>();
+    const artistCredits: ArtistCredit[] = [];
+    const genreCredits: GenreCredit[] = [];
+
+    songs.forEach(song => {
+      if (!('title' in song)) return;
+      const credits = getSongCredits(song, splitting);
+      credits.artists.forEach(({ name, role }, position) => {
+        const artistId = normalizeCreditName(name);
+        if (!artists.has(artistId)) artists.set(artistId, { id: artistId, name });
+        artistCredits.push({ songId: song.id, artistId, role, position });
+      });
+      credits.genres.forEach((name, position) => {
+        const genreId = normalizeCreditName(name);
+        if (!genres.has(genreId)) genres.set(genreId, { id: genreId, name });
+        genreCredits.push({ songId: song.id, genreId, position });
+      });
+    });
+
+    // Entities already stored keep the spelling they were first seen with
+    const storedArtists = new Set(await enhancedDB.artists.where('id').anyOf([...artists.keys()]).primaryKeys());
+    const storedGenres = new Set(await enhancedDB.genres.where('id').anyOf([...genres.keys()]).primaryKeys());
+    await enhancedDB.artists.bulkAdd([...artists.values()].filter(artist => !storedArtists.has(artist.id)));
+    await enhancedDB.genres.bulkAdd([...genres.values()].filter(genre => !storedGenres.has(genre.id)));
+    await enhancedDB.artistCredits.bulkPut(artistCredits);
+    await enhancedDB.genreCredits.bulkPut(genreCredits);
+
+    for (const artistId of new Set(previousArtists.map(credit => credit.artistId))) {
+      if ((await enhancedDB.artistCredits.where('artistId').equals(artistId).count()) === 0) {
+        await enhancedDB.artists.delete(artistId);
+      }
+    }
+    for (const genreId of new Set(previousGenres.map(credit => credit.genreId))) {
+      if ((await enhancedDB.genreCredits.where('genreId').equals(genreId).count()) === 0) {
+        await enhancedDB.genres.delete(genreId);
+      }
+    }
+  }
+
+  /**
+   * Split the whole library again when it was last split with other settings, or never
+   */
+  private async indexCreditsIfStale(): Promise<void> {
+    const splitting = await this.readCreditSplitting();
+    const fingerprint = JSON.stringify(splitting);
+    const indexed = await enhancedDB.meta.get(CREDIT_SPLITTING_KEY);
+    if (indexed?.value === fingerprint) return;
+
+    await enhancedDB.transaction('rw', [enhancedDB.songs, enhancedDB.meta, ...this.creditTables()], async () => {
+      await Promise.all(this.creditTables().map(table => table.clear()));
+      await this.indexCredits(await enhancedDB.songs.toArray(), splitting);
+      await enhancedDB.meta.put({ key: CREDIT_SPLITTING_KEY, value: fingerprint });
+    });
+  }
+
+  private normalizeSong(song: NewSong): EnhancedSong {
+    return {
+      ...song,
+      format: song.format ?? enhancedDB.detectAudioFormat(song.filePath || song.title),
+      fileHash: song.fileHash ?? '',
+      bookmarks: song.bookmarks ?? [],
+      customTags: song.customTags ?? {}
+    };
+  }
+
+  private normalizePlaylist(playlist: NewPlaylist): EnhancedPlaylist {
+    return {
+      ...playlist,
+      id: playlist.id ?? `playlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: playlist.createdAt ?? new Date(),
+      lastModified: playlist.lastModified ?? new Date(),
+      isSmartPlaylist: playlist.isSmartPlaylist ?? false,
+      sortOrder: playlist.sortOrder ?? PlaylistSortOrder.MANUAL,
+      playCount: playlist.playCount ?? 0
+    };
+  }
+
+  /**
+   * Copy songs, playlists and stats from the old raw IndexedDB store.
+   * The legacy database is left in place so nothing is lost if this fails midway.
+   */
+  private async migrateLegacyDatabase(): Promise<void> {
+    const done = await enhancedDB.meta.get(LEGACY_MIGRATION_KEY);
+    if (done) return;
+
+    const legacy = await this.readLegacyDatabase();
+    if (legacy) {
+      const songs = legacy.songs.map(song => this.normalizeSong(song));
+      const playlists = legacy.playlists.map(({ songs: songIds, trackIds, dateCreated, ...playlist }) =>
+        this.normalizePlaylist({
+          ...playlist,
+          trackIds: trackIds ?? songIds ?? [],
+          createdAt: playlist.createdAt ?? dateCreated,
+          isSmartPlaylist: Boolean(playlist.isSmartPlaylist)
+        })
+      );
+
+      await enhancedDB.transaction('rw', [enhancedDB.songs, enhancedDB.playlists, enhancedDB.stats], async () => {
+        // Rows already in the new store win over legacy copies
+        const existingSongs = new Set(await enhancedDB.songs.toCollection().primaryKeys());
+        const existingPlaylists = new Set(await enhancedDB.playlists.toCollection().primaryKeys());
+        await enhancedDB.songs.bulkAdd(songs.filter(song => !existingSongs.has(song.id)));
+        await enhancedDB.playlists.bulkAdd(playlists.filter(playlist => !existingPlaylists.has(playlist.id)));
+
+        if (legacy.stats && !(await enhancedDB.stats.get(STATS_ID))) {
+          await enhancedDB.stats.put({ ...legacy.stats, id: STATS_ID });
+        }
+      });
+    }
+
+    await enhancedDB.meta.put({ key: LEGACY_MIGRATION_KEY, value: new Date() });
+  }
+
+  /**
+   * Turn the old localStorage play history into play events
+   */
+  private async migrateLegacyHistory(): Promise<void> {
+    const done = await enhancedDB.meta.get(LEGACY_HISTORY_MIGRATION_KEY);
+    if (done) return;
+
+    const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (stored) {
+      try {
+        const entries: LegacyHistoryEntry[] = JSON.parse(stored);
+        const events: PlayEvent[] = entries.map(entry => {
+          const startedAt = new Date(entry.playedAt);
+          return {
+            trackId: entry.trackId,
+            startedAt,
+            endedAt: new Date(startedAt.getTime() + entry.duration * 1000),
+            positionListened: entry.duration,
+            trackDuration: entry.duration,
+            completed: entry.completed,
+            skipped: false,
+            source: PlaybackSource.UNKNOWN
+          };
+        });
+        await enhancedDB.playEvents.bulkAdd(events);
+        localStorage.removeItem(LEGACY_HISTORY_KEY);
+      } catch (error) {
+        console.warn('Could not migrate legacy play history:', error);
+      }
+    }
+
+    await enhancedDB.meta.put({ key: LEGACY_HISTORY_MIGRATION_KEY, value: new Date() });
+  }
+
+  /**
+   * Lyrics the lyrics viewer kept in localStorage under lyrics_<track id>
+   */
+  private async migrateLegacyLyrics(): Promise<void> {
+    const done = await enhancedDB.meta.get(LEGACY_LYRICS_MIGRATION_KEY);
+    if (done) return;
+
+    const keys = Object.keys(localStorage).filter(key => key.startsWith(LEGACY_LYRICS_PREFIX));
+    for (const key of keys) {
+      try {
+        const song = await enhancedDB.songs.get(key.slice(LEGACY_LYRICS_PREFIX.length));
+        // Other lyrics_ keys are the online lyrics cache, keyed by artist and title
+        if (!song) continue;
+
+        const entry: LegacyLyricsEntry = JSON.parse(localStorage.getItem(key) ?? '{}');
+        const lyrics = entry.synced && entry.lines?.length
+          ? serializeLrc({ metadata: {}, lines: entry.lines, synced: true })
+          : entry.text;
+        if (lyrics && !song.lyrics) {
+          await enhancedDB.songs.update(song.id, { lyrics });
+        }
+        localStorage.removeItem(key);
+      } catch (error) {
+        console.warn(`Could not migrate lyrics from ${key}:`, error);
+      }
+    }
+
+    await enhancedDB.meta.put({ key: LEGACY_LYRICS_MIGRATION_KEY, value: new Date() });
+  }
+
+  private readLegacyDatabase(): Promise<LegacyData | null> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(LEGACY_DB_NAME);
+
+      // No legacy database: abort so opening does not create an empty one
+      request.onupgradeneeded = () => request.transaction?.abort();
+      request.onerror = () => {
+        if (request.error?.name === 'AbortError') {
+          resolve(null);
+        } else {
+          reject(request.error);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        const storeNames = ['songs', 'playlists', 'stats'].filter(name => db.objectStoreNames.contains(name));
+        if (storeNames.length === 0) {
+          db.close();
+          resolve(null);
+          return;
+        }
+
+        const transaction = db.transaction(storeNames, 'readonly');
+        const result: LegacyData = { songs: [], playlists: [] };
+
+        const readAll = <T>(name: string, assign: (rows: T[]) => void) => {
+          if (!storeNames.includes(name)) return;
+          const getAll = transaction.objectStore(name).getAll();
+          getAll.onsuccess = () => assign(getAll.result);
+        };
+
+        readAll<NewSong>('songs', rows => { result.songs = rows; });
+        readAll<LegacyPlaylist>('playlists', rows => { result.playlists = rows; });
+        readAll<LibraryStats>('stats', rows => { result.stats = rows.find(row => row.id === STATS_ID); });
+
+        transaction.oncomplete = () => {
+          db.close();
+          resolve(result);
+        };
+        transaction.onerror = () => {
+          db.close();
+          reject(transaction.error);
+        };
+      };
+    });
+  }
+}
+
+/**
+ * Playlist shape written by the legacy store, where `songs` was the primary field
+ */
+interface LegacyPlaylist extends Omit<NewPlaylist, 'trackIds'> {
+  songs?: string[];
+  trackIds?: string[];
+  dateCreated?: Date;
+}
+
+interface LegacyHistoryEntry {
+  trackId: string;
+  playedAt: string;
+  duration: number;
+  completed: boolean;
+}
+
+interface LegacyLyricsEntry {
+  synced?: boolean;
+  lines?: Array<{ time: number; text: string }>;
+  text?: string;
+}
+
+interface LegacyData {
+  songs: NewSong[];
+  playlists: LegacyPlaylist[];
+  stats?: LibraryStats;
+}
+
+export const libraryRepository = new LibraryRepository();
@@ -0,0 +1,310 @@
+import {
+  startOfDay,
+  startOfWeek,
+  startOfMonth,
+  addDays,
+  addWeeks,
+  addMonths,
+  subDays,
+  subWeeks,
+  subMonths,
+  format
+} from 'date-fns';
+import { libraryRepository, isCountedPlay } from './libraryRepository';
+import { PlaybackSource, type EnhancedSong, type PlayEvent } from './enhancedDatabase';
+import type { CreditLookup } from './library/credits';
+
+export interface PlaybackContext {
+  source: PlaybackSource;
+  sourceId?: string;
+}
+
+export type SessionOutcome = 'completed' | 'skipped' | 'stopped';
+
+export type ListeningPeriod = 'day' | 'week' | 'month';
+
+export interface ListeningBucket {
+  label: string;
+  start: Date;
+  end: Date;
+  seconds: number;
+  plays: number;
+}
+
+export interface RankedEntry {
+  name: string;
+  plays: number;
+  seconds: number;
+}
+
+export interface ListeningSummary {
+  totalSeconds: number;
+  plays: number;
+  sessions: number;
+  averageSessionSeconds: number;
+  topTracks: Array<{ trackId: string; plays: number; seconds: number }>;
+  topArtists: RankedEntry[];
+  topGenres: RankedEntry[];
+}
+
+interface ActiveSession {
+  trackId: string;
+  trackDuration: number;
+  startedAt: Date;
+  listened: number;
+  lastPosition: number;
+  context: PlaybackContext;
+}
+
+/**
+ * Gaps between plays longer than this start a new listening session
+ */
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * Position jumps larger than this are seeks, not listening time
+ */
+const MAX_POSITION_STEP = 2;
+
+/**
+ * A track counts as often skipped once it has this many skips making up at least this share of its plays
+ */
+const OFTEN_SKIPPED_MIN_SKIPS = 2;
+const OFTEN_SKIPPED_RATIO = 0.5;
+
+/**
+ * Share of finished listens that were skips; 0 for tracks without history
+ */
+export const getSkipRatio = (track: { playCount: number; skipCount?: number }): number => {
+  const skips = track.skipCount ?? 0;
+  const total = skips + track.playCount;
+  return total > 0 ? skips / total : 0;
+};
+
+export const isOftenSkipped = (track: { playCount: number; skipCount?: number }): boolean =>
+  (track.skipCount ?? 0) >= OFTEN_SKIPPED_MIN_SKIPS && getSkipRatio(track) >= OFTEN_SKIPPED_RATIO;
+
+const BUCKET_FORMATS: Record<ListeningPeriod, string> = {
+  day: 'MMM dd',
+  week: 'MMM dd',
+  month: 'MMM yyyy'
+};
+
+/**
+ * Tracks the play in progress and appends it to the history when it ends.
+ * Listened time is accumulated from position updates, so seeking does not
+ * inflate it and pausing does not count.
+ */
+class ListeningHistoryService {
+  private session?: ActiveSession;
+  private callbacks = new Set<(event: PlayEvent, song?: EnhancedSong) => void>();
+
+  startSession(track: { id: string; duration: number }, context: PlaybackContext = { source: PlaybackSource.UNKNOWN }): void {
+    this.session = {
+      trackId: track.id,
+      trackDuration: track.duration,
+      startedAt: new Date(),
+      listened: 0,
+      lastPosition: 0,
+      context
+    };
+  }
+
+  /**
+   * Feed the current playback position; only small forward steps count as listening
+   */
+  updatePosition(position: number, duration?: number): void {
+    const session = this.session;
+    if (!session) return;
+
+    const step = position - session.lastPosition;
+    if (step > 0 && step <= MAX_POSITION_STEP) {
+      session.listened += step;
+    }
+    session.lastPosition = position;
+
+    if (duration && isFinite(duration)) {
+      session.trackDuration = duration;
+    }
+  }
+
+  getActiveTrackId(): string | undefined {
+    return this.session?.trackId;
+  }
+
+  /**
+   * Close the current session and persist it; sessions with no listening time are dropped unless they were skipped.
+   * Moving on counts as a skip only before the configured share of the track has played.
+   */
+  async endSession(outcome: SessionOutcome): Promise<void> {
+    const session = this.session;
+    this.session = undefined;
+    if (!session) return;
+
+    try {
+      let skipped = false;
+      if (outcome === 'skipped' && session.trackDuration > 0) {
+        const { skipThreshold } = await libraryRepository.getPreferences();
+        skipped = session.lastPosition / session.trackDuration < skipThreshold;
+      }
+      // Moving on straight away is the clearest skip of all, so it is logged with nothing heard
+      if (session.listened <= 0 && !skipped && outcome !== 'completed') return;
+
+      const event: PlayEvent = {
+        trackId: session.trackId,
+        startedAt: session.startedAt,
+        endedAt: new Date(),
+        positionListened: Math.round(session.listened * 10) / 10,
+        trackDuration: session.trackDuration,
+        completed: outcome === 'completed',
+        skipped,
+        source: session.context.source,
+        sourceId: session.context.sourceId
+      };
+
+      const song = await libraryRepository.logPlayEvent(event);
+      this.callbacks.forEach(callback => callback(event, song));
+    } catch (error) {
+      console.error('Failed to record play event:', error);
+    }
+  }
+
+  onPlayLogged(callback: (event: PlayEvent, song?: EnhancedSong) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  /**
+   * Listening time and counted plays for the last `count` periods, oldest first
+   */
+  bucketEvents(events: PlayEvent[], period: ListeningPeriod, count: number, now: Date = new Date()): ListeningBucket[] {
+    const buckets: ListeningBucket[] = [];
+    for (let i = count - 1; i >= 0; i--) {
+      const start = periodStart(period, now, i);
+      const end = periodEnd(period, start);
+      buckets.push({ label: format(start, BUCKET_FORMATS[period]), start, end, seconds: 0, plays: 0 });
+    }
+
+    events.forEach(event => {
+      const time = new Date(event.startedAt).getTime();
+      const bucket = buckets.find(b => time >= b.start.getTime() && time < b.end.getTime());
+      if (!bucket) return;
+
+      bucket.seconds += event.positionListened;
+      if (isCountedPlay(event)) bucket.plays++;
+    });
+
+    return buckets;
+  }
+
+  /**
+   * Totals, sessions and rankings for a set of events. With credits, a play counts towards
+   * every artist and genre of the song instead of its raw tag values.
+   */
+  summarize(events: PlayEvent[], songs: EnhancedSong[], credits?: CreditLookup): ListeningSummary {
+    const songsById = new Map(songs.map(song => [song.id, song]));
+    const tracks = new Map<string, { trackId: string; plays: number; seconds: number }>();
+    const artists = new Map<string, RankedEntry>();
+    const genres = new Map<string, RankedEntry>();
+    let totalSeconds = 0;
+    let plays = 0;
+
+    const addTo = (map: Map<string, RankedEntry>, names: string[], counted: boolean, seconds: number) => {
+      names.forEach(name => {
+        const entry = map.get(name) ?? { name, plays: 0, seconds: 0 };
+        if (counted) entry.plays++;
+        entry.seconds += seconds;
+        map.set(name, entry);
+      });
+    };
+    const namesOf = (entities: Array<{ name: string }> | undefined, fallback: string) =>
+      entities?.length ? entities.map(entity => entity.name) : [fallback];
+
+    events.forEach(event => {
+      const counted = isCountedPlay(event);
+      totalSeconds += event.positionListened;
+      if (counted) plays++;
+
+      const track = tracks.get(event.trackId) ?? { trackId: event.trackId, plays: 0, seconds: 0 };
+      if (counted) track.plays++;
+      track.seconds += event.positionListened;
+      tracks.set(event.trackId, track);
+
+      const song = songsById.get(event.trackId);
+      const songArtists = credits ? namesOf(credits.getSongArtists(event.trackId), 'Unknown Artist') : [song?.artist || 'Unknown Artist'];
+      const songGenres = credits ? namesOf(credits.getSongGenres(event.trackId), 'Unknown') : [song?.genre || 'Unknown'];
+      addTo(artists, songArtists, counted, event.positionListened);
+      addTo(genres, songGenres, counted, event.positionListened);
+    });
+
+    const rank = <T extends { plays: number; seconds: number }>(entries: Iterable<T>) =>
+      Array.from(entries).sort((a, b) => b.plays - a.plays || b.seconds - a.seconds);
+
+    const sessions = this.countSessions(events);
+
+    return {
+      totalSeconds,
+      plays,
+      sessions,
+      averageSessionSeconds: sessions > 0 ? totalSeconds / sessions : 0,
+      topTracks: rank(tracks.values()),
+      topArtists: rank(artists.values()),
+      topGenres: rank(genres.values())
+    };
+  }
+
+  /**
+   * Consecutive days with listening, ending today or yesterday
+   */
+  calculateStreak(events: PlayEvent[], now: Date = new Date()): number {
+    const days = new Set(events.map(event => startOfDay(new Date(event.startedAt)).getTime()));
+    let cursor = startOfDay(now);
+    if (!days.has(cursor.getTime())) {
+      cursor = subDays(cursor, 1);
+    }
+
+    let streak = 0;
+    while (days.has(cursor.getTime())) {
+      streak++;
+      cursor = subDays(cursor, 1);
+    }
+    return streak;
+  }
+
+  private countSessions(events: PlayEvent[]): number {
+    const sorted = [...events].sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+    let sessions = 0;
+    let lastEnd = -Infinity;
+
+    sorted.forEach(event => {
+      if (new Date(event.startedAt).getTime() - lastEnd > SESSION_GAP_MS) sessions++;
+      lastEnd = Math.max(lastEnd, new Date(event.endedAt).getTime());
+    });
+
+    return sessions;
+  }
+}
+
+function periodStart(period: ListeningPeriod, now: Date, offset: number): Date {
+  switch (period) {
+    case 'day':
+      return startOfDay(subDays(now, offset));
+    case 'week':
+      return startOfWeek(subWeeks(now, offset));
+    case 'month':
+      return startOfMonth(subMonths(now, offset));
+  }
+}
+
+function periodEnd(period: ListeningPeriod, start: Date): Date {
+  switch (period) {
+    case 'day':
+      return addDays(start, 1);
+    case 'week':
+      return addWeeks(start, 1);
+    case 'month':
+      return addMonths(start, 1);
+  }
+}
+
+export const listeningHistoryService = new ListeningHistoryService();
@@ -0,0 +1,105 @@
+/**
+ * Lyrics embedded in audio file tags.
+ *
+ * jsmediatags skips SYLT frames and Vorbis comments other than the basic fields, so
+ * lyrics come from the raw tags: ID3v2.2-2.4 USLT/SYLT frames at the start of MP3
+ * files, and LYRICS/UNSYNCEDLYRICS Vorbis comments in FLAC, Ogg Vorbis and Opus files.
+ * Synchronised lyrics are returned as LRC text, everything else as plain text.
+ */
+import { parseLrc, serializeLrc, type LrcLine } from './lrc';
+import { decodeId3Text, readTerminated, uint32BE } from '../tags/binary';
+import { readId3Frames, readVorbisTags } from '../tags/tagReader';
+
+const SYLT_TIMESTAMP_MILLISECONDS = 2;
+
+interface Id3Lyrics {
+  synced?: string;
+  unsynced?: string;
+}
+
+function parseUslt(frame: Uint8Array): string | undefined {
+  const encoding = frame[0];
+  // Encoding, three-letter language, then a terminated content descriptor
+  const { next } = readTerminated(frame, 4, encoding);
+  const text = decodeId3Text(frame.subarray(next), encoding).replace(/\0+$/, '');
+  return text.trim() ? text : undefined;
+}
+
+/**
+ * Convert a SYLT frame to LRC. Taggers write either one entry per line, or one per
+ * syllable with a leading line break where each new line starts; the latter becomes
+ * enhanced LRC with word timings.
+ */
+function parseSylt(frame: Uint8Array): string | undefined {
+  const encoding = frame[0];
+  const timestampFormat = frame[4];
+  // Timestamps in MPEG frames would need the stream's frame rate
+  if (timestampFormat !== SYLT_TIMESTAMP_MILLISECONDS) return undefined;
+
+  let offset = readTerminated(frame, 6, encoding).next;
+  const entries: Array<{ time: number; text: string }> = [];
+  while (offset < frame.length) {
+    const { text, next } = readTerminated(frame, offset, encoding);
+    if (next + 4 > frame.length) break;
+    entries.push({ time: uint32BE(frame, next) / 1000, text });
+    offset = next + 4;
+  }
+  if (!entries.some(entry => entry.text.trim())) return undefined;
+
+  const lines: LrcLine[] = [];
+  const syllables = entries.slice(1).some(entry => /^[\r\n]/.test(entry.text));
+  if (syllables) {
+    entries.forEach((entry, index) => {
+      const text = entry.text.replace(/^[\r\n]+/, '');
+      if (index === 0 || text !== entry.text) {
+        lines.push({ time: entry.time, text: '', words: [] });
+      }
+      const line = lines[lines.length - 1];
+      if (text) line.words!.push({ time: entry.time, text });
+    });
+    lines.forEach(line => {
+      line.text = line.words!.map(word => word.text).join('').trim();
+      if (line.words!.length <= 1) delete line.words;
+    });
+  } else {
+    entries.forEach(entry => lines.push({ time: entry.time, text: entry.text.trim() }));
+  }
+
+  return serializeLrc({ metadata: {}, lines: lines.sort((a, b) => a.time - b.time), synced: true });
+}
+
+/**
+ * Lyrics frames of an ID3v2 tag at the start of a file
+ */
+async function readId3Lyrics(file: Blob): Promise<Id3Lyrics | undefined> {
+  const frames = await readId3Frames(file);
+  if (!frames) return undefined;
+
+  const result: Id3Lyrics = {};
+  for (const frame of frames) {
+    if (frame.id === 'SYLT' && !result.synced) {
+      result.synced = parseSylt(frame.data);
+    } else if (frame.id === 'USLT' && !result.unsynced) {
+      result.unsynced = parseUslt(frame.data);
+    }
+  }
+  return result;
+}
+
+/**
+ * Embedded lyrics of an MP3, FLAC, Ogg Vorbis or Opus file, preferring synchronised
+ * lyrics; undefined for other formats or files without lyrics
+ */
+export async function readEmbeddedLyrics(file: Blob): Promise<string | undefined> {
+  const id3Lyrics = await readId3Lyrics(file);
+  if (id3Lyrics) return id3Lyrics.synced ?? id3Lyrics.unsynced;
+
+  const comments = (await readVorbisTags(file))?.comments;
+  if (!comments) return undefined;
+
+  // LYRICS often holds LRC text; UNSYNCEDLYRICS is plain by definition
+  const lyrics = comments.LYRICS?.find(value => value.trim());
+  const unsynced = comments.UNSYNCEDLYRICS?.find(value => value.trim());
+  if (lyrics && parseLrc(lyrics).synced) return lyrics;
+  return lyrics ?? unsynced;
+}
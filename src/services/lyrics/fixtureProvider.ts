@@ -0,0 +1,78 @@
+/**
+ * A local test double for LRCLIB. It answers LRCLIB's search requests from the records below
+ * instead of the network, so lookups, fallback and the candidate picker can be tried offline.
+ * Only registered in development builds, and off until enabled under lyrics sources.
+ */
+import { lrclibProvider, type LyricsProvider } from './providers';
+
+interface FixtureRecord {
+  id: number;
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  duration?: number;
+  plainLyrics?: string;
+  syncedLyrics?: string;
+}
+
+const FIXTURES: FixtureRecord[] = [
+  {
+    id: 1,
+    trackName: 'Test Signal',
+    artistName: 'The Fixtures',
+    albumName: 'Local Doubles',
+    duration: 30,
+    syncedLyrics: [
+      '[00:01.00]Every line here has a time',
+      '[00:05.00]So the viewer can follow along',
+      '[00:09.00]Hello <00:09.50>word <00:10.00>by <00:10.50>word',
+      '[00:14.00]'
+    ].join('\n'),
+    plainLyrics: 'Every line here has a time\nSo the viewer can follow along\nHello word by word'
+  },
+  {
+    id: 2,
+    trackName: 'Test Signal',
+    artistName: 'The Fixtures',
+    albumName: 'Local Doubles (Live)',
+    duration: 42,
+    plainLyrics: 'An unsynced take of the same song,\nto pick between candidates'
+  },
+  {
+    id: 3,
+    trackName: 'Plain Words',
+    artistName: 'The Fixtures',
+    duration: 20,
+    plainLyrics: 'No timestamps at all'
+  }
+];
+
+const matches = (value: string, wanted: string | null) =>
+  !wanted || value.toLowerCase().includes(wanted.toLowerCase());
+
+/**
+ * LRCLIB's api/search, answered from FIXTURES
+ */
+function searchFixtures(url: string): FixtureRecord[] {
+  const params = new URL(url).searchParams;
+  return FIXTURES.filter(record =>
+    matches(record.trackName, params.get('track_name')) &&
+    matches(record.artistName, params.get('artist_name'))
+  );
+}
+
+export const fixtureLyricsProvider: LyricsProvider = {
+  id: 'fixtures',
+  name: 'Test fixtures',
+  requiresApiKey: false,
+  defaults: { enabled: false, baseUrl: 'http://lyrics-fixtures.invalid', timeoutMs: 1000, minIntervalMs: 0 },
+
+  async search(query, { settings }) {
+    // LRCLIB's own request and parsing code runs against the fixtures
+    const candidates = await lrclibProvider.search(query, {
+      settings,
+      fetchJson: async url => searchFixtures(url)
+    });
+    return candidates.map(candidate => ({ ...candidate, providerId: 'fixtures' }));
+  }
+};
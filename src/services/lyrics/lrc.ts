@@ -0,0 +1,222 @@
+/**
+ * LRC lyrics parsing and serialization.
+ *
+ * Supports several timestamps per line ([00:12.00][01:30.50]Chorus), [offset:] in
+ * milliseconds, metadata tags such as [ti:] and [ar:], two or three digit
+ * fractions and enhanced word timings (<00:12.00>Some <00:12.40>words).
+ * Text without any timestamps parses as unsynced lyrics.
+ */
+
+export interface LrcWord {
+  time: number; // Seconds, offset applied
+  text: string; // Includes the whitespace that follows the word
+}
+
+export interface LrcLine {
+  time: number; // Seconds, offset applied; 0 for unsynced lyrics
+  text: string;
+  words?: LrcWord[];
+  end?: number; // When the last word ends, from a trailing word tag
+}
+
+export interface LrcDocument {
+  metadata: Record<string, string>; // Tag name (lower case) to value, e.g. ti, ar, al, by
+  offset: number; // Milliseconds from [offset:], already applied to every time
+  lines: LrcLine[];
+  synced: boolean;
+}
+
+export interface LrcSerializeOptions {
+  precision?: 'centiseconds' | 'milliseconds';
+  includeWords?: boolean;
+}
+
+const TIME_TAG = /^\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+const METADATA_TAG = /^\[([a-zA-Z#]+):([^\]]*)\]\s*$/;
+const WORD_TAG = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+
+// Written in this order ahead of any other tags
+const METADATA_ORDER = ['ti', 'ar', 'al', 'au', 'by', 'length', 're', 've'];
+
+function tagToSeconds(minutes: string, seconds: string, fraction?: string): number {
+  // A fraction's value depends on its digit count: .5 = 500 ms, .05 = 50 ms, .005 = 5 ms
+  const fractionSeconds = fraction ? parseInt(fraction, 10) / Math.pow(10, fraction.length) : 0;
+  return parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + fractionSeconds;
+}
+
+/**
+ * Parse LRC or plain text lyrics
+ */
+export function parseLrc(content: string): LrcDocument {
+  const metadata: Record<string, string> = {};
+  const timed: Array<{ time: number; text: string; words?: LrcWord[]; end?: number; order: number }> = [];
+  const plain: string[] = [];
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+
+    const meta = line.match(METADATA_TAG);
+    if (meta && !TIME_TAG.test(line)) {
+      metadata[meta[1].toLowerCase()] = meta[2].trim();
+      return;
+    }
+
+    const times: number[] = [];
+    let rest = line;
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(TIME_TAG))) {
+      times.push(tagToSeconds(match[1], match[2], match[3]));
+      rest = rest.slice(match[0].length);
+    }
+
+    if (times.length === 0) {
+      plain.push(line);
+      return;
+    }
+
+    const { text, words, end } = parseWords(rest, times[0]);
+    times.forEach(time => {
+      // Word times are relative to the first timestamp; repeats of the line shift them along
+      const shift = time - times[0];
+      timed.push({
+        time,
+        text,
+        words: words?.map(word => ({ time: word.time + shift, text: word.text })),
+        end: end !== undefined ? end + shift : undefined,
+        order: timed.length
+      });
+    });
+  });
+
+  const offset = parseFloat(metadata.offset ?? '0') || 0;
+  delete metadata.offset;
+
+  if (timed.length === 0) {
+    // Unsynced: keep the text as written, without leading and trailing blank lines
+    while (plain.length > 0 && !plain[0]) plain.shift();
+    while (plain.length > 0 && !plain[plain.length - 1]) plain.pop();
+    return { metadata, offset, lines: plain.map(text => ({ time: 0, text })), synced: false };
+  }
+
+  // A positive offset makes lyrics appear sooner
+  const shift = (time: number) => Math.max(0, time - offset / 1000);
+  const lines = timed
+    .sort((a, b) => a.time - b.time || a.order - b.order)
+    .map(({ time, text, words, end }) => ({
+      time: shift(time),
+      text,
+      ...(words && { words: words.map(word => ({ time: shift(word.time), text: word.text })) }),
+      ...(end !== undefined && { end: shift(end) })
+    }));
+
+  return { metadata, offset, lines, synced: true };
+}
+
+/**
+ * Split enhanced-LRC line text into timed words; plain text returns no words.
+ * Text before the first word tag starts with the line itself, at lineTime.
+ */
+function parseWords(text: string, lineTime: number): { text: string; words?: LrcWord[]; end?: number } {
+  const tags = Array.from(text.matchAll(WORD_TAG));
+  if (tags.length === 0) return { text: text.trim() };
+
+  const words: LrcWord[] = [];
+  const leading = text.slice(0, tags[0].index);
+  if (leading.trim()) {
+    words.push({ time: lineTime, text: leading });
+  }
+  let end: number | undefined;
+  tags.forEach((tag, index) => {
+    const start = tag.index! + tag[0].length;
+    const stop = index + 1 < tags.length ? tags[index + 1].index! : text.length;
+    const wordText = text.slice(start, stop);
+    const time = tagToSeconds(tag[1], tag[2], tag[3]);
+    if (wordText.trim()) {
+      words.push({ time, text: wordText });
+    } else if (index === tags.length - 1) {
+      // A trailing tag with no text marks when the last word ends
+      end = time;
+    }
+  });
+
+  return {
+    text: words.map(word => word.text).join('').trim(),
+    words: words.length > 0 ? words : undefined,
+    end: words.length > 0 ? end : undefined
+  };
+}
+
+/**
+ * Format seconds as an LRC timestamp body, e.g. 01:02.34
+ */
+export function formatLrcTimestamp(seconds: number, precision: LrcSerializeOptions['precision'] = 'centiseconds'): string {
+  const scale = precision === 'milliseconds' ? 1000 : 100;
+  const total = Math.round(Math.max(0, seconds) * scale);
+  const minutes = Math.floor(total / (60 * scale));
+  const wholeSeconds = Math.floor(total / scale) % 60;
+  const fraction = total % scale;
+  return `${minutes.toString().padStart(2, '0')}:${wholeSeconds.toString().padStart(2, '0')}.${fraction.toString().padStart(precision === 'milliseconds' ? 3 : 2, '0')}`;
+}
+
+/**
+ * Write a document back to LRC. Times are written with the offset already applied, so no [offset:] tag is emitted.
+ */
+export function serializeLrc(document: Pick<LrcDocument, 'metadata' | 'lines' | 'synced'>, options: LrcSerializeOptions = {}): string {
+  const { precision = 'centiseconds', includeWords = true } = options;
+  const output: string[] = [];
+
+  const keys = Object.keys(document.metadata).filter(key => key !== 'offset');
+  keys.sort((a, b) => {
+    const rank = (key: string) => (METADATA_ORDER.includes(key) ? METADATA_ORDER.indexOf(key) : METADATA_ORDER.length);
+    return rank(a) - rank(b);
+  });
+  keys.forEach(key => output.push(`[${key}:${document.metadata[key]}]`));
+
+  document.lines.forEach(line => {
+    if (!document.synced) {
+      output.push(line.text);
+      return;
+    }
+
+    const text = includeWords && line.words?.length
+      ? line.words.map(word => `<${formatLrcTimestamp(word.time, precision)}>${word.text}`).join('').trimEnd() +
+        (line.end !== undefined ? `<${formatLrcTimestamp(line.end, precision)}>` : '')
+      : line.text;
+    output.push(`[${formatLrcTimestamp(line.time, precision)}]${text}`);
+  });
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Index of the line being sung at a time, -1 before the first line
+ */
+export function findActiveLine(lines: LrcLine[], time: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  let active = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (lines[middle].time <= time) {
+      active = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return active;
+}
+
+/**
+ * Progress through each word of a line, 0-1, for karaoke highlighting. The last word
+ * runs until the line's end tag or the next line, or for one second when there is neither.
+ */
+export function wordProgress(line: LrcLine, nextLineTime: number | undefined, time: number): number[] {
+  const words = line.words ?? [];
+  return words.map((word, index) => {
+    const end = index + 1 < words.length ? words[index + 1].time : line.end ?? nextLineTime ?? word.time + 1;
+    if (time <= word.time) return 0;
+    if (time >= end || end <= word.time) return 1;
+    return (time - word.time) / (end - word.time);
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * Online lyrics sources.
+ *
+ * A provider turns a search into candidates; the lyrics service decides the order
+ * providers are tried in and wraps every request with the provider's timeout and
+ * rate limit. Base URLs are settings so a self-hosted LRCLIB instance or a local
+ * test double can stand in for the public services.
+ */
+import type { LyricsCandidate, LyricsProviderSettings } from '../enhancedDatabase';
+
+export interface LyricsQuery {
+  title: string;
+  artist: string;
+  album?: string;
+  duration?: number; // Seconds
+}
+
+export interface LyricsProviderContext {
+  settings: LyricsProviderSettings;
+  // GET a JSON resource through the provider's timeout and rate limit; rejects on HTTP errors
+  fetchJson: (url: string) => Promise<unknown>;
+}
+
+export interface LyricsProvider {
+  id: string;
+  name: string;
+  requiresApiKey: boolean;
+  defaults: LyricsProviderSettings;
+  search(query: LyricsQuery, context: LyricsProviderContext): Promise<LyricsCandidate[]>;
+}
+
+function withParams(baseUrl: string, path: string, params: Record<string, string | undefined>): string {
+  const url = new URL(path, baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) url.searchParams.set(key, value);
+  });
+  return url.toString();
+}
+
+interface LrclibRecord {
+  id: number;
+  trackName: string;
+  artistName: string;
+  albumName?: string;
+  duration?: number;
+  instrumental?: boolean;
+  plainLyrics?: string | null;
+  syncedLyrics?: string | null;
+}
+
+/**
+ * LRCLIB, an open database of synced lyrics: https://lrclib.net/docs
+ */
+export const lrclibProvider: LyricsProvider = {
+  id: 'lrclib',
+  name: 'LRCLIB',
+  requiresApiKey: false,
+  defaults: { enabled: true, baseUrl: 'https://lrclib.net', timeoutMs: 8000, minIntervalMs: 250 },
+
+  async search(query, { settings, fetchJson }) {
+    const records = await fetchJson(withParams(settings.baseUrl, 'api/search', {
+      track_name: query.title,
+      artist_name: query.artist,
+      album_name: query.album
+    })) as LrclibRecord[];
+
+    return (Array.isArray(records) ? records : [])
+      .filter(record => record.syncedLyrics || record.plainLyrics)
+      .map(record => ({
+        providerId: 'lrclib',
+        externalId: String(record.id),
+        title: record.trackName,
+        artist: record.artistName,
+        album: record.albumName || undefined,
+        duration: record.duration,
+        syncedLyrics: record.syncedLyrics || undefined,
+        plainLyrics: record.plainLyrics || undefined
+      }));
+  }
+};
+
+interface MusixmatchResponse<T> {
+  message: { header: { status_code: number }; body: T | '' };
+}
+
+interface MusixmatchTrack {
+  track_id: number;
+  track_name: string;
+  artist_name: string;
+  album_name?: string;
+  track_length?: number;
+  has_lyrics: number;
+  has_subtitles: number;
+}
+
+// Each Musixmatch match costs one or two more requests for its lyrics
+const MUSIXMATCH_MAX_MATCHES = 3;
+
+/**
+ * Musixmatch developer API; needs an API key, and free keys only return part of each song
+ */
+export const musixmatchProvider: LyricsProvider = {
+  id: 'musixmatch',
+  name: 'Musixmatch',
+  requiresApiKey: true,
+  defaults: { enabled: false, baseUrl: 'https://api.musixmatch.com/ws/1.1', timeoutMs: 8000, minIntervalMs: 500 },
+
+  async search(query, { settings, fetchJson }) {
+    if (!settings.apiKey) return [];
+    const get = async <T>(method: string, params: Record<string, string | undefined>): Promise<T | undefined> => {
+      const response = await fetchJson(withParams(settings.baseUrl, method, { ...params, apikey: settings.apiKey })) as MusixmatchResponse<T>;
+      return response.message.header.status_code === 200 && response.message.body ? response.message.body : undefined;
+    };
+
+    const found = await get<{ track_list: Array<{ track: MusixmatchTrack }> }>('track.search', {
+      q_track: query.title,
+      q_artist: query.artist,
+      f_has_lyrics: '1',
+      s_track_rating: 'desc',
+      page_size: String(MUSIXMATCH_MAX_MATCHES)
+    });
+
+    const candidates: LyricsCandidate[] = [];
+    for (const { track } of found?.track_list ?? []) {
+      const subtitle = track.has_subtitles
+        ? await get<{ subtitle: { subtitle_body: string } }>('track.subtitle.get', { track_id: String(track.track_id) })
+        : undefined;
+      const lyrics = subtitle
+        ? undefined
+        : await get<{ lyrics: { lyrics_body: string } }>('track.lyrics.get', { track_id: String(track.track_id) });
+      const syncedLyrics = subtitle?.subtitle.subtitle_body || undefined;
+      const plainLyrics = lyrics?.lyrics.lyrics_body || undefined;
+      if (!syncedLyrics && !plainLyrics) continue;
+
+      candidates.push({
+        providerId: 'musixmatch',
+        externalId: String(track.track_id),
+        title: track.track_name,
+        artist: track.artist_name,
+        album: track.album_name || undefined,
+        duration: track.track_length || undefined,
+        syncedLyrics,
+        plainLyrics
+      });
+    }
+    return candidates;
+  }
+};
+
+export const BUILT_IN_LYRICS_PROVIDERS: LyricsProvider[] = [lrclibProvider, musixmatchProvider];
@@ -0,0 +1,58 @@
+/**
+ * Lyrics kept next to audio files: "Song.lrc" or "Song.txt" beside "Song.mp3".
+ */
+
+export const LYRICS_SIDECAR_EXTENSIONS = ['.lrc', '.txt'];
+
+function splitExtension(path: string): { stem: string; extension: string } {
+  const dot = path.lastIndexOf('.');
+  const slash = path.lastIndexOf('/');
+  if (dot <= slash + 1) return { stem: path, extension: '' };
+  return { stem: path.slice(0, dot), extension: path.slice(dot).toLowerCase() };
+}
+
+export function isLyricsSidecar(fileName: string): boolean {
+  return LYRICS_SIDECAR_EXTENSIONS.includes(splitExtension(fileName).extension);
+}
+
+/**
+ * Separate lyrics files from audio files and pair each audio file with the lyrics file of
+ * the same name in the same folder; .lrc wins over .txt. Paths come from pathOf, which
+ * falls back to the file name when folders are unknown.
+ */
+export function pairLyricsSidecars(
+  files: File[],
+  pathOf: (file: File) => string = file => file.webkitRelativePath || file.name
+): { audioFiles: File[]; sidecars: Map<File, File> } {
+  const audioFiles: File[] = [];
+  const lyricsByStem = new Map<string, File>();
+
+  files.forEach(file => {
+    const { stem, extension } = splitExtension(pathOf(file));
+    if (!LYRICS_SIDECAR_EXTENSIONS.includes(extension)) {
+      audioFiles.push(file);
+      return;
+    }
+    const key = stem.toLowerCase();
+    const existing = lyricsByStem.get(key);
+    if (!existing || (extension === '.lrc' && splitExtension(existing.name).extension !== '.lrc')) {
+      lyricsByStem.set(key, file);
+    }
+  });
+
+  const sidecars = new Map<File, File>();
+  audioFiles.forEach(file => {
+    const sidecar = lyricsByStem.get(splitExtension(pathOf(file)).stem.toLowerCase());
+    if (sidecar) sidecars.set(file, sidecar);
+  });
+
+  return { audioFiles, sidecars };
+}
+
+/**
+ * Text of a lyrics file without a byte order mark; undefined when it is blank
+ */
+export async function readSidecarLyrics(file: File): Promise<string | undefined> {
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  return text.trim() ? text : undefined;
+}
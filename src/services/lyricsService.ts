@@ -1,7 +1,10 @@
-export interface LyricsLine {
-  time: number; // Time in seconds
-  text: string;
-}
+import { libraryRepository } from './libraryRepository';
+import type { LyricsCandidate, LyricsProviderSettings } from './enhancedDatabase';
+import { parseLrc, type LrcDocument, type LrcLine } from './lyrics/lrc';
+import { BUILT_IN_LYRICS_PROVIDERS, type LyricsProvider, type LyricsQuery } from './lyrics/providers';
+import { fixtureLyricsProvider } from './lyrics/fixtureProvider';
+
+export type LyricsLine = LrcLine;
 
 export interface Lyrics {
   id: string;
@@ -13,161 +16,241 @@ export interface Lyrics {
   source: string;
 }
 
+export interface ConfiguredLyricsProvider {
+  provider: LyricsProvider;
+  settings: LyricsProviderSettings;
+}
+
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Searches that found nothing are retried sooner, lyrics get added upstream
+const EMPTY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
 export class LyricsService {
-  private cache = new Map<string, Lyrics>();
-  private apiEndpoints = {
-    genius: 'https://api.genius.com/search',
-    musixmatch: 'https://api.musixmatch.com/ws/1.1/',
-    lrclib: 'https://lrclib.net/api/search'
-  };
-
-  async fetchLyrics(title: string, artist: string): Promise<Lyrics | null> {
-    const cacheKey = `${artist}_${title}`.toLowerCase();
-    
-    // Check cache first
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)!;
+  private providers: LyricsProvider[] = [...BUILT_IN_LYRICS_PROVIDERS];
+  private nextRequestAt = new Map<string, number>();
+  private trackLyricsCallbacks = new Set<(trackId: string) => void>();
+
+  /**
+   * Add a lyrics source, or replace the one with the same id
+   */
+  registerProvider(provider: LyricsProvider): void {
+    const index = this.providers.findIndex(existing => existing.id === provider.id);
+    if (index === -1) {
+      this.providers.push(provider);
+    } else {
+      this.providers[index] = provider;
     }
+  }
 
-    try {
-      // Try multiple sources
-      let lyrics = await this.fetchFromLrcLib(title, artist);
-      
-      if (!lyrics) {
-        lyrics = await this.fetchFromGenius(title, artist);
-      }
+  /**
+   * Providers in the order they are tried, with saved settings over their defaults
+   */
+  async getProviders(): Promise<ConfiguredLyricsProvider[]> {
+    const preferences = await libraryRepository.getPreferences();
+    const order = preferences.lyricsProviderOrder ?? [];
+    const rank = (provider: LyricsProvider) => {
+      const position = order.indexOf(provider.id);
+      return position === -1 ? order.length + this.providers.indexOf(provider) : position;
+    };
+
+    return [...this.providers]
+      .sort((a, b) => rank(a) - rank(b))
+      .map(provider => ({
+        provider,
+        settings: { ...provider.defaults, ...preferences.lyricsProviders?.[provider.id] }
+      }));
+  }
+
+  async updateProviderSettings(providerId: string, changes: Partial<LyricsProviderSettings>): Promise<void> {
+    const preferences = await libraryRepository.getPreferences();
+    const provider = this.providers.find(candidate => candidate.id === providerId);
+    if (!provider) throw new Error(`Unknown lyrics provider: ${providerId}`);
 
-      if (!lyrics) {
-        lyrics = await this.generateFallbackLyrics(title, artist);
+    const current = { ...provider.defaults, ...preferences.lyricsProviders?.[providerId] };
+    await libraryRepository.updatePreferences({
+      lyricsProviders: { ...preferences.lyricsProviders, [providerId]: { ...current, ...changes } }
+    });
+  }
+
+  async setProviderOrder(providerIds: string[]): Promise<void> {
+    await libraryRepository.updatePreferences({ lyricsProviderOrder: providerIds });
+  }
+
+  /**
+   * Lyrics for a track: those stored on the song (embedded tags, a sidecar file or edits) come
+   * first, then the best match of the first provider that has any; null when nothing is found
+   */
+  async fetchLyrics(query: LyricsQuery, trackId?: string): Promise<Lyrics | null> {
+    if (trackId) {
+      const stored = await this.getStoredLyrics(trackId, query);
+      if (stored) return stored;
+    }
+
+    for (const configured of await this.getUsableProviders()) {
+      try {
+        const [best] = this.rankCandidates(await this.searchProvider(configured, query), query);
+        if (best) return this.candidateToLyrics(best, trackId);
+      } catch (error) {
+        console.warn(`${configured.provider.name} lyrics lookup failed:`, error);
       }
+    }
+    return null;
+  }
 
-      if (lyrics) {
-        this.cache.set(cacheKey, lyrics);
+  /**
+   * Candidates from every enabled provider, best matches first, for the user to choose from.
+   * refresh skips the cache.
+   */
+  async searchLyrics(query: LyricsQuery, options: { refresh?: boolean } = {}): Promise<LyricsCandidate[]> {
+    const results = await Promise.all((await this.getUsableProviders()).map(async configured => {
+      try {
+        return await this.searchProvider(configured, query, options.refresh);
+      } catch (error) {
+        console.warn(`${configured.provider.name} lyrics search failed:`, error);
+        return [];
       }
+    }));
+    return this.rankCandidates(results.flat(), query);
+  }
 
-      return lyrics;
-    } catch (error) {
-      console.error('Failed to fetch lyrics:', error);
-      return null;
-    }
+  /**
+   * LRC text of a candidate, or its plain text when it is not synced
+   */
+  getCandidateText(candidate: LyricsCandidate): string {
+    return candidate.syncedLyrics ?? candidate.plainLyrics ?? '';
   }
 
-  private async fetchFromLrcLib(title: string, artist: string): Promise<Lyrics | null> {
-    try {
-      const query = encodeURIComponent(`${artist} ${title}`);
-      const response = await fetch(`${this.apiEndpoints.lrclib}?q=${query}`);
-      
-      if (!response.ok) return null;
-      
-      const data = await response.json();
-      
-      if (data.length === 0) return null;
-      
-      const track = data[0];
-      const lyrics: Lyrics = {
-        id: `lrc_${Date.now()}`,
-        trackId: '', // Will be set by caller
-        title: track.trackName || title,
-        artist: track.artistName || artist,
-        lines: this.parseLrc(track.syncedLyrics || track.plainLyrics || ''),
-        synced: !!track.syncedLyrics,
-        source: 'LrcLib'
-      };
-
-      return lyrics;
-    } catch (error) {
-      console.error('LrcLib fetch error:', error);
-      return null;
+  getProviderName(providerId: string): string {
+    return this.providers.find(provider => provider.id === providerId)?.name ?? providerId;
+  }
+
+  private async getUsableProviders(): Promise<ConfiguredLyricsProvider[]> {
+    return (await this.getProviders()).filter(({ provider, settings }) =>
+      settings.enabled && settings.baseUrl && (!provider.requiresApiKey || settings.apiKey)
+    );
+  }
+
+  private async searchProvider(
+    { provider, settings }: ConfiguredLyricsProvider,
+    query: LyricsQuery,
+    refresh = false
+  ): Promise<LyricsCandidate[]> {
+    // The base URL is part of the key so a self-hosted instance does not reuse public results
+    const key = [provider.id, settings.baseUrl, normalize(query.artist), normalize(query.title)].join('|');
+    if (!refresh) {
+      const cached = await libraryRepository.getCachedLyrics(key);
+      const ttl = cached?.candidates.length ? CACHE_TTL_MS : EMPTY_CACHE_TTL_MS;
+      if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < ttl) {
+        return cached.candidates;
+      }
     }
+
+    const candidates = await provider.search(query, {
+      settings,
+      fetchJson: url => this.fetchJson(provider.id, settings, url)
+    });
+    await libraryRepository.cacheLyrics(key, candidates);
+    return candidates;
   }
 
-  private async fetchFromGenius(title: string, artist: string): Promise<Lyrics | null> {
+  /**
+   * GET JSON once the provider's rate limit allows, aborting after its timeout
+   */
+  private async fetchJson(providerId: string, settings: LyricsProviderSettings, url: string): Promise<unknown> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(providerId) ?? 0);
+    this.nextRequestAt.set(providerId, slot + settings.minIntervalMs);
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), settings.timeoutMs);
     try {
-      // Note: This would require a CORS proxy or backend implementation
-      // For demo purposes, return null
-      console.log('Genius API would be called here');
-      return null;
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await response.json();
     } catch (error) {
-      console.error('Genius fetch error:', error);
-      return null;
+      if (controller.signal.aborted) throw new Error(`Timed out after ${settings.timeoutMs} ms`);
+      throw error;
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
-  private generateFallbackLyrics(title: string, artist: string): Lyrics {
-    // Generate instrumental or basic lyrics
-    const lines: LyricsLine[] = [
-      { time: 0, text: `♪ ${title} ♪` },
-      { time: 5, text: `by ${artist}` },
-      { time: 10, text: '' },
-      { time: 15, text: '[Instrumental Track]' },
-      { time: 30, text: '' },
-      { time: 60, text: '♪ Music playing ♪' },
-      { time: 90, text: '' }
-    ];
+  /**
+   * Best matches first: close in duration, synced, then exact title and artist
+   */
+  private rankCandidates(candidates: LyricsCandidate[], query: LyricsQuery): LyricsCandidate[] {
+    const score = (candidate: LyricsCandidate) => {
+      let total = candidate.syncedLyrics ? 2 : 0;
+      if (query.duration && candidate.duration) {
+        const difference = Math.abs(candidate.duration - query.duration);
+        total += difference <= 2 ? 3 : difference <= 10 ? 1 : -3;
+      }
+      if (normalize(candidate.title) === normalize(query.title)) total += 1;
+      if (normalize(candidate.artist) === normalize(query.artist)) total += 1;
+      return total;
+    };
+
+    return candidates
+      .map((candidate, index) => ({ candidate, index, score: score(candidate) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ candidate }) => candidate);
+  }
 
+  private candidateToLyrics(candidate: LyricsCandidate, trackId = ''): Lyrics {
+    const document = parseLrc(this.getCandidateText(candidate));
     return {
-      id: `fallback_${Date.now()}`,
-      trackId: '',
-      title,
-      artist,
-      lines,
-      synced: true,
-      source: 'Generated'
+      id: `${candidate.providerId}_${candidate.externalId}`,
+      trackId,
+      title: candidate.title,
+      artist: candidate.artist,
+      lines: document.lines,
+      synced: document.synced,
+      source: this.getProviderName(candidate.providerId)
     };
   }
 
-  private parseLrc(lrcContent: string): LyricsLine[] {
-    const lines: LyricsLine[] = [];
-    const lrcLines = lrcContent.split('\n');
-
-    for (const line of lrcLines) {
-      const timeMatch = line.match(/^\[(\d{2}):(\d{2})\.(\d{2,3})\]/);
-      if (timeMatch) {
-        const minutes = parseInt(timeMatch[1]);
-        const seconds = parseInt(timeMatch[2]);
-        const centiseconds = parseInt(timeMatch[3].padEnd(3, '0').substring(0, 3));
-        
-        const time = minutes * 60 + seconds + centiseconds / 1000;
-        const text = line.replace(/^\[\d{2}:\d{2}\.\d{2,3}\]/, '').trim();
-        
-        lines.push({ time, text });
-      } else if (line.trim() && !line.startsWith('[')) {
-        // Plain text line without timestamp
-        lines.push({ time: 0, text: line.trim() });
-      }
-    }
+  private async getStoredLyrics(trackId: string, query: LyricsQuery): Promise<Lyrics | null> {
+    const song = await libraryRepository.getSongById(trackId);
+    if (!song?.lyrics?.trim()) return null;
+
+    const document = parseLrc(song.lyrics);
+    return {
+      id: `stored_${trackId}`,
+      trackId,
+      title: query.title,
+      artist: query.artist,
+      lines: document.lines,
+      synced: document.synced,
+      source: song.lrcFile ?? 'Library'
+    };
+  }
 
-    return lines.sort((a, b) => a.time - b.time);
+  /**
+   * Lyrics stored on a song, parsed; null when it has none
+   */
+  async getTrackLyrics(trackId: string): Promise<LrcDocument | null> {
+    const song = await libraryRepository.getSongById(trackId);
+    return song?.lyrics?.trim() ? parseLrc(song.lyrics) : null;
   }
 
-  async saveLyrics(lyrics: Lyrics): Promise<void> {
-    const cacheKey = `${lyrics.artist}_${lyrics.title}`.toLowerCase();
-    this.cache.set(cacheKey, lyrics);
-    
-    // In a real implementation, save to IndexedDB or localStorage
-    try {
-      localStorage.setItem(`lyrics_${cacheKey}`, JSON.stringify(lyrics));
-    } catch (error) {
-      console.error('Failed to save lyrics to storage:', error);
-    }
+  /**
+   * Store LRC or plain text lyrics on a song; blank content removes them
+   */
+  async saveTrackLyrics(trackId: string, content: string): Promise<void> {
+    await libraryRepository.saveLyrics(trackId, content.trim() ? content : undefined);
+    this.trackLyricsCallbacks.forEach(callback => callback(trackId));
   }
 
-  async loadCachedLyrics(): Promise<void> {
-    try {
-      const keys = Object.keys(localStorage);
-      for (const key of keys) {
-        if (key.startsWith('lyrics_')) {
-          const lyricsData = localStorage.getItem(key);
-          if (lyricsData) {
-            const lyrics = JSON.parse(lyricsData) as Lyrics;
-            const cacheKey = key.replace('lyrics_', '');
-            this.cache.set(cacheKey, lyrics);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load cached lyrics:', error);
-    }
+  onTrackLyricsChange(callback: (trackId: string) => void): () => void {
+    this.trackLyricsCallbacks.add(callback);
+    return () => this.trackLyricsCallbacks.delete(callback);
   }
 
   getCurrentLine(lyrics: Lyrics, currentTime: number): LyricsLine | null {
@@ -196,21 +279,17 @@ export class LyricsService {
     return null;
   }
 
-  clearCache(): void {
-    this.cache.clear();
-    
-    // Clear from localStorage
-    try {
-      const keys = Object.keys(localStorage);
-      for (const key of keys) {
-        if (key.startsWith('lyrics_')) {
-          localStorage.removeItem(key);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to clear lyrics cache:', error);
-    }
+  /**
+   * Forget every online search result
+   */
+  async clearCache(): Promise<void> {
+    await libraryRepository.clearLyricsCache();
   }
 }
 
-export const lyricsService = new LyricsService();
\ No newline at end of file
+export const lyricsService = new LyricsService();
+
+// Development builds can also look lyrics up in local fixtures, standing in for LRCLIB
+if (import.meta.env.DEV) {
+  lyricsService.registerProvider(fixtureLyricsProvider);
+}
@@ -1,5 +1,12 @@
 import jsmediatags from 'jsmediatags';
-import { EnhancedSong, AudioFormat } from './enhancedDatabase';
+import { EnhancedSong, AudioFormat, TrackLoudness } from './enhancedDatabase';
+import { REPLAYGAIN_REFERENCE_LUFS } from './analysis/loudness';
+import { parseLrc, serializeLrc, type LrcWord } from './lyrics/lrc';
+import { readEmbeddedLyrics } from './lyrics/embeddedLyrics';
+import { readSidecarLyrics } from './lyrics/sidecarLyrics';
+import { writeTags, type TagUpdate } from './tags/tagWriter';
+import { readTags, type ReadTags } from './tags/tagReader';
+import type { CoverArt } from './tags/tagTypes';
 
 /**
  * Enhanced metadata service using jsmediatags for comprehensive tag support
@@ -24,12 +31,109 @@ export class MetadataService {
     });
   }
 
+  /**
+   * Read only the custom tags of a file, e.g. REPLAYGAIN_* values written by other taggers
+   */
+  static async readCustomTags(file: File): Promise<Record<string, string>> {
+    return new Promise((resolve) => {
+      jsmediatags.read(file, {
+        onSuccess: (tag) => resolve(this.extractCustomTags(tag.tags)),
+        onError: () => resolve({})
+      });
+    });
+  }
+
+  /**
+   * Song fields found in a file's tags, for importers to lay over what they guessed from the file name,
+   * and the embedded cover. Fields missing from the tags are left out; formats without tag support
+   * give no fields.
+   */
+  static async readImportTags(file: File): Promise<ImportedTags> {
+    let tags: ReadTags | undefined;
+    try {
+      tags = await readTags(file);
+    } catch (error) {
+      console.warn(`Could not read tags of ${file.name}:`, error);
+    }
+    if (!tags) return { fields: {} };
+
+    const fields: SongTagFields = {
+      title: tags.title,
+      artist: tags.artist,
+      album: tags.album,
+      genre: tags.genre,
+      year: tags.year,
+      albumArtist: tags.albumArtist,
+      trackNumber: tags.trackNumber,
+      trackTotal: tags.trackTotal,
+      discNumber: tags.discNumber,
+      discTotal: tags.discTotal,
+      composer: tags.composer,
+      compilation: tags.compilation,
+      sortTitle: tags.sortTitle,
+      sortArtist: tags.sortArtist,
+      sortAlbum: tags.sortAlbum,
+      sortAlbumArtist: tags.sortAlbumArtist
+    };
+    (Object.keys(fields) as Array<keyof SongTagFields>).forEach(key => {
+      if (fields[key] === undefined) delete fields[key];
+    });
+    return { fields, coverArt: tags.coverArt };
+  }
+
+  /**
+   * Lyrics for a file being imported: from its lyrics sidecar file or its tags, synced lyrics
+   * first and the sidecar ahead of the tags when both are equally good. lrcFile names the sidecar used.
+   */
+  static async readLyrics(file: File, sidecar?: File): Promise<{ lyrics?: string; lrcFile?: string }> {
+    const [external, embedded] = await Promise.all([
+      sidecar ? readSidecarLyrics(sidecar).catch(() => undefined) : undefined,
+      this.readEmbeddedLyrics(file)
+    ]);
+
+    const isSynced = (lyrics?: string) => !!lyrics && parseLrc(lyrics).synced;
+    if (external && (isSynced(external) || !isSynced(embedded))) {
+      return { lyrics: external, lrcFile: sidecar!.name };
+    }
+    return { lyrics: embedded };
+  }
+
+  /**
+   * Lyrics tags of MP3, FLAC and Ogg files are read directly; MP4 lyrics come through jsmediatags
+   */
+  private static async readEmbeddedLyrics(file: File): Promise<string | undefined> {
+    try {
+      const lyrics = await readEmbeddedLyrics(file);
+      if (lyrics || !/\.(m4a|mp4|aac|alac)$/i.test(file.name)) return lyrics;
+    } catch (error) {
+      console.warn(`Could not read embedded lyrics of ${file.name}:`, error);
+      return undefined;
+    }
+
+    return new Promise((resolve) => {
+      jsmediatags.read(file, {
+        onSuccess: (tag) => resolve(this.lyricsFromTags(tag.tags)),
+        onError: () => resolve(undefined)
+      });
+    });
+  }
+
+  /**
+   * ID3 lyrics come as a USLT frame object, MP4 lyrics as a string
+   */
+  private static lyricsFromTags(tags: { lyrics?: string | { lyrics?: string } }): string | undefined {
+    const lyrics = typeof tags.lyrics === 'string' ? tags.lyrics : tags.lyrics?.lyrics;
+    return typeof lyrics === 'string' && lyrics.trim() ? lyrics : undefined;
+  }
+
   /**
    * Parse jsmediatags result into our metadata format
    */
   private static parseJSMediaTags(tag: any, file: File): ExtractedMetadata {
     const tags = tag.tags;
     const format = this.detectFormatFromTags(tags, file);
+    const customTags = this.extractCustomTags(tags);
+    const loudness = this.parseReplayGain(customTags);
     
     // Extract album art
     let albumArt: string | undefined;
@@ -41,7 +145,7 @@ export class MetadataService {
     }
 
     // Extract lyrics
-    const lyrics = tags.USLT?.text || tags.lyrics || undefined;
+    const lyrics = this.lyricsFromTags(tags);
 
     return {
       title: tags.title || this.getFileNameWithoutExtension(file.name),
@@ -65,10 +169,10 @@ export class MetadataService {
       bpm: tags.bpm ? parseInt(tags.bpm) : undefined,
       key: tags.initialkey || undefined,
       replayGain: {
-        track: tags.replaygain_track_gain ? parseFloat(tags.replaygain_track_gain) : undefined,
-        album: tags.replaygain_album_gain ? parseFloat(tags.replaygain_album_gain) : undefined
+        track: loudness?.trackGain,
+        album: loudness?.albumGain
       },
-      customTags: this.extractCustomTags(tags)
+      customTags
     };
   }
 
@@ -153,25 +257,67 @@ export class MetadataService {
   }
 
   /**
-   * Extract custom/uncommon tags
+   * Extract custom/uncommon tags; ID3 user-defined TXXX frames are keyed by their description
    */
-  private static extractCustomTags(tags: any): Record<string, string> {
+  static extractCustomTags(tags: any): Record<string, string> {
     const customTags: Record<string, string> = {};
     const standardTags = new Set([
       'title', 'artist', 'album', 'genre', 'year', 'track', 'disk',
       'albumartist', 'composer', 'comment', 'picture', 'lyrics', 'USLT',
-      'bitrate', 'bpm', 'initialkey', 'replaygain_track_gain', 'replaygain_album_gain'
+      'bitrate', 'bpm', 'initialkey'
     ]);
 
     Object.keys(tags).forEach(key => {
-      if (!standardTags.has(key) && typeof tags[key] === 'string') {
-        customTags[key] = tags[key];
+      if (key === 'TXXX') {
+        const frames = Array.isArray(tags.TXXX) ? tags.TXXX : [tags.TXXX];
+        frames.forEach((frame: { data?: { user_description?: string; data?: unknown } }) => {
+          const description = frame?.data?.user_description;
+          if (description && typeof frame.data.data === 'string') {
+            customTags[this.normalizeTagKey(description)] = frame.data.data;
+          }
+        });
+      } else if (!standardTags.has(key) && typeof tags[key] === 'string') {
+        customTags[this.normalizeTagKey(key)] = tags[key];
       }
     });
 
     return customTags;
   }
 
+  /**
+   * ReplayGain values from custom tags; Opus R128_* gains are converted to the ReplayGain reference
+   */
+  static parseReplayGain(customTags: Record<string, string>): TrackLoudness | undefined {
+    const parseDb = (value?: string) => {
+      const parsed = value !== undefined ? parseFloat(value) : NaN;
+      return isFinite(parsed) ? parsed : undefined;
+    };
+    // R128 gains are Q7.8 fixed point relative to -23 LUFS
+    const parseR128 = (value?: string) => {
+      const parsed = value !== undefined ? parseInt(value, 10) : NaN;
+      return isFinite(parsed) ? parsed / 256 + (REPLAYGAIN_REFERENCE_LUFS + 23) : undefined;
+    };
+
+    const trackGain = parseDb(customTags.REPLAYGAIN_TRACK_GAIN) ?? parseR128(customTags.R128_TRACK_GAIN);
+    const albumGain = parseDb(customTags.REPLAYGAIN_ALBUM_GAIN) ?? parseR128(customTags.R128_ALBUM_GAIN);
+    if (trackGain === undefined && albumGain === undefined) return undefined;
+
+    return {
+      source: 'tags',
+      trackGain,
+      trackPeak: parseDb(customTags.REPLAYGAIN_TRACK_PEAK),
+      albumGain,
+      albumPeak: parseDb(customTags.REPLAYGAIN_ALBUM_PEAK)
+    };
+  }
+
+  /**
+   * Tag names vary in case between formats; loudness tags are stored upper-case
+   */
+  private static normalizeTagKey(key: string): string {
+    return /^(replaygain|r128)_/i.test(key) ? key.toUpperCase() : key;
+  }
+
   /**
    * Get filename without extension
    */
@@ -180,66 +326,39 @@ export class MetadataService {
   }
 
   /**
-   * Update song metadata in file (in-memory only for web)
+   * Write tags into a copy of an MP3, FLAC, Ogg or MP4 file; throws for formats that cannot be tagged
    */
-  static async updateSongMetadata(
-    originalFile: File, 
-    updates: Partial<ExtractedMetadata>
-  ): Promise<File> {
-    // For web applications, we can't actually modify files
-    // This would return a new File object with updated metadata
-    // in a real implementation, but for now we return the original
-    console.log('Metadata update requested:', updates);
-    return originalFile;
+  static async updateSongMetadata(originalFile: File, updates: TagUpdate): Promise<File> {
+    const bytes = new Uint8Array(await originalFile.arrayBuffer());
+    const tagged = writeTags(bytes, updates);
+    return new File([tagged], originalFile.name, { type: originalFile.type, lastModified: Date.now() });
   }
 
   /**
-   * Parse LRC (lyrics) file content
+   * Parse LRC (lyrics) file content; only timed lines are returned
    */
   static parseLRCFile(lrcContent: string): LRCLine[] {
-    const lines = lrcContent.split('\n');
-    const lrcLines: LRCLine[] = [];
-    
-    for (const line of lines) {
-      const timeMatch = line.match(/\[(\d{2}):(\d{2})\.(\d{2})\]/);
-      if (timeMatch) {
-        const minutes = parseInt(timeMatch[1]);
-        const seconds = parseInt(timeMatch[2]);
-        const centiseconds = parseInt(timeMatch[3]);
-        const timestamp = minutes * 60 + seconds + centiseconds / 100;
-        
-        const text = line.replace(/\[\d{2}:\d{2}\.\d{2}\]/, '').trim();
-        if (text) {
-          lrcLines.push({ timestamp, text });
-        }
-      }
-    }
-    
-    return lrcLines.sort((a, b) => a.timestamp - b.timestamp);
+    const document = parseLrc(lrcContent);
+    if (!document.synced) return [];
+    return document.lines.map(line => ({ timestamp: line.time, text: line.text, words: line.words }));
   }
 
   /**
    * Generate LRC file content from lyrics with timestamps
    */
   static generateLRCContent(lrcLines: LRCLine[], metadata?: Partial<ExtractedMetadata>): string {
-    let content = '';
-    
-    // Add metadata headers
-    if (metadata?.title) content += `[ti:${metadata.title}]\n`;
-    if (metadata?.artist) content += `[ar:${metadata.artist}]\n`;
-    if (metadata?.album) content += `[al:${metadata.album}]\n`;
-    
-    // Add timestamp lines
-    for (const line of lrcLines) {
-      const minutes = Math.floor(line.timestamp / 60);
-      const seconds = Math.floor(line.timestamp % 60);
-      const centiseconds = Math.floor((line.timestamp % 1) * 100);
-      
-      const timeStr = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
-      content += `[${timeStr}]${line.text}\n`;
-    }
-    
-    return content;
+    const tags: Record<string, string> = {};
+    if (metadata?.title) tags.ti = metadata.title;
+    if (metadata?.artist) tags.ar = metadata.artist;
+    if (metadata?.album) tags.al = metadata.album;
+
+    return serializeLrc({
+      metadata: tags,
+      lines: [...lrcLines]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(line => ({ time: line.timestamp, text: line.text, words: line.words })),
+      synced: true
+    });
   }
 
   /**
@@ -388,12 +507,26 @@ export interface ExtractedMetadata {
   customTags: Record<string, string>;
 }
 
+/**
+ * Song fields that mirror tags
+ */
+export type SongTagFields = Partial<Pick<EnhancedSong,
+  'title' | 'artist' | 'album' | 'genre' | 'year' | 'albumArtist' | 'trackNumber' | 'trackTotal' |
+  'discNumber' | 'discTotal' | 'composer' | 'compilation' | 'sortTitle' | 'sortArtist' | 'sortAlbum' | 'sortAlbumArtist'
+>>;
+
+export interface ImportedTags {
+  fields: SongTagFields;
+  coverArt?: CoverArt;
+}
+
 /**
  * LRC lyrics line interface
  */
 export interface LRCLine {
   timestamp: number;
   text: string;
+  words?: LrcWord[]; // Enhanced LRC word timings
 }
 
 /**
@@ -0,0 +1,562 @@
+import { biquadCoefficients, DEFAULT_PARAMETRIC_EQ, type ParametricEqState, type ParametricFilter } from './parametricEq';
+
+/**
+ * The app's single Web Audio graph. Playback sources feed one input that runs
+ * through an ordered chain of stages before reaching the speakers:
+ *
+ *   input -> equalizer (graphic or parametric) -> bass boost -> compressor -> spatial -> analyser tap -> output gain -> destination
+ *
+ * Built-in stages are driven by AudioGraphState; extra stages can be plugged
+ * in at any position with registerStage.
+ */
+
+export interface EqualizerState {
+  enabled: boolean;
+  mode: 'graphic' | 'parametric';
+  gains: number[]; // dB per EQ_FREQUENCIES band, -12 to +12
+  preset: string;
+  parametric: ParametricEqState;
+}
+
+export interface CompressorState {
+  enabled: boolean;
+  threshold: number;
+  knee: number;
+  ratio: number;
+  attack: number;
+  release: number;
+}
+
+export interface BassBoostState {
+  enabled: boolean;
+  gain: number; // dB
+  frequency: number; // Shelf corner in Hz
+}
+
+export interface SpatialState {
+  enabled: boolean;
+  width: number; // Stereo width, 1 = unchanged, 2 = twice as wide
+}
+
+export interface AudioGraphState {
+  equalizer: EqualizerState;
+  compressor: CompressorState;
+  bassBoost: BassBoostState;
+  spatial: SpatialState;
+  outputGain: number; // Linear, 0-1
+}
+
+export interface AudioStage {
+  input: AudioNode;
+  output: AudioNode;
+}
+
+export type AudioStageFactory = (context: AudioContext) => AudioStage;
+
+interface ParametricFilterPath {
+  filter: IIRFilterNode;
+  gain: GainNode;
+}
+
+/**
+ * One parametric band: the audible filter plus any it is fading out, summed between input and output
+ */
+interface ParametricBand {
+  input: GainNode;
+  output: GainNode;
+  active: ParametricFilterPath;
+  retiring: ParametricFilterPath[];
+  cleanup?: ReturnType<typeof setTimeout>;
+  signature: string;
+}
+
+interface RegisteredStage {
+  id: string;
+  order: number;
+  create: AudioStageFactory;
+  stage?: AudioStage;
+  bypassed: boolean;
+}
+
+export const EQ_FREQUENCIES = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+/**
+ * Positions of the built-in stages; plugins pick an order between them
+ */
+export const STAGE_ORDER = {
+  equalizer: 100,
+  parametricEqualizer: 150,
+  bassBoost: 200,
+  compressor: 300,
+  spatial: 400,
+  analyser: 500,
+  gain: 600
+} as const;
+
+/**
+ * A parametric band whose settings change fades over to a new filter this quickly, so slider drags do not click
+ */
+const PARAMETRIC_CROSSFADE_SECONDS = 0.03;
+
+const STATE_KEY = 'melodyforge-audio-graph';
+const LEGACY_EQUALIZER_KEY = 'melodyforge-equalizer';
+
+export const DEFAULT_AUDIO_GRAPH_STATE: AudioGraphState = {
+  equalizer: { enabled: true, mode: 'graphic', gains: EQ_FREQUENCIES.map(() => 0), preset: 'flat', parametric: DEFAULT_PARAMETRIC_EQ },
+  compressor: { enabled: false, threshold: -24, knee: 30, ratio: 12, attack: 0.003, release: 0.25 },
+  bassBoost: { enabled: false, gain: 0, frequency: 100 },
+  spatial: { enabled: false, width: 1.5 },
+  outputGain: 1
+};
+
+function loadState(): AudioGraphState {
+  try {
+    const saved = localStorage.getItem(STATE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<AudioGraphState>;
+      return {
+        equalizer: { ...DEFAULT_AUDIO_GRAPH_STATE.equalizer, ...parsed.equalizer },
+        compressor: { ...DEFAULT_AUDIO_GRAPH_STATE.compressor, ...parsed.compressor },
+        bassBoost: { ...DEFAULT_AUDIO_GRAPH_STATE.bassBoost, ...parsed.bassBoost },
+        spatial: { ...DEFAULT_AUDIO_GRAPH_STATE.spatial, ...parsed.spatial },
+        outputGain: parsed.outputGain ?? DEFAULT_AUDIO_GRAPH_STATE.outputGain
+      };
+    }
+
+    // Equalizer settings saved before the graph existed
+    const legacy = localStorage.getItem(LEGACY_EQUALIZER_KEY);
+    if (legacy) {
+      const { enabled, gains, preset } = JSON.parse(legacy);
+      return {
+        ...DEFAULT_AUDIO_GRAPH_STATE,
+        equalizer: {
+          ...DEFAULT_AUDIO_GRAPH_STATE.equalizer,
+          enabled: enabled ?? true,
+          gains: Array.isArray(gains) && gains.length === EQ_FREQUENCIES.length ? gains : DEFAULT_AUDIO_GRAPH_STATE.equalizer.gains,
+          preset: preset ?? 'flat'
+        }
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load audio settings:', error);
+  }
+  return DEFAULT_AUDIO_GRAPH_STATE;
+}
+
+class AudioGraph {
+  private context?: AudioContext;
+  private input?: GainNode;
+  private stages = new Map<string, RegisteredStage>();
+  private taps = new Set<AnalyserNode>();
+  private state: AudioGraphState = loadState();
+  private callbacks = new Set<(state: AudioGraphState) => void>();
+
+  // Nodes of the built-in stages, kept so state changes can update their parameters
+  private equalizerFilters: BiquadFilterNode[] = [];
+  private parametricNodes?: { preamp: GainNode; output: GainNode; bands: ParametricBand[]; layout: string };
+  private bassFilter?: BiquadFilterNode;
+  private compressor?: DynamicsCompressorNode;
+  private widthGains?: { direct: GainNode[]; cross: GainNode[] };
+  private analyserTap?: GainNode;
+  private outputGain?: GainNode;
+
+  constructor() {
+    this.registerStage('equalizer', STAGE_ORDER.equalizer, context => this.createEqualizer(context));
+    this.registerStage('parametricEqualizer', STAGE_ORDER.parametricEqualizer, context => this.createParametricEqualizer(context));
+    this.registerStage('bassBoost', STAGE_ORDER.bassBoost, context => this.createBassBoost(context));
+    this.registerStage('compressor', STAGE_ORDER.compressor, context => this.createCompressor(context));
+    this.registerStage('spatial', STAGE_ORDER.spatial, context => this.createSpatial(context));
+    this.registerStage('analyser', STAGE_ORDER.analyser, context => {
+      this.analyserTap = context.createGain();
+      return { input: this.analyserTap, output: this.analyserTap };
+    });
+    this.registerStage('gain', STAGE_ORDER.gain, context => {
+      this.outputGain = context.createGain();
+      return { input: this.outputGain, output: this.outputGain };
+    });
+  }
+
+  /**
+   * The shared context, created on first use
+   */
+  getContext(): AudioContext {
+    this.ensureContext();
+    return this.context!;
+  }
+
+  /**
+   * Node that playback sources connect to
+   */
+  getInput(): AudioNode {
+    this.ensureContext();
+    return this.input!;
+  }
+
+  async resume(): Promise<void> {
+    const context = this.getContext();
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+  }
+
+  /**
+   * Insert a stage into the chain at the given order, replacing any stage with the same id
+   */
+  registerStage(id: string, order: number, create: AudioStageFactory): () => void {
+    const previous = this.stages.get(id);
+    previous?.stage?.output.disconnect();
+
+    const entry: RegisteredStage = { id, order, create, bypassed: previous?.bypassed ?? false };
+    this.stages.set(id, entry);
+    if (this.context) {
+      entry.stage = create(this.context);
+      this.rewire();
+    }
+
+    return () => {
+      if (this.stages.get(id) !== entry) return;
+      entry.stage?.output.disconnect();
+      this.stages.delete(id);
+      this.rewire();
+    };
+  }
+
+  /**
+   * Take a stage out of the signal path without discarding it
+   */
+  setStageBypassed(id: string, bypassed: boolean): void {
+    const entry = this.stages.get(id);
+    if (!entry || entry.bypassed === bypassed) return;
+    entry.bypassed = bypassed;
+    this.rewire();
+  }
+
+  /**
+   * Analyser fed from the analyser tap; release it when the visualization unmounts
+   */
+  createAnalyser(fftSize: number = 256, smoothing: number = 0.8): AnalyserNode {
+    this.ensureContext();
+    const analyser = this.context!.createAnalyser();
+    analyser.fftSize = fftSize;
+    analyser.smoothingTimeConstant = smoothing;
+    this.analyserTap!.connect(analyser);
+    this.taps.add(analyser);
+    return analyser;
+  }
+
+  releaseAnalyser(analyser: AnalyserNode): void {
+    if (!this.taps.delete(analyser)) return;
+    try {
+      this.analyserTap?.disconnect(analyser);
+    } catch {
+      // Already disconnected by a rewire
+    }
+  }
+
+  getState(): AudioGraphState {
+    return {
+      ...this.state,
+      equalizer: {
+        ...this.state.equalizer,
+        gains: [...this.state.equalizer.gains],
+        parametric: {
+          ...this.state.equalizer.parametric,
+          filters: this.state.equalizer.parametric.filters.map(filter => ({ ...filter }))
+        }
+      }
+    };
+  }
+
+  setEqualizer(changes: Partial<EqualizerState>): void {
+    this.updateState({ equalizer: { ...this.state.equalizer, ...changes } });
+  }
+
+  setEqualizerBand(index: number, gain: number): void {
+    const gains = [...this.state.equalizer.gains];
+    gains[index] = Math.max(-12, Math.min(12, gain));
+    this.setEqualizer({ gains, preset: 'custom', mode: 'graphic' });
+  }
+
+  /**
+   * Sample rate filters are designed for; a typical rate until the context exists
+   */
+  getSampleRate(): number {
+    return this.context?.sampleRate ?? 48000;
+  }
+
+  setCompressor(changes: Partial<CompressorState>): void {
+    this.updateState({ compressor: { ...this.state.compressor, ...changes } });
+  }
+
+  setBassBoost(changes: Partial<BassBoostState>): void {
+    this.updateState({ bassBoost: { ...this.state.bassBoost, ...changes } });
+  }
+
+  setSpatial(changes: Partial<SpatialState>): void {
+    this.updateState({ spatial: { ...this.state.spatial, ...changes } });
+  }
+
+  setOutputGain(gain: number): void {
+    this.updateState({ outputGain: Math.max(0, Math.min(1, gain)) });
+  }
+
+  /**
+   * Persist the current settings so they survive a reload
+   */
+  saveState(): void {
+    try {
+      localStorage.setItem(STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Failed to save audio settings:', error);
+    }
+  }
+
+  onStateChange(callback: (state: AudioGraphState) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  private updateState(changes: Partial<AudioGraphState>): void {
+    this.state = { ...this.state, ...changes };
+    this.applyState();
+    const state = this.getState();
+    this.callbacks.forEach(callback => callback(state));
+  }
+
+  private ensureContext(): void {
+    if (this.context) return;
+
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    this.context = new AudioContextClass();
+    this.input = this.context.createGain();
+    this.stages.forEach(entry => {
+      entry.stage = entry.create(this.context!);
+    });
+    this.applyState();
+    this.rewire();
+  }
+
+  /**
+   * Reconnect input -> active stages in order -> destination
+   */
+  private rewire(): void {
+    if (!this.context || !this.input) return;
+
+    this.input.disconnect();
+    const ordered = Array.from(this.stages.values()).sort((a, b) => a.order - b.order);
+    ordered.forEach(entry => entry.stage?.output.disconnect());
+
+    let previous: AudioNode = this.input;
+    ordered.forEach(entry => {
+      if (!entry.stage || entry.bypassed) return;
+      previous.connect(entry.stage.input);
+      previous = entry.stage.output;
+    });
+    previous.connect(this.context.destination);
+
+    // Disconnecting the tap dropped its analysers
+    this.taps.forEach(analyser => this.analyserTap?.connect(analyser));
+  }
+
+  private applyState(): void {
+    if (!this.context) return;
+    const { equalizer, compressor, bassBoost, spatial, outputGain } = this.state;
+
+    this.equalizerFilters.forEach((filter, index) => {
+      filter.gain.value = equalizer.gains[index] ?? 0;
+    });
+    this.updateParametricEqualizer(equalizer.parametric);
+
+    if (this.bassFilter) {
+      this.bassFilter.frequency.value = bassBoost.frequency;
+      this.bassFilter.gain.value = bassBoost.gain;
+    }
+
+    if (this.compressor) {
+      this.compressor.threshold.value = compressor.threshold;
+      this.compressor.knee.value = compressor.knee;
+      this.compressor.ratio.value = compressor.ratio;
+      this.compressor.attack.value = compressor.attack;
+      this.compressor.release.value = compressor.release;
+    }
+
+    if (this.widthGains) {
+      this.widthGains.direct.forEach(gain => { gain.gain.value = (1 + spatial.width) / 2; });
+      this.widthGains.cross.forEach(gain => { gain.gain.value = (1 - spatial.width) / 2; });
+    }
+
+    if (this.outputGain) {
+      this.outputGain.gain.value = outputGain;
+    }
+
+    // Disabled effects are taken out of the chain rather than zeroed
+    const bypassed: Record<string, boolean> = {
+      equalizer: !equalizer.enabled || equalizer.mode !== 'graphic',
+      parametricEqualizer: !equalizer.enabled || equalizer.mode !== 'parametric',
+      bassBoost: !bassBoost.enabled,
+      compressor: !compressor.enabled,
+      spatial: !spatial.enabled
+    };
+    let changed = false;
+    Object.entries(bypassed).forEach(([id, value]) => {
+      const entry = this.stages.get(id);
+      if (entry && entry.bypassed !== value) {
+        entry.bypassed = value;
+        changed = true;
+      }
+    });
+    if (changed) this.rewire();
+  }
+
+  private createEqualizer(context: AudioContext): AudioStage {
+    this.equalizerFilters = EQ_FREQUENCIES.map((frequency, index) => {
+      const filter = context.createBiquadFilter();
+      filter.type = index === 0 ? 'lowshelf' : index === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking';
+      filter.frequency.value = frequency;
+      filter.Q.value = 1;
+      filter.gain.value = 0;
+      return filter;
+    });
+
+    for (let i = 1; i < this.equalizerFilters.length; i++) {
+      this.equalizerFilters[i - 1].connect(this.equalizerFilters[i]);
+    }
+    return { input: this.equalizerFilters[0], output: this.equalizerFilters[this.equalizerFilters.length - 1] };
+  }
+
+  private createParametricEqualizer(context: AudioContext): AudioStage {
+    const preamp = context.createGain();
+    const output = context.createGain();
+    preamp.connect(output);
+    this.parametricNodes = { preamp, output, bands: [], layout: '' };
+    return { input: preamp, output };
+  }
+
+  /**
+   * IIR filter coefficients cannot change after creation. The chain is rebuilt when bands are added,
+   * removed or change type; a band whose settings change cross-fades to a newly designed filter.
+   */
+  private updateParametricEqualizer(state: ParametricEqState): void {
+    const nodes = this.parametricNodes;
+    if (!nodes || !this.context) return;
+
+    nodes.preamp.gain.value = Math.pow(10, state.preamp / 20);
+    const enabled = state.filters.filter(filter => filter.enabled);
+    const layout = enabled.map(filter => filter.type).join(',');
+
+    if (layout === nodes.layout) {
+      enabled.forEach((filter, index) => {
+        const band = nodes.bands[index];
+        if (JSON.stringify(filter) !== band.signature) this.crossfadeParametricBand(band, filter);
+      });
+      return;
+    }
+
+    nodes.preamp.disconnect();
+    nodes.bands.forEach(band => this.removeParametricBand(band));
+    nodes.bands = enabled.map(filter => this.createParametricBand(filter));
+    nodes.layout = layout;
+
+    let previous: AudioNode = nodes.preamp;
+    nodes.bands.forEach(band => {
+      previous.connect(band.input);
+      previous = band.output;
+    });
+    previous.connect(nodes.output);
+  }
+
+  private createParametricFilterPath(filter: ParametricFilter, destination: AudioNode): ParametricFilterPath {
+    const { b, a } = biquadCoefficients(filter, this.context!.sampleRate);
+    const path = { filter: this.context!.createIIRFilter(b, a), gain: this.context!.createGain() };
+    path.filter.connect(path.gain);
+    path.gain.connect(destination);
+    return path;
+  }
+
+  private createParametricBand(filter: ParametricFilter): ParametricBand {
+    const input = this.context!.createGain();
+    const output = this.context!.createGain();
+    const active = this.createParametricFilterPath(filter, output);
+    input.connect(active.filter);
+    return { input, output, active, retiring: [], signature: JSON.stringify(filter) };
+  }
+
+  private crossfadeParametricBand(band: ParametricBand, filter: ParametricFilter): void {
+    const now = this.context!.currentTime;
+    const end = now + PARAMETRIC_CROSSFADE_SECONDS;
+    const next = this.createParametricFilterPath(filter, band.output);
+    next.gain.gain.setValueAtTime(0, now);
+    next.gain.gain.linearRampToValueAtTime(1, end);
+    band.input.connect(next.filter);
+
+    // Everything still audible fades out together, so the paths always sum to one
+    band.retiring.push(band.active);
+    band.retiring.forEach(path => {
+      const gain = path.gain.gain;
+      const value = gain.value;
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(value, now);
+      gain.linearRampToValueAtTime(0, end);
+    });
+    band.active = next;
+    band.signature = JSON.stringify(filter);
+
+    if (band.cleanup) clearTimeout(band.cleanup);
+    band.cleanup = setTimeout(() => {
+      band.retiring.forEach(path => this.disconnectParametricPath(band, path));
+      band.retiring = [];
+      band.cleanup = undefined;
+    }, PARAMETRIC_CROSSFADE_SECONDS * 1000 + 50);
+  }
+
+  private removeParametricBand(band: ParametricBand): void {
+    if (band.cleanup) clearTimeout(band.cleanup);
+    [band.active, ...band.retiring].forEach(path => this.disconnectParametricPath(band, path));
+    band.output.disconnect();
+  }
+
+  private disconnectParametricPath(band: ParametricBand, path: ParametricFilterPath): void {
+    band.input.disconnect(path.filter);
+    path.filter.disconnect();
+    path.gain.disconnect();
+  }
+
+  private createBassBoost(context: AudioContext): AudioStage {
+    this.bassFilter = context.createBiquadFilter();
+    this.bassFilter.type = 'lowshelf';
+    return { input: this.bassFilter, output: this.bassFilter };
+  }
+
+  private createCompressor(context: AudioContext): AudioStage {
+    this.compressor = context.createDynamicsCompressor();
+    return { input: this.compressor, output: this.compressor };
+  }
+
+  /**
+   * Mid/side stereo widener: each output channel mixes its own side with a (negative) share of the other
+   */
+  private createSpatial(context: AudioContext): AudioStage {
+    // Upmix mono sources so both channels reach the splitter
+    const input = context.createGain();
+    input.channelCount = 2;
+    input.channelCountMode = 'explicit';
+    input.channelInterpretation = 'speakers';
+    const splitter = context.createChannelSplitter(2);
+    input.connect(splitter);
+    const merger = context.createChannelMerger(2);
+    const direct = [context.createGain(), context.createGain()];
+    const cross = [context.createGain(), context.createGain()];
+
+    for (let channel = 0; channel < 2; channel++) {
+      splitter.connect(direct[channel], channel);
+      direct[channel].connect(merger, 0, channel);
+      splitter.connect(cross[channel], channel);
+      cross[channel].connect(merger, 0, 1 - channel);
+    }
+
+    this.widthGains = { direct, cross };
+    return { input, output: merger };
+  }
+}
+
+export const audioGraph = new AudioGraph();
@@ -0,0 +1,205 @@
+/**
+ * EQ and effect profiles attached to tracks, albums, artists and genres. On every
+ * track change the most specific assignment wins, separately for the equalizer
+ * and the effects:
+ *
+ *   track -> album -> artist -> genre -> the user's own settings
+ */
+import type { Track } from '@/hooks/useMediaLibrary';
+import { audioGraph, type AudioGraphState, type EqualizerState } from './audioGraph';
+import { libraryRepository, audioProfileId } from '../libraryRepository';
+import { getAlbumKey } from '../library/albumGrouping';
+import type { AudioEffectSettings, AudioProfileAssignment, AudioProfileScope, EqualizerPreset } from '../enhancedDatabase';
+
+export type ProfileTrack = Pick<Track, 'id' | 'title' | 'artist' | 'album' | 'albumArtist' | 'compilation' | 'genre'>;
+
+export interface ActiveAudioProfile {
+  trackId: string;
+  equalizer?: { preset: EqualizerPreset; assignment: AudioProfileAssignment };
+  effects?: { settings: AudioEffectSettings; assignment: AudioProfileAssignment };
+}
+
+// The parts of the graph a profile takes over; everything else stays as the user has it
+type EqualizerOverride = Pick<EqualizerState, 'enabled' | 'gains' | 'preset'>;
+type EffectsOverride = Pick<AudioGraphState, 'compressor' | 'bassBoost' | 'spatial'>;
+
+/**
+ * Scopes in inheritance order, most specific first
+ */
+export const AUDIO_PROFILE_SCOPES: AudioProfileScope[] = ['track', 'album', 'artist', 'genre'];
+
+export const AUDIO_PROFILE_SCOPE_LABELS: Record<AudioProfileScope, string> = {
+  track: 'Track',
+  album: 'Album',
+  artist: 'Artist',
+  genre: 'Genre'
+};
+
+const normalizeName = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Key and display label a track's profile is stored under for a scope; undefined when the track has no value for it
+ */
+export function getAudioProfileTarget(track: ProfileTrack, scope: AudioProfileScope): { key: string; label: string } | undefined {
+  switch (scope) {
+    case 'track':
+      return { key: track.id, label: track.title };
+    case 'album':
+      // Albums are told apart by album artist, as titles like "Greatest Hits" repeat
+      return track.album ? { key: getAlbumKey(track), label: track.album } : undefined;
+    case 'artist':
+      return track.artist ? { key: normalizeName(track.artist), label: track.artist } : undefined;
+    case 'genre':
+      return track.genre ? { key: normalizeName(track.genre), label: track.genre } : undefined;
+  }
+}
+
+function effectsFromState(state: AudioGraphState): Omit<AudioEffectSettings, 'id' | 'name'> {
+  return {
+    // The graph has no reverb stage yet
+    reverb: { enabled: false, roomSize: 0, damping: 0, wetLevel: 0 },
+    compressor: { ...state.compressor },
+    bassBoost: { ...state.bassBoost },
+    spatialAudio: { enabled: state.spatial.enabled, roomSize: 0, rolloffFactor: 0, width: state.spatial.width }
+  };
+}
+
+const sameBands = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((gain, index) => gain === b[index]);
+
+class AudioProfileService {
+  private active: ActiveAudioProfile | null = null;
+  // The user's own settings while a profile overrides them, restored once none applies
+  private userEqualizer?: EqualizerOverride;
+  private userEffects?: EffectsOverride;
+  private requestId = 0;
+  private callbacks = new Set<(profile: ActiveAudioProfile | null) => void>();
+
+  getActiveProfile(): ActiveAudioProfile | null {
+    return this.active;
+  }
+
+  /**
+   * Find the EQ preset and effects a track inherits, each from its most specific assignment
+   */
+  async resolve(track: ProfileTrack): Promise<ActiveAudioProfile> {
+    const ids = AUDIO_PROFILE_SCOPES.flatMap(scope => {
+      const target = getAudioProfileTarget(track, scope);
+      return target ? [audioProfileId(scope, target.key)] : [];
+    });
+    const assignments = (await libraryRepository.getAudioProfiles(ids))
+      .filter((assignment): assignment is AudioProfileAssignment => !!assignment);
+
+    const equalizerAssignment = assignments.find(assignment => assignment.equalizerPresetId);
+    const effectsAssignment = assignments.find(assignment => assignment.effectsId);
+    const [preset, settings] = await Promise.all([
+      equalizerAssignment ? libraryRepository.getEqualizerPreset(equalizerAssignment.equalizerPresetId!) : undefined,
+      effectsAssignment ? libraryRepository.getAudioEffects(effectsAssignment.effectsId!) : undefined
+    ]);
+
+    return {
+      trackId: track.id,
+      equalizer: preset && equalizerAssignment ? { preset, assignment: equalizerAssignment } : undefined,
+      effects: settings && effectsAssignment ? { settings, assignment: effectsAssignment } : undefined
+    };
+  }
+
+  /**
+   * Switch the audio graph to the track's profile, or back to the user's own settings when none applies
+   */
+  async applyForTrack(track: ProfileTrack | null | undefined): Promise<void> {
+    const request = ++this.requestId;
+    let profile: ActiveAudioProfile | null = null;
+    if (track) {
+      try {
+        profile = await this.resolve(track);
+      } catch (error) {
+        console.error('Failed to resolve audio profile:', error);
+      }
+    }
+    // A later track change has taken over
+    if (request !== this.requestId) return;
+
+    const live = audioGraph.getState();
+    const preset = profile?.equalizer?.preset;
+    if (preset) {
+      if (!this.userEqualizer) {
+        const { enabled, gains, preset: userPreset } = live.equalizer;
+        this.userEqualizer = { enabled, gains, preset: userPreset };
+      }
+      // Presets are graphic bands; the EQ mode and parametric bands stay the user's
+      audioGraph.setEqualizer({ enabled: true, gains: [...preset.bands], preset: preset.id });
+    } else if (this.userEqualizer) {
+      audioGraph.setEqualizer(this.userEqualizer);
+      this.userEqualizer = undefined;
+    }
+
+    const effects = profile?.effects?.settings;
+    if (effects) {
+      if (!this.userEffects) {
+        const { compressor, bassBoost, spatial } = live;
+        this.userEffects = { compressor, bassBoost, spatial };
+      }
+      const { enabled, threshold, knee, ratio, attack, release } = effects.compressor;
+      audioGraph.setCompressor({ enabled, threshold, knee, ratio, attack, release });
+      audioGraph.setBassBoost({ ...effects.bassBoost });
+      audioGraph.setSpatial({ enabled: effects.spatialAudio.enabled, width: effects.spatialAudio.width ?? live.spatial.width });
+    } else if (this.userEffects) {
+      audioGraph.setCompressor(this.userEffects.compressor);
+      audioGraph.setBassBoost(this.userEffects.bassBoost);
+      audioGraph.setSpatial(this.userEffects.spatial);
+      this.userEffects = undefined;
+    }
+
+    const hasProfile = !!(profile?.equalizer || profile?.effects);
+    this.active = hasProfile ? profile : null;
+    this.callbacks.forEach(callback => callback(this.active));
+  }
+
+  /**
+   * Store the graph's current EQ and/or effects as the profile of one of the track's scopes
+   */
+  async assignCurrentSettings(
+    track: ProfileTrack,
+    scope: AudioProfileScope,
+    include: { equalizer: boolean; effects: boolean }
+  ): Promise<AudioProfileAssignment | undefined> {
+    const target = getAudioProfileTarget(track, scope);
+    if (!target || (!include.equalizer && !include.effects)) return undefined;
+
+    const state = audioGraph.getState();
+    let equalizerPresetId: string | undefined;
+    if (include.equalizer) {
+      // Reference the selected preset unless its bands were tweaked; tweaks are kept as a custom preset
+      const selected = await libraryRepository.getEqualizerPreset(state.equalizer.preset);
+      equalizerPresetId = selected && sameBands(selected.bands, state.equalizer.gains)
+        ? selected.id
+        : (await libraryRepository.saveEqualizerPreset(`${AUDIO_PROFILE_SCOPE_LABELS[scope]}: ${target.label}`, state.equalizer.gains)).id;
+    }
+
+    const assignment = await libraryRepository.assignAudioProfile(scope, target.key, target.label, {
+      equalizerPresetId,
+      effects: include.effects ? effectsFromState(state) : undefined
+    });
+    await this.applyForTrack(track);
+    return assignment;
+  }
+
+  /**
+   * Drop the profile of one of the track's scopes and re-resolve what the track inherits
+   */
+  async removeProfile(track: ProfileTrack, scope: AudioProfileScope): Promise<void> {
+    const target = getAudioProfileTarget(track, scope);
+    if (!target) return;
+
+    await libraryRepository.removeAudioProfile(audioProfileId(scope, target.key));
+    await this.applyForTrack(track);
+  }
+
+  onProfileChange(callback: (profile: ActiveAudioProfile | null) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+}
+
+export const audioProfiles = new AudioProfileService();
@@ -0,0 +1,49 @@
+/**
+ * Autoplay: once the queue runs out, keep going with tracks similar to what just played,
+ * picked by the smart mix from the library and left out if they played recently.
+ */
+import type { Track } from '@/hooks/useMediaLibrary';
+import { libraryRepository } from '../libraryRepository';
+import { smartMixService } from '../smartMixService';
+
+// The last few tracks played steer what comes next
+const SEED_COUNT = 5;
+// Tracks among this many most recently played are not picked again
+const RECENT_PLAYS = 50;
+// Tracks added each time the queue runs low
+const BATCH_SIZE = 10;
+
+class AutoplayService {
+  async isEnabled(): Promise<boolean> {
+    return !!(await libraryRepository.getPreferences()).autoplay;
+  }
+
+  async setEnabled(enabled: boolean): Promise<void> {
+    await libraryRepository.updatePreferences({ autoplay: enabled });
+  }
+
+  /**
+   * Tracks to play next, seeded from the tracks that played last. Anything in avoid is left out,
+   * as are recent plays unless nothing else is left in a small library.
+   */
+  async getNextTracks(played: Track[], avoid: Track[]): Promise<Track[]> {
+    const seedTracks = played.slice(-SEED_COUNT);
+    const recent = await libraryRepository.getRecentSongs(RECENT_PLAYS);
+    const avoidIds = [...played, ...avoid].map(track => track.id);
+
+    const options = {
+      seedTracks: seedTracks.length > 0 ? seedTracks : undefined,
+      excludeSkipped: true
+    };
+    const tracks = await smartMixService.generateSmartMix({
+      ...options,
+      excludeTrackIds: [...avoidIds, ...recent.map(song => song.id)]
+    });
+    if (tracks.length > 0) return tracks.slice(0, BATCH_SIZE);
+
+    const fallback = await smartMixService.generateSmartMix({ ...options, excludeTrackIds: avoid.map(track => track.id) });
+    return fallback.slice(0, BATCH_SIZE);
+  }
+}
+
+export const autoplay = new AutoplayService();
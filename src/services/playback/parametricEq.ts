@@ -0,0 +1,247 @@
+/**
+ * Parametric equalizer model: RBJ cookbook biquads (the same filters Equalizer APO
+ * uses), their frequency response, and Equalizer APO / AutoEQ text import and export.
+ * Free of Web Audio so the response curve can be drawn before any audio has played.
+ */
+
+export type ParametricFilterType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass';
+
+export interface ParametricFilter {
+  enabled: boolean;
+  type: ParametricFilterType;
+  frequency: number; // Hz
+  gain: number; // dB; ignored by low and high pass
+  q: number;
+}
+
+export interface ParametricEqState {
+  preamp: number; // dB
+  filters: ParametricFilter[];
+}
+
+export interface BiquadCoefficients {
+  b: [number, number, number]; // Feed-forward, normalized so a0 = 1
+  a: [number, number, number]; // Feedback, a[0] is always 1
+}
+
+export const DEFAULT_PARAMETRIC_EQ: ParametricEqState = { preamp: 0, filters: [] };
+
+export const PARAMETRIC_FILTER_LIMITS = {
+  frequency: { min: 10, max: 22000 },
+  gain: { min: -30, max: 30 },
+  q: { min: 0.1, max: 30 },
+  preamp: { min: -30, max: 12 }
+} as const;
+
+/**
+ * Q of a Web Audio shelf, whose slope is fixed at S = 1
+ */
+export const WEB_AUDIO_SHELF_Q = Math.SQRT1_2;
+
+// Equalizer APO filter codes; the Q variants are used when exporting
+const APO_TYPES: Record<string, ParametricFilterType> = {
+  PK: 'peaking',
+  PEQ: 'peaking',
+  LS: 'lowshelf',
+  LSC: 'lowshelf',
+  HS: 'highshelf',
+  HSC: 'highshelf',
+  LP: 'lowpass',
+  LPQ: 'lowpass',
+  HP: 'highpass',
+  HPQ: 'highpass'
+};
+
+const APO_CODES: Record<ParametricFilterType, string> = {
+  peaking: 'PK',
+  lowshelf: 'LSC',
+  highshelf: 'HSC',
+  lowpass: 'LPQ',
+  highpass: 'HPQ'
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+/**
+ * Normalized biquad coefficients for a filter at the given sample rate
+ */
+export function biquadCoefficients(filter: ParametricFilter, sampleRate: number): BiquadCoefficients {
+  const frequency = clamp(filter.frequency, 1, sampleRate / 2 - 1);
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.max(filter.q, 1e-4));
+  const A = Math.pow(10, filter.gain / 40);
+  const shelf = 2 * Math.sqrt(A) * alpha;
+
+  let b: number[];
+  let a: number[];
+  switch (filter.type) {
+    case 'peaking':
+      b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+      a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+      break;
+    case 'lowshelf':
+      b = [A * ((A + 1) - (A - 1) * cos + shelf), 2 * A * ((A - 1) - (A + 1) * cos), A * ((A + 1) - (A - 1) * cos - shelf)];
+      a = [(A + 1) + (A - 1) * cos + shelf, -2 * ((A - 1) + (A + 1) * cos), (A + 1) + (A - 1) * cos - shelf];
+      break;
+    case 'highshelf':
+      b = [A * ((A + 1) + (A - 1) * cos + shelf), -2 * A * ((A - 1) + (A + 1) * cos), A * ((A + 1) + (A - 1) * cos - shelf)];
+      a = [(A + 1) - (A - 1) * cos + shelf, 2 * ((A - 1) - (A + 1) * cos), (A + 1) - (A - 1) * cos - shelf];
+      break;
+    case 'lowpass':
+      b = [(1 - cos) / 2, 1 - cos, (1 - cos) / 2];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'highpass':
+      b = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+  }
+
+  const a0 = a[0];
+  return {
+    b: [b[0] / a0, b[1] / a0, b[2] / a0],
+    a: [1, a[1] / a0, a[2] / a0]
+  };
+}
+
+/**
+ * Magnitude in dB of one biquad at each frequency
+ */
+export function biquadMagnitude(coefficients: BiquadCoefficients, frequencies: number[], sampleRate: number): number[] {
+  const { b, a } = coefficients;
+  return frequencies.map(frequency => {
+    const w = (2 * Math.PI * frequency) / sampleRate;
+    const cos1 = Math.cos(w), sin1 = Math.sin(w);
+    const cos2 = Math.cos(2 * w), sin2 = Math.sin(2 * w);
+    const numRe = b[0] + b[1] * cos1 + b[2] * cos2;
+    const numIm = -(b[1] * sin1 + b[2] * sin2);
+    const denRe = a[0] + a[1] * cos1 + a[2] * cos2;
+    const denIm = -(a[1] * sin1 + a[2] * sin2);
+    const power = (numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm);
+    return 10 * Math.log10(Math.max(power, 1e-12));
+  });
+}
+
+/**
+ * Combined response in dB of the enabled filters plus preamp
+ */
+export function frequencyResponse(state: ParametricEqState, frequencies: number[], sampleRate: number): number[] {
+  const total = frequencies.map(() => state.preamp);
+  state.filters.forEach(filter => {
+    if (!filter.enabled) return;
+    const magnitude = biquadMagnitude(biquadCoefficients(filter, sampleRate), frequencies, sampleRate);
+    magnitude.forEach((db, index) => { total[index] += db; });
+  });
+  return total;
+}
+
+/**
+ * Log-spaced frequencies for plotting, inclusive of both ends
+ */
+export function logFrequencies(count: number, min: number = 20, max: number = 20000): number[] {
+  const ratio = Math.log(max / min);
+  return Array.from({ length: count }, (_, index) => min * Math.exp((ratio * index) / (count - 1)));
+}
+
+/**
+ * The 10-band graphic EQ expressed as the equivalent parametric filters
+ */
+export function graphicEqFilters(frequencies: number[], gains: number[]): ParametricFilter[] {
+  return frequencies.map((frequency, index) => {
+    const isLow = index === 0;
+    const isHigh = index === frequencies.length - 1;
+    return {
+      enabled: true,
+      type: isLow ? 'lowshelf' : isHigh ? 'highshelf' : 'peaking',
+      frequency,
+      gain: gains[index] ?? 0,
+      q: isLow || isHigh ? WEB_AUDIO_SHELF_Q : 1
+    };
+  });
+}
+
+/**
+ * Parse an Equalizer APO config such as AutoEQ's ParametricEQ.txt or FixedBandEQ.txt.
+ * Unsupported lines are ignored; bandwidths given in octaves are converted to Q.
+ */
+export function parseParametricEq(text: string): ParametricEqState {
+  const state: ParametricEqState = { preamp: 0, filters: [] };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const preamp = line.match(/^Preamp:\s*([-+]?\d*\.?\d+)\s*dB/i);
+    if (preamp) {
+      state.preamp += parseFloat(preamp[1]);
+      return;
+    }
+
+    const filter = line.match(/^Filter\s*\d*\s*:\s*(ON|OFF)\s+([A-Z]+)\b(.*)$/i);
+    if (!filter) return;
+
+    const type = APO_TYPES[filter[2].toUpperCase()];
+    if (!type) return;
+
+    const params = filter[3];
+    const frequency = matchNumber(params, /Fc\s+([-+]?\d*\.?\d+)\s*Hz/i);
+    if (frequency === undefined) return;
+
+    const bandwidth = matchNumber(params, /BW\s+Oct\s+([-+]?\d*\.?\d+)/i);
+    const q = matchNumber(params, /\bQ\s+([-+]?\d*\.?\d+)/i)
+      ?? (bandwidth !== undefined ? bandwidthToQ(bandwidth) : undefined)
+      ?? (type === 'peaking' ? 1 : WEB_AUDIO_SHELF_Q);
+
+    state.filters.push(normalizeFilter({
+      enabled: filter[1].toUpperCase() === 'ON',
+      type,
+      frequency,
+      gain: matchNumber(params, /Gain\s+([-+]?\d*\.?\d+)\s*dB/i) ?? 0,
+      q
+    }));
+  });
+
+  state.preamp = clamp(state.preamp, PARAMETRIC_FILTER_LIMITS.preamp.min, PARAMETRIC_FILTER_LIMITS.preamp.max);
+  return state;
+}
+
+/**
+ * Equalizer APO config text, readable by AutoEQ-compatible tools
+ */
+export function serializeParametricEq(state: ParametricEqState): string {
+  const lines = [`Preamp: ${state.preamp.toFixed(1)} dB`];
+  state.filters.forEach((filter, index) => {
+    const hasGain = filter.type !== 'lowpass' && filter.type !== 'highpass';
+    lines.push([
+      `Filter ${index + 1}: ${filter.enabled ? 'ON' : 'OFF'} ${APO_CODES[filter.type]}`,
+      `Fc ${Math.round(filter.frequency)} Hz`,
+      hasGain ? `Gain ${filter.gain.toFixed(1)} dB` : '',
+      `Q ${filter.q.toFixed(2)}`
+    ].filter(Boolean).join(' '));
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Clamp a filter's parameters to the supported ranges
+ */
+export function normalizeFilter(filter: ParametricFilter): ParametricFilter {
+  const { frequency, gain, q } = PARAMETRIC_FILTER_LIMITS;
+  return {
+    ...filter,
+    frequency: clamp(filter.frequency, frequency.min, frequency.max),
+    gain: clamp(filter.gain, gain.min, gain.max),
+    q: clamp(filter.q, q.min, q.max)
+  };
+}
+
+function matchNumber(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+function bandwidthToQ(octaves: number): number {
+  const power = Math.pow(2, octaves);
+  return Math.sqrt(power) / (power - 1);
+}
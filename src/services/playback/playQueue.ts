@@ -0,0 +1,300 @@
+/**
+ * The play queue, in two tiers: tracks the listener queued play first, then playback carries
+ * on through the context it was started from (an album, playlist, search result...). Once both
+ * run out, tracks autoplay added play. These functions take a queue state and return the next
+ * one; usePlaybackQueue holds the state.
+ */
+import type { Track } from '@/hooks/useMediaLibrary';
+import { createShuffleOrder, createShuffleSeed, type ShuffleMode } from './shuffle';
+
+export type RepeatMode = 'none' | 'one' | 'all';
+
+/**
+ * A track that played, to step back to; index is its place in the context, absent for queued tracks
+ */
+export interface HistoryEntry {
+  track: Track;
+  index?: number;
+}
+
+export interface PlaybackQueueState {
+  tracks: Track[]; // The context playback was started from
+  index: number; // Place in the context; while a queued track plays, the context track it follows
+  queued: Track[]; // Queued by the listener, played before the context carries on
+  queuedTrack?: Track; // The queued track playing now
+  autoQueued: Track[]; // Added by autoplay, played once the queue and the context run out
+  autoTrack?: boolean; // Whether the queued track playing now was added by autoplay
+  shuffleMode: ShuffleMode;
+  shuffleSeed: number;
+  shuffleOrder: number[]; // Context indices in play order; empty while shuffle is off
+  history: HistoryEntry[]; // Played before the current track, most recent last
+}
+
+// Previous can step back through this many tracks
+const HISTORY_LIMIT = 500;
+
+export const EMPTY_QUEUE: PlaybackQueueState = {
+  tracks: [],
+  index: 0,
+  queued: [],
+  autoQueued: [],
+  shuffleMode: 'off',
+  shuffleSeed: 0,
+  shuffleOrder: [],
+  history: []
+};
+
+export const getCurrentTrack = (state: PlaybackQueueState): Track | null =>
+  state.queuedTrack ?? state.tracks[state.index] ?? null;
+
+/**
+ * Context indices still to play, in play order
+ */
+export function getUpcomingIndices(state: PlaybackQueueState): number[] {
+  if (state.shuffleMode !== 'off') {
+    return state.shuffleOrder.slice(state.shuffleOrder.indexOf(state.index) + 1);
+  }
+  return state.tracks.map((_, index) => index).slice(state.index + 1);
+}
+
+const pushHistory = (state: PlaybackQueueState): HistoryEntry[] => {
+  const current = getCurrentTrack(state);
+  if (!current) return state.history;
+  const entry: HistoryEntry = state.queuedTrack ? { track: current } : { track: current, index: state.index };
+  return [...state.history, entry].slice(-HISTORY_LIMIT);
+};
+
+/**
+ * A fresh shuffled order for the context that starts at the current track, or none when shuffle is off
+ */
+export function reshuffle(state: PlaybackQueueState): PlaybackQueueState {
+  const shuffleSeed = createShuffleSeed();
+  return {
+    ...state,
+    shuffleSeed,
+    shuffleOrder: state.shuffleMode === 'off' || state.tracks.length === 0
+      ? []
+      : createShuffleOrder(state.tracks, state.shuffleMode, shuffleSeed, state.index)
+  };
+}
+
+/**
+ * Start playing a context from one of its tracks; the listener's queue is kept, autoplay's is not
+ */
+export const startContext = (state: PlaybackQueueState, tracks: Track[], index: number): PlaybackQueueState =>
+  reshuffle({ ...state, tracks, index, queuedTrack: undefined, autoTrack: undefined, autoQueued: [], history: pushHistory(state) });
+
+/**
+ * The next place in the context, starting it over with repeat all; null once it has run out
+ */
+function nextInContext(state: PlaybackQueueState, repeatMode?: RepeatMode): Pick<PlaybackQueueState, 'index' | 'shuffleSeed' | 'shuffleOrder'> | null {
+  if (state.tracks.length === 0) return null;
+  const { shuffleSeed, shuffleOrder } = state;
+
+  if (state.shuffleMode !== 'off') {
+    const next = getUpcomingIndices(state)[0];
+    if (next !== undefined) return { index: next, shuffleSeed, shuffleOrder };
+    if (repeatMode !== 'all') return null;
+
+    // Every pass through the context gets an order of its own
+    const seed = createShuffleSeed();
+    const order = createShuffleOrder(state.tracks, state.shuffleMode, seed);
+    return { index: order[0], shuffleSeed: seed, shuffleOrder: order };
+  }
+
+  if (state.index < state.tracks.length - 1) {
+    return { index: state.index + 1, shuffleSeed, shuffleOrder };
+  } else if (repeatMode === 'all') {
+    // Loop back to first track
+    return { index: 0, shuffleSeed, shuffleOrder };
+  }
+  return null;
+}
+
+/**
+ * Move on: to the first queued track, else through the context, else to what autoplay added
+ */
+export function advance(state: PlaybackQueueState, repeatMode?: RepeatMode): PlaybackQueueState | null {
+  const history = pushHistory(state);
+  if (state.queued.length > 0) {
+    const [queuedTrack, ...queued] = state.queued;
+    return { ...state, queued, queuedTrack, autoTrack: undefined, history };
+  }
+
+  const next = nextInContext(state, repeatMode);
+  if (next) return { ...state, ...next, queuedTrack: undefined, autoTrack: undefined, history };
+
+  if (state.autoQueued.length > 0) {
+    const [queuedTrack, ...autoQueued] = state.autoQueued;
+    return { ...state, autoQueued, queuedTrack, autoTrack: true, history };
+  }
+  return null;
+}
+
+/**
+ * Step back to what actually played before; without history, to the previous track in play order.
+ * A queued track stepped back from goes back to the front of the queue.
+ */
+export function goBack(state: PlaybackQueueState): PlaybackQueueState | null {
+  const requeued = state.queuedTrack && !state.autoTrack ? [state.queuedTrack] : [];
+  const autoRequeued = state.queuedTrack && state.autoTrack ? [state.queuedTrack] : [];
+  const queues = {
+    queued: [...requeued, ...state.queued],
+    autoQueued: [...autoRequeued, ...state.autoQueued],
+    autoTrack: undefined
+  };
+  const entry = state.history[state.history.length - 1];
+
+  if (entry) {
+    const history = state.history.slice(0, -1);
+    return entry.index !== undefined && state.tracks[entry.index]?.id === entry.track.id
+      ? { ...state, ...queues, queuedTrack: undefined, index: entry.index, history }
+      : { ...state, ...queues, queuedTrack: entry.track, history };
+  }
+
+  if (state.tracks.length === 0) return null;
+  if (state.queuedTrack) {
+    // Back to the context track the queued one followed
+    return { ...state, ...queues, queuedTrack: undefined };
+  }
+
+  let index: number;
+  if (state.shuffleMode !== 'off') {
+    const at = state.shuffleOrder.indexOf(state.index);
+    index = state.shuffleOrder[at > 0 ? at - 1 : state.shuffleOrder.length - 1];
+  } else {
+    // Loop to last track from the first
+    index = state.index > 0 ? state.index - 1 : state.tracks.length - 1;
+  }
+  return { ...state, index };
+}
+
+/**
+ * The track advance would move to, when that is predictable; used to preload the next deck
+ */
+export function peekNext(state: PlaybackQueueState, repeatMode?: RepeatMode): Track | null {
+  if (state.queued.length > 0) return state.queued[0];
+
+  const next = getUpcomingIndices(state)[0];
+  if (next !== undefined) return state.tracks[next];
+  if (repeatMode === 'all' && state.tracks.length > 0) {
+    // A new shuffled pass is only ordered once it starts
+    return state.shuffleMode === 'off' ? state.tracks[0] : null;
+  }
+  return state.autoQueued[0] ?? null;
+}
+
+export const queueTracks = (state: PlaybackQueueState, tracks: Track[], position: 'next' | 'last'): PlaybackQueueState => ({
+  ...state,
+  queued: position === 'next' ? [...tracks, ...state.queued] : [...state.queued, ...tracks]
+});
+
+export const removeQueued = (state: PlaybackQueueState, position: number): PlaybackQueueState => ({
+  ...state,
+  queued: state.queued.filter((_, i) => i !== position)
+});
+
+export const addAutoQueued = (state: PlaybackQueueState, tracks: Track[]): PlaybackQueueState => ({
+  ...state,
+  autoQueued: [...state.autoQueued, ...tracks]
+});
+
+export const removeAutoQueued = (state: PlaybackQueueState, position: number): PlaybackQueueState => ({
+  ...state,
+  autoQueued: state.autoQueued.filter((_, i) => i !== position)
+});
+
+const move = <T>(items: T[], from: number, to: number): T[] => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+export const moveQueued = (state: PlaybackQueueState, from: number, to: number): PlaybackQueueState => ({
+  ...state,
+  queued: move(state.queued, from, to)
+});
+
+/**
+ * Play a queued track now; the rest of the queue stays as it is
+ */
+export const playQueued = (state: PlaybackQueueState, position: number): PlaybackQueueState => ({
+  ...state,
+  queued: state.queued.filter((_, i) => i !== position),
+  queuedTrack: state.queued[position],
+  autoTrack: undefined,
+  history: pushHistory(state)
+});
+
+/**
+ * Play a track autoplay added now
+ */
+export const playAutoQueued = (state: PlaybackQueueState, position: number): PlaybackQueueState => ({
+  ...state,
+  autoQueued: state.autoQueued.filter((_, i) => i !== position),
+  queuedTrack: state.autoQueued[position],
+  autoTrack: true,
+  history: pushHistory(state)
+});
+
+/**
+ * Jump to a track of the context
+ */
+export const playInContext = (state: PlaybackQueueState, index: number): PlaybackQueueState => ({
+  ...state,
+  index,
+  queuedTrack: undefined,
+  autoTrack: undefined,
+  history: pushHistory(state)
+});
+
+/**
+ * Rebuild the context from some of its tracks, given by their old indices in their new order,
+ * keeping the current place, shuffle order and history pointing at the same tracks
+ */
+function rearrange(state: PlaybackQueueState, indices: number[]): PlaybackQueueState {
+  const moved = new Map(indices.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+  return {
+    ...state,
+    tracks: indices.map(index => state.tracks[index]),
+    index: moved.get(state.index) ?? 0,
+    shuffleOrder: state.shuffleOrder.filter(index => moved.has(index)).map(index => moved.get(index)!),
+    history: state.history.map(entry => {
+      if (entry.index === undefined) return entry;
+      const index = moved.get(entry.index);
+      return index === undefined ? { track: entry.track } : { ...entry, index };
+    })
+  };
+}
+
+/**
+ * Take an upcoming track out of the context
+ */
+export function removeUpcoming(state: PlaybackQueueState, index: number): PlaybackQueueState {
+  if (index === state.index) return state;
+  return rearrange(state, state.tracks.map((_, i) => i).filter(i => i !== index));
+}
+
+/**
+ * Reorder the context's upcoming tracks, by their positions in play order
+ */
+export function moveUpcoming(state: PlaybackQueueState, from: number, to: number): PlaybackQueueState {
+  const upcoming = getUpcomingIndices(state);
+  const reordered = move(upcoming, from, to);
+
+  if (state.shuffleMode !== 'off') {
+    const played = state.shuffleOrder.slice(0, state.shuffleOrder.length - upcoming.length);
+    return { ...state, shuffleOrder: [...played, ...reordered] };
+  }
+  return rearrange(state, [...state.tracks.map((_, i) => i).slice(0, state.index + 1), ...reordered]);
+}
+
+/**
+ * Drop everything still to play, queued, from the context or added by autoplay, keeping the current track
+ */
+export const clearUpcoming = (state: PlaybackQueueState): PlaybackQueueState => ({
+  ...rearrange(state, state.queuedTrack ? [] : [state.index]),
+  queued: [],
+  autoQueued: []
+});
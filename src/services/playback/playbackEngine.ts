@@ -0,0 +1,801 @@
+import type { Track } from '@/hooks/useMediaLibrary';
+import type { CrossfadeSettings } from '@/components/advanced/CrossfadeSettings';
+import { detectSilenceBounds, type SilenceBounds } from '../analysis/silenceDetection';
+import { computePlaybackGain, REPLAYGAIN_REFERENCE_LUFS } from '../analysis/loudness';
+import { audioGraph } from './audioGraph';
+import { trackFileService } from '../library/trackFileService';
+import { getAlbumKey } from '../library/albumGrouping';
+
+export const CROSSFADE_SETTINGS_KEY = 'crossfade_settings';
+
+export const DEFAULT_CROSSFADE_SETTINGS: CrossfadeSettings = {
+  enabled: true,
+  duration: 5,
+  curve: 'smooth',
+  gapless: false,
+  fadeInDuration: 2,
+  fadeOutDuration: 3,
+  normalizeVolume: true,
+  normalizationMode: 'album',
+  targetLoudness: REPLAYGAIN_REFERENCE_LUFS,
+  preventClipping: true,
+  // Finding silence decodes the whole file, so it is left to those who ask for it
+  skipSilence: false,
+  preloadNext: true
+};
+
+export type TransitionKind = 'crossfade' | 'gapless' | 'cut';
+
+type DeckKind = 'element' | 'buffer';
+
+interface Deck {
+  track: Track;
+  kind: DeckKind;
+  ready: Promise<void>;
+  trim?: SilenceBounds;
+  buffer?: AudioBuffer;
+  source?: AudioBufferSourceNode;
+  startedAt: number; // context time the current buffer source started
+  offset: number; // buffer position at startedAt, or while stopped
+  running: boolean;
+  upgrading?: boolean; // an element deck being decoded to join a gapless transition
+  keepsLeadingSilence?: boolean; // followed a track of the same album, whose gap is intended
+}
+
+interface Slot {
+  element: HTMLAudioElement;
+  normalizer: GainNode; // Loudness normalization of the loaded track
+  gain: GainNode; // Fades
+  deck?: Deck;
+}
+
+interface ActiveTransition {
+  kind: TransitionKind;
+  outgoing: number;
+  switchAt: number;
+  endsAt: number;
+  switched: boolean;
+}
+
+const TICK_MS = 200;
+const TRIM_SAMPLE_RATE = 22050;
+const CURVE_POINTS = 128;
+
+/**
+ * Schedule gapless starts this far ahead so the next buffer is queued well before the boundary
+ */
+const GAPLESS_LOOKAHEAD = 2;
+
+export const isSameAlbum = (a?: Track | null, b?: Track | null): boolean =>
+  !!a?.album && !!b?.album && getAlbumKey(a) === getAlbumKey(b);
+
+/**
+ * Gain curve for one side of a fade; fade-outs are the mirrored fade-in
+ */
+export function createFadeCurve(curve: CrossfadeSettings['curve'], direction: 'in' | 'out'): Float32Array {
+  const values = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const progress = i / (CURVE_POINTS - 1);
+    const x = direction === 'in' ? progress : 1 - progress;
+    switch (curve) {
+      case 'linear':
+        values[i] = x;
+        break;
+      case 'exponential':
+        values[i] = x * x;
+        break;
+      case 'smooth':
+        // Equal power keeps perceived loudness constant through the overlap
+        values[i] = Math.sin((x * Math.PI) / 2);
+        break;
+    }
+  }
+  return values;
+}
+
+function loadCrossfadeSettings(): CrossfadeSettings {
+  try {
+    const saved = localStorage.getItem(CROSSFADE_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_CROSSFADE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CROSSFADE_SETTINGS;
+  } catch {
+    return DEFAULT_CROSSFADE_SETTINGS;
+  }
+}
+
+/**
+ * Dual-deck playback engine. One deck plays while the other preloads the
+ * upcoming track; transitions either crossfade the two decks with the chosen
+ * curve, or, for consecutive album tracks in gapless mode, schedule decoded
+ * buffers back to back on the audio clock so no samples are dropped or added.
+ * Both decks feed the shared audio graph, so effects apply to every deck.
+ */
+class PlaybackEngine {
+  private context?: AudioContext;
+  private output?: GainNode;
+  private slots: Slot[] = [];
+  private active = 0;
+  private settings: CrossfadeSettings = loadCrossfadeSettings();
+  private upcoming: Track | null = null;
+  private transition?: ActiveTransition;
+  private playing = false;
+  private volume = 1;
+  private ticker?: ReturnType<typeof setInterval>;
+  private trimCache = new Map<string, SilenceBounds>();
+  private timeCallbacks = new Set<(position: number, duration: number) => void>();
+  private playStateCallbacks = new Set<(isPlaying: boolean) => void>();
+  private endCallbacks = new Set<() => void>();
+  private advanceCallbacks = new Set<(track: Track) => void>();
+
+  getSettings(): CrossfadeSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(settings: CrossfadeSettings): void {
+    this.settings = { ...settings };
+    this.slots.forEach(slot => this.applyNormalization(slot));
+    this.cancelPendingTransition();
+    this.prepareUpcoming();
+  }
+
+  getCurrentTrack(): Track | undefined {
+    return this.slots[this.active]?.deck?.track;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  getPosition(): number {
+    const slot = this.slots[this.active];
+    return slot?.deck ? this.positionOf(slot) : 0;
+  }
+
+  getDuration(): number {
+    const slot = this.slots[this.active];
+    return slot?.deck ? this.durationOf(slot) : 0;
+  }
+
+  /**
+   * Replace whatever is playing with a track; the upcoming track decides whether it is decoded for gapless playback.
+   * startAt resumes partway in, as when a saved session is restored.
+   */
+  async load(track: Track, options: { autoplay?: boolean; upcoming?: Track | null; startAt?: number } = {}): Promise<void> {
+    this.ensureGraph();
+    this.cancelTransition();
+    this.slots.forEach(slot => this.stopSlot(slot));
+    this.setPlaying(false);
+
+    this.upcoming = options.upcoming ?? null;
+    const kind: DeckKind = this.resolveTransition(track, this.upcoming) === 'gapless' ? 'buffer' : 'element';
+    const slot = this.slots[this.active];
+    const deck = this.createDeck(slot, track, kind);
+    slot.gain.gain.cancelScheduledValues(0);
+    slot.gain.gain.value = 1;
+
+    try {
+      await deck.ready;
+    } catch (error) {
+      console.error('Failed to load track:', error);
+      return;
+    }
+    if (slot.deck !== deck) return;
+
+    const start = Math.max(deck.trim?.start ?? 0, options.startAt ?? 0);
+    if (start > 0) {
+      this.seekSlot(slot, start);
+    }
+    this.emitTime();
+
+    if (options.autoplay) {
+      await this.play();
+    }
+    this.prepareUpcoming();
+  }
+
+  /**
+   * Set the track that follows the current one, or null to stop at the end
+   */
+  setUpcoming(track: Track | null): void {
+    if (this.upcoming?.id === track?.id) return;
+    this.upcoming = track;
+    this.cancelPendingTransition();
+    this.prepareUpcoming();
+  }
+
+  async play(): Promise<void> {
+    const slot = this.slots[this.active];
+    if (!this.context || !slot?.deck || this.playing) return;
+
+    await audioGraph.resume();
+    try {
+      await this.startSlot(slot);
+    } catch (error) {
+      console.error('Error playing audio:', error);
+      return;
+    }
+
+    this.setPlaying(true);
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.cancelTransition();
+    const slot = this.slots[this.active];
+    if (slot) this.pauseSlot(slot);
+    this.setPlaying(false);
+  }
+
+  seek(position: number): void {
+    const slot = this.slots[this.active];
+    if (!slot?.deck) return;
+    this.cancelTransition();
+    this.seekSlot(slot, position);
+    this.emitTime();
+  }
+
+  /**
+   * Start the current track again from its first audible sample
+   */
+  async restart(): Promise<void> {
+    const deck = this.slots[this.active]?.deck;
+    if (!deck) return;
+    this.seek(deck.trim?.start ?? 0);
+    await this.play();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    if (this.output) {
+      this.output.gain.value = volume;
+    }
+  }
+
+  onTimeUpdate(callback: (position: number, duration: number) => void): () => void {
+    this.timeCallbacks.add(callback);
+    return () => this.timeCallbacks.delete(callback);
+  }
+
+  onPlayStateChange(callback: (isPlaying: boolean) => void): () => void {
+    this.playStateCallbacks.add(callback);
+    return () => this.playStateCallbacks.delete(callback);
+  }
+
+  /**
+   * Fired when the current track finishes and nothing is queued after it
+   */
+  onTrackEnd(callback: () => void): () => void {
+    this.endCallbacks.add(callback);
+    return () => this.endCallbacks.delete(callback);
+  }
+
+  /**
+   * Fired when the engine moves on to the upcoming track by itself
+   */
+  onTrackAdvance(callback: (track: Track) => void): () => void {
+    this.advanceCallbacks.add(callback);
+    return () => this.advanceCallbacks.delete(callback);
+  }
+
+  private resolveTransition(current?: Track | null, next?: Track | null): TransitionKind {
+    if (this.settings.gapless && isSameAlbum(current, next)) return 'gapless';
+    if (this.settings.enabled && this.settings.duration > 0) return 'crossfade';
+    return 'cut';
+  }
+
+  private ensureGraph(): void {
+    if (this.context) return;
+
+    this.context = audioGraph.getContext();
+    this.output = this.context.createGain();
+    this.output.gain.value = this.volume;
+    this.output.connect(audioGraph.getInput());
+
+    this.slots = [0, 1].map(index => {
+      const element = new Audio();
+      element.crossOrigin = 'anonymous';
+      element.preload = 'auto';
+
+      const normalizer = this.context!.createGain();
+      const gain = this.context!.createGain();
+      this.context!.createMediaElementSource(element).connect(normalizer);
+      normalizer.connect(gain);
+      gain.connect(this.output!);
+
+      element.addEventListener('ended', () => {
+        if (index === this.active && this.slots[index].deck?.kind === 'element') {
+          this.handleDeckEnded();
+        }
+      });
+
+      return { element, normalizer, gain };
+    });
+  }
+
+  private createDeck(slot: Slot, track: Track, kind: DeckKind): Deck {
+    const deck: Deck = { track, kind, ready: Promise.resolve(), startedAt: 0, offset: 0, running: false };
+    slot.deck = deck;
+    this.applyNormalization(slot);
+
+    if (kind === 'buffer') {
+      slot.element.removeAttribute('src');
+      deck.ready = trackFileService.getPlayableUrl(track).then(url => this.decode(url)).then(buffer => {
+        deck.buffer = buffer;
+        if (this.settings.skipSilence) {
+          deck.trim = this.trimCache.get(track.id) ?? detectSilenceBounds(buffer);
+          this.trimCache.set(track.id, deck.trim);
+        }
+      });
+    } else {
+      slot.element.removeAttribute('src');
+      // Stored songs are reopened from their file handles on first use, so the URL may take a moment
+      deck.ready = trackFileService.getPlayableUrl(track).then(url => {
+        if (slot.deck !== deck) return;
+        slot.element.src = url;
+        slot.element.load();
+        return new Promise<void>((resolve, reject) => {
+          const cleanup = () => {
+            slot.element.removeEventListener('loadedmetadata', onLoaded);
+            slot.element.removeEventListener('error', onError);
+          };
+          const onLoaded = () => { cleanup(); resolve(); };
+          const onError = () => { cleanup(); reject(new Error(`Failed to load ${track.title}`)); };
+          slot.element.addEventListener('loadedmetadata', onLoaded);
+          slot.element.addEventListener('error', onError);
+        });
+      });
+
+      if (this.settings.skipSilence) {
+        void this.resolveTrim(track).then(trim => {
+          if (slot.deck !== deck) return;
+          deck.trim = trim;
+          // Trim arrived after playback began; jump past the leading silence
+          if (!deck.keepsLeadingSilence && slot.element.currentTime < trim.start) {
+            slot.element.currentTime = trim.start;
+          }
+        }).catch(error => console.warn('Silence detection failed:', error));
+      }
+    }
+
+    return deck;
+  }
+
+  /**
+   * Set the slot's ReplayGain from the loaded track's tags or measurement
+   */
+  private applyNormalization(slot: Slot): void {
+    const track = slot.deck?.track;
+    slot.normalizer.gain.value = track && this.settings.normalizeVolume
+      ? computePlaybackGain(track.loudness, {
+        mode: this.settings.normalizationMode,
+        targetLoudness: this.settings.targetLoudness,
+        preventClipping: this.settings.preventClipping
+      })
+      : 1;
+  }
+
+  private async decode(url: string, context: BaseAudioContext = this.context!): Promise<AudioBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load audio (${response.status})`);
+    }
+    return context.decodeAudioData(await response.arrayBuffer());
+  }
+
+  private async resolveTrim(track: Track): Promise<SilenceBounds> {
+    const cached = this.trimCache.get(track.id);
+    if (cached) return cached;
+
+    // A low-rate mono decode is plenty to find where the audio starts and stops
+    const url = await trackFileService.getPlayableUrl(track);
+    const buffer = await this.decode(url, new OfflineAudioContext(1, 1, TRIM_SAMPLE_RATE));
+    const trim = detectSilenceBounds(buffer);
+    this.trimCache.set(track.id, trim);
+    return trim;
+  }
+
+  /**
+   * Load the upcoming track into the idle deck so the transition can start without waiting
+   */
+  private prepareUpcoming(): void {
+    const current = this.slots[this.active];
+    const standby = this.slots[1 - this.active];
+    if (!current?.deck || !standby || this.transition) return;
+
+    const next = this.upcoming;
+    if (!next || !this.settings.preloadNext) {
+      this.stopSlot(standby);
+      return;
+    }
+
+    const kind: DeckKind = this.resolveTransition(current.deck.track, next) === 'gapless' ? 'buffer' : 'element';
+    if (kind === 'buffer') {
+      this.upgradeToBuffer(current);
+    }
+    if (standby.deck?.track.id === next.id && standby.deck.kind === kind) return;
+
+    this.stopSlot(standby);
+    const deck = this.createDeck(standby, next, kind);
+    deck.ready.catch(error => console.warn('Failed to preload next track:', error));
+  }
+
+  /**
+   * Swap a playing element deck for a decoded buffer at the same position, so a gapless
+   * track set after load still joins without a gap. Until the decode finishes it ends in a cut.
+   */
+  private upgradeToBuffer(slot: Slot): void {
+    const deck = slot.deck;
+    if (!deck || deck.kind !== 'element' || deck.upgrading) return;
+    deck.upgrading = true;
+
+    void trackFileService.getPlayableUrl(deck.track).then(url => this.decode(url)).then(buffer => {
+      if (slot.deck !== deck || this.transition) return;
+      if (this.resolveTransition(deck.track, this.upcoming) !== 'gapless') return;
+
+      const upgraded: Deck = {
+        track: deck.track,
+        kind: 'buffer',
+        ready: Promise.resolve(),
+        buffer,
+        trim: this.settings.skipSilence ? this.trimCache.get(deck.track.id) ?? detectSilenceBounds(buffer) : undefined,
+        startedAt: 0,
+        offset: slot.element.currentTime,
+        running: false,
+        keepsLeadingSilence: deck.keepsLeadingSilence
+      };
+      if (upgraded.trim) this.trimCache.set(deck.track.id, upgraded.trim);
+
+      const wasRunning = deck.running;
+      slot.element.pause();
+      slot.element.removeAttribute('src');
+      slot.deck = upgraded;
+      if (wasRunning) {
+        this.startBuffer(slot, upgraded, upgraded.offset, this.context!.currentTime);
+      }
+    }).catch(error => {
+      console.warn('Failed to decode track for gapless playback:', error);
+    }).finally(() => {
+      // Settled either way; a later upcoming track may ask again
+      deck.upgrading = false;
+    });
+  }
+
+  private standbyDeckFor(track: Track, kind: DeckKind): Deck {
+    const standby = this.slots[1 - this.active];
+    if (standby.deck?.track.id === track.id && standby.deck.kind === kind) {
+      return standby.deck;
+    }
+    this.stopSlot(standby);
+    return this.createDeck(standby, track, kind);
+  }
+
+  private tick = (): void => {
+    const slot = this.slots[this.active];
+    if (!this.context || !slot?.deck) return;
+    this.emitTime();
+
+    if (this.transition) {
+      this.advanceTransition();
+      return;
+    }
+
+    const deck = slot.deck;
+    const next = this.upcoming;
+    // Silence between tracks of one album belongs to the album, so only other transitions trim it
+    const trimmed = !isSameAlbum(deck.track, next);
+    const position = this.positionOf(slot);
+    const end = (trimmed ? deck.trim?.end : undefined) ?? this.durationOf(slot);
+    if (!isFinite(end) || end <= 0) return;
+
+    const remaining = end - position;
+    const kind = next ? this.resolveTransition(deck.track, next) : 'cut';
+
+    if (next && kind === 'crossfade' && remaining <= this.settings.duration + TICK_MS / 1000) {
+      void this.startCrossfade(next, Math.max(0, remaining));
+    } else if (next && kind === 'gapless' && deck.kind === 'buffer' && remaining <= GAPLESS_LOOKAHEAD) {
+      void this.scheduleGapless(next, end);
+    } else if (trimmed && deck.trim && remaining <= 0) {
+      // Trailing silence reached; the element or buffer has not ended by itself
+      this.handleDeckEnded();
+    }
+  };
+
+  private async startCrossfade(next: Track, remaining: number): Promise<void> {
+    const context = this.context!;
+    const outgoing = this.active;
+    const incoming = 1 - outgoing;
+    const deck = this.standbyDeckFor(next, 'element');
+
+    const overlap = Math.min(this.settings.duration, remaining);
+    const placeholder: ActiveTransition = { kind: 'crossfade', outgoing, switchAt: Infinity, endsAt: Infinity, switched: false };
+    this.transition = placeholder;
+
+    try {
+      await deck.ready;
+    } catch (error) {
+      console.error('Failed to start crossfade:', error);
+      this.cancelPendingTransition();
+      return;
+    }
+    if (this.transition !== placeholder || this.slots[incoming].deck !== deck) return;
+
+    const start = context.currentTime;
+    const fadeIn = Math.max(0.01, Math.min(this.settings.fadeInDuration, overlap));
+    const fadeOut = Math.max(0.01, Math.min(this.settings.fadeOutDuration, overlap));
+    const outGain = this.slots[outgoing].gain.gain;
+    const inGain = this.slots[incoming].gain.gain;
+
+    inGain.cancelScheduledValues(0);
+    inGain.setValueAtTime(0, start);
+    inGain.setValueCurveAtTime(createFadeCurve(this.settings.curve, 'in'), start, fadeIn);
+    outGain.cancelScheduledValues(0);
+    outGain.setValueAtTime(1, start);
+    outGain.setValueCurveAtTime(createFadeCurve(this.settings.curve, 'out'), start + Math.max(0, overlap - fadeOut), fadeOut);
+
+    this.seekSlot(this.slots[incoming], this.entryPoint(deck, this.slots[outgoing].deck?.track));
+    try {
+      await this.startSlot(this.slots[incoming]);
+    } catch (error) {
+      console.error('Failed to start crossfade:', error);
+    }
+
+    this.transition = { kind: 'crossfade', outgoing, switchAt: start, endsAt: start + overlap, switched: true };
+    this.switchTo(incoming);
+  }
+
+  /**
+   * Queue the next decoded track to start on the exact sample where the current one stops
+   */
+  private async scheduleGapless(next: Track, end: number): Promise<void> {
+    const outgoing = this.active;
+    const incoming = 1 - outgoing;
+    const deck = this.standbyDeckFor(next, 'buffer');
+    const placeholder: ActiveTransition = { kind: 'gapless', outgoing, switchAt: Infinity, endsAt: Infinity, switched: false };
+    this.transition = placeholder;
+
+    try {
+      await deck.ready;
+    } catch (error) {
+      console.error('Failed to prepare gapless transition:', error);
+      this.cancelPendingTransition();
+      return;
+    }
+
+    const current = this.slots[outgoing].deck;
+    if (this.transition !== placeholder || !current?.running || this.slots[incoming].deck !== deck) return;
+
+    const boundary = current.startedAt + (end - current.offset);
+    const slot = this.slots[incoming];
+    slot.gain.gain.cancelScheduledValues(0);
+    slot.gain.gain.value = 1;
+    this.startBuffer(slot, deck, this.entryPoint(deck, current.track), boundary);
+
+    this.transition = { kind: 'gapless', outgoing, switchAt: boundary, endsAt: boundary, switched: false };
+  }
+
+  private advanceTransition(): void {
+    const transition = this.transition!;
+    const now = this.context!.currentTime;
+
+    if (!transition.switched && now >= transition.switchAt) {
+      transition.switched = true;
+      this.switchTo(1 - transition.outgoing);
+    }
+
+    if (now >= transition.endsAt) {
+      this.transition = undefined;
+      this.stopSlot(this.slots[transition.outgoing]);
+      this.prepareUpcoming();
+    }
+  }
+
+  private switchTo(index: number): void {
+    this.active = index;
+    const track = this.slots[index].deck!.track;
+    this.upcoming = null;
+    this.advanceCallbacks.forEach(callback => callback(track));
+    this.emitTime();
+  }
+
+  private handleDeckEnded(): void {
+    if (this.transition || !this.playing) return;
+
+    const next = this.upcoming;
+    if (next) {
+      void this.cutTo(next);
+      return;
+    }
+
+    const slot = this.slots[this.active];
+    if (slot) this.pauseSlot(slot);
+    this.setPlaying(false);
+    this.endCallbacks.forEach(callback => callback());
+  }
+
+  private async cutTo(next: Track): Promise<void> {
+    const outgoing = this.active;
+    const incoming = 1 - outgoing;
+    const deck = this.standbyDeckFor(next, 'element');
+    const placeholder: ActiveTransition = { kind: 'cut', outgoing, switchAt: Infinity, endsAt: Infinity, switched: false };
+    this.transition = placeholder;
+    this.pauseSlot(this.slots[outgoing]);
+
+    try {
+      await deck.ready;
+    } catch (error) {
+      console.error('Failed to load next track:', error);
+      this.cancelPendingTransition();
+      this.setPlaying(false);
+      this.endCallbacks.forEach(callback => callback());
+      return;
+    }
+    if (this.transition !== placeholder || this.slots[incoming].deck !== deck) return;
+    this.transition = undefined;
+
+    const slot = this.slots[incoming];
+    slot.gain.gain.cancelScheduledValues(0);
+    slot.gain.gain.value = 1;
+    this.seekSlot(slot, this.entryPoint(deck, this.slots[outgoing].deck?.track));
+    try {
+      await this.startSlot(slot);
+    } catch (error) {
+      console.error('Error playing audio:', error);
+    }
+
+    this.stopSlot(this.slots[outgoing]);
+    this.switchTo(incoming);
+    this.prepareUpcoming();
+  }
+
+  /**
+   * Where an incoming deck starts; after a track of the same album its leading silence is kept
+   */
+  private entryPoint(deck: Deck, previous?: Track): number {
+    deck.keepsLeadingSilence = isSameAlbum(previous, deck.track);
+    return deck.keepsLeadingSilence ? 0 : deck.trim?.start ?? 0;
+  }
+
+  /**
+   * Abort a scheduled transition that has not been heard yet; a running crossfade is completed instantly
+   */
+  private cancelPendingTransition(): void {
+    const transition = this.transition;
+    if (!transition || transition.switched) return;
+    this.transition = undefined;
+    this.stopSlot(this.slots[1 - transition.outgoing]);
+  }
+
+  private cancelTransition(): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    if (!transition.switched) {
+      this.cancelPendingTransition();
+      return;
+    }
+
+    this.transition = undefined;
+    this.stopSlot(this.slots[transition.outgoing]);
+    const gain = this.slots[this.active].gain.gain;
+    gain.cancelScheduledValues(0);
+    gain.value = 1;
+  }
+
+  private async startSlot(slot: Slot): Promise<void> {
+    const deck = slot.deck;
+    if (!deck) return;
+
+    if (deck.kind === 'element') {
+      await slot.element.play();
+      deck.running = true;
+    } else if (deck.buffer) {
+      this.startBuffer(slot, deck, deck.offset, this.context!.currentTime);
+    }
+  }
+
+  private startBuffer(slot: Slot, deck: Deck, offset: number, when: number): void {
+    this.stopBufferSource(deck);
+
+    const source = this.context!.createBufferSource();
+    source.buffer = deck.buffer!;
+    source.connect(slot.normalizer);
+    source.onended = () => {
+      if (deck.source !== source) return;
+      deck.running = false;
+      if (slot === this.slots[this.active] && slot.deck === deck) {
+        this.handleDeckEnded();
+      }
+    };
+    // Plays to the end of the buffer; trailing silence is cut by tick unless the next track is from the same album
+    source.start(when, offset);
+
+    deck.source = source;
+    deck.startedAt = when;
+    deck.offset = offset;
+    deck.running = true;
+  }
+
+  private stopBufferSource(deck: Deck): void {
+    const source = deck.source;
+    if (!source) return;
+    deck.source = undefined;
+    try {
+      source.stop();
+    } catch {
+      // Never started
+    }
+    source.disconnect();
+  }
+
+  private pauseSlot(slot: Slot): void {
+    const deck = slot.deck;
+    if (!deck) return;
+
+    if (deck.kind === 'element') {
+      slot.element.pause();
+    } else if (deck.running) {
+      deck.offset = this.positionOf(slot);
+      this.stopBufferSource(deck);
+    }
+    deck.running = false;
+  }
+
+  private stopSlot(slot: Slot): void {
+    if (!slot) return;
+    this.pauseSlot(slot);
+    if (slot.deck) {
+      this.stopBufferSource(slot.deck);
+    }
+    slot.deck = undefined;
+    slot.element.removeAttribute('src');
+    slot.gain.gain.cancelScheduledValues(0);
+    slot.gain.gain.value = 1;
+  }
+
+  private seekSlot(slot: Slot, position: number): void {
+    const deck = slot.deck;
+    if (!deck) return;
+
+    if (deck.kind === 'element') {
+      slot.element.currentTime = position;
+    } else if (deck.running) {
+      this.startBuffer(slot, deck, position, this.context!.currentTime);
+    } else {
+      deck.offset = position;
+    }
+  }
+
+  private positionOf(slot: Slot): number {
+    const deck = slot.deck!;
+    if (deck.kind === 'element') return slot.element.currentTime;
+    if (!deck.running) return deck.offset;
+    return deck.offset + Math.max(0, this.context!.currentTime - deck.startedAt);
+  }
+
+  private durationOf(slot: Slot): number {
+    const deck = slot.deck!;
+    if (deck.kind === 'buffer') return deck.buffer?.duration ?? deck.track.duration;
+    return isFinite(slot.element.duration) ? slot.element.duration : deck.track.duration;
+  }
+
+  private setPlaying(playing: boolean): void {
+    if (this.playing === playing) return;
+    this.playing = playing;
+
+    if (playing) {
+      this.ticker = setInterval(this.tick, TICK_MS);
+    } else if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = undefined;
+    }
+
+    this.playStateCallbacks.forEach(callback => callback(playing));
+  }
+
+  private emitTime(): void {
+    const position = this.getPosition();
+    const duration = this.getDuration();
+    this.timeCallbacks.forEach(callback => callback(position, duration));
+  }
+}
+
+export const playbackEngine = new PlaybackEngine();
@@ -0,0 +1,181 @@
+/**
+ * The playback session (queue, position, shuffle, repeat, volume and where playback was
+ * started from) saved to IndexedDB while playing and when the page goes away, so a reload
+ * picks up where the listener left off.
+ */
+import { libraryRepository } from '../libraryRepository';
+import { PlaybackSource, type EnhancedSong, type PlaybackSession } from '../enhancedDatabase';
+import { playbackEngine } from './playbackEngine';
+
+export type PlaybackSessionState = Omit<PlaybackSession, 'id' | 'position' | 'savedAt'>;
+
+export type RestoredSession = Pick<PlaybackSession, 'queueIndex' | 'shuffleMode' | 'shuffleSeed' | 'shuffleOrder' | 'source' | 'sourceId'> & {
+  songs: EnhancedSong[]; // The context
+  queued: EnhancedSong[];
+  queuedSong?: EnhancedSong;
+  autoQueued: EnhancedSong[];
+  autoTrack?: boolean;
+  history: Array<{ song: EnhancedSong; index?: number }>;
+};
+
+/**
+ * Sessions are written at most this often while something changes
+ */
+const SAVE_INTERVAL_MS = 5000;
+
+const DEFAULT_STATE: PlaybackSessionState = {
+  trackIds: [],
+  queueIndex: 0,
+  queuedIds: [],
+  shuffleMode: 'off',
+  shuffleSeed: 0,
+  shuffleOrder: [],
+  history: [],
+  repeatMode: 'none',
+  volume: 1,
+  isMuted: false,
+  source: PlaybackSource.UNKNOWN
+};
+
+class PlaybackSessionService {
+  private state: PlaybackSessionState = DEFAULT_STATE;
+  private restoring?: Promise<RestoredSession | null>;
+  // Nothing is saved until the stored session was read, so an empty start can't overwrite it
+  private restored = false;
+  private resumeAt?: { trackId: string; position: number };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  getState(): PlaybackSessionState {
+    return this.state;
+  }
+
+  /**
+   * Read the saved session, once however often it is asked for. Songs removed since are left out.
+   */
+  restore(): Promise<RestoredSession | null> {
+    if (!this.restoring) {
+      this.restoring = this.load().finally(() => {
+        this.restored = true;
+        playbackEngine.onTimeUpdate(() => this.schedule());
+        window.addEventListener('pagehide', () => void this.flush());
+      });
+    }
+    return this.restoring;
+  }
+
+  /**
+   * Record a change; it is written with the next throttled save
+   */
+  update(changes: Partial<PlaybackSessionState>): void {
+    this.state = { ...this.state, ...changes };
+    this.schedule();
+  }
+
+  /**
+   * Where to start a track the restored session was in the middle of; only handed out once
+   */
+  takeResumePosition(trackId: string): number | undefined {
+    if (this.resumeAt?.trackId !== trackId) return undefined;
+    const { position } = this.resumeAt;
+    this.resumeAt = undefined;
+    return position;
+  }
+
+  /**
+   * Write the session now instead of waiting for the throttle
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.restored) return;
+
+    const currentId = this.state.queuedTrackId ?? this.state.trackIds[this.state.queueIndex];
+    const position = playbackEngine.getCurrentTrack()?.id === currentId
+      ? playbackEngine.getPosition()
+      : this.resumeAt?.position ?? 0;
+
+    try {
+      await libraryRepository.savePlaybackSession({ ...this.state, position, savedAt: new Date() });
+    } catch (error) {
+      console.warn('Could not save the playback session:', error);
+    }
+  }
+
+  private schedule(): void {
+    if (!this.restored || this.timer) return;
+    this.timer = setTimeout(() => void this.flush(), SAVE_INTERVAL_MS);
+  }
+
+  private async load(): Promise<RestoredSession | null> {
+    try {
+      const [session, preferences] = await Promise.all([
+        libraryRepository.getPlaybackSession(),
+        libraryRepository.getPreferences()
+      ]);
+      if (!session) return null;
+
+      // Sessions saved before the queue had two tiers kept history as bare indices, which are dropped
+      const savedHistory = (session.history ?? []).filter(entry => entry?.trackId);
+      const queuedIds = session.queuedIds ?? [];
+      const autoQueuedIds = session.autoQueuedIds ?? [];
+      const ids = new Set([...session.trackIds, ...queuedIds, ...autoQueuedIds, ...savedHistory.map(entry => entry.trackId)]);
+      if (session.queuedTrackId) ids.add(session.queuedTrackId);
+      const found = new Map((await libraryRepository.getSongsByIds([...ids])).map(song => [song.id, song]));
+      const songsOf = (trackIds: string[]) => trackIds.flatMap(id => found.get(id) ?? []);
+
+      const songs = songsOf(session.trackIds);
+      const queued = songsOf(queuedIds);
+      const autoQueued = songsOf(autoQueuedIds);
+      const queuedSong = session.queuedTrackId ? found.get(session.queuedTrackId) : undefined;
+      if (songs.length === 0 && !queuedSong) return null;
+
+      const contextId = session.trackIds[session.queueIndex];
+      const current = songs.findIndex(song => song.id === contextId);
+      // Shuffle order and history point into the context, so they only hold while no song is gone
+      const complete = songs.length === session.trackIds.length;
+      // When the current song is gone, carry on with the first one after it that is left
+      const queueIndex = current >= 0
+        ? current
+        : Math.max(0, Math.min(session.trackIds.slice(0, session.queueIndex).filter(id => found.has(id)).length, songs.length - 1));
+      const history = savedHistory.flatMap((entry): RestoredSession['history'] => {
+        const song = found.get(entry.trackId);
+        if (!song) return [];
+        return complete && entry.index !== undefined ? [{ song, index: entry.index }] : [{ song }];
+      });
+
+      this.state = {
+        trackIds: songs.map(song => song.id),
+        queueIndex,
+        queuedIds: queued.map(song => song.id),
+        queuedTrackId: queuedSong?.id,
+        autoQueuedIds: autoQueued.map(song => song.id),
+        autoTrack: queuedSong ? session.autoTrack : undefined,
+        // Sessions saved before shuffle modes existed have no shuffle fields
+        shuffleMode: session.shuffleMode ?? 'off',
+        shuffleSeed: session.shuffleSeed ?? 0,
+        shuffleOrder: complete ? session.shuffleOrder ?? [] : [],
+        history: history.map(({ song, index }) => ({ trackId: song.id, index })),
+        repeatMode: session.repeatMode,
+        volume: session.volume,
+        isMuted: session.isMuted,
+        source: session.source,
+        sourceId: session.sourceId
+      };
+      playbackEngine.setVolume(session.isMuted ? 0 : session.volume);
+
+      const currentId = queuedSong?.id ?? (current >= 0 ? contextId : undefined);
+      const savedCurrentId = session.queuedTrackId ?? contextId;
+      if (currentId && currentId === savedCurrentId && session.position > 0 && (preferences.autoResume ?? true)) {
+        this.resumeAt = { trackId: currentId, position: session.position };
+      }
+
+      const { autoTrack, shuffleMode, shuffleSeed, shuffleOrder, source, sourceId } = this.state;
+      return { songs, queueIndex, queued, queuedSong, autoQueued, autoTrack, shuffleMode, shuffleSeed, shuffleOrder, history, source, sourceId };
+    } catch (error) {
+      console.warn('Could not restore the playback session:', error);
+      return null;
+    }
+  }
+}
+
+export const playbackSession = new PlaybackSessionService();
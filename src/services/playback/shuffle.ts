@@ -0,0 +1,106 @@
+/**
+ * Shuffled play orders. An order is a permutation of queue indices generated once from a
+ * seed, so every track plays once per pass and the order survives reloads:
+ *
+ *   tracks   - every track in random order
+ *   albums   - albums in random order, each played through in queue order
+ *   weighted - random, but unplayed and often-finished tracks tend to come first
+ */
+import type { Track } from '@/hooks/useMediaLibrary';
+import type { PlaybackSession } from '../enhancedDatabase';
+import { getAlbumKey } from '../library/albumGrouping';
+import { getSkipRatio } from '../listeningHistoryService';
+
+export type ShuffleMode = PlaybackSession['shuffleMode'];
+
+export const SHUFFLE_MODE_LABELS: Record<ShuffleMode, string> = {
+  off: 'Shuffle off',
+  tracks: 'Shuffle tracks',
+  albums: 'Shuffle albums',
+  weighted: 'Weighted shuffle'
+};
+
+/**
+ * Order the shuffle button steps through
+ */
+export const SHUFFLE_MODES: ShuffleMode[] = ['off', 'tracks', 'albums', 'weighted'];
+
+type ShuffleTrack = Pick<Track, 'artist' | 'album' | 'albumArtist' | 'compilation' | 'playCount' | 'skipCount'>;
+
+const UNPLAYED_WEIGHT = 3;
+const MIN_WEIGHT = 0.2;
+// Play counts beyond this no longer raise a track's weight
+const PLAY_COUNT_CAP = 10;
+
+export const createShuffleSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/**
+ * Mulberry32: small, fast and good enough to shuffle with; the same seed gives the same numbers
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+function shuffleInPlace<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * How strongly weighted shuffle favors a track: unplayed tracks most, then tracks played
+ * often and rarely skipped
+ */
+export function getShuffleWeight(track: Pick<Track, 'playCount' | 'skipCount'>): number {
+  if (track.playCount === 0 && !track.skipCount) return UNPLAYED_WEIGHT;
+  const popularity = 1 + Math.min(track.playCount, PLAY_COUNT_CAP) / PLAY_COUNT_CAP;
+  return Math.max(MIN_WEIGHT, (1 - getSkipRatio(track)) * popularity);
+}
+
+function orderAlbums(tracks: ShuffleTrack[], indices: number[], random: () => number, first?: number): number[] {
+  const albums = new Map<string, number[]>();
+  for (const index of indices) {
+    const key = getAlbumKey(tracks[index]);
+    albums.set(key, [...(albums.get(key) ?? []), index]);
+  }
+
+  if (first === undefined) return shuffleInPlace([...albums.values()], random).flat();
+
+  // The current album carries on from the current track; its earlier tracks come round last
+  const current = albums.get(getAlbumKey(tracks[first]))!;
+  albums.delete(getAlbumKey(tracks[first]));
+  const at = current.indexOf(first);
+  return [...current.slice(at), ...shuffleInPlace([...albums.values()], random).flat(), ...current.slice(0, at)];
+}
+
+function orderWeighted(tracks: ShuffleTrack[], indices: number[], random: () => number): number[] {
+  // Weighted sampling without replacement: sort by random() ^ (1 / weight), largest first
+  return indices
+    .map(index => ({ index, key: Math.pow(random(), 1 / getShuffleWeight(tracks[index])) }))
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.index);
+}
+
+/**
+ * A play order over every index of the queue. When first is given the order starts with it,
+ * so turning shuffle on keeps the current track playing.
+ */
+export function createShuffleOrder(tracks: ShuffleTrack[], mode: Exclude<ShuffleMode, 'off'>, seed: number, first?: number): number[] {
+  const random = createRandom(seed);
+  const indices = tracks.map((_, index) => index);
+
+  if (mode === 'albums') return orderAlbums(tracks, indices, random, first);
+
+  const rest = first === undefined ? indices : indices.filter(index => index !== first);
+  const ordered = mode === 'weighted' ? orderWeighted(tracks, rest, random) : shuffleInPlace(rest, random);
+  return first === undefined ? ordered : [first, ...ordered];
+}
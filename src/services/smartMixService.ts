@@ -1,5 +1,12 @@
 import { Track } from '@/hooks/useMediaLibrary';
-import { musicDB, Playlist } from '@/utils/musicDatabase';
+import { songToTrack } from '@/hooks/media/useMediaScanner';
+import { libraryRepository } from './libraryRepository';
+import { EnhancedPlaylist, TrackAudioAnalysis } from './enhancedDatabase';
+import { audioAnalysisService, ANALYZER_VERSION } from './analysis/audioAnalysisService';
+import { getSkipRatio, isOftenSkipped } from './listeningHistoryService';
+import { normalizeCreditName, type CreditLookup } from './library/credits';
+import { paletteService } from './library/paletteService';
+import { hslToHex } from './library/palette';
 
 export interface SmartMixOptions {
   seedTracks?: Track[];
@@ -9,6 +16,7 @@ export interface SmartMixOptions {
   diversity?: 'low' | 'medium' | 'high';
   includeRecentlyPlayed?: boolean;
   excludeSkipped?: boolean;
+  excludeTrackIds?: string[]; // Never picked, such as tracks that just played
 }
 
 export interface AudioFeatures {
@@ -17,14 +25,38 @@ export interface AudioFeatures {
   tempo: number; // BPM
   danceability: number; // 0-1
   acousticness: number; // 0-1
+  spectralCentroid?: number; // Hz, only for measured tracks
+  measured: boolean; // false when estimated from metadata
 }
 
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+type BaseFeatures = Pick<AudioFeatures, 'energy' | 'valence' | 'tempo' | 'danceability' | 'acousticness'>;
+
+/**
+ * Typical features per genre family, matched against each of a track's genres in turn
+ */
+const GENRE_FEATURES: Array<[string[], BaseFeatures]> = [
+  [['electronic', 'edm'], { energy: 0.8, valence: 0.7, tempo: 128, danceability: 0.9, acousticness: 0.1 }],
+  [['rock', 'metal'], { energy: 0.9, valence: 0.6, tempo: 120, danceability: 0.6, acousticness: 0.2 }],
+  [['classical', 'ambient'], { energy: 0.3, valence: 0.5, tempo: 80, danceability: 0.2, acousticness: 0.8 }],
+  [['jazz', 'blues'], { energy: 0.5, valence: 0.6, tempo: 100, danceability: 0.5, acousticness: 0.6 }],
+  [['pop'], { energy: 0.7, valence: 0.8, tempo: 120, danceability: 0.8, acousticness: 0.3 }]
+];
+
+const DEFAULT_FEATURES: BaseFeatures = { energy: 0.6, valence: 0.6, tempo: 110, danceability: 0.6, acousticness: 0.4 };
+
 export class SmartMixService {
   private audioFeatures = new Map<string, AudioFeatures>();
+  private credits?: CreditLookup;
 
   async generateSmartMix(options: SmartMixOptions): Promise<Track[]> {
-    const allTracks = await musicDB.getAllSongs();
-    const tracks = allTracks.map(this.songToTrack);
+    const [allTracks, credits] = await Promise.all([
+      libraryRepository.getAllSongs(),
+      libraryRepository.getCreditLookup()
+    ]);
+    const tracks = allTracks.map(songToTrack);
+    this.credits = credits;
     
     if (tracks.length === 0) return [];
 
@@ -39,8 +71,9 @@ export class SmartMixService {
     
     // Filter by genre if specified
     if (options.genre) {
-      candidateTracks = candidateTracks.filter(track => 
-        track.genre?.toLowerCase().includes(options.genre!.toLowerCase())
+      const wanted = normalizeCreditName(options.genre);
+      candidateTracks = candidateTracks.filter(track =>
+        this.getGenreIds(track).some(genre => genre.includes(wanted))
       );
     }
     
@@ -49,9 +82,14 @@ export class SmartMixService {
       candidateTracks = this.filterByMood(candidateTracks, options.mood);
     }
     
-    // Exclude recently played if requested
+    // Drop tracks the listener habitually skips
     if (options.excludeSkipped) {
-      candidateTracks = candidateTracks.filter(track => track.playCount > 0);
+      candidateTracks = candidateTracks.filter(track => !isOftenSkipped(track));
+    }
+    
+    if (options.excludeTrackIds?.length) {
+      const excluded = new Set(options.excludeTrackIds);
+      candidateTracks = candidateTracks.filter(track => !excluded.has(track.id));
     }
     
     // Calculate similarity scores
@@ -78,15 +116,15 @@ export class SmartMixService {
 
   private async getDefaultSeeds(tracks: Track[], options: SmartMixOptions): Promise<Track[]> {
     // Get recently played tracks as seeds
-    const recentTracks = await musicDB.getRecentSongs(5);
+    const recentTracks = await libraryRepository.getRecentSongs(5);
     if (recentTracks.length > 0) {
-      return recentTracks.map(this.songToTrack).slice(0, 3);
+      return recentTracks.map(songToTrack).slice(0, 3);
     }
     
     // Fall back to top played tracks
-    const topTracks = await musicDB.getTopSongs(5);
+    const topTracks = await libraryRepository.getTopSongs(5);
     if (topTracks.length > 0) {
-      return topTracks.map(this.songToTrack).slice(0, 3);
+      return topTracks.map(songToTrack).slice(0, 3);
     }
     
     // Final fallback: random tracks
@@ -99,35 +137,71 @@ export class SmartMixService {
   }
 
   private async calculateAudioFeatures(tracks: Track[]): Promise<void> {
+    const analyses = await libraryRepository.getAllAudioAnalyses();
+    const analysisById = new Map(
+      analyses
+        .filter(analysis => analysis.analyzerVersion === ANALYZER_VERSION)
+        .map(analysis => [analysis.trackId, analysis])
+    );
+    const unanalyzed: string[] = [];
+
     for (const track of tracks) {
-      if (!this.audioFeatures.has(track.id)) {
-        // In a real implementation, this would analyze the audio file
-        // For now, we'll generate features based on metadata
-        const features = this.generateMockFeatures(track);
-        this.audioFeatures.set(track.id, features);
+      const analysis = analysisById.get(track.id);
+      if (analysis) {
+        this.audioFeatures.set(track.id, this.featuresFromAnalysis(analysis));
+      } else {
+        unanalyzed.push(track.id);
+        if (!this.audioFeatures.has(track.id)) {
+          this.audioFeatures.set(track.id, this.estimateFeatures(track));
+        }
       }
     }
+
+    // Measure the rest in the background so later mixes use real values
+    audioAnalysisService.enqueue(unanalyzed);
   }
 
-  private generateMockFeatures(track: Track): AudioFeatures {
-    // Generate realistic features based on genre and other metadata
-    const genre = track.genre?.toLowerCase() || 'unknown';
-    
-    let baseFeatures: Partial<AudioFeatures> = {};
-    
-    if (genre.includes('electronic') || genre.includes('edm')) {
-      baseFeatures = { energy: 0.8, valence: 0.7, tempo: 128, danceability: 0.9, acousticness: 0.1 };
-    } else if (genre.includes('rock') || genre.includes('metal')) {
-      baseFeatures = { energy: 0.9, valence: 0.6, tempo: 120, danceability: 0.6, acousticness: 0.2 };
-    } else if (genre.includes('classical') || genre.includes('ambient')) {
-      baseFeatures = { energy: 0.3, valence: 0.5, tempo: 80, danceability: 0.2, acousticness: 0.8 };
-    } else if (genre.includes('jazz') || genre.includes('blues')) {
-      baseFeatures = { energy: 0.5, valence: 0.6, tempo: 100, danceability: 0.5, acousticness: 0.6 };
-    } else if (genre.includes('pop')) {
-      baseFeatures = { energy: 0.7, valence: 0.8, tempo: 120, danceability: 0.8, acousticness: 0.3 };
-    } else {
-      baseFeatures = { energy: 0.6, valence: 0.6, tempo: 110, danceability: 0.6, acousticness: 0.4 };
-    }
+  /**
+   * Map measured signal features onto the 0-1 descriptors used for scoring
+   */
+  private featuresFromAnalysis(analysis: TrackAudioAnalysis): AudioFeatures {
+    const loudnessDb = 20 * Math.log10(Math.max(analysis.rmsEnergy, 1e-6));
+    const loudness = clamp01((loudnessDb + 30) / 24); // -30 dBFS quiet, -6 dBFS loud
+    const busyness = clamp01(analysis.onsetDensity / 6);
+    const brightness = clamp01((analysis.spectralCentroid - 800) / 3200);
+    const tempo = analysis.bpm || 110;
+    const tempoFit = clamp01(1 - Math.abs(tempo - 118) / 60); // Most danceable around 100-130 BPM
+
+    return {
+      energy: clamp01(loudness * 0.7 + busyness * 0.3),
+      valence: clamp01(brightness * 0.5 + clamp01((tempo - 60) / 100) * 0.5),
+      tempo,
+      danceability: clamp01(tempoFit * 0.5 + busyness * 0.5),
+      acousticness: clamp01(1 - (brightness * 0.6 + loudness * 0.4)),
+      spectralCentroid: analysis.spectralCentroid,
+      measured: true
+    };
+  }
+
+  /**
+   * Estimate features from genre tags until the track has been analysed.
+   * A track tagged with several genres gets the average of their typical features.
+   */
+  private estimateFeatures(track: Track): AudioFeatures {
+    const matched = this.getGenreIds(track)
+      .map(genre => GENRE_FEATURES.find(([keywords]) => keywords.some(keyword => genre.includes(keyword)))?.[1])
+      .filter((features): features is BaseFeatures => !!features);
+    const average = (key: keyof BaseFeatures) =>
+      matched.reduce((sum, features) => sum + features[key], 0) / matched.length;
+    const baseFeatures: BaseFeatures = matched.length > 0
+      ? {
+          energy: average('energy'),
+          valence: average('valence'),
+          tempo: average('tempo'),
+          danceability: average('danceability'),
+          acousticness: average('acousticness')
+        }
+      : DEFAULT_FEATURES;
     
     // Add some randomness
     const addVariance = (value: number, variance = 0.1) => 
@@ -138,7 +212,8 @@ export class SmartMixService {
       valence: addVariance(baseFeatures.valence || 0.6),
       tempo: (baseFeatures.tempo || 110) + (Math.random() - 0.5) * 20,
       danceability: addVariance(baseFeatures.danceability || 0.6),
-      acousticness: addVariance(baseFeatures.acousticness || 0.4)
+      acousticness: addVariance(baseFeatures.acousticness || 0.4),
+      measured: false
     };
   }
 
@@ -155,9 +230,11 @@ export class SmartMixService {
         case 'focus':
           return features.acousticness > 0.5 && features.energy < 0.6;
         case 'workout':
-          return features.energy > 0.7 && features.danceability > 0.6;
+          return features.energy > 0.7 && features.danceability > 0.6 &&
+            (!features.measured || features.tempo >= 110);
         case 'sleep':
-          return features.energy < 0.3 && features.acousticness > 0.6;
+          return features.energy < 0.3 && features.acousticness > 0.6 &&
+            (!features.measured || features.tempo <= 100);
         default:
           return true;
       }
@@ -181,7 +258,14 @@ export class SmartMixService {
       const danceSim = 1 - Math.abs(features.danceability - seedFeatures.danceability);
       const acousticSim = 1 - Math.abs(features.acousticness - seedFeatures.acousticness);
       
-      const similarity = (energySim + valenceSim + tempoSim + danceSim + acousticSim) / 5;
+      const similarities = [energySim, valenceSim, tempoSim, danceSim, acousticSim];
+
+      // Timbre only compares meaningfully when both sides were measured
+      if (features.spectralCentroid !== undefined && seedFeatures.spectralCentroid !== undefined) {
+        similarities.push(1 - Math.min(1, Math.abs(features.spectralCentroid - seedFeatures.spectralCentroid) / 2000));
+      }
+
+      const similarity = similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
       totalSimilarity += similarity;
     }
     
@@ -192,9 +276,12 @@ export class SmartMixService {
       score += (track.playCount / 100) * 0.1;
     }
     
-    // Add genre matching bonus
-    const seedGenres = seedTracks.map(t => t.genre?.toLowerCase()).filter(Boolean);
-    if (seedGenres.includes(track.genre?.toLowerCase())) {
+    // Penalize tracks in proportion to how often they get skipped
+    score -= getSkipRatio(track) * 0.3;
+
+    // Add genre matching bonus when the track shares any genre with a seed
+    const seedGenres = new Set(seedTracks.flatMap(t => this.getGenreIds(t)));
+    if (this.getGenreIds(track).some(genre => seedGenres.has(genre))) {
       score += 0.2;
     }
     
@@ -211,8 +298,10 @@ export class SmartMixService {
     const diversityThreshold = diversity === 'high' ? 0.3 : 0.5;
     
     for (const track of tracks) {
-      const artistCount = [...diverseTracks].filter(t => t.artist === track.artist).length;
-      const genreCount = [...diverseTracks].filter(t => t.genre === track.genre).length;
+      const artists = this.getArtistIds(track);
+      const genres = this.getGenreIds(track);
+      const artistCount = diverseTracks.filter(t => this.getArtistIds(t).some(id => artists.includes(id))).length;
+      const genreCount = diverseTracks.filter(t => this.getGenreIds(t).some(id => genres.includes(id))).length;
       
       const artistRatio = artistCount / Math.max(1, diverseTracks.length);
       const genreRatio = genreCount / Math.max(1, diverseTracks.length);
@@ -228,6 +317,21 @@ export class SmartMixService {
     return diverseTracks;
   }
 
+  /**
+   * Normalized genres of a track, from its stored credits when it has any
+   */
+  private getGenreIds(track: Track): string[] {
+    const genres = this.credits?.getSongGenres(track.id);
+    if (genres?.length) return genres.map(genre => genre.id);
+    return track.genre ? [normalizeCreditName(track.genre)] : [];
+  }
+
+  private getArtistIds(track: Track): string[] {
+    const artists = this.credits?.getSongArtists(track.id);
+    if (artists?.length) return artists.map(artist => artist.id);
+    return track.artist ? [normalizeCreditName(track.artist)] : [];
+  }
+
   private limitByDuration(tracks: Track[], targetMinutes: number): Track[] {
     const targetSeconds = targetMinutes * 60;
     const result: Track[] = [];
@@ -245,23 +349,17 @@ export class SmartMixService {
     return result;
   }
 
-  async createSmartPlaylist(name: string, options: SmartMixOptions): Promise<Playlist> {
+  async createSmartPlaylist(name: string, options: SmartMixOptions): Promise<EnhancedPlaylist> {
     const tracks = await this.generateSmartMix(options);
-    const trackIds = tracks.map(t => t.id);
     
-    const playlist: any = {
-      id: `playlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    return libraryRepository.createPlaylist({
       name,
       description: this.generatePlaylistDescription(options),
-      songs: trackIds,
-      createdAt: new Date(),
-      color: this.getPlaylistColor(options.mood),
+      trackIds: tracks.map(t => t.id),
+      color: await this.getPlaylistColor(tracks),
       isSmartPlaylist: true,
-      smartMixOptions: options
-    };
-    
-    await musicDB.createPlaylist(playlist);
-    return playlist;
+      smartMixOptions: { ...options }
+    });
   }
 
   private generatePlaylistDescription(options: SmartMixOptions): string {
@@ -284,31 +382,14 @@ export class SmartMixService {
     return parts.join(' • ');
   }
 
-  private getPlaylistColor(mood?: string): string {
-    switch (mood) {
-      case 'energetic': return '#FF6B6B';
-      case 'chill': return '#4ECDC4';
-      case 'focus': return '#45B7D1';
-      case 'workout': return '#FFA726';
-      case 'sleep': return '#9C27B0';
-      default: return '#6C5CE7';
-    }
+  /**
+   * The vibrant color of the mix's opening album, so the playlist matches the player when it starts
+   */
+  private async getPlaylistColor(tracks: Track[]): Promise<string> {
+    if (tracks.length === 0) return '#6C5CE7';
+    const palette = await paletteService.getPalette(tracks[0]);
+    return hslToHex(palette.vibrant);
   }
-
-  private songToTrack = (song: any): Track => ({
-    id: song.id,
-    title: song.title,
-    artist: song.artist,
-    album: song.album,
-    duration: song.duration,
-    filePath: song.filePath,
-    albumArt: song.albumArt,
-    playCount: song.playCount,
-    lastPlayed: song.lastPlayed,
-    size: song.size,
-    dateAdded: song.dateAdded,
-    genre: song.genre
-  });
 }
 
 export const smartMixService = new SmartMixService();
\ No newline at end of file
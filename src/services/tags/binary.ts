@@ -0,0 +1,108 @@
+/**
+ * Byte-level helpers shared by the tag readers and writers.
+ */
+
+export function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+export function asciiBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+}
+
+export function utf8Bytes(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+export function synchsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+export function synchsafeBytes(value: number): Uint8Array {
+  return Uint8Array.of((value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f);
+}
+
+export function uint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+export function uint32LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] + (bytes[offset + 1] << 8) + (bytes[offset + 2] << 16) + ((bytes[offset + 3] << 24) >>> 0);
+}
+
+export function uint32BEBytes(value: number): Uint8Array {
+  return Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+}
+
+export function uint32LEBytes(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * Undo ID3 unsynchronisation, which inserts a zero byte after every 0xFF
+ */
+export function resynchronise(bytes: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    output.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(output);
+}
+
+/**
+ * Decode an ID3 string in one of the four text encodings; UTF-16 strings carry their own byte order mark
+ */
+export function decodeId3Text(bytes: Uint8Array, encoding: number): string {
+  if (encoding === 1 || encoding === 2) {
+    let littleEndian = encoding === 1;
+    let start = 0;
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      littleEndian = true;
+      start = 2;
+    } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      littleEndian = false;
+      start = 2;
+    }
+    return new TextDecoder(littleEndian ? 'utf-16le' : 'utf-16be').decode(bytes.subarray(start));
+  }
+  return new TextDecoder(encoding === 3 ? 'utf-8' : 'iso-8859-1').decode(bytes);
+}
+
+/**
+ * Split off one terminated ID3 string; UTF-16 terminators are two aligned zero bytes
+ */
+export function readTerminated(bytes: Uint8Array, offset: number, encoding: number): { text: string; next: number } {
+  const wide = encoding === 1 || encoding === 2;
+  let end = offset;
+  if (wide) {
+    while (end + 1 < bytes.length && (bytes[end] !== 0 || bytes[end + 1] !== 0)) end += 2;
+  } else {
+    while (end < bytes.length && bytes[end] !== 0) end++;
+  }
+  const terminator = wide ? 2 : 1;
+  return { text: decodeId3Text(bytes.subarray(offset, end), encoding), next: Math.min(bytes.length, end + terminator) };
+}
@@ -0,0 +1,275 @@
+/**
+ * ID3v2 tag writing for MP3 files.
+ *
+ * The existing tag is merged: frames that are not being changed are copied over
+ * byte for byte, so private frames of other taggers survive. v2.3 and v2.4 tags keep
+ * their version; files without a tag get a v2.3 tag for the widest player support.
+ * v2.2 tags are upgraded to v2.3, their frames converted to the v2.3 layout; the few
+ * v2.2 frames without a v2.3 counterpart are dropped.
+ */
+import {
+  ascii,
+  asciiBytes,
+  concatBytes,
+  decodeId3Text,
+  readTerminated,
+  resynchronise,
+  synchsafe,
+  synchsafeBytes,
+  uint32BE,
+  uint32BEBytes,
+  utf8Bytes
+} from './binary';
+import { convertId3v22Frame } from './tagReader';
+import type { TagUpdate, TagValues } from './tagTypes';
+
+interface Id3Frame {
+  id: string;
+  flags: Uint8Array; // Two bytes, as stored
+  data: Uint8Array; // As stored, unsynchronisation and data length indicator included
+}
+
+const PADDING_BYTES = 2048;
+const LANGUAGE = 'eng';
+const PICTURE_TYPE_OTHER = 0;
+const PICTURE_TYPE_FRONT_COVER = 3;
+
+// Numbers and totals share one "number/total" frame
+const NUMBER_PAIRS = [['trackNumber', 'trackTotal', 'TRCK'], ['discNumber', 'discTotal', 'TPOS']] as const;
+
+const TEXT_FRAMES: Partial<Record<keyof TagValues, string>> = {
+  title: 'TIT2',
+  artist: 'TPE1',
+  album: 'TALB',
+  albumArtist: 'TPE2',
+  genre: 'TCON'
+};
+
+function parseTag(bytes: Uint8Array): { version: 3 | 4; frames: Id3Frame[]; audioStart: number } {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') {
+    return { version: 3, frames: [], audioStart: 0 };
+  }
+
+  const version = bytes[3];
+  const flags = bytes[5];
+  const footer = version === 4 && flags & 0x10 ? 10 : 0;
+  const audioStart = 10 + synchsafe(bytes, 6) + footer;
+  if (version === 2) {
+    return { version: 3, frames: parseV22Frames(bytes.subarray(10, 10 + synchsafe(bytes, 6)), flags), audioStart };
+  }
+  if (version !== 3 && version !== 4) {
+    throw new Error(`ID3v2.${version} tags cannot be edited`);
+  }
+
+  let body = bytes.subarray(10, 10 + synchsafe(bytes, 6));
+  // Before 2.4 unsynchronisation applies to the whole tag, from 2.4 to each frame
+  if (version === 3 && flags & 0x80) body = resynchronise(body);
+
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = version === 4 ? synchsafe(body, 0) : uint32BE(body, 0) + 4;
+  }
+
+  const frames: Id3Frame[] = [];
+  while (offset + 10 <= body.length) {
+    const id = ascii(body, offset, 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // Padding
+    const size = version === 4 ? synchsafe(body, offset + 4) : uint32BE(body, offset + 4);
+    frames.push({
+      id,
+      flags: body.slice(offset + 8, offset + 10),
+      data: body.slice(offset + 10, offset + 10 + size)
+    });
+    offset += 10 + size;
+  }
+
+  return { version, frames, audioStart };
+}
+
+/**
+ * v2.2 frames in their v2.3 form: three-letter IDs and three-byte sizes, without flags
+ */
+function parseV22Frames(tag: Uint8Array, flags: number): Id3Frame[] {
+  // Compression was never specified for v2.2, so such tags cannot be read
+  if (flags & 0x40) throw new Error('Compressed ID3v2.2 tags cannot be edited');
+  const body = flags & 0x80 ? resynchronise(tag) : tag;
+
+  const frames: Id3Frame[] = [];
+  let offset = 0;
+  while (offset + 6 <= body.length) {
+    const id = ascii(body, offset, 3);
+    if (!/^[A-Z0-9]{3}$/.test(id)) break; // Padding
+    const size = (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5];
+    const converted = convertId3v22Frame(id, body.slice(offset + 6, offset + 6 + size));
+    if (converted) frames.push({ ...converted, flags: new Uint8Array(2) });
+    offset += 6 + size;
+  }
+  return frames;
+}
+
+/**
+ * Frame content with frame-level encodings undone; undefined when compressed or encrypted
+ */
+function frameContent(frame: Id3Frame, version: 3 | 4): Uint8Array | undefined {
+  const format = frame.flags[1];
+  if (version === 3) return format & 0xc0 ? undefined : frame.data;
+  if (format & 0x0c) return undefined;
+  let data = frame.data;
+  if (format & 0x02) data = resynchronise(data);
+  if (format & 0x01) data = data.subarray(4);
+  return data;
+}
+
+/**
+ * ID3 text: UTF-8 in v2.4; in v2.3 Latin-1 when it fits, otherwise UTF-16 with a byte order mark
+ */
+function encodeText(text: string, version: 3 | 4): { encoding: number; bytes: Uint8Array } {
+  if (version === 4) return { encoding: 3, bytes: utf8Bytes(text) };
+  if (Array.from(text).every(char => char.charCodeAt(0) <= 0xff)) return { encoding: 0, bytes: asciiBytes(text) };
+
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xff;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return { encoding: 1, bytes };
+}
+
+function terminator(encoding: number): Uint8Array {
+  return encoding === 1 || encoding === 2 ? new Uint8Array(2) : new Uint8Array(1);
+}
+
+function textFrame(id: string, text: string, version: 3 | 4): Id3Frame {
+  const { encoding, bytes } = encodeText(text, version);
+  return { id, flags: new Uint8Array(2), data: concatBytes([Uint8Array.of(encoding), bytes]) };
+}
+
+/**
+ * COMM and USLT share a layout: encoding, language, empty descriptor, text
+ */
+function languageFrame(id: string, text: string, version: 3 | 4): Id3Frame {
+  const { encoding, bytes } = encodeText(text, version);
+  const descriptor = encoding === 1 ? Uint8Array.of(0xff, 0xfe) : new Uint8Array(0);
+  return {
+    id,
+    flags: new Uint8Array(2),
+    data: concatBytes([Uint8Array.of(encoding), asciiBytes(LANGUAGE), descriptor, terminator(encoding), bytes])
+  };
+}
+
+function pictureFrame(data: Uint8Array, mimeType: string): Id3Frame {
+  return {
+    id: 'APIC',
+    flags: new Uint8Array(2),
+    data: concatBytes([Uint8Array.of(0), asciiBytes(mimeType), Uint8Array.of(0, PICTURE_TYPE_FRONT_COVER, 0), data])
+  };
+}
+
+function numberPair(number: number, total?: number | null): string {
+  return total ? `${number}/${total}` : String(number);
+}
+
+/**
+ * Fill in the half of a number pair the update leaves out from the frame it rewrites
+ */
+function withCurrentNumbers(update: TagUpdate, frames: Id3Frame[], version: 3 | 4): TagUpdate {
+  const completed = { ...update };
+  NUMBER_PAIRS.forEach(([numberKey, totalKey, id]) => {
+    if (numberKey in update === totalKey in update) return;
+    const frame = frames.find(candidate => candidate.id === id);
+    const content = frame && frameContent(frame, version);
+    const [number, total] = (content ? decodeId3Text(content.subarray(1), content[0]) : '')
+      .replace(/\0+$/, '')
+      .split('/')
+      .map(part => parseInt(part, 10));
+
+    if (numberKey in update) {
+      if (total > 0) completed[totalKey] = total;
+    } else if (number > 0) {
+      completed[numberKey] = number;
+    } else {
+      // No number to attach the total to
+      delete completed[totalKey];
+    }
+  });
+  return completed;
+}
+
+/**
+ * Whether a frame holds a value the update replaces
+ */
+function isReplaced(frame: Id3Frame, update: TagUpdate, version: 3 | 4): boolean {
+  const textKey = (Object.keys(TEXT_FRAMES) as Array<keyof TagValues>).find(key => TEXT_FRAMES[key] === frame.id);
+  if (textKey) return textKey in update;
+
+  switch (frame.id) {
+    case 'TRCK':
+      return 'trackNumber' in update;
+    case 'TPOS':
+      return 'discNumber' in update;
+    case 'TYER':
+    case 'TDRC':
+      return 'year' in update;
+    case 'USLT':
+    case 'SYLT':
+      return 'lyrics' in update;
+    case 'COMM': {
+      // Only the plain comment; descriptions such as iTunNORM belong to other software
+      if (!('comment' in update)) return false;
+      const content = frameContent(frame, version);
+      return !!content && !readTerminated(content, 4, content[0]).text;
+    }
+    case 'APIC': {
+      if (!('coverArt' in update)) return false;
+      const content = frameContent(frame, version);
+      if (!content) return false;
+      const mimeEnd = content.indexOf(0, 1);
+      const pictureType = content[mimeEnd + 1];
+      return pictureType === PICTURE_TYPE_FRONT_COVER || pictureType === PICTURE_TYPE_OTHER;
+    }
+    default:
+      return false;
+  }
+}
+
+function newFrames(update: TagUpdate, version: 3 | 4): Id3Frame[] {
+  const frames: Id3Frame[] = [];
+  (Object.keys(TEXT_FRAMES) as Array<keyof TagValues>).forEach(key => {
+    const value = update[key];
+    if (typeof value === 'string' && value) frames.push(textFrame(TEXT_FRAMES[key]!, value, version));
+  });
+
+  if (update.trackNumber) frames.push(textFrame('TRCK', numberPair(update.trackNumber, update.trackTotal), version));
+  if (update.discNumber) frames.push(textFrame('TPOS', numberPair(update.discNumber, update.discTotal), version));
+  if (update.year) frames.push(textFrame(version === 4 ? 'TDRC' : 'TYER', String(update.year), version));
+  if (update.comment) frames.push(languageFrame('COMM', update.comment, version));
+  if (update.lyrics) frames.push(languageFrame('USLT', update.lyrics, version));
+  if (update.coverArt) frames.push(pictureFrame(update.coverArt.data, update.coverArt.mimeType));
+  return frames;
+}
+
+/**
+ * Apply an update to the ID3v2 tag of an MP3 file, returning the whole new file
+ */
+export function writeId3Tags(bytes: Uint8Array, update: TagUpdate): Uint8Array {
+  const { version, frames, audioStart } = parseTag(bytes);
+  update = withCurrentNumbers(update, frames, version);
+  // Frames flagged for tag alter preservation ask to be dropped once anything else changes
+  const discardOnAlter = version === 4 ? 0x40 : 0x80;
+  const kept = frames.filter(frame => !(frame.flags[0] & discardOnAlter) && !isReplaced(frame, update, version));
+  const written = [...kept, ...newFrames(update, version)];
+
+  const frameBytes = written.map(frame => concatBytes([
+    asciiBytes(frame.id),
+    version === 4 ? synchsafeBytes(frame.data.length) : uint32BEBytes(frame.data.length),
+    frame.flags,
+    frame.data
+  ]));
+  const body = concatBytes([...frameBytes, new Uint8Array(PADDING_BYTES)]);
+  const header = concatBytes([asciiBytes('ID3'), Uint8Array.of(version, 0, 0), synchsafeBytes(body.length)]);
+
+  return concatBytes([header, body, bytes.subarray(audioStart)]);
+}
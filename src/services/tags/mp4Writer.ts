@@ -0,0 +1,227 @@
+/**
+ * iTunes-style metadata writing for MP4 audio (M4A, AAC and ALAC).
+ *
+ * Tags live in moov/udta/meta/ilst. The items being changed are rebuilt and every
+ * other item is kept as it is. When moov sits in front of the media data its size
+ * change moves the audio, so the chunk offset tables are shifted to match.
+ */
+import { ascii, asciiBytes, concatBytes, uint32BE, uint32BEBytes, utf8Bytes } from './binary';
+import type { TagUpdate, TagValues } from './tagTypes';
+
+interface Atom {
+  type: string;
+  start: number; // Offset of the size field
+  headerLength: number;
+  end: number;
+}
+
+const DATA_TYPE_IMPLICIT = 0;
+const DATA_TYPE_UTF8 = 1;
+const DATA_TYPE_JPEG = 13;
+const DATA_TYPE_PNG = 14;
+
+// Containers on the way down to ilst; meta is a full box with four bytes of version and flags
+const CONTAINERS = new Set(['moov', 'udta', 'meta', 'ilst', 'trak', 'mdia', 'minf', 'stbl']);
+
+const TEXT_ITEMS: Partial<Record<keyof TagValues, string>> = {
+  title: '©nam',
+  artist: '©ART',
+  album: '©alb',
+  albumArtist: 'aART',
+  genre: '©gen',
+  comment: '©cmt',
+  lyrics: '©lyr'
+};
+
+// Numbers and totals share one item
+const NUMBER_PAIRS = [['trackNumber', 'trackTotal', 'trkn'], ['discNumber', 'discTotal', 'disk']] as const;
+
+function readAtoms(bytes: Uint8Array, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(bytes, offset);
+    let headerLength = 8;
+    if (size === 1) {
+      // 64-bit size; audio files stay well below 2^53
+      size = uint32BE(bytes, offset + 8) * 2 ** 32 + uint32BE(bytes, offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength || offset + size > end) break;
+    atoms.push({ type: ascii(bytes, offset + 4, 4), start: offset, headerLength, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+}
+
+function childrenOf(bytes: Uint8Array, atom: Atom): Atom[] {
+  const skip = atom.type === 'meta' ? 4 : 0;
+  return readAtoms(bytes, atom.start + atom.headerLength + skip, atom.end);
+}
+
+function atom(type: string, ...content: Uint8Array[]): Uint8Array {
+  const body = concatBytes(content);
+  return concatBytes([uint32BEBytes(8 + body.length), asciiBytes(type), body]);
+}
+
+function dataAtom(dataType: number, value: Uint8Array): Uint8Array {
+  // Type indicator, then a zero locale
+  return atom('data', uint32BEBytes(dataType), uint32BEBytes(0), value);
+}
+
+function numberPairItem(type: string, number: number, total: number | null | undefined): Uint8Array {
+  const value = new Uint8Array(type === 'trkn' ? 8 : 6);
+  value[2] = (number >> 8) & 0xff;
+  value[3] = number & 0xff;
+  value[4] = ((total ?? 0) >> 8) & 0xff;
+  value[5] = (total ?? 0) & 0xff;
+  return atom(type, dataAtom(DATA_TYPE_IMPLICIT, value));
+}
+
+/**
+ * Fill in the half of a number pair the update leaves out from the item it rewrites
+ */
+function withCurrentNumbers(bytes: Uint8Array, items: Atom[], update: TagUpdate): TagUpdate {
+  const completed = { ...update };
+  NUMBER_PAIRS.forEach(([numberKey, totalKey, type]) => {
+    if (numberKey in update === totalKey in update) return;
+    const item = items.find(candidate => candidate.type === type);
+    const data = item && childrenOf(bytes, item).find(child => child.type === 'data');
+    // Past the type indicator and locale: two reserved bytes, the number, then the total
+    const value = data ? data.start + data.headerLength + 8 : 0;
+    const [number, total] = data && value + 6 <= data.end
+      ? [(bytes[value + 2] << 8) | bytes[value + 3], (bytes[value + 4] << 8) | bytes[value + 5]]
+      : [0, 0];
+
+    if (numberKey in update) {
+      if (total > 0) completed[totalKey] = total;
+    } else if (number > 0) {
+      completed[numberKey] = number;
+    } else {
+      // No number to attach the total to
+      delete completed[totalKey];
+    }
+  });
+  return completed;
+}
+
+/**
+ * Item types the update replaces
+ */
+function replacedItems(update: TagUpdate): Set<string> {
+  const replaced = new Set<string>();
+  (Object.keys(TEXT_ITEMS) as Array<keyof TagValues>).forEach(key => {
+    if (key in update) replaced.add(TEXT_ITEMS[key]!);
+  });
+  if ('genre' in update) replaced.add('gnre'); // ID3v1 genre index
+  if ('year' in update) replaced.add('©day');
+  if ('trackNumber' in update) replaced.add('trkn');
+  if ('discNumber' in update) replaced.add('disk');
+  if ('coverArt' in update) replaced.add('covr');
+  return replaced;
+}
+
+function newItems(update: TagUpdate): Uint8Array[] {
+  const items: Uint8Array[] = [];
+  (Object.keys(TEXT_ITEMS) as Array<keyof TagValues>).forEach(key => {
+    const value = update[key];
+    if (typeof value === 'string' && value) items.push(atom(TEXT_ITEMS[key]!, dataAtom(DATA_TYPE_UTF8, utf8Bytes(value))));
+  });
+  if (update.year) items.push(atom('©day', dataAtom(DATA_TYPE_UTF8, utf8Bytes(String(update.year)))));
+  if (update.trackNumber) items.push(numberPairItem('trkn', update.trackNumber, update.trackTotal));
+  if (update.discNumber) items.push(numberPairItem('disk', update.discNumber, update.discTotal));
+  if (update.coverArt) {
+    const dataType = update.coverArt.mimeType === 'image/png' ? DATA_TYPE_PNG : DATA_TYPE_JPEG;
+    items.push(atom('covr', dataAtom(dataType, update.coverArt.data)));
+  }
+  return items;
+}
+
+/**
+ * ilst items as bytes, keeping the ones the update does not touch
+ */
+function buildIlst(bytes: Uint8Array, ilst: Atom | undefined, update: TagUpdate): Uint8Array {
+  const items = ilst ? childrenOf(bytes, ilst) : [];
+  const completed = withCurrentNumbers(bytes, items, update);
+  const replaced = replacedItems(completed);
+  const kept = items.filter(item => !replaced.has(item.type)).map(item => bytes.subarray(item.start, item.end));
+  return atom('ilst', ...kept, ...newItems(completed));
+}
+
+function buildMeta(bytes: Uint8Array, meta: Atom | undefined, update: TagUpdate): Uint8Array {
+  if (!meta) {
+    const handler = atom('hdlr',
+      new Uint8Array(8), // Version, flags and pre-defined
+      asciiBytes('mdirappl'),
+      new Uint8Array(9) // Reserved, empty name
+    );
+    return atom('meta', new Uint8Array(4), handler, buildIlst(bytes, undefined, update));
+  }
+  const children = childrenOf(bytes, meta);
+  const ilst = children.find(child => child.type === 'ilst');
+  const rest = children.filter(child => child.type !== 'ilst').map(child => bytes.subarray(child.start, child.end));
+  const versionAndFlags = bytes.subarray(meta.start + meta.headerLength, meta.start + meta.headerLength + 4);
+  return atom('meta', versionAndFlags, ...rest, buildIlst(bytes, ilst, update));
+}
+
+function buildUdta(bytes: Uint8Array, udta: Atom | undefined, update: TagUpdate): Uint8Array {
+  const children = udta ? childrenOf(bytes, udta) : [];
+  const meta = children.find(child => child.type === 'meta');
+  const rest = children.filter(child => child.type !== 'meta').map(child => bytes.subarray(child.start, child.end));
+  return atom('udta', ...rest, buildMeta(bytes, meta, update));
+}
+
+/**
+ * Shift every chunk offset in the stco and co64 tables below an atom
+ */
+function shiftChunkOffsets(moov: Uint8Array, shift: number): void {
+  const visit = (start: number, end: number, type: string) => {
+    const skip = type === 'meta' ? 4 : 0;
+    readAtoms(moov, start + skip, end).forEach(child => {
+      const body = child.start + child.headerLength;
+      if (child.type === 'stco') {
+        const count = uint32BE(moov, body + 4);
+        for (let i = 0; i < count; i++) {
+          const at = body + 8 + i * 4;
+          moov.set(uint32BEBytes(uint32BE(moov, at) + shift), at);
+        }
+      } else if (child.type === 'co64') {
+        const count = uint32BE(moov, body + 4);
+        for (let i = 0; i < count; i++) {
+          const at = body + 8 + i * 8;
+          const value = uint32BE(moov, at) * 2 ** 32 + uint32BE(moov, at + 4) + shift;
+          moov.set(uint32BEBytes(Math.floor(value / 2 ** 32)), at);
+          moov.set(uint32BEBytes(value % 2 ** 32), at + 4);
+        }
+      } else if (CONTAINERS.has(child.type)) {
+        visit(body, child.end, child.type);
+      }
+    });
+  };
+  visit(8, moov.length, 'moov');
+}
+
+/**
+ * Apply an update to the ilst metadata of an MP4 file, returning the whole new file
+ */
+export function writeMp4Tags(bytes: Uint8Array, update: TagUpdate): Uint8Array {
+  const topLevel = readAtoms(bytes, 0, bytes.length);
+  if (topLevel[0]?.type !== 'ftyp') throw new Error('Not an MP4 file');
+  const moov = topLevel.find(item => item.type === 'moov');
+  if (!moov) throw new Error('MP4 file has no movie atom');
+
+  const children = childrenOf(bytes, moov);
+  const udta = children.find(child => child.type === 'udta');
+  // Keep everything but udta in place, then the rebuilt udta
+  const rest = children.filter(child => child.type !== 'udta').map(child => bytes.subarray(child.start, child.end));
+  const newMoov = atom('moov', ...rest, buildUdta(bytes, udta, update));
+
+  // Audio behind moov moves by the size difference
+  const shift = newMoov.length - (moov.end - moov.start);
+  const mediaAfterMoov = topLevel.some(item => item.type === 'mdat' && item.start > moov.start);
+  if (mediaAfterMoov && shift !== 0) shiftChunkOffsets(newMoov, shift);
+
+  return concatBytes([bytes.subarray(0, moov.start), newMoov, bytes.subarray(moov.end)]);
+}
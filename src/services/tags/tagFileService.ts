@@ -0,0 +1,202 @@
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { enhancedDB, type EnhancedSong } from '../enhancedDatabase';
+import { libraryRepository } from '../libraryRepository';
+import { MetadataService } from '../metadataService';
+import { artworkService } from '../library/artworkService';
+import { trackFileService } from '../library/trackFileService';
+import { overwriteLibraryCopy, readLibraryCopy } from '../library/opfsStorage';
+import { webAudioService } from '../webAudioService';
+import { fromBase64, toBase64 } from './binary';
+import type { TagUpdate } from './tagTypes';
+
+/**
+ * Where a tagged file ended up: written in place through its file handle, the native filesystem
+ * or its copy in the origin private file system, or handed to the browser as a download otherwise
+ */
+export type TagSaveTarget = 'handle' | 'filesystem' | 'download';
+
+export interface TagWriteResult {
+  song: EnhancedSong;
+  savedTo: TagSaveTarget;
+}
+
+export interface TagBatchResult {
+  written: TagWriteResult[];
+  failed: Array<{ song: EnhancedSong; error: Error }>;
+}
+
+// Permission methods of the File System Access API that TypeScript's DOM types leave out
+type PermissionedFileHandle = FileSystemFileHandle & {
+  queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+};
+
+/**
+ * Writes tag edits into songs' audio files and keeps the library records in step
+ */
+class TagFileService {
+  private callbacks = new Set<(song: EnhancedSong) => void>();
+
+  /**
+   * Write an update into one song's file, then store the changed fields on the song
+   */
+  async writeSongTags(song: EnhancedSong, update: TagUpdate): Promise<TagWriteResult> {
+    const original = await this.readSongFile(song);
+    const tagged = await MetadataService.updateSongMetadata(original, update);
+    const savedTo = await this.saveSongFile(song, tagged);
+
+    const updated: EnhancedSong = {
+      ...this.applyToSong(song, update),
+      size: tagged.size,
+      fileHash: await enhancedDB.calculateFileHash(tagged)
+    };
+    if (update.coverArt) {
+      updated.artworkHash = await artworkService.saveArtwork(new Blob([update.coverArt.data], { type: update.coverArt.mimeType }));
+    }
+    // Blob URLs point at the old contents
+    if (song.filePath.startsWith('blob:')) {
+      webAudioService.revokeObjectURL(song.filePath);
+      updated.filePath = webAudioService.createObjectURL(tagged);
+    }
+
+    await libraryRepository.updateSong(updated);
+    this.callbacks.forEach(callback => callback(updated));
+    return { song: updated, savedTo };
+  }
+
+  /**
+   * Write the same update into several songs, carrying on past failures
+   */
+  async writeBatch(
+    songs: EnhancedSong[],
+    update: TagUpdate,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<TagBatchResult> {
+    const result: TagBatchResult = { written: [], failed: [] };
+    for (const song of songs) {
+      try {
+        result.written.push(await this.writeSongTags(song, update));
+      } catch (error) {
+        console.error(`Failed to write tags of ${song.title}:`, error);
+        result.failed.push({ song, error: error as Error });
+      }
+      onProgress?.(result.written.length + result.failed.length, songs.length);
+    }
+    return result;
+  }
+
+  /**
+   * The current contents of a song's file
+   */
+  async readSongFile(song: EnhancedSong): Promise<File> {
+    if (song.fileHandle) {
+      await this.ensurePermission(song.fileHandle, 'read');
+      return song.fileHandle.getFile();
+    }
+
+    const name = this.fileName(song);
+    if (song.opfsPath) {
+      const copy = await readLibraryCopy(song.opfsPath);
+      return new File([copy], name, { type: copy.type });
+    }
+
+    if (Capacitor.isNativePlatform() && !/^(blob|https?):/.test(song.filePath)) {
+      const { data } = await Filesystem.readFile(this.nativeLocation(song.filePath));
+      const bytes = typeof data === 'string' ? fromBase64(data) : new Uint8Array(await data.arrayBuffer());
+      return new File([bytes], name);
+    }
+
+    const response = await fetch(await trackFileService.getPlayableUrl(song));
+    if (!response.ok) throw new Error(`Could not read ${name}`);
+    const blob = await response.blob();
+    return new File([blob], name, { type: blob.type });
+  }
+
+  onTagsWritten(callback: (song: EnhancedSong) => void): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  private async saveSongFile(song: EnhancedSong, file: File): Promise<TagSaveTarget> {
+    if (song.fileHandle) {
+      await this.ensurePermission(song.fileHandle, 'readwrite');
+      const writable = await song.fileHandle.createWritable();
+      await writable.write(file);
+      await writable.close();
+      return 'handle';
+    }
+
+    if (song.opfsPath) {
+      await overwriteLibraryCopy(song.opfsPath, file);
+      return 'filesystem';
+    }
+
+    if (Capacitor.isNativePlatform() && !/^(blob|https?):/.test(song.filePath)) {
+      await Filesystem.writeFile({
+        ...this.nativeLocation(song.filePath),
+        data: toBase64(new Uint8Array(await file.arrayBuffer()))
+      });
+      return 'filesystem';
+    }
+
+    // Files from the file input or drag and drop cannot be written back
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return 'download';
+  }
+
+  private async ensurePermission(handle: PermissionedFileHandle, mode: 'read' | 'readwrite'): Promise<void> {
+    if (!handle.queryPermission || !handle.requestPermission) return;
+    if ((await handle.queryPermission({ mode })) === 'granted') return;
+    if ((await handle.requestPermission({ mode })) !== 'granted') {
+      throw new Error(`Permission to ${mode === 'read' ? 'read' : 'write'} ${handle.name} was denied`);
+    }
+  }
+
+  /**
+   * Native songs are stored as file URIs or as paths relative to external storage
+   */
+  private nativeLocation(filePath: string): { path: string; directory?: Directory } {
+    return /^(file:|\/)/.test(filePath) ? { path: filePath } : { path: filePath, directory: Directory.ExternalStorage };
+  }
+
+  private fileName(song: EnhancedSong): string {
+    if (song.fileHandle) return song.fileHandle.name;
+    const last = decodeURIComponent(song.filePath.split(/[/\\]/).pop() ?? '');
+    if (/\.\w{2,4}$/.test(last)) return last;
+    return `${song.artist} - ${song.title}.${song.format}`.replace(/[\\/:*?"<>|]/g, '_');
+  }
+
+  /**
+   * The fields of a song record that mirror tags
+   */
+  private applyToSong(song: EnhancedSong, update: TagUpdate): EnhancedSong {
+    const updated = { ...song };
+    if (update.title) updated.title = update.title;
+    if (update.artist) updated.artist = update.artist;
+    if (update.album) updated.album = update.album;
+    if ('albumArtist' in update) updated.albumArtist = update.albumArtist ?? undefined;
+    if ('genre' in update) updated.genre = update.genre ?? undefined;
+    if ('year' in update) updated.year = update.year ?? undefined;
+    if ('trackNumber' in update) updated.trackNumber = update.trackNumber ?? undefined;
+    if ('trackTotal' in update) updated.trackTotal = update.trackTotal ?? undefined;
+    if (!updated.trackNumber) updated.trackTotal = undefined;
+    if ('discNumber' in update) updated.discNumber = update.discNumber ?? undefined;
+    if ('discTotal' in update) updated.discTotal = update.discTotal ?? undefined;
+    if (!updated.discNumber) updated.discTotal = undefined;
+    if ('lyrics' in update) updated.lyrics = update.lyrics ?? undefined;
+    // A new cover is stored by writeSongTags; either way the old one no longer applies
+    if ('coverArt' in update) {
+      updated.albumArt = undefined;
+      updated.artworkHash = undefined;
+    }
+    return updated;
+  }
+}
+
+export const tagFileService = new TagFileService();
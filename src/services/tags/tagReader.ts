@@ -0,0 +1,525 @@
+/**
+ * Tag reading for MP3, FLAC, Ogg Vorbis, Opus and MP4 files.
+ *
+ * jsmediatags only maps a handful of fields per format and cannot read Ogg at all, so
+ * the containers are walked here directly: ID3v2.2-2.4 frames, Vorbis comments and
+ * FLAC PICTURE blocks, and the iTunes items under moov/udta/meta/ilst. The raw frames
+ * and comments are exported for readers of other fields, such as embedded lyrics.
+ */
+import {
+  ascii,
+  concatBytes,
+  decodeId3Text,
+  fromBase64,
+  readTerminated,
+  resynchronise,
+  synchsafe,
+  uint32BE,
+  uint32LE
+} from './binary';
+import type { ReadTags } from './tagTypes';
+
+export type { ReadTags } from './tagTypes';
+
+export interface Id3Frame {
+  id: string; // Four-character ID; v2.2 IDs are mapped to their v2.3 equivalents
+  data: Uint8Array; // Content with unsynchronisation and the data length indicator removed
+}
+
+export interface VorbisTags {
+  comments: Record<string, string[]>; // Keyed by upper-case field name
+  pictures: Uint8Array[]; // FLAC PICTURE block bodies, also for Ogg METADATA_BLOCK_PICTURE comments
+}
+
+export interface Mp4Item {
+  dataType: number;
+  value: Uint8Array;
+}
+
+// Ogg comment packets can carry cover art; stop looking after this much
+const MAX_OGG_HEADER_BYTES = 16 * 1024 * 1024;
+const PICTURE_TYPE_FRONT_COVER = 3;
+const MP4_DATA_TYPE_PNG = 14;
+
+const ID3V22_FRAME_IDS: Record<string, string> = {
+  TT1: 'TIT1', TT2: 'TIT2', TT3: 'TIT3', TP1: 'TPE1', TP2: 'TPE2', TP3: 'TPE3', TP4: 'TPE4',
+  TAL: 'TALB', TRK: 'TRCK', TPA: 'TPOS', TYE: 'TYER', TDA: 'TDAT', TIM: 'TIME', TCO: 'TCON',
+  TCM: 'TCOM', TXT: 'TEXT', TCP: 'TCMP', TST: 'TSOT', TSP: 'TSOP', TSA: 'TSOA', TS2: 'TSO2',
+  TSC: 'TSOC', TEN: 'TENC', TSS: 'TSSE', TBP: 'TBPM', TCR: 'TCOP', TLA: 'TLAN', TLE: 'TLEN',
+  TPB: 'TPUB', TRC: 'TSRC', TKE: 'TKEY', TMT: 'TMED', TFT: 'TFLT', TOA: 'TOPE', TOT: 'TOAL',
+  TOL: 'TOLY', TOR: 'TORY', TOF: 'TOFN', TXX: 'TXXX', WXX: 'WXXX', WAR: 'WOAR', WAF: 'WOAF',
+  WAS: 'WOAS', WCM: 'WCOM', WCP: 'WCOP', WPB: 'WPUB', UFI: 'UFID', CNT: 'PCNT', POP: 'POPM',
+  GEO: 'GEOB', COM: 'COMM', ULT: 'USLT', SLT: 'SYLT', PIC: 'APIC'
+};
+
+/**
+ * A v2.2 frame in its v2.3 form, or undefined for frames that have no later counterpart
+ */
+export function convertId3v22Frame(id: string, data: Uint8Array): { id: string; data: Uint8Array } | undefined {
+  const mapped = ID3V22_FRAME_IDS[id];
+  if (!mapped) return undefined;
+  // v2.2 pictures name a three-letter image format where later versions have a MIME type
+  if (mapped === 'APIC') {
+    const mimeType = ascii(data, 1, 3).toUpperCase() === 'PNG' ? 'image/png' : 'image/jpeg';
+    return {
+      id: mapped,
+      data: concatBytes([data.subarray(0, 1), Uint8Array.from(`${mimeType}\0`, char => char.charCodeAt(0)), data.subarray(4)])
+    };
+  }
+  return { id: mapped, data };
+}
+
+// Genres referenced by number in ID3 TCON frames and MP4 gnre items
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock'
+];
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+// ID3v2
+
+/**
+ * Frames of an ID3v2 tag at the start of a file; compressed and encrypted frames are skipped
+ */
+export async function readId3Frames(file: Blob): Promise<Id3Frame[] | undefined> {
+  const header = await readBytes(file, 0, 10);
+  if (header.length < 10 || ascii(header, 0, 3) !== 'ID3') return undefined;
+
+  const version = header[3];
+  const flags = header[5];
+  let tag = await readBytes(file, 10, 10 + synchsafe(header, 6));
+  // Before 2.4 unsynchronisation applies to the whole tag, from 2.4 to each frame
+  if (version < 4 && flags & 0x80) tag = resynchronise(tag);
+
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) {
+    offset = version === 4 ? synchsafe(tag, 0) : uint32BE(tag, 0) + 4;
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const frames: Id3Frame[] = [];
+
+  while (offset + headerLength <= tag.length) {
+    const id = ascii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+
+    const size = version === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : version === 4 ? synchsafe(tag, offset + 4) : uint32BE(tag, offset + 4);
+    const formatFlags = version === 2 ? 0 : tag[offset + 9];
+    let data = tag.subarray(offset + headerLength, offset + headerLength + size);
+    offset += headerLength + size;
+
+    // Compressed or encrypted frames cannot be read here
+    const unreadable = version === 4 ? formatFlags & 0x0c : version === 3 ? formatFlags & 0xc0 : 0;
+    if (unreadable) continue;
+    if (version === 4) {
+      if (formatFlags & 0x02) data = resynchronise(data);
+      if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+    }
+
+    if (version === 2) {
+      const converted = convertId3v22Frame(id, data);
+      if (converted) frames.push(converted);
+    } else {
+      frames.push({ id, data });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Values of a text frame; v2.4 separates multiple values with null characters
+ */
+function id3TextValues(frame: Id3Frame): string[] {
+  return decodeId3Text(frame.data.subarray(1), frame.data[0])
+    .split('\0')
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * v2.3 genres may reference the ID3v1 list as "(17)" or "17", optionally followed by a refinement
+ */
+function id3Genre(value: string): string {
+  const reference = /^\((\d+)\)(.*)$/.exec(value) ?? /^(\d+)()$/.exec(value);
+  if (!reference) return value;
+  return reference[2].trim() || ID3_GENRES[parseInt(reference[1], 10)] || value;
+}
+
+function readId3Tags(frames: Id3Frame[]): ReadTags {
+  const tags: ReadTags = {};
+  const text = (id: string) => {
+    const frame = frames.find(candidate => candidate.id === id);
+    const values = frame ? id3TextValues(frame) : [];
+    return values.length > 0 ? values : undefined;
+  };
+  const joined = (id: string) => text(id)?.join('; ');
+
+  tags.title = joined('TIT2');
+  tags.artist = joined('TPE1');
+  tags.album = joined('TALB');
+  tags.albumArtist = joined('TPE2');
+  tags.composer = joined('TCOM');
+  tags.genre = text('TCON')?.map(id3Genre).join('; ');
+  tags.year = parseYear(text('TDRC')?.[0] ?? text('TYER')?.[0]);
+  Object.assign(tags, numberPair(text('TRCK')?.[0], 'track'), numberPair(text('TPOS')?.[0], 'disc'));
+  tags.compilation = text('TCMP')?.[0] === '1' || undefined;
+  tags.sortTitle = joined('TSOT');
+  tags.sortArtist = joined('TSOP');
+  tags.sortAlbum = joined('TSOA');
+  tags.sortAlbumArtist = joined('TSO2');
+
+  // The plain comment has an empty descriptor; others, such as iTunNORM, belong to other software
+  for (const frame of frames.filter(candidate => candidate.id === 'COMM')) {
+    const encoding = frame.data[0];
+    const descriptor = readTerminated(frame.data, 4, encoding);
+    if (descriptor.text) continue;
+    const comment = decodeId3Text(frame.data.subarray(descriptor.next), encoding).replace(/\0+$/, '').trim();
+    if (comment) {
+      tags.comment = comment;
+      break;
+    }
+  }
+
+  const pictures = frames.filter(frame => frame.id === 'APIC').map(frame => {
+    const mimeEnd = frame.data.indexOf(0, 1);
+    const pictureType = frame.data[mimeEnd + 1];
+    const { next } = readTerminated(frame.data, mimeEnd + 2, frame.data[0]);
+    return { pictureType, mimeType: ascii(frame.data, 1, mimeEnd - 1), data: frame.data.subarray(next) };
+  });
+  const cover = pictures.find(picture => picture.pictureType === PICTURE_TYPE_FRONT_COVER) ?? pictures[0];
+  if (cover?.data.length) tags.coverArt = { data: cover.data, mimeType: imageMimeType(cover.data, cover.mimeType) };
+
+  return tags;
+}
+
+// Vorbis comments
+
+function parseVorbisComments(block: Uint8Array, comments: Record<string, string[]>): void {
+  const decoder = new TextDecoder('utf-8');
+  let offset = 4 + uint32LE(block, 0); // Skip the vendor string
+  const count = uint32LE(block, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+    const length = uint32LE(block, offset);
+    const comment = decoder.decode(block.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const separator = comment.indexOf('=');
+    if (separator > 0) {
+      const key = comment.slice(0, separator).toUpperCase();
+      (comments[key] = comments[key] ?? []).push(comment.slice(separator + 1));
+    }
+  }
+}
+
+/**
+ * The VORBIS_COMMENT and PICTURE metadata blocks of a FLAC file
+ */
+async function readFlacTags(file: Blob): Promise<VorbisTags> {
+  const tags: VorbisTags = { comments: {}, pictures: [] };
+  let offset = 4;
+  for (;;) {
+    const header = await readBytes(file, offset, offset + 4);
+    if (header.length < 4) return tags;
+    const isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+    if (type === 4) parseVorbisComments(await readBytes(file, offset, offset + length), tags.comments);
+    if (type === 6) tags.pictures.push(await readBytes(file, offset, offset + length));
+    if (isLast) return tags;
+    offset += length;
+  }
+}
+
+/**
+ * The comment header of the first stream in an Ogg file: the second packet, after the identification header
+ */
+async function readOggTags(file: Blob): Promise<VorbisTags | undefined> {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let serial: number | undefined;
+  let offset = 0;
+
+  while (packets.length < 2 && offset < MAX_OGG_HEADER_BYTES) {
+    const header = await readBytes(file, offset, offset + 27);
+    if (header.length < 27 || ascii(header, 0, 4) !== 'OggS') return undefined;
+    const segmentCount = header[26];
+    const segments = await readBytes(file, offset + 27, offset + 27 + segmentCount);
+    const bodyLength = segments.reduce((sum, length) => sum + length, 0);
+    const body = await readBytes(file, offset + 27 + segmentCount, offset + 27 + segmentCount + bodyLength);
+    const pageSerial = uint32LE(header, 14);
+    offset += 27 + segmentCount + bodyLength;
+
+    serial = serial ?? pageSerial;
+    if (pageSerial !== serial) continue;
+
+    let position = 0;
+    segments.forEach(length => {
+      current.push(body.subarray(position, position + length));
+      position += length;
+      // A segment shorter than 255 bytes ends the packet
+      if (length < 255) {
+        packets.push(concatBytes(current));
+        current = [];
+      }
+    });
+  }
+
+  const packet = packets[1];
+  if (!packet) return undefined;
+  const tags: VorbisTags = { comments: {}, pictures: [] };
+  if (packet[0] === 3 && ascii(packet, 1, 6) === 'vorbis') {
+    parseVorbisComments(packet.subarray(7), tags.comments);
+  } else if (ascii(packet, 0, 8) === 'OpusTags') {
+    parseVorbisComments(packet.subarray(8), tags.comments);
+  } else {
+    return undefined;
+  }
+
+  tags.pictures = (tags.comments.METADATA_BLOCK_PICTURE ?? []).flatMap(value => {
+    try {
+      return [fromBase64(value)];
+    } catch {
+      return [];
+    }
+  });
+  delete tags.comments.METADATA_BLOCK_PICTURE;
+  return tags;
+}
+
+/**
+ * Vorbis comments and pictures of a FLAC, Ogg Vorbis or Opus file
+ */
+export async function readVorbisTags(file: Blob): Promise<VorbisTags | undefined> {
+  const magic = ascii(await readBytes(file, 0, 4), 0, 4);
+  if (magic === 'fLaC') return readFlacTags(file);
+  if (magic === 'OggS') return readOggTags(file);
+  return undefined;
+}
+
+function readVorbisTagValues({ comments, pictures }: VorbisTags): ReadTags {
+  const first = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = comments[key]?.map(entry => entry.trim()).filter(Boolean);
+      if (value?.length) return value;
+    }
+    return undefined;
+  };
+  const joined = (...keys: string[]) => first(...keys)?.join('; ');
+  const number = (...keys: string[]) => parseNumber(first(...keys)?.[0]);
+
+  const tags: ReadTags = {
+    title: joined('TITLE'),
+    artist: joined('ARTIST'),
+    album: joined('ALBUM'),
+    albumArtist: joined('ALBUMARTIST', 'ALBUM ARTIST'),
+    composer: joined('COMPOSER'),
+    genre: joined('GENRE'),
+    year: parseYear(first('DATE', 'YEAR')?.[0]),
+    comment: first('COMMENT', 'DESCRIPTION')?.[0],
+    compilation: first('COMPILATION')?.[0] === '1' || undefined,
+    sortTitle: joined('TITLESORT'),
+    sortArtist: joined('ARTISTSORT'),
+    sortAlbum: joined('ALBUMSORT'),
+    sortAlbumArtist: joined('ALBUMARTISTSORT')
+  };
+  // Track and disc numbers are sometimes written as "3/12"
+  const track = numberPair(first('TRACKNUMBER')?.[0], 'track');
+  const disc = numberPair(first('DISCNUMBER')?.[0], 'disc');
+  Object.assign(tags, track, disc);
+  tags.trackTotal = number('TRACKTOTAL', 'TOTALTRACKS') ?? track.trackTotal;
+  tags.discTotal = number('DISCTOTAL', 'TOTALDISCS') ?? disc.discTotal;
+
+  const parsed = pictures.map(parsePictureBlock).filter(picture => picture.data.length > 0);
+  const cover = parsed.find(picture => picture.pictureType === PICTURE_TYPE_FRONT_COVER) ?? parsed[0];
+  if (cover) tags.coverArt = { data: cover.data, mimeType: imageMimeType(cover.data, cover.mimeType) };
+
+  return tags;
+}
+
+function parsePictureBlock(block: Uint8Array): { pictureType: number; mimeType: string; data: Uint8Array } {
+  const pictureType = uint32BE(block, 0);
+  const mimeLength = uint32BE(block, 4);
+  const mimeType = ascii(block, 8, mimeLength);
+  const descriptionLength = uint32BE(block, 8 + mimeLength);
+  // Width, height, colour depth and palette size follow the description
+  const lengthOffset = 12 + mimeLength + descriptionLength + 16;
+  const dataLength = uint32BE(block, lengthOffset);
+  return { pictureType, mimeType, data: block.subarray(lengthOffset + 4, lengthOffset + 4 + dataLength) };
+}
+
+// MP4
+
+/**
+ * Offsets of the direct children of an atom body; 64-bit sizes are supported
+ */
+function mp4Children(bytes: Uint8Array, start: number, end: number): Array<{ type: string; body: number; end: number }> {
+  const atoms: Array<{ type: string; body: number; end: number }> = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(bytes, offset);
+    let headerLength = 8;
+    if (size === 1) {
+      size = uint32BE(bytes, offset + 8) * 2 ** 32 + uint32BE(bytes, offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength || offset + size > end) break;
+    atoms.push({ type: ascii(bytes, offset + 4, 4), body: offset + headerLength, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+}
+
+/**
+ * iTunes metadata items of an MP4 file, keyed by item type
+ */
+export async function readMp4Items(file: Blob): Promise<Map<string, Mp4Item[]> | undefined> {
+  const head = await readBytes(file, 0, 12);
+  if (head.length < 12 || ascii(head, 4, 4) !== 'ftyp') return undefined;
+
+  // Find moov among the top-level atoms without reading the media data
+  let offset = 0;
+  let moov: Uint8Array | undefined;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    let size = uint32BE(header, 0);
+    if (size === 1) size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+    if (size === 0) size = file.size - offset;
+    if (size < 8) return undefined;
+    if (ascii(header, 4, 4) === 'moov') {
+      moov = await readBytes(file, offset, offset + size);
+      break;
+    }
+    offset += size;
+  }
+  if (!moov) return undefined;
+
+  const items = new Map<string, Mp4Item[]>();
+  const find = (start: number, end: number, type: string) => mp4Children(moov!, start, end).find(atom => atom.type === type);
+  const udta = find(8, moov.length, 'udta');
+  const meta = udta && find(udta.body, udta.end, 'meta');
+  // meta is a full box with four bytes of version and flags
+  const ilst = meta && find(meta.body + 4, meta.end, 'ilst');
+  if (!ilst) return items;
+
+  mp4Children(moov, ilst.body, ilst.end).forEach(item => {
+    const values = mp4Children(moov!, item.body, item.end)
+      .filter(child => child.type === 'data' && child.end - child.body >= 8)
+      .map(child => ({ dataType: uint32BE(moov!, child.body) & 0xffffff, value: moov!.subarray(child.body + 8, child.end) }));
+    if (values.length > 0) items.set(item.type, values);
+  });
+  return items;
+}
+
+function readMp4TagValues(items: Map<string, Mp4Item[]>): ReadTags {
+  const decoder = new TextDecoder('utf-8');
+  const text = (type: string) => {
+    const values = items.get(type)?.map(item => decoder.decode(item.value).trim()).filter(Boolean);
+    return values?.length ? values.join('; ') : undefined;
+  };
+  const pair = (type: string) => {
+    const value = items.get(type)?.[0]?.value;
+    if (!value || value.length < 6) return {};
+    return { number: (value[2] << 8) | value[3] || undefined, total: (value[4] << 8) | value[5] || undefined };
+  };
+
+  const genreIndex = items.get('gnre')?.[0]?.value;
+  const track = pair('trkn');
+  const disc = pair('disk');
+  const cover = items.get('covr')?.[0];
+
+  return {
+    title: text('©nam'),
+    artist: text('©ART'),
+    album: text('©alb'),
+    albumArtist: text('aART'),
+    composer: text('©wrt'),
+    genre: text('©gen') ?? (genreIndex && genreIndex.length >= 2 ? ID3_GENRES[((genreIndex[0] << 8) | genreIndex[1]) - 1] : undefined),
+    year: parseYear(text('©day')),
+    comment: text('©cmt'),
+    trackNumber: track.number,
+    trackTotal: track.total,
+    discNumber: disc.number,
+    discTotal: disc.total,
+    compilation: items.get('cpil')?.[0]?.value[0] === 1 || undefined,
+    sortTitle: text('sonm'),
+    sortArtist: text('soar'),
+    sortAlbum: text('soal'),
+    sortAlbumArtist: text('soaa'),
+    coverArt: cover?.value.length
+      ? { data: cover.value, mimeType: cover.dataType === MP4_DATA_TYPE_PNG ? 'image/png' : imageMimeType(cover.value, 'image/jpeg') }
+      : undefined
+  };
+}
+
+// Shared parsing
+
+function parseNumber(value?: string): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function numberPair(value: string | undefined, kind: 'track' | 'disc'): ReadTags {
+  const [number, total] = (value ?? '').split('/');
+  return kind === 'track'
+    ? { trackNumber: parseNumber(number), trackTotal: parseNumber(total) }
+    : { discNumber: parseNumber(number), discTotal: parseNumber(total) };
+}
+
+/**
+ * Years come as "1999", "1999-05-01" or full timestamps
+ */
+function parseYear(value?: string): number | undefined {
+  const match = value ? /^\s*(\d{4})/.exec(value) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Taggers get the MIME type wrong often enough that the data's signature is more reliable
+ */
+function imageMimeType(data: Uint8Array, declared: string): string {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  return declared.includes('/') ? declared.toLowerCase() : 'image/jpeg';
+}
+
+/**
+ * Tags of an MP3, FLAC, Ogg or MP4 file with empty fields left out; undefined for other formats
+ */
+export async function readTags(file: Blob): Promise<ReadTags | undefined> {
+  const id3Frames = await readId3Frames(file);
+  let tags: ReadTags | undefined;
+  if (id3Frames) {
+    tags = readId3Tags(id3Frames);
+  } else {
+    const vorbis = await readVorbisTags(file);
+    if (vorbis) {
+      tags = readVorbisTagValues(vorbis);
+    } else {
+      const mp4Items = await readMp4Items(file);
+      if (mp4Items) tags = readMp4TagValues(mp4Items);
+    }
+  }
+  if (!tags) return undefined;
+
+  (Object.keys(tags) as Array<keyof ReadTags>).forEach(key => {
+    if (tags![key] === undefined || tags![key] === '') delete tags![key];
+  });
+  return tags;
+}
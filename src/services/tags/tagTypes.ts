@@ -0,0 +1,43 @@
+/**
+ * Tag values the writers understand, shared by every container format.
+ */
+
+export interface CoverArt {
+  data: Uint8Array;
+  mimeType: string; // image/jpeg or image/png
+}
+
+export interface TagValues {
+  title: string;
+  artist: string;
+  album: string;
+  albumArtist: string;
+  trackNumber: number;
+  trackTotal: number;
+  discNumber: number;
+  discTotal: number;
+  year: number;
+  genre: string;
+  comment: string;
+  lyrics: string; // LRC or plain text
+  coverArt: CoverArt; // Front cover
+}
+
+/**
+ * Changes to write: a value sets the tag, null removes it and a missing key leaves it as it is.
+ * A number or total given on its own keeps the other half of the pair from the file; a total
+ * needs a number to go with, and removing the number removes its total too.
+ */
+export type TagUpdate = { [K in keyof TagValues]?: TagValues[K] | null };
+
+/**
+ * Everything the readers return: the writable values plus fields that are only read
+ */
+export interface ReadTags extends Partial<TagValues> {
+  composer?: string;
+  compilation?: boolean; // Part of a various-artists compilation
+  sortTitle?: string;
+  sortArtist?: string;
+  sortAlbum?: string;
+  sortAlbumArtist?: string;
+}
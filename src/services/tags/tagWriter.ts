@@ -0,0 +1,45 @@
+/**
+ * Entry point for writing tags, dispatching on the container found in the file itself
+ * rather than on its extension, which is often wrong for downloaded files.
+ */
+import { ascii } from './binary';
+import { writeId3Tags } from './id3Writer';
+import { writeMp4Tags } from './mp4Writer';
+import { writeFlacTags, writeOggTags } from './vorbisWriter';
+import type { TagUpdate } from './tagTypes';
+
+export type { CoverArt, TagUpdate, TagValues } from './tagTypes';
+
+export type TagFormat = 'id3' | 'flac' | 'ogg' | 'mp4';
+
+/**
+ * The tag container a file uses, or undefined for formats that cannot be tagged here
+ */
+export function detectTagFormat(bytes: Uint8Array): TagFormat | undefined {
+  if (bytes.length < 12) return undefined;
+  if (ascii(bytes, 0, 3) === 'ID3') return 'id3';
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  // MPEG audio frame sync without a tag yet
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'id3';
+  return undefined;
+}
+
+/**
+ * Apply an update to a file's tags, returning the whole new file. Throws for unsupported formats.
+ */
+export function writeTags(bytes: Uint8Array, update: TagUpdate): Uint8Array {
+  switch (detectTagFormat(bytes)) {
+    case 'id3':
+      return writeId3Tags(bytes, update);
+    case 'flac':
+      return writeFlacTags(bytes, update);
+    case 'ogg':
+      return writeOggTags(bytes, update);
+    case 'mp4':
+      return writeMp4Tags(bytes, update);
+    default:
+      throw new Error('Tags cannot be written to this file format');
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Vorbis comment writing for FLAC, Ogg Vorbis and Opus files.
+ *
+ * Comments not being changed are kept in their original order. FLAC files get a new
+ * VORBIS_COMMENT block and, for cover art, a PICTURE block; Ogg files get a new
+ * comment header packet with the cover as a METADATA_BLOCK_PICTURE comment, after
+ * which the header pages are re-paginated and the following pages renumbered.
+ */
+import {
+  ascii,
+  asciiBytes,
+  concatBytes,
+  toBase64,
+  uint32BE,
+  uint32BEBytes,
+  uint32LE,
+  uint32LEBytes,
+  utf8Bytes
+} from './binary';
+import type { CoverArt, TagUpdate, TagValues } from './tagTypes';
+
+interface VorbisComments {
+  vendor: string;
+  comments: Array<[string, string]>; // Field name as written, value
+}
+
+const FLAC_STREAMINFO = 0;
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+const FLAC_PADDING_BYTES = 4096;
+const PICTURE_TYPE_OTHER = 0;
+const PICTURE_TYPE_FRONT_COVER = 3;
+const OGG_MAX_SEGMENTS = 255;
+
+// Fields an update replaces; the first name is the one written
+const FIELDS: Record<keyof TagValues, string[]> = {
+  title: ['TITLE'],
+  artist: ['ARTIST'],
+  album: ['ALBUM'],
+  albumArtist: ['ALBUMARTIST', 'ALBUM ARTIST'],
+  trackNumber: ['TRACKNUMBER'],
+  trackTotal: ['TRACKTOTAL', 'TOTALTRACKS'],
+  discNumber: ['DISCNUMBER'],
+  discTotal: ['DISCTOTAL', 'TOTALDISCS'],
+  year: ['DATE', 'YEAR'],
+  genre: ['GENRE'],
+  comment: ['COMMENT', 'DESCRIPTION'],
+  lyrics: ['LYRICS', 'UNSYNCEDLYRICS'],
+  coverArt: ['METADATA_BLOCK_PICTURE', 'COVERART']
+};
+
+function parseComments(block: Uint8Array): VorbisComments {
+  const decoder = new TextDecoder('utf-8');
+  const vendorLength = uint32LE(block, 0);
+  const vendor = decoder.decode(block.subarray(4, 4 + vendorLength));
+  let offset = 4 + vendorLength;
+  const count = uint32LE(block, offset);
+  offset += 4;
+
+  const comments: Array<[string, string]> = [];
+  for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+    const length = uint32LE(block, offset);
+    const comment = decoder.decode(block.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const separator = comment.indexOf('=');
+    if (separator > 0) comments.push([comment.slice(0, separator), comment.slice(separator + 1)]);
+  }
+  return { vendor, comments };
+}
+
+function serializeComments({ vendor, comments }: VorbisComments): Uint8Array {
+  const vendorBytes = utf8Bytes(vendor);
+  const parts = [uint32LEBytes(vendorBytes.length), vendorBytes, uint32LEBytes(comments.length)];
+  comments.forEach(([key, value]) => {
+    const bytes = utf8Bytes(`${key}=${value}`);
+    parts.push(uint32LEBytes(bytes.length), bytes);
+  });
+  return concatBytes(parts);
+}
+
+/**
+ * A FLAC PICTURE block body, also the payload of METADATA_BLOCK_PICTURE. Dimensions are left at zero, which readers accept.
+ */
+function pictureBlock(cover: CoverArt): Uint8Array {
+  const mime = asciiBytes(cover.mimeType);
+  return concatBytes([
+    uint32BEBytes(PICTURE_TYPE_FRONT_COVER),
+    uint32BEBytes(mime.length), mime,
+    uint32BEBytes(0), // Description
+    uint32BEBytes(0), uint32BEBytes(0), uint32BEBytes(0), uint32BEBytes(0), // Width, height, depth, colours
+    uint32BEBytes(cover.data.length), cover.data
+  ]);
+}
+
+/**
+ * Merge an update into comments; with embedPicture the cover becomes a METADATA_BLOCK_PICTURE comment
+ */
+function applyUpdate(existing: VorbisComments, update: TagUpdate, embedPicture: boolean): VorbisComments {
+  const keys = Object.keys(update) as Array<keyof TagValues>;
+  const replaced = new Set(keys.flatMap(key => (key === 'coverArt' && !embedPicture ? [] : FIELDS[key])));
+  // Totals are separate fields, but go when their number is removed
+  if (keys.includes('trackNumber') && !update.trackNumber) FIELDS.trackTotal.forEach(field => replaced.add(field));
+  if (keys.includes('discNumber') && !update.discNumber) FIELDS.discTotal.forEach(field => replaced.add(field));
+
+  const comments = existing.comments.filter(([key]) => !replaced.has(key.toUpperCase()));
+  const add = (key: keyof TagValues, value: string | number | null | undefined) => {
+    if (value !== null && value !== undefined && value !== '') comments.push([FIELDS[key][0], String(value)]);
+  };
+
+  add('title', update.title);
+  add('artist', update.artist);
+  add('album', update.album);
+  add('albumArtist', update.albumArtist);
+  add('trackNumber', update.trackNumber);
+  if (update.trackNumber !== null) add('trackTotal', update.trackTotal);
+  add('discNumber', update.discNumber);
+  if (update.discNumber !== null) add('discTotal', update.discTotal);
+  add('year', update.year);
+  add('genre', update.genre);
+  add('comment', update.comment);
+  add('lyrics', update.lyrics);
+  if (embedPicture && update.coverArt) add('coverArt', toBase64(pictureBlock(update.coverArt)));
+
+  return { vendor: existing.vendor, comments };
+}
+
+/**
+ * Apply an update to a FLAC file's metadata blocks, returning the whole new file
+ */
+export function writeFlacTags(bytes: Uint8Array, update: TagUpdate): Uint8Array {
+  if (ascii(bytes, 0, 4) !== 'fLaC') throw new Error('Not a FLAC file');
+
+  const blocks: Array<{ type: number; data: Uint8Array }> = [];
+  let offset = 4;
+  let isLast = false;
+  while (!isLast) {
+    if (offset + 4 > bytes.length) throw new Error('Truncated FLAC metadata');
+    isLast = (bytes[offset] & 0x80) !== 0;
+    const type = bytes[offset] & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    blocks.push({ type, data: bytes.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+  const audio = bytes.subarray(offset);
+
+  const existing = blocks.find(block => block.type === FLAC_VORBIS_COMMENT);
+  const comments = applyUpdate(existing ? parseComments(existing.data) : { vendor: 'MelodyForge', comments: [] }, update, false);
+
+  const replacesCover = 'coverArt' in update;
+  const kept = blocks.filter(block => {
+    if (block.type === FLAC_VORBIS_COMMENT || block.type === FLAC_PADDING) return false;
+    if (block.type === FLAC_PICTURE && replacesCover) {
+      const pictureType = uint32BE(block.data, 0);
+      return pictureType !== PICTURE_TYPE_FRONT_COVER && pictureType !== PICTURE_TYPE_OTHER;
+    }
+    return true;
+  });
+
+  // STREAMINFO has to stay first
+  const written = [
+    ...kept.filter(block => block.type === FLAC_STREAMINFO),
+    { type: FLAC_VORBIS_COMMENT, data: serializeComments(comments) },
+    ...kept.filter(block => block.type !== FLAC_STREAMINFO),
+    ...(update.coverArt ? [{ type: FLAC_PICTURE, data: pictureBlock(update.coverArt) }] : []),
+    { type: FLAC_PADDING, data: new Uint8Array(FLAC_PADDING_BYTES) }
+  ];
+
+  const parts: Uint8Array[] = [asciiBytes('fLaC')];
+  written.forEach((block, index) => {
+    if (block.data.length >= 1 << 24) throw new Error('FLAC metadata block too large');
+    const last = index === written.length - 1 ? 0x80 : 0;
+    parts.push(
+      Uint8Array.of(last | block.type, (block.data.length >> 16) & 0xff, (block.data.length >> 8) & 0xff, block.data.length & 0xff),
+      block.data
+    );
+  });
+  parts.push(audio);
+  return concatBytes(parts);
+}
+
+// Ogg pages
+
+interface OggPage {
+  offset: number;
+  length: number; // Header and body
+  headerType: number;
+  serial: number;
+  sequence: number;
+  segments: Uint8Array;
+  body: Uint8Array;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Ogg's CRC-32: polynomial 0x04c11db7, no reflection, zero initial value
+ */
+function oggCrc(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let crc = i << 24;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+      }
+      crcTable[i] = crc >>> 0;
+    }
+  }
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function parsePages(bytes: Uint8Array): OggPage[] {
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset + 27 <= bytes.length) {
+    if (ascii(bytes, offset, 4) !== 'OggS') throw new Error('Damaged Ogg stream');
+    const segmentCount = bytes[offset + 26];
+    const segments = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    const bodyLength = segments.reduce((sum, length) => sum + length, 0);
+    const bodyStart = offset + 27 + segmentCount;
+    pages.push({
+      offset,
+      length: 27 + segmentCount + bodyLength,
+      headerType: bytes[offset + 5],
+      serial: uint32LE(bytes, offset + 14),
+      sequence: uint32LE(bytes, offset + 18),
+      segments,
+      body: bytes.subarray(bodyStart, bodyStart + bodyLength)
+    });
+    offset = bodyStart + bodyLength;
+  }
+  return pages;
+}
+
+function buildPage(headerType: number, granule: 'zero' | 'none', serial: number, sequence: number, segments: number[], body: Uint8Array): Uint8Array {
+  const header = new Uint8Array(27 + segments.length);
+  header.set(asciiBytes('OggS'), 0);
+  header[5] = headerType;
+  // Pages on which no packet ends carry a granule position of -1
+  header.fill(granule === 'none' ? 0xff : 0, 6, 14);
+  header.set(uint32LEBytes(serial), 14);
+  header.set(uint32LEBytes(sequence), 18);
+  header[26] = segments.length;
+  header.set(segments, 27);
+  const page = concatBytes([header, body]);
+  page.set(uint32LEBytes(oggCrc(page)), 22);
+  return page;
+}
+
+/**
+ * Lay packets out over as many pages as their lacing needs, starting at a sequence number
+ */
+function paginate(packets: Uint8Array[], serial: number, firstSequence: number): Uint8Array[] {
+  const lacing: Array<{ length: number; packet: number; offset: number; ends: boolean }> = [];
+  packets.forEach((packet, index) => {
+    let offset = 0;
+    for (;;) {
+      const length = Math.min(255, packet.length - offset);
+      const ends = length < 255;
+      lacing.push({ length, packet: index, offset, ends });
+      offset += length;
+      if (ends) break;
+    }
+  });
+
+  const pages: Uint8Array[] = [];
+  for (let start = 0; start < lacing.length; start += OGG_MAX_SEGMENTS) {
+    const slice = lacing.slice(start, start + OGG_MAX_SEGMENTS);
+    const continued = start > 0 && !lacing[start - 1].ends ? 0x01 : 0;
+    const body = concatBytes(slice.map(segment => packets[segment.packet].subarray(segment.offset, segment.offset + segment.length)));
+    pages.push(buildPage(
+      continued,
+      slice.some(segment => segment.ends) ? 'zero' : 'none',
+      serial,
+      firstSequence + pages.length,
+      slice.map(segment => segment.length),
+      body
+    ));
+  }
+  return pages;
+}
+
+/**
+ * Apply an update to the comment header of an Ogg Vorbis or Opus file, returning the whole new file
+ */
+export function writeOggTags(bytes: Uint8Array, update: TagUpdate): Uint8Array {
+  const pages = parsePages(bytes);
+  if (pages.length === 0) throw new Error('Not an Ogg file');
+  const serial = pages[0].serial;
+
+  // Collect the header packets of the first stream: Vorbis has three, Opus two
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let headerCount = 0;
+  let headerPages = 0;
+  for (const page of pages) {
+    if (page.serial !== serial) continue;
+    headerPages++;
+    let position = 0;
+    page.segments.forEach(length => {
+      current.push(page.body.subarray(position, position + length));
+      position += length;
+      if (length < 255) {
+        packets.push(concatBytes(current));
+        current = [];
+      }
+    });
+    if (packets.length > 0 && headerCount === 0) {
+      headerCount = ascii(packets[0], 0, 8) === 'OpusHead' ? 2 : packets[0][0] === 1 && ascii(packets[0], 1, 6) === 'vorbis' ? 3 : -1;
+      if (headerCount === -1) throw new Error('Unsupported Ogg codec');
+    }
+    if (headerCount > 0 && packets.length >= headerCount) break;
+  }
+  // Audio has to start on a fresh page after the headers
+  if (packets.length !== headerCount || current.length > 0) throw new Error('Unexpected Ogg header layout');
+
+  const isOpus = headerCount === 2;
+  const commentPrefix = isOpus ? asciiBytes('OpusTags') : concatBytes([Uint8Array.of(3), asciiBytes('vorbis')]);
+  const existing = parseComments(packets[1].subarray(commentPrefix.length));
+  const comments = serializeComments(applyUpdate(existing, update, true));
+  // Vorbis comment headers end with a framing bit
+  const commentPacket = concatBytes([commentPrefix, comments, ...(isOpus ? [] : [Uint8Array.of(1)])]);
+
+  const firstPage = bytes.subarray(pages[0].offset, pages[0].offset + pages[0].length);
+  const newHeaderPages = paginate([commentPacket, ...packets.slice(2)], serial, 1);
+  const sequenceShift = 1 + newHeaderPages.length - headerPages;
+
+  // Pages after the headers keep their content; those of this stream are renumbered
+  const streamPages = pages.filter(page => page.serial === serial);
+  const lastHeaderPage = streamPages[headerPages - 1];
+  const rest = pages.filter(page => page.offset > lastHeaderPage.offset).map(page => {
+    const raw = bytes.slice(page.offset, page.offset + page.length);
+    if (page.serial !== serial || sequenceShift === 0) return raw;
+    raw.set(uint32LEBytes(page.sequence + sequenceShift), 18);
+    raw.set(uint32LEBytes(0), 22);
+    raw.set(uint32LEBytes(oggCrc(raw)), 22);
+    return raw;
+  });
+
+  return concatBytes([firstPage, ...newHeaderPages, ...rest]);
+}
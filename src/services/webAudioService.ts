@@ -1,5 +1,8 @@
 // Web-based audio service with File System Access API support
 import { toast } from 'sonner';
+import { audioGraph } from './playback/audioGraph';
+import { isLyricsSidecar, LYRICS_SIDECAR_EXTENSIONS } from './lyrics/sidecarLyrics';
+import { isFolderArtwork } from './library/folderArtwork';
 
 export interface AudioPermissions {
   hasFileAccess: boolean;
@@ -7,11 +10,36 @@ export interface AudioPermissions {
   hasAudioContext: boolean;
 }
 
+/**
+ * A folder chosen through the directory picker and the files found in it
+ */
+export interface DirectorySelection {
+  handle: FileSystemDirectoryHandle;
+  files: File[];
+}
+
+// Permission methods of the File System Access API that TypeScript's DOM types leave out
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+  queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+};
+
+// Listing a folder is typed in the DOM.AsyncIterable lib, which this project does not include
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  entries(): AsyncIterableIterator<[string, FileSystemFileHandle | FileSystemDirectoryHandle]>;
+};
+
 export class WebAudioService {
   private audioContext?: AudioContext;
   private currentSource?: AudioBufferSourceNode;
   private gainNode?: GainNode;
   private isPlaying = false;
+  // Paths of files found by a directory scan, relative to the chosen directory
+  private relativePaths = new WeakMap<File, string>();
+  // Handles the chosen files were read from, kept so tags can be written back
+  private fileHandles = new WeakMap<File, FileSystemFileHandle>();
+  // Object URLs made in this session; stored ones from earlier sessions no longer resolve
+  private sessionUrls = new Set<string>();
 
   async checkPermissions(): Promise<AudioPermissions> {
     const permissions: AudioPermissions = {
@@ -25,19 +53,16 @@ export class WebAudioService {
 
   async initializeAudioContext(): Promise<void> {
     if (!this.audioContext) {
-      // @ts-ignore - webkitAudioContext fallback for Safari
-      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-      this.audioContext = new AudioContextClass();
+      // Decoding and playback share the app-wide context; output runs through its effect chain
+      this.audioContext = audioGraph.getContext();
       
       // Create gain node for volume control
       this.gainNode = this.audioContext.createGain();
-      this.gainNode.connect(this.audioContext.destination);
+      this.gainNode.connect(audioGraph.getInput());
     }
 
     // Resume context if suspended (required for auto-play policies)
-    if (this.audioContext.state === 'suspended') {
-      await this.audioContext.resume();
-    }
+    await audioGraph.resume();
   }
 
   async requestFileAccess(): Promise<File[]> {
@@ -79,16 +104,22 @@ export class WebAudioService {
           accept: {
             'audio/*': ['.mp3', '.wav', '.m4a', '.flac', '.ogg', '.aac', '.wma']
           }
+        }, {
+          description: 'Lyrics files',
+          accept: {
+            'text/plain': LYRICS_SIDECAR_EXTENSIONS
+          }
         }]
       });
 
       const files: File[] = [];
       for (const handle of fileHandles) {
         const file = await handle.getFile();
+        this.fileHandles.set(file, handle);
         files.push(file);
       }
 
-      toast.success(`Selected ${files.length} audio files`);
+      toast.success(`Selected ${this.countAudioFiles(files)} audio files`);
       return files;
     } catch (error) {
       if ((error as Error).name === 'AbortError') {
@@ -106,14 +137,14 @@ export class WebAudioService {
       const input = document.createElement('input');
       input.type = 'file';
       input.multiple = true;
-      input.accept = 'audio/*,.mp3,.wav,.m4a,.flac,.ogg,.aac,.wma';
+      input.accept = `audio/*,.mp3,.wav,.m4a,.flac,.ogg,.aac,.wma,${LYRICS_SIDECAR_EXTENSIONS.join(',')}`;
       
       input.onchange = (event) => {
         const target = event.target as HTMLInputElement;
         const files = Array.from(target.files || []);
         
         if (files.length > 0) {
-          toast.success(`Selected ${files.length} audio files`);
+          toast.success(`Selected ${this.countAudioFiles(files)} audio files`);
         }
         
         resolve(files);
@@ -128,7 +159,10 @@ export class WebAudioService {
     });
   }
 
-  async requestDirectoryAccess(): Promise<File[]> {
+  /**
+   * Let the user pick a folder and collect its files; null when cancelled or unreadable
+   */
+  async requestDirectoryAccess(): Promise<DirectorySelection | null> {
     const permissions = await this.checkPermissions();
     
     if (!permissions.hasFileSystemAccess) {
@@ -137,13 +171,11 @@ export class WebAudioService {
 
     try {
       // @ts-ignore - File System Access API
-      const directoryHandle = await window.showDirectoryPicker();
-      const files: File[] = [];
+      const directoryHandle: FileSystemDirectoryHandle = await window.showDirectoryPicker();
+      const files = await this.readDirectory(directoryHandle);
       
-      await this.scanDirectory(directoryHandle, files);
-      
-      toast.success(`Found ${files.length} audio files in directory`);
-      return files;
+      toast.success(`Found ${this.countAudioFiles(files)} audio files in directory`);
+      return { handle: directoryHandle, files };
     } catch (error) {
       if ((error as Error).name === 'AbortError') {
         toast.info('Directory selection cancelled');
@@ -151,27 +183,93 @@ export class WebAudioService {
         toast.error('Failed to access directory');
         console.error('Directory access error:', error);
       }
-      return [];
+      return null;
     }
   }
 
-  private async scanDirectory(directoryHandle: any, files: File[]): Promise<void> {
+  /**
+   * Collect the files of a folder chosen earlier, as a directory pick would
+   */
+  async readDirectory(directoryHandle: FileSystemDirectoryHandle): Promise<File[]> {
+    const files: File[] = [];
+    await this.scanDirectory(directoryHandle, files);
+    return files;
+  }
+
+  /**
+   * Whether a folder chosen earlier may be read, asking the user when the browser requires it
+   */
+  async ensureDirectoryPermission(directoryHandle: PermissionedDirectoryHandle): Promise<boolean> {
+    if (!directoryHandle.queryPermission || !directoryHandle.requestPermission) return true;
+    if ((await directoryHandle.queryPermission({ mode: 'read' })) === 'granted') return true;
+    return (await directoryHandle.requestPermission({ mode: 'read' })) === 'granted';
+  }
+
+  /**
+   * Collect audio files, plus lyrics files named after an audio file in the same folder
+   * and the cover images of folders that hold audio files
+   */
+  private async scanDirectory(directoryHandle: FileSystemDirectoryHandle, files: File[], path = ''): Promise<void> {
     const audioExtensions = ['.mp3', '.wav', '.m4a', '.flac', '.ogg', '.aac', '.wma'];
+    const audioStems = new Set<string>();
+    const lyricsHandles: Array<[string, FileSystemFileHandle]> = [];
+    const artworkHandles: Array<[string, FileSystemFileHandle]> = [];
     
-    for await (const [name, handle] of directoryHandle.entries()) {
+    for await (const [name, handle] of (directoryHandle as IterableDirectoryHandle).entries()) {
       if (handle.kind === 'file') {
         const extension = name.toLowerCase().substring(name.lastIndexOf('.'));
         if (audioExtensions.includes(extension)) {
           const file = await handle.getFile();
+          this.relativePaths.set(file, path + name);
+          this.fileHandles.set(file, handle);
           files.push(file);
+          audioStems.add(name.substring(0, name.lastIndexOf('.')).toLowerCase());
+        } else if (isLyricsSidecar(name)) {
+          lyricsHandles.push([name, handle]);
+        } else if (isFolderArtwork(name)) {
+          artworkHandles.push([name, handle]);
         }
       } else if (handle.kind === 'directory') {
         // Recursively scan subdirectories
-        await this.scanDirectory(handle, files);
+        await this.scanDirectory(handle, files, `${path}${name}/`);
+      }
+    }
+
+    for (const [name, handle] of lyricsHandles) {
+      if (audioStems.has(name.substring(0, name.lastIndexOf('.')).toLowerCase())) {
+        const file = await handle.getFile();
+        this.relativePaths.set(file, path + name);
+        files.push(file);
+      }
+    }
+
+    if (audioStems.size > 0) {
+      for (const [name, handle] of artworkHandles) {
+        const file = await handle.getFile();
+        this.relativePaths.set(file, path + name);
+        files.push(file);
       }
     }
   }
 
+  /**
+   * Path of a chosen file relative to the chosen directory, or its name when picked on its own
+   */
+  getRelativePath(file: File): string {
+    return this.relativePaths.get(file) || file.webkitRelativePath || file.name;
+  }
+
+  /**
+   * Handle a chosen file was read from; undefined for files from the file input or drag and drop
+   */
+  getFileHandle(file: File): FileSystemFileHandle | undefined {
+    return this.fileHandles.get(file);
+  }
+
+  private countAudioFiles(files: File[]): number {
+    return files.filter(file => !isLyricsSidecar(file.name) && !isFolderArtwork(file.name)).length;
+  }
+
   async loadAudioFile(file: File): Promise<AudioBuffer> {
     await this.initializeAudioContext();
     
@@ -285,12 +383,22 @@ export class WebAudioService {
 
   // Create blob URL for file
   createObjectURL(file: File): string {
-    return URL.createObjectURL(file);
+    const url = URL.createObjectURL(file);
+    this.sessionUrls.add(url);
+    return url;
+  }
+
+  /**
+   * Whether a URL can still be loaded: anything but an object URL left over from an earlier session
+   */
+  isUsableUrl(url: string): boolean {
+    return !url.startsWith('blob:') || this.sessionUrls.has(url);
   }
 
   // Clean up blob URL
   revokeObjectURL(url: string): void {
     URL.revokeObjectURL(url);
+    this.sessionUrls.delete(url);
   }
 }
 
@@ -20,13 +20,6 @@ export interface SmartPlaylistCriteria {
   playCount?: number;
 }
 
-export interface PlaybackHistory {
-  trackId: string;
-  playedAt: Date;
-  duration: number;
-  completed: boolean;
-}
-
 export interface UserStats {
   totalTracks: number;
   totalPlaytime: number; // in seconds
@@ -38,7 +31,6 @@ export interface UserStats {
 
 export class LocalStorage {
   private static PLAYLISTS_KEY = 'melodyforge_playlists';
-  private static HISTORY_KEY = 'melodyforge_history';
   private static STATS_KEY = 'melodyforge_stats';
   private static FAVORITES_KEY = 'melodyforge_favorites';
   private static SETTINGS_KEY = 'melodyforge_settings';
@@ -89,43 +81,6 @@ export class LocalStorage {
     }
   }
 
-  // Playback history
-  static addToHistory(trackId: string, duration: number, completed: boolean): void {
-    const history = this.getHistory();
-    const newEntry: PlaybackHistory = {
-      trackId,
-      playedAt: new Date(),
-      duration,
-      completed
-    };
-    
-    history.unshift(newEntry);
-    
-    // Keep only last 1000 entries
-    const trimmedHistory = history.slice(0, 1000);
-    localStorage.setItem(this.HISTORY_KEY, JSON.stringify(trimmedHistory));
-    
-    // Update stats
-    this.updateStats(trackId, duration);
-  }
-
-  static getHistory(): PlaybackHistory[] {
-    const stored = localStorage.getItem(this.HISTORY_KEY);
-    return stored ? JSON.parse(stored) : [];
-  }
-
-  static getRecentTracks(limit: number = 10): string[] {
-    const history = this.getHistory();
-    const recentTrackIds = new Set<string>();
-    
-    for (const entry of history) {
-      if (recentTrackIds.size >= limit) break;
-      recentTrackIds.add(entry.trackId);
-    }
-    
-    return Array.from(recentTrackIds);
-  }
-
   // Favorites
   static getFavorites(): string[] {
     const stored = localStorage.getItem(this.FAVORITES_KEY);
@@ -166,29 +121,6 @@ export class LocalStorage {
     };
   }
 
-  private static updateStats(trackId: string, duration: number): void {
-    const stats = this.getStats();
-    stats.totalPlaytime += duration;
-    
-    // Check if this is today's first song
-    const today = new Date().toDateString();
-    const lastPlayed = localStorage.getItem('last_played_date') || '';
-    
-    if (lastPlayed !== today) {
-      if (lastPlayed === new Date(Date.now() - 86400000).toDateString()) {
-        stats.streakDays++;
-      } else {
-        stats.streakDays = 1;
-      }
-      stats.songsToday = 1;
-      localStorage.setItem('last_played_date', today);
-    } else {
-      stats.songsToday++;
-    }
-    
-    localStorage.setItem(this.STATS_KEY, JSON.stringify(stats));
-  }
-
   static updateTotalTracks(count: number): void {
     const stats = this.getStats();
     stats.totalTracks = count;
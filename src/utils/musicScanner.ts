@@ -1,13 +1,37 @@
-import { webAudioService } from '@/services/webAudioService';
-import { musicDB, Song } from './musicDatabase';
+import { webAudioService, type DirectorySelection } from '@/services/webAudioService';
+import { libraryRepository, type SongLocation } from '@/services/libraryRepository';
+import { enhancedDB, EnhancedSong, LibraryFolder } from '@/services/enhancedDatabase';
+import { MetadataService } from '@/services/metadataService';
+import { pairLyricsSidecars } from '@/services/lyrics/sidecarLyrics';
+import { pairFolderArtwork } from '@/services/library/folderArtwork';
+import { artworkService } from '@/services/library/artworkService';
+import { trackFileService } from '@/services/library/trackFileService';
 import { toast } from 'sonner';
 
+/**
+ * What a folder import or rescan did to the library
+ */
+export interface FolderScanResult {
+  added: EnhancedSong[];
+  updated: number; // Changed files whose tags were read again
+  moved: number; // Known files found at a new path
+  missing: number; // Known files no longer found
+  unchanged: number;
+}
+
+export type ScanProgressCallback = (progress: number, fileName: string) => void;
+
+const emptyResult = (): FolderScanResult => ({ added: [], updated: 0, moved: 0, missing: 0, unchanged: 0 });
+
 export class MusicScanner {
   private supportedFormats = ['.mp3', '.m4a', '.wav', '.flac', '.ogg', '.aac'];
   private minFileSize = 200 * 1024; // 200KB
   private minDuration = 10; // 10 seconds
 
-  async scanForMusic(): Promise<Song[]> {
+  /**
+   * Import individually picked files; files already in the library are pointed at again instead of re-added
+   */
+  async scanForMusic(): Promise<EnhancedSong[]> {
     try {
       toast.info('Please select your music files...');
       
@@ -19,34 +43,32 @@ export class MusicScanner {
         return [];
       }
 
-      const songs: Song[] = [];
+      const songs: EnhancedSong[] = [];
+      const { audioFiles, sidecars } = pairLyricsSidecars(files, file => webAudioService.getRelativePath(file));
       
       // Process each file
-      for (const file of files) {
+      for (const file of audioFiles) {
         try {
-          const song = await this.createSongFromFile(file);
+          const fileHash = await enhancedDB.calculateFileHash(file);
+          const [existing] = await libraryRepository.getSongsByFileHash(fileHash);
+          if (existing) {
+            this.releaseObjectUrl(existing);
+            await libraryRepository.updateSongLocations([{ id: existing.id, ...this.locate(file) }]);
+            continue;
+          }
+
+          const song = await this.createSongFromFile(file, sidecars.get(file), undefined, fileHash);
           if (song) {
-            songs.push(song);
+            // Files from the file input have no handle to reopen them by after a reload
+            const stored = { ...song, opfsPath: await trackFileService.storeFallbackCopy(song, file) };
+            await libraryRepository.addSong(stored);
+            songs.push(stored);
           }
         } catch (error) {
           console.log(`Could not process file ${file.name}:`, error);
         }
       }
 
-      // Store found songs in database
-      for (const song of songs) {
-        try {
-          await musicDB.addSong(song);
-        } catch (error) {
-          // Song might already exist, try to update
-          try {
-            await musicDB.updateSong(song);
-          } catch (updateError) {
-            console.log('Could not add/update song:', song.title, updateError);
-          }
-        }
-      }
-
       toast.success(`Added ${songs.length} music files to your library`);
       return songs;
     } catch (error) {
@@ -56,51 +78,229 @@ export class MusicScanner {
     }
   }
 
-  async scanForDirectoryMusic(): Promise<Song[]> {
+  async scanForDirectoryMusic(): Promise<EnhancedSong[]> {
     try {
       toast.info('Please select a folder containing music...');
       
       // Use web audio service to request directory access
-      const files = await webAudioService.requestDirectoryAccess();
+      const selection = await webAudioService.requestDirectoryAccess();
       
-      if (files.length === 0) {
+      if (!selection || selection.files.length === 0) {
         toast.info('No files found in selected directory');
         return [];
       }
 
-      const songs: Song[] = [];
-      
-      // Process each file
-      for (const file of files) {
-        try {
-          const song = await this.createSongFromFile(file);
-          if (song) {
-            songs.push(song);
-          }
-        } catch (error) {
-          console.log(`Could not process file ${file.name}:`, error);
+      const result = await this.importFolder(selection);
+      toast.success(`Added ${result.added.length} music files from directory`);
+      return result.added;
+    } catch (error) {
+      toast.error('Failed to access directory');
+      console.error('Directory scan error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remember a chosen folder and bring the library in step with its files
+   */
+  async importFolder(selection: DirectorySelection, onProgress?: ScanProgressCallback): Promise<FolderScanResult> {
+    const folder = await libraryRepository.saveLibraryFolder(selection.handle);
+    return this.syncFolder(folder, selection.files, onProgress);
+  }
+
+  /**
+   * Read every remembered folder again, processing only new and changed files; null when there are none
+   */
+  async rescanLibrary(onProgress?: ScanProgressCallback): Promise<FolderScanResult | null> {
+    const folders = await libraryRepository.getLibraryFolders();
+    const total = emptyResult();
+
+    if (folders.length === 0) {
+      toast.info('No music folders to rescan. Add a folder first.');
+      return null;
+    }
+
+    for (const [index, folder] of folders.entries()) {
+      try {
+        if (!(await webAudioService.ensureDirectoryPermission(folder.handle))) {
+          toast.warning(`Skipped "${folder.name}": permission to read it was not granted`);
+          continue;
         }
+
+        const files = await webAudioService.readDirectory(folder.handle);
+        const result = await this.syncFolder(folder, files, onProgress && ((progress, fileName) =>
+          onProgress((index + progress / 100) / folders.length * 100, fileName)
+        ));
+        total.added.push(...result.added);
+        total.updated += result.updated;
+        total.moved += result.moved;
+        total.missing += result.missing;
+        total.unchanged += result.unchanged;
+      } catch (error) {
+        console.error(`Could not rescan ${folder.name}:`, error);
+        toast.error(`Could not rescan "${folder.name}"`);
       }
+    }
 
-      // Store found songs in database
-      for (const song of songs) {
-        try {
-          await musicDB.addSong(song);
-        } catch (error) {
-          try {
-            await musicDB.updateSong(song);
-          } catch (updateError) {
-            console.log('Could not add/update song:', song.title, updateError);
+    return total;
+  }
+
+  /**
+   * Match a folder's files against the songs imported from it: unchanged files are only pointed at
+   * again, changed files are re-read, files with a known hash at a new path are moves, and songs
+   * whose files are gone are marked missing
+   */
+  private async syncFolder(folder: LibraryFolder, files: File[], onProgress?: ScanProgressCallback): Promise<FolderScanResult> {
+    const result = emptyResult();
+    const pathOf = (file: File) => webAudioService.getRelativePath(file);
+    const { otherFiles, covers } = pairFolderArtwork(files, pathOf);
+    const { audioFiles, sidecars } = pairLyricsSidecars(otherFiles, pathOf);
+
+    const known = new Map((await libraryRepository.getSongsInFolder(folder.id)).map(song => [song.relativePath, song]));
+    const locations: Array<Pick<EnhancedSong, 'id'> & SongLocation> = [];
+    const pending: File[] = [];
+
+    for (const file of audioFiles) {
+      const song = known.get(pathOf(file));
+      if (song && song.size === file.size && song.lastModified === file.lastModified) {
+        locations.push({ id: song.id, ...this.locate(file, this.sessionUrlFor(file, song)) });
+        result.unchanged++;
+      } else {
+        pending.push(file);
+      }
+    }
+
+    // Songs whose paths were not found may turn up elsewhere as moves
+    const paths = new Set(audioFiles.map(pathOf));
+    const vanished = new Map([...known.values()]
+      .filter(song => !paths.has(song.relativePath ?? ''))
+      .map(song => [song.id, song]));
+    // Songs already matched to a file in this scan, so identical copies are not both taken as the move
+    const claimed = new Set<string>();
+
+    for (const [index, file] of pending.entries()) {
+      onProgress?.((index / pending.length) * 100, file.name);
+      const relativePath = pathOf(file);
+      const place = { folderId: folder.id, relativePath };
+
+      try {
+        const fileHash = await enhancedDB.calculateFileHash(file);
+        const previous = known.get(relativePath);
+
+        if (previous?.fileHash === fileHash) {
+          // Touched but not changed
+          this.releaseObjectUrl(previous);
+          locations.push({ id: previous.id, ...this.locate(file), ...place });
+          result.unchanged++;
+        } else if (previous) {
+          const song = await this.createSongFromFile(file, sidecars.get(file), covers.get(file), fileHash);
+          if (!song) continue;
+          this.releaseObjectUrl(previous);
+          const location = { ...this.locate(file, song.filePath), ...place };
+          await libraryRepository.updateSong(this.keepLibraryData({ ...song, ...location }, previous));
+          result.updated++;
+        } else {
+          const moved = await this.findMovedSong(fileHash, vanished, claimed);
+          if (moved) {
+            // The song keeps its id, so its history and playlist entries follow the file
+            vanished.delete(moved.id);
+            claimed.add(moved.id);
+            this.releaseObjectUrl(moved);
+            locations.push({ id: moved.id, ...this.locate(file), ...place });
+            result.moved++;
+            continue;
           }
+
+          const song = await this.createSongFromFile(file, sidecars.get(file), covers.get(file), fileHash);
+          if (!song) continue;
+          const added = { ...song, ...this.locate(file, song.filePath), ...place };
+          await libraryRepository.addSong(added);
+          result.added.push(added);
         }
+      } catch (error) {
+        console.log(`Could not process file ${file.name}:`, error);
       }
+    }
 
-      toast.success(`Added ${songs.length} music files from directory`);
-      return songs;
-    } catch (error) {
-      toast.error('Failed to access directory');
-      console.error('Directory scan error:', error);
-      return [];
+    vanished.forEach(song => {
+      if (!song.missing) locations.push({ id: song.id, missing: true });
+      result.missing++;
+    });
+
+    await libraryRepository.updateSongLocations(locations);
+    await libraryRepository.updateLibraryFolder(folder.id, { lastScannedAt: new Date() });
+    onProgress?.(100, '');
+    return result;
+  }
+
+  /**
+   * A song whose file was not found where it was and has the given contents: one vanished from this
+   * folder, one already marked missing, or one picked on its own whose file URL no longer works
+   */
+  private async findMovedSong(
+    fileHash: string,
+    vanished: Map<string, EnhancedSong>,
+    claimed: Set<string>
+  ): Promise<EnhancedSong | undefined> {
+    for (const song of vanished.values()) {
+      if (song.fileHash === fileHash) return song;
+    }
+    const matches = (await libraryRepository.getSongsByFileHash(fileHash)).filter(song => !claimed.has(song.id));
+    return matches.find(song => song.missing) ?? matches.find(song => !song.folderId);
+  }
+
+  /**
+   * The file-independent parts of a song carry over when its file is read again
+   */
+  private keepLibraryData(song: EnhancedSong, previous: EnhancedSong): EnhancedSong {
+    // Lyrics follow the file only when they came from it; older records carry no edit flag, so
+    // tag lyrics that no longer match the file's are taken to have been changed in the app
+    const keepLyrics = previous.lyricsEdited ||
+      (!previous.lrcFile && !song.lrcFile && !!previous.lyrics && previous.lyrics !== song.lyrics);
+
+    return {
+      ...song,
+      id: previous.id,
+      dateAdded: previous.dateAdded,
+      playCount: previous.playCount,
+      skipCount: previous.skipCount,
+      lastPlayed: previous.lastPlayed,
+      lastPosition: previous.lastPosition,
+      bookmarks: previous.bookmarks,
+      lyrics: keepLyrics ? previous.lyrics : song.lyrics ?? previous.lyrics,
+      lrcFile: keepLyrics ? previous.lrcFile : song.lrcFile ?? previous.lrcFile,
+      lyricsEdited: previous.lyricsEdited,
+      artworkHash: song.artworkHash ?? previous.artworkHash
+    };
+  }
+
+  /**
+   * Where a file is found now; pass the object URL when the file already has one
+   */
+  private locate(file: File, objectUrl = webAudioService.createObjectURL(file)): SongLocation {
+    return {
+      filePath: objectUrl,
+      fileHandle: webAudioService.getFileHandle(file),
+      size: file.size,
+      lastModified: file.lastModified,
+      missing: false
+    };
+  }
+
+  /**
+   * The object URL an unchanged file got earlier this session, so rescans don't mint one per file each time
+   */
+  private sessionUrlFor(file: File, song: EnhancedSong): string {
+    if (song.filePath.startsWith('blob:') && webAudioService.isUsableUrl(song.filePath)) return song.filePath;
+    return webAudioService.createObjectURL(file);
+  }
+
+  /**
+   * Revoke the object URL a song is about to be pointed away from
+   */
+  private releaseObjectUrl(song: EnhancedSong): void {
+    if (song.filePath.startsWith('blob:')) {
+      webAudioService.revokeObjectURL(song.filePath);
     }
   }
 
@@ -109,10 +309,14 @@ export class MusicScanner {
     return this.supportedFormats.includes(extension);
   }
 
-  private async createSongFromFile(file: File): Promise<Song | null> {
+  private async createSongFromFile(file: File, lyricsFile?: File, folderImage?: File, fileHash?: string): Promise<EnhancedSong | null> {
     try {
       // Use web audio service to extract metadata
       const metadata = await webAudioService.extractMetadata(file);
+      const { fields: tagFields, coverArt } = await MetadataService.readImportTags(file);
+      const customTags = await MetadataService.readCustomTags(file);
+      const { lyrics, lrcFile } = await MetadataService.readLyrics(file, lyricsFile);
+      const artworkHash = await artworkService.importArtwork(coverArt, folderImage);
       
       // Create object URL for playback
       const objectUrl = webAudioService.createObjectURL(file);
@@ -120,18 +324,29 @@ export class MusicScanner {
       // Generate unique ID
       const id = `song_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      const song: Song = {
+      const song: EnhancedSong = {
         id,
         title: metadata.title,
         artist: metadata.artist,
         album: metadata.album,
         duration: metadata.duration,
         filePath: objectUrl, // Use object URL for web playback
+        fileHandle: webAudioService.getFileHandle(file),
         size: file.size,
+        lastModified: file.lastModified,
         dateAdded: new Date(),
         playCount: 0,
         genre: metadata.genre,
-        year: metadata.year
+        year: metadata.year,
+        ...tagFields, // Tags win over the guesses from the file name
+        format: enhancedDB.detectAudioFormat(file.name, file.type),
+        fileHash: fileHash ?? await enhancedDB.calculateFileHash(file),
+        bookmarks: [],
+        customTags,
+        loudness: MetadataService.parseReplayGain(customTags),
+        lyrics,
+        lrcFile,
+        artworkHash
       };
 
       return song;
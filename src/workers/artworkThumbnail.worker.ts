@@ -0,0 +1,57 @@
+export interface ArtworkThumbnailRequest {
+  id: number;
+  image: Blob;
+  sizes: number[]; // Longest edge of each thumbnail, in pixels
+}
+
+interface ThumbnailResult {
+  width: number;
+  height: number;
+  thumbnails: Array<Blob | undefined>; // In the order of the requested sizes
+}
+
+export type ArtworkThumbnailResponse =
+  | ({ id: number } & ThumbnailResult)
+  | { id: number; error: string };
+
+const THUMBNAIL_TYPE = 'image/jpeg';
+const THUMBNAIL_QUALITY = 0.85;
+
+/**
+ * Downscale an image to each size; images already smaller than a size get no thumbnail for it
+ */
+async function makeThumbnails(image: Blob, sizes: number[]): Promise<ThumbnailResult> {
+  const bitmap = await createImageBitmap(image);
+  const { width, height } = bitmap;
+  const longest = Math.max(width, height);
+
+  try {
+    const thumbnails = await Promise.all(sizes.map(async size => {
+      if (longest <= size) return undefined;
+
+      const scale = size / longest;
+      const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('2D canvas is not available');
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      return canvas.convertToBlob({ type: THUMBNAIL_TYPE, quality: THUMBNAIL_QUALITY });
+    }));
+    return { width, height, thumbnails };
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<ArtworkThumbnailRequest>) => {
+  const request = event.data;
+
+  let response: ArtworkThumbnailResponse;
+  try {
+    response = { id: request.id, ...(await makeThumbnails(request.image, request.sizes)) };
+  } catch (error) {
+    response = { id: request.id, error: (error as Error).message };
+  }
+
+  self.postMessage(response);
+});
@@ -0,0 +1,46 @@
+import { extractAudioFeatures, ExtractedAudioFeatures } from '@/services/analysis/featureExtraction';
+import { LoudnessMeter, LoudnessMeasurement } from '@/services/analysis/loudness';
+
+/**
+ * Loudness arrives in chunks under one meter id; the final chunk answers with the measurement
+ */
+export type AudioAnalysisRequest =
+  | { id: number; kind: 'features'; samples: Float32Array; sampleRate: number }
+  | { id: number; kind: 'loudness'; meter: number; channels: Float32Array[]; sampleRate: number; final: boolean };
+
+export type AudioAnalysisResponse =
+  | { id: number; features: ExtractedAudioFeatures }
+  | { id: number; loudness: LoudnessMeasurement }
+  | { id: number; received: true }
+  | { id: number; error: string };
+
+const meters = new Map<number, LoudnessMeter>();
+
+function measureChunk(request: Extract<AudioAnalysisRequest, { kind: 'loudness' }>): AudioAnalysisResponse {
+  let meter = meters.get(request.meter);
+  if (!meter) {
+    meter = new LoudnessMeter(request.channels.length, request.sampleRate);
+    meters.set(request.meter, meter);
+  }
+  meter.push(request.channels);
+  if (!request.final) return { id: request.id, received: true };
+
+  meters.delete(request.meter);
+  return { id: request.id, loudness: meter.finish() };
+}
+
+self.addEventListener('message', (event: MessageEvent<AudioAnalysisRequest>) => {
+  const request = event.data;
+
+  let response: AudioAnalysisResponse;
+  try {
+    response = request.kind === 'features'
+      ? { id: request.id, features: extractAudioFeatures(request.samples, request.sampleRate) }
+      : measureChunk(request);
+  } catch (error) {
+    if (request.kind === 'loudness') meters.delete(request.meter);
+    response = { id: request.id, error: (error as Error).message };
+  }
+
+  self.postMessage(response);
+});